@@ -0,0 +1,409 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { Search, ShieldAlert, UserPlus } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import { InviteUserDialog } from '@/components/invite-user-dialog'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import {
+  useAdminUsers,
+  usePendingInvitations,
+  useProfileAuditLog,
+  type AdminUserFilters,
+} from '@/hooks/use-admin-users'
+import { useProfiles } from '@/hooks/use-profiles'
+import { roleLabels, setUserActive, updateUserRole, userRoles } from '@/lib/admin-users'
+import type { Profile, ProfileAuditEntry, UserRole } from '@/lib/supabase/types'
+
+const ALL = 'all'
+
+export default function AdminUsersPage() {
+  return (
+    <ProtectedRoute>
+      <AdminUsersContent />
+    </ProtectedRoute>
+  )
+}
+
+function AdminUsersContent() {
+  const { user } = useAuth()
+  const { canManageUsers } = usePermissions()
+  const [search, setSearch] = useState('')
+  const [filters, setFilters] = useState<AdminUserFilters>({})
+  const [inviteOpen, setInviteOpen] = useState(false)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const { users, loading, refetch } = useAdminUsers(filters)
+  const { invitations, refetch: refetchInvitations } = usePendingInvitations()
+  const { entries, loading: auditLoading, refetch: refetchAudit } = useProfileAuditLog()
+  const { profiles: allProfiles } = useProfiles()
+
+  useEffect(() => {
+    const trimmed = search.trim()
+    if (trimmed === (filters.search || '')) return
+
+    const timeoutId = setTimeout(() => setFilters((current) => ({ ...current, search: trimmed || undefined })), 300)
+    return () => clearTimeout(timeoutId)
+  }, [search])
+
+  const profileNames = new Map(allProfiles.map((profile) => [profile.id, profile.full_name || profile.email]))
+
+  const handleRoleChange = async (target: Profile, role: UserRole) => {
+    if (role === target.role) return
+
+    setSavingId(target.id)
+    try {
+      await updateUserRole(target.id, role)
+      toast.success(`${target.full_name || target.email}'s platform role is now ${roleLabels[role]}`)
+      refetch()
+      refetchAudit()
+    } catch (error) {
+      console.error('Error updating role:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update role')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleToggleActive = async (target: Profile) => {
+    const activate = !!target.deactivated_at
+    if (!activate && !confirm(`Deactivate ${target.full_name || target.email}? They will be signed out and unable to sign in.`)) return
+
+    setSavingId(target.id)
+    try {
+      await setUserActive(target.id, activate)
+      toast.success(activate ? 'Account reactivated' : 'Account deactivated')
+      refetch()
+      refetchAudit()
+    } catch (error) {
+      console.error('Error updating account status:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update account status')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const describeAuditEntry = (entry: ProfileAuditEntry) => {
+    const target = entry.profile_id ? profileNames.get(entry.profile_id) || 'Unknown User' : ''
+    switch (entry.action) {
+      case 'role_changed':
+        return `changed ${target}'s role from ${roleLabels[entry.old_value as UserRole] || entry.old_value} to ${roleLabels[entry.new_value as UserRole] || entry.new_value}`
+      case 'deactivated':
+        return `deactivated ${target}`
+      case 'reactivated':
+        return `reactivated ${target}`
+      case 'invited':
+        return `invited ${entry.new_value}`
+    }
+  }
+
+  if (!canManageUsers) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+                <CardTitle>Admins Only</CardTitle>
+                <CardDescription>You don&apos;t have permission to manage users.</CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Users</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+              <p className="text-muted-foreground">
+                Manage platform roles, access and invitations. Team roles are set in each team&apos;s settings.
+              </p>
+            </div>
+            <Button onClick={() => setInviteOpen(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite User
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2 flex-1 min-w-[200px]">
+              <Label htmlFor="user-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="user-search"
+                  placeholder="Name or email..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Platform Role</Label>
+              <Select
+                value={filters.role || ALL}
+                onValueChange={(value) =>
+                  setFilters((current) => ({ ...current, role: value === ALL ? undefined : (value as UserRole) }))
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All roles</SelectItem>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {roleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={filters.status || ALL}
+                onValueChange={(value) =>
+                  setFilters((current) => ({
+                    ...current,
+                    status: value === ALL ? undefined : (value as AdminUserFilters['status']),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All accounts</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="deactivated">Deactivated</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{loading ? 'Loading users...' : `${users.length} User${users.length === 1 ? '' : 's'}`}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-2">
+                  {[...Array(5)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : users.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No users match these filters</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Platform Role</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((target) => {
+                      const isSelf = target.id === user?.id
+                      const saving = savingId === target.id
+                      return (
+                        <TableRow key={target.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <Avatar className="h-8 w-8">
+                                <AvatarImage src={target.avatar_url || ''} />
+                                <AvatarFallback>{(target.full_name || target.email).charAt(0)}</AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <p className="font-medium">
+                                  {target.full_name || 'Unnamed'}
+                                  {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                                </p>
+                                <p className="text-xs text-muted-foreground">{target.email}</p>
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={target.role}
+                              onValueChange={(value) => handleRoleChange(target, value as UserRole)}
+                              disabled={isSelf || saving}
+                            >
+                              <SelectTrigger className="w-[150px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {userRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {roleLabels[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {target.deactivated_at ? (
+                              <Badge className="bg-red-500/10 text-red-700 border-red-500/20">Deactivated</Badge>
+                            ) : (
+                              <Badge className="bg-green-500/10 text-green-700 border-green-500/20">Active</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{format(new Date(target.created_at), 'MMM d, yyyy')}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant={target.deactivated_at ? 'outline' : 'ghost'}
+                              size="sm"
+                              onClick={() => handleToggleActive(target)}
+                              disabled={isSelf || saving}
+                            >
+                              {target.deactivated_at ? 'Reactivate' : 'Deactivate'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Pending Invitations</CardTitle>
+                <CardDescription>Invites whose account has not been created yet</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {invitations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No pending invitations</p>
+                ) : (
+                  invitations.map((invitation) => (
+                    <div key={invitation.id} className="flex items-center justify-between text-sm">
+                      <div>
+                        <p className="font-medium">{invitation.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Invited {formatDistanceToNow(new Date(invitation.created_at), { addSuffix: true })}
+                          {invitation.invited_by && ` by ${profileNames.get(invitation.invited_by) || 'Unknown User'}`}
+                        </p>
+                      </div>
+                      <Badge variant="outline">{roleLabels[invitation.role]}</Badge>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Audit Trail</CardTitle>
+                <CardDescription>Role changes, deactivations and invitations</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {auditLoading ? (
+                  <Skeleton className="h-24 w-full" />
+                ) : entries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+                ) : (
+                  entries.map((entry) => (
+                    <div key={entry.id} className="text-sm">
+                      <p>
+                        <span className="font-medium">
+                          {entry.actor_id ? profileNames.get(entry.actor_id) || 'Unknown User' : 'System'}
+                        </span>
+                        {' '}
+                        {describeAuditEntry(entry)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        <InviteUserDialog
+          open={inviteOpen}
+          onOpenChange={setInviteOpen}
+          onInvited={() => {
+            refetch()
+            refetchInvitations()
+            refetchAudit()
+          }}
+        />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
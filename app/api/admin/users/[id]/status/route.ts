@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/supabase/admin'
+import { createServiceClient } from '@/lib/supabase/server'
+
+export const runtime = 'nodejs'
+
+// Supabase has no permanent ban, so deactivation bans for ~100 years
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { client, error: authError } = await requireAdmin(request)
+  if (authError) return authError
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+
+  if (typeof body?.active !== 'boolean') {
+    return NextResponse.json({ error: '`active` must be a boolean' }, { status: 400 })
+  }
+
+  // Runs as the admin so the guard trigger and audit log see who did it
+  const { error: updateError } = await client.rpc('set_user_active', { p_user_id: id, p_active: body.active })
+
+  if (updateError) {
+    const status = updateError.code === '23514' ? 400 : updateError.code === 'P0002' ? 404 : 500
+    if (status === 500) console.error('Error updating user status:', updateError)
+    return NextResponse.json({ error: updateError.message }, { status })
+  }
+
+  const { error: banError } = await createServiceClient().auth.admin.updateUserById(id, {
+    ban_duration: body.active ? 'none' : DEACTIVATED_BAN_DURATION,
+  })
+
+  if (banError) {
+    console.error('Error updating auth ban:', banError)
+    await client.rpc('set_user_active', { p_user_id: id, p_active: !body.active })
+    return NextResponse.json({ error: 'Failed to update sign-in access' }, { status: 502 })
+  }
+
+  return NextResponse.json({ active: body.active })
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/supabase/admin'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { UserRole } from '@/lib/supabase/types'
+
+export const runtime = 'nodejs'
+
+const roles: UserRole[] = ['admin', 'team_member', 'user', 'guest']
+
+export async function POST(request: Request) {
+  const { client, user, error: authError } = await requireAdmin(request)
+  if (authError) return authError
+
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const role = body?.role as UserRole
+  const fullName = typeof body?.fullName === 'string' ? body.fullName.trim() : ''
+  const teamId = typeof body?.teamId === 'string' && body.teamId ? body.teamId : null
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return NextResponse.json({ error: 'A valid email address is required' }, { status: 400 })
+  }
+  if (!roles.includes(role)) {
+    return NextResponse.json({ error: 'Invalid role' }, { status: 400 })
+  }
+
+  // Without a team the new account joins the default team on signup
+  if (teamId) {
+    const { data: team } = await client.from('teams').select('id').eq('id', teamId).maybeSingle()
+    if (!team) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 400 })
+    }
+  }
+
+  const { data: existing } = await client.from('profiles').select('id').ilike('email', email).maybeSingle()
+  if (existing) {
+    return NextResponse.json({ error: 'A user with this email already exists' }, { status: 409 })
+  }
+
+  const { data: invitation, error: inviteError } = await client
+    .from('user_invitations')
+    .insert({ email, role, team_id: teamId, invited_by: user.id })
+    .select('id')
+    .single()
+
+  if (inviteError) {
+    const status = inviteError.code === '23505' ? 409 : 500
+    const message = status === 409 ? 'This email already has a pending invitation' : 'Failed to create invitation'
+    if (status === 500) console.error('Error creating invitation:', inviteError)
+    return NextResponse.json({ error: message }, { status })
+  }
+
+  try {
+    const appUrl = (process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin).replace(/\/$/, '')
+    const { error } = await createServiceClient().auth.admin.inviteUserByEmail(email, {
+      data: { full_name: fullName },
+      redirectTo: `${appUrl}/login`,
+    })
+
+    if (error) throw error
+  } catch (error) {
+    console.error('Error sending invitation email:', error)
+    await client.from('user_invitations').delete().eq('id', (invitation as { id: string }).id)
+    return NextResponse.json({ error: 'Failed to send invitation email' }, { status: 502 })
+  }
+
+  return NextResponse.json({ id: (invitation as { id: string }).id }, { status: 201 })
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { isValidTimeZone, renderCalendarFeed } from '@/lib/calendar-feed'
+import { createServiceClient } from '@/lib/supabase/server'
+import type { CalendarFeedRequest } from '@/lib/supabase/types'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Private ICS feed of a user's deadlines. Calendar apps cannot sign in, so
+// the secret token in the URL is the only credential.
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const feedToken = token.replace(/\.ics$/, '')
+  const requestedTimeZone = new URL(request.url).searchParams.get('tz') || 'UTC'
+  const timeZone = isValidTimeZone(requestedTimeZone) ? requestedTimeZone : 'UTC'
+
+  try {
+    const client = createServiceClient()
+    const { data: owner, error: ownerError } = await client
+      .from('calendar_feed_tokens')
+      .select('user_id')
+      .eq('token', feedToken)
+      .maybeSingle()
+
+    if (ownerError) throw ownerError
+    if (!owner) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const { data, error } = await client.rpc('calendar_feed_requests', { p_token: feedToken })
+    if (error) throw error
+
+    return new NextResponse(renderCalendarFeed((data || []) as CalendarFeedRequest[], timeZone), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="reque-deadlines.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error rendering calendar feed:', error)
+    return NextResponse.json({ error: 'Failed to render calendar feed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getJob } from '@/lib/jobs/registry'
+import { verifyCronRequest } from '@/lib/notifications/cron'
+import { createServiceClient } from '@/lib/supabase/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Runs one job from lib/jobs/registry.ts by name, e.g. /api/jobs/due-dates
+async function handle(request: Request, { params }: { params: Promise<{ name: string }> }) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) return unauthorized
+
+  const { name } = await params
+  const job = getJob(name)
+
+  if (!job) {
+    return NextResponse.json({ error: `Unknown job: ${name}` }, { status: 404 })
+  }
+
+  try {
+    const result = await job.run(createServiceClient())
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error(`Error running job ${name}:`, error)
+    return NextResponse.json({ error: `Failed to run job ${name}` }, { status: 500 })
+  }
+}
+
+export { handle as GET, handle as POST }
@@ -1,5 +1,7 @@
 'use client'
 
+import Link from 'next/link'
+import { format } from 'date-fns'
 import { ProtectedRoute } from '@/components/protected-route'
 import { AppSidebar } from '@/components/app-sidebar'
 import {
@@ -17,7 +19,10 @@ import {
   SidebarTrigger,
 } from '@/components/ui/sidebar'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
 import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useDashboardStats } from '@/hooks/use-dashboard-stats'
 import { ClipboardList, Clock, CheckCircle2, AlertCircle } from 'lucide-react'
 
 export default function Page() {
@@ -30,6 +35,11 @@ export default function Page() {
 
 function DashboardContent() {
   const { profile } = useAuth()
+  const { canViewAllRequests } = usePermissions()
+  const { stats, recentActivity, loading } = useDashboardStats()
+
+  const statValue = (value: number) =>
+    loading ? <Skeleton className="h-8 w-12" /> : <div className="text-2xl font-bold">{value}</div>
 
   return (
     <SidebarProvider>
@@ -60,7 +70,11 @@ function DashboardContent() {
         <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
           <div>
             <h1 className="text-3xl font-bold tracking-tight">Welcome back, {profile?.full_name || 'User'}</h1>
-            <p className="text-muted-foreground">Here&apos;s an overview of your requests</p>
+            <p className="text-muted-foreground">
+              {canViewAllRequests
+                ? "Here's an overview of all team requests"
+                : "Here's an overview of your requests"}
+            </p>
           </div>
 
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -70,7 +84,7 @@ function DashboardContent() {
                 <ClipboardList className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">0</div>
+                {statValue(stats.total)}
                 <p className="text-xs text-muted-foreground">All time</p>
               </CardContent>
             </Card>
@@ -80,7 +94,7 @@ function DashboardContent() {
                 <Clock className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">0</div>
+                {statValue(stats.inProgress)}
                 <p className="text-xs text-muted-foreground">Active requests</p>
               </CardContent>
             </Card>
@@ -90,7 +104,7 @@ function DashboardContent() {
                 <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">0</div>
+                {statValue(stats.completedThisMonth)}
                 <p className="text-xs text-muted-foreground">This month</p>
               </CardContent>
             </Card>
@@ -100,7 +114,7 @@ function DashboardContent() {
                 <AlertCircle className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">0</div>
+                {statValue(stats.urgent)}
                 <p className="text-xs text-muted-foreground">Requires attention</p>
               </CardContent>
             </Card>
@@ -109,12 +123,49 @@ function DashboardContent() {
           <Card>
             <CardHeader>
               <CardTitle>Recent Activity</CardTitle>
-              <CardDescription>Your latest request updates</CardDescription>
+              <CardDescription>
+                {canViewAllRequests ? 'Latest updates across the team' : 'Your latest request updates'}
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="flex items-center justify-center h-32 text-muted-foreground">
-                No recent activity
-              </div>
+              {loading ? (
+                <div className="space-y-2">
+                  {[1, 2, 3].map((i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : recentActivity.length === 0 ? (
+                <div className="flex items-center justify-center h-32 text-muted-foreground">
+                  No recent activity
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {recentActivity.map((item) => (
+                    <div key={item.id} className="flex gap-3 text-sm">
+                      <Clock className="h-4 w-4 text-muted-foreground mt-0.5" />
+                      <div className="flex-1">
+                        <p>
+                          <span className="font-medium">{item.actor?.full_name || (item.user_id ? 'User' : 'ReQue')}</span>
+                          {' '}
+                          {item.activity_type.replace(/_/g, ' ')}
+                          {item.new_value && !['request_created', 'comment_added', 'note_added', 'description_changed', 'due_date_changed', 'sla_breached', 'due_date_reminder'].includes(item.activity_type) && ` to ${item.new_value}`}
+                          {item.request && (
+                            <>
+                              {' on '}
+                              <Link href={`/reque/request/${item.request.id}`} className="font-medium hover:underline">
+                                {item.request.title}
+                              </Link>
+                            </>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
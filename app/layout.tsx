@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 import { Inter, JetBrains_Mono } from "next/font/google"
 import { Analytics } from "@vercel/analytics/next"
 import { AuthProvider } from "@/contexts/auth-context"
+import { TeamProvider } from "@/contexts/team-context"
 import { Toaster } from "sonner"
 import "./globals.css"
 
@@ -26,8 +27,10 @@ export default function RootLayout({
     <html lang="en">
       <body className={`font-sans antialiased`}>
         <AuthProvider>
-          {children}
-          <Toaster position="top-right" richColors />
+          <TeamProvider>
+            {children}
+            <Toaster position="top-right" richColors />
+          </TeamProvider>
         </AuthProvider>
         <Analytics />
       </body>
@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { LogIn } from 'lucide-react'
 import { toast } from 'sonner'
+import { getLandingPath } from '@/lib/saved-views'
 
 export default function LoginPage() {
   const [email, setEmail] = useState('')
@@ -20,7 +21,7 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (!authLoading && user) {
-      router.push('/dashboard')
+      getLandingPath().then((path) => router.push(path))
     }
   }, [user, authLoading, router])
 
@@ -37,7 +38,7 @@ export default function LoginPage() {
       setLoading(false)
     } else {
       toast.success('Welcome back!')
-      router.push('/dashboard')
+      router.push(await getLandingPath())
     }
   }
 
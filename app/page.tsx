@@ -4,6 +4,7 @@ import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/auth-context'
 import { Skeleton } from '@/components/ui/skeleton'
+import { getLandingPath } from '@/lib/saved-views'
 
 export default function HomePage() {
   const router = useRouter()
@@ -12,7 +13,7 @@ export default function HomePage() {
   useEffect(() => {
     if (!loading) {
       if (user) {
-        router.push('/dashboard')
+        getLandingPath().then((path) => router.push(path))
       } else {
         router.push('/login')
       }
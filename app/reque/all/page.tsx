@@ -1,5 +1,7 @@
 'use client'
 
+import { Suspense, useState } from 'react'
+import { BookmarkPlus } from 'lucide-react'
 import { ProtectedRoute } from '@/components/protected-route'
 import { AppSidebar } from '@/components/app-sidebar'
 import {
@@ -16,8 +18,15 @@ import {
   SidebarProvider,
   SidebarTrigger,
 } from '@/components/ui/sidebar'
+import { Button } from '@/components/ui/button'
 import { RequestList } from '@/components/request-list'
+import { RequestFiltersBar } from '@/components/request-filters-bar'
+import { SaveViewDialog } from '@/components/save-view-dialog'
 import { useRequests } from '@/hooks/use-requests'
+import { useRequestPresence } from '@/hooks/use-request-presence'
+import { useRequestFilters } from '@/hooks/use-request-filters'
+import { hasActiveFilters, serializeRequestFilters } from '@/lib/request-filters'
+import { getSavedViewPath, toViewQuery } from '@/lib/saved-views'
 import { usePermissions } from '@/hooks/use-permissions'
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
@@ -25,15 +34,20 @@ import { useEffect } from 'react'
 export default function AllRequestsPage() {
   return (
     <ProtectedRoute>
-      <AllRequestsContent />
+      <Suspense>
+        <AllRequestsContent />
+      </Suspense>
     </ProtectedRoute>
   )
 }
 
 function AllRequestsContent() {
-  const { requests, loading } = useRequests()
+  const { filters, updateFilters, setPage, toggleSort, resetFilters } = useRequestFilters()
+  const { requests, totalCount, loading, refetch, fetchMatching } = useRequests(filters)
+  const viewers = useRequestPresence(requests.map((request) => request.id))
   const { canViewAllRequests } = usePermissions()
   const router = useRouter()
+  const [saveViewOpen, setSaveViewOpen] = useState(false)
 
   useEffect(() => {
     if (!loading && !canViewAllRequests) {
@@ -74,14 +88,37 @@ function AllRequestsContent() {
           </div>
         </header>
         <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
-          <div>
-            <h1 className="text-3xl font-bold tracking-tight">All Requests</h1>
-            <p className="text-muted-foreground">View and manage all requests in the system</p>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">All Requests</h1>
+              <p className="text-muted-foreground">View and manage all requests in the system</p>
+            </div>
+            <Button variant="outline" onClick={() => setSaveViewOpen(true)}>
+              <BookmarkPlus className="h-4 w-4 mr-2" />
+              Save View
+            </Button>
           </div>
 
-          <RequestList requests={requests} loading={loading} />
+          <RequestFiltersBar filters={filters} onChange={updateFilters} onReset={resetFilters} />
+
+          <RequestList
+            requests={requests}
+            loading={loading}
+            viewers={viewers}
+            filtered={hasActiveFilters(filters)}
+            sort={{ column: filters.sort, ascending: filters.ascending, onSort: toggleSort }}
+            pagination={{ page: filters.page, pageSize: filters.pageSize, totalCount, onPageChange: setPage }}
+            bulk={{ fetchMatching, scope: serializeRequestFilters({ ...filters, page: 1 }).toString(), onComplete: refetch }}
+          />
         </div>
       </SidebarInset>
+      <SaveViewDialog
+        open={saveViewOpen}
+        onOpenChange={setSaveViewOpen}
+        query={toViewQuery(filters)}
+        columns={null}
+        onSaved={(view) => router.push(getSavedViewPath(view.id))}
+      />
     </SidebarProvider>
   )
 }
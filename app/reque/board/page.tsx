@@ -0,0 +1,255 @@
+'use client'
+
+import { Suspense, useEffect, useMemo, useState } from 'react'
+import { toast } from 'sonner'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import { RequestBoard } from '@/components/request-board'
+import { RequestFiltersBar } from '@/components/request-filters-bar'
+import { StatusReasonDialog } from '@/components/status-reason-dialog'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeam } from '@/contexts/team-context'
+import { useBoardWipLimits } from '@/hooks/use-board-wip-limits'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useProfiles } from '@/hooks/use-profiles'
+import { useRequestFilters } from '@/hooks/use-request-filters'
+import { useRequests } from '@/hooks/use-requests'
+import { boardSwimlaneLabels, getWipState, saveWipLimit, type BoardSwimlane } from '@/lib/board'
+import { hasActiveFilters } from '@/lib/request-filters'
+import {
+  canTransition,
+  isReopen,
+  statusLabels,
+  transitionRequiresReason,
+  updateRequestStatus,
+} from '@/lib/request-status'
+import type { Request, RequestStatus } from '@/lib/supabase/types'
+
+const SWIMLANE_STORAGE_KEY = 'reque:board-swimlane'
+
+export default function BoardPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense>
+        <BoardContent />
+      </Suspense>
+    </ProtectedRoute>
+  )
+}
+
+function BoardContent() {
+  const { activeTeam } = useTeam()
+  const { filters, updateFilters, resetFilters } = useRequestFilters()
+  // The board shows every status at once and is never paged
+  const { requests, loading } = useRequests({
+    priority: filters.priority,
+    assignedTo: filters.assignedTo,
+    createdBy: filters.createdBy,
+    dueFrom: filters.dueFrom,
+    dueTo: filters.dueTo,
+    search: filters.search,
+  })
+  const { profiles } = useProfiles()
+  const { limits, refetch: refetchLimits } = useBoardWipLimits()
+  const { isAdmin, canEditRequest, canManageTeam } = usePermissions()
+  const [swimlane, setSwimlane] = useState<BoardSwimlane>('none')
+  const [moved, setMoved] = useState<Map<string, RequestStatus>>(new Map())
+  const [pendingMove, setPendingMove] = useState<{ request: Request; status: RequestStatus } | null>(null)
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(SWIMLANE_STORAGE_KEY) as BoardSwimlane | null
+    if (stored && stored in boardSwimlaneLabels) setSwimlane(stored)
+  }, [])
+
+  // Fresh data from the server (realtime or refetch) replaces optimistic moves
+  useEffect(() => {
+    setMoved(new Map())
+  }, [requests])
+
+  const boardRequests = useMemo(
+    () => requests.map((request) => (moved.has(request.id) ? { ...request, status: moved.get(request.id)! } : request)),
+    [requests, moved]
+  )
+  const profilesById = useMemo(() => new Map(profiles.map((profile) => [profile.id, profile])), [profiles])
+  const boardFilters = { ...filters, status: undefined }
+
+  const handleSwimlaneChange = (value: BoardSwimlane) => {
+    setSwimlane(value)
+    window.localStorage.setItem(SWIMLANE_STORAGE_KEY, value)
+  }
+
+  // Same rules as the status control on the request detail page
+  const canMove = (request: Request, status: RequestStatus) =>
+    canEditRequest(request.created_by, request.assigned_to) && canTransition(request.status, status, isAdmin)
+
+  const applyMove = async (request: Request, status: RequestStatus, reason?: string) => {
+    const count = boardRequests.filter((r) => r.status === status).length + 1
+    setMoved((current) => new Map(current).set(request.id, status))
+
+    try {
+      await updateRequestStatus(request.id, status, reason)
+      setPendingMove(null)
+
+      if (getWipState(count, limits[status]) === 'over') {
+        toast.warning(`${statusLabels[status]} is over its WIP limit (${count} / ${limits[status]})`)
+      } else {
+        toast.success(`Moved to ${statusLabels[status]}`)
+      }
+    } catch (error) {
+      console.error('Error updating status:', error)
+      toast.error('Failed to update status')
+      setMoved((current) => {
+        const next = new Map(current)
+        next.delete(request.id)
+        return next
+      })
+    }
+  }
+
+  const handleMove = (request: Request, status: RequestStatus) => {
+    if (transitionRequiresReason(request.status, status)) {
+      setPendingMove({ request, status })
+      return
+    }
+
+    applyMove(request, status)
+  }
+
+  const handleWipLimitChange = async (status: RequestStatus, wipLimit: number | null) => {
+    if (!activeTeam) return
+
+    try {
+      await saveWipLimit(activeTeam.id, status, wipLimit)
+      toast.success(wipLimit ? 'WIP limit saved' : 'WIP limit removed')
+      refetchLimits()
+    } catch (error) {
+      console.error('Error saving WIP limit:', error)
+      toast.error('Failed to save WIP limit')
+    }
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/reque/all">
+                    ReQue
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Board</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Board</h1>
+            <p className="text-muted-foreground">Drag requests between columns to change their status</p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex-1">
+              <RequestFiltersBar
+                filters={boardFilters}
+                onChange={updateFilters}
+                onReset={resetFilters}
+                showStatus={false}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Swimlanes</Label>
+              <Select value={swimlane} onValueChange={(value) => handleSwimlaneChange(value as BoardSwimlane)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(boardSwimlaneLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="grid grid-cols-5 gap-4">
+              {[1, 2, 3, 4, 5].map((i) => (
+                <Skeleton key={i} className="h-64 w-full" />
+              ))}
+            </div>
+          ) : boardRequests.length === 0 && hasActiveFilters(boardFilters) ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>No Matching Requests</CardTitle>
+                <CardDescription>
+                  No requests match the current filters. Try widening your search.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          ) : (
+            <RequestBoard
+              requests={boardRequests}
+              profiles={profilesById}
+              swimlane={swimlane}
+              wipLimits={limits}
+              canEditWipLimits={canManageTeam}
+              canMove={canMove}
+              onMove={handleMove}
+              onWipLimitChange={handleWipLimitChange}
+            />
+          )}
+        </div>
+        <StatusReasonDialog
+          status={pendingMove?.status || null}
+          reopen={!!pendingMove && isReopen(pendingMove.request.status, pendingMove.status)}
+          onConfirm={async (reason) => {
+            if (pendingMove) await applyMove(pendingMove.request, pendingMove.status, reason)
+          }}
+          onCancel={() => setPendingMove(null)}
+        />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { addMonths, addWeeks, format } from 'date-fns'
+import { toast } from 'sonner'
+import { CalendarPlus, ChevronLeft, ChevronRight } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import { CalendarFeedDialog } from '@/components/calendar-feed-dialog'
+import { RequestCalendar } from '@/components/request-calendar'
+import { priorityColors, priorityLabels } from '@/components/request-list'
+import { Badge } from '@/components/ui/badge'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Skeleton } from '@/components/ui/skeleton'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useRequests } from '@/hooks/use-requests'
+import { boardPriorities } from '@/lib/board'
+import { getCalendarDays, rescheduleRequest, toDayKey, type CalendarView } from '@/lib/calendar'
+import type { Request } from '@/lib/supabase/types'
+
+export default function CalendarPage() {
+  return (
+    <ProtectedRoute>
+      <CalendarContent />
+    </ProtectedRoute>
+  )
+}
+
+function CalendarContent() {
+  const { canEditRequest } = usePermissions()
+  const [view, setView] = useState<CalendarView>('month')
+  const [cursor, setCursor] = useState(() => new Date())
+  const [feedOpen, setFeedOpen] = useState(false)
+  const [rescheduled, setRescheduled] = useState<Map<string, string>>(new Map())
+
+  const days = useMemo(() => getCalendarDays(view, cursor), [view, cursor])
+  const { requests, loading } = useRequests({
+    dueFrom: toDayKey(days[0]),
+    dueTo: toDayKey(days[days.length - 1]),
+    sort: 'due_date',
+    ascending: true,
+  })
+
+  // Fresh data from the server (realtime or refetch) replaces optimistic moves
+  useEffect(() => {
+    setRescheduled(new Map())
+  }, [requests])
+
+  const calendarRequests = useMemo(
+    () =>
+      requests.map((request) =>
+        rescheduled.has(request.id) ? { ...request, due_date: rescheduled.get(request.id)! } : request
+      ),
+    [requests, rescheduled]
+  )
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)))
+  }
+
+  const title =
+    view === 'month'
+      ? format(cursor, 'MMMM yyyy')
+      : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`
+
+  const handleReschedule = async (request: Request, day: Date) => {
+    try {
+      const updated = await rescheduleRequest(request, day)
+      setRescheduled((current) => new Map(current).set(request.id, updated.due_date!))
+      toast.success(`Rescheduled to ${format(day, 'MMM d')}`)
+    } catch (error) {
+      console.error('Error rescheduling request:', error)
+      toast.error(error instanceof Error && error.message.startsWith('This request') ? error.message : 'Failed to reschedule request')
+    }
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/reque/all">
+                    ReQue
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Calendar</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Calendar</h1>
+              <p className="text-muted-foreground">Requests on their due dates. Drag one to another day to reschedule it.</p>
+            </div>
+            <Button variant="outline" onClick={() => setFeedOpen(true)}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Subscribe
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label="Previous">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => step(1)} aria-label="Next">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setCursor(new Date())}>
+                Today
+              </Button>
+              <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="hidden items-center gap-2 md:flex">
+                {boardPriorities.map((priority) => (
+                  <Badge key={priority} variant="outline" className={priorityColors[priority]}>
+                    {priorityLabels[priority]}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant={view === 'month' ? 'secondary' : 'ghost'} onClick={() => setView('month')}>
+                  Month
+                </Button>
+                <Button size="sm" variant={view === 'week' ? 'secondary' : 'ghost'} onClick={() => setView('week')}>
+                  Week
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {loading ? (
+            <Skeleton className="h-[480px] w-full" />
+          ) : (
+            <RequestCalendar
+              view={view}
+              month={cursor}
+              days={days}
+              requests={calendarRequests}
+              canReschedule={(request) => canEditRequest(request.created_by, request.assigned_to)}
+              onReschedule={handleReschedule}
+            />
+          )}
+        </div>
+        <CalendarFeedDialog open={feedOpen} onOpenChange={setFeedOpen} />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
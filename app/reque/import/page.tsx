@@ -0,0 +1,434 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { ArrowLeft, ArrowRight, CheckCircle2, FileSpreadsheet, ShieldAlert, Upload } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useTeamMembers } from '@/hooks/use-team-members'
+import {
+  guessColumnMapping,
+  importFieldLabels,
+  importRequests,
+  MAX_IMPORT_ROWS,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportResult,
+} from '@/lib/request-import'
+import { readSpreadsheet, SpreadsheetError, type SpreadsheetRows } from '@/lib/spreadsheet'
+
+type ImportStep = 'upload' | 'map' | 'preview' | 'importing' | 'done'
+
+const NOT_IMPORTED = 'none'
+const MAX_PREVIEW_ROWS = 200
+
+export default function ImportRequestsPage() {
+  return (
+    <ProtectedRoute>
+      <ImportRequestsContent />
+    </ProtectedRoute>
+  )
+}
+
+function ImportRequestsContent() {
+  const { activeTeam } = useTeam()
+  const { canManageTeam } = usePermissions()
+  const { members, loading: membersLoading } = useTeamMembers(activeTeam?.id)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<ImportStep>('upload')
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<SpreadsheetRows>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [reading, setReading] = useState(false)
+  const [skipInvalid, setSkipInvalid] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [results, setResults] = useState<ImportResult[]>([])
+
+  const headers = rows[0] || []
+  const importRows = useMemo(
+    () => (mapping ? validateImportRows(rows.slice(1), mapping, members, 2) : []),
+    [rows, mapping, members]
+  )
+  const validRows = importRows.filter((row) => row.errors.length === 0)
+  const invalidCount = importRows.length - validRows.length
+  const mappedFields = mapping ? (Object.keys(mapping) as ImportField[]).filter((field) => mapping[field] !== null) : []
+
+  const reset = () => {
+    setStep('upload')
+    setFileName('')
+    setRows([])
+    setMapping(null)
+    setSkipInvalid(false)
+    setProgress(0)
+    setResults([])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+
+    setReading(true)
+    try {
+      const parsed = await readSpreadsheet(file)
+      if (parsed.length < 2) {
+        toast.error('The file needs a header row and at least one request')
+        return
+      }
+      if (parsed.length - 1 > MAX_IMPORT_ROWS) {
+        toast.error(`Import at most ${MAX_IMPORT_ROWS.toLocaleString()} rows at a time`)
+        return
+      }
+
+      setFileName(file.name)
+      setRows(parsed)
+      setMapping(guessColumnMapping(parsed[0]))
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      toast.error(error instanceof SpreadsheetError ? error.message : 'Failed to read the file')
+    } finally {
+      setReading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleImport = async () => {
+    if (!activeTeam) return
+
+    const rowsToImport = skipInvalid ? validRows : importRows
+    if (rowsToImport.some((row) => row.errors.length > 0)) {
+      toast.error('Fix the rows with errors or choose to skip them')
+      return
+    }
+
+    setStep('importing')
+    setProgress(0)
+    try {
+      const imported = await importRequests(activeTeam.id, fileName, rowsToImport, setProgress)
+      const failed = imported.filter((result) => !result.requestId).length
+
+      setResults(imported)
+      setStep('done')
+      if (failed > 0) {
+        toast.warning(`Imported ${imported.length - failed} of ${imported.length} requests`)
+      } else {
+        toast.success(`Imported ${imported.length} request${imported.length === 1 ? '' : 's'}`)
+      }
+    } catch (error) {
+      console.error('Error importing requests:', error)
+      toast.error('Failed to import requests')
+      setStep('preview')
+    }
+  }
+
+  if (!canManageTeam) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+                <CardTitle>Team Admins Only</CardTitle>
+                <CardDescription>You don&apos;t have permission to import requests into this team.</CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  const importCount = skipInvalid ? validRows.length : importRows.length
+  const importedCount = results.filter((result) => result.requestId).length
+  const failedResults = results.filter((result) => !result.requestId)
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Import Requests</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Import Requests</h1>
+            <p className="text-muted-foreground">
+              Bring requests into {activeTeam?.name || 'this team'} from a CSV or Excel export
+            </p>
+          </div>
+
+          {step === 'upload' && (
+            <Card className="max-w-2xl">
+              <CardHeader>
+                <CardTitle>Choose a File</CardTitle>
+                <CardDescription>
+                  The first row must hold column headers. Each following row becomes one request.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  className="hidden"
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                />
+                <Button onClick={() => fileInputRef.current?.click()} disabled={reading}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {reading ? 'Reading...' : 'Choose .csv or .xlsx File'}
+                </Button>
+                <p className="text-sm text-muted-foreground">
+                  Status and priority can be given as labels or values, such as &quot;In Progress&quot; or
+                  &quot;in_progress&quot;. Assignees and creators are matched to team members by email, and due dates
+                  should be written as YYYY-MM-DD. Up to {MAX_IMPORT_ROWS.toLocaleString()} rows per file.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'map' && mapping && (
+            <Card className="max-w-2xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileSpreadsheet className="h-5 w-5" />
+                  Map Columns
+                </CardTitle>
+                <CardDescription>
+                  {fileName} has {headers.length} column{headers.length === 1 ? '' : 's'} and {rows.length - 1} row
+                  {rows.length === 2 ? '' : 's'}. Choose which column fills each request field.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {(Object.keys(importFieldLabels) as ImportField[]).map((field) => (
+                  <div key={field} className="grid grid-cols-[160px_1fr] items-center gap-4">
+                    <Label>
+                      {importFieldLabels[field]}
+                      {field === 'title' && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field] === null ? NOT_IMPORTED : String(mapping[field])}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field]: value === NOT_IMPORTED ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>Don&apos;t import</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header.trim() || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <p className="text-sm text-muted-foreground">
+                  Unmapped fields use the defaults: status New, priority Normal, no assignee, and you as the creator.
+                </p>
+                <div className="flex justify-between gap-2">
+                  <Button variant="outline" onClick={reset}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Choose Another File
+                  </Button>
+                  <Button
+                    onClick={() => setStep('preview')}
+                    disabled={mapping.title === null || membersLoading}
+                  >
+                    Preview
+                    <ArrowRight className="h-4 w-4 ml-2" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {(step === 'preview' || step === 'importing') && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {validRows.length} of {importRows.length} row{importRows.length === 1 ? ' is' : 's are'} ready to
+                  import{invalidCount > 0 && `; ${invalidCount} ha${invalidCount === 1 ? 's' : 've'} errors`}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Row</TableHead>
+                        {mappedFields.map((field) => (
+                          <TableHead key={field}>{importFieldLabels[field]}</TableHead>
+                        ))}
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {importRows.slice(0, MAX_PREVIEW_ROWS).map((row) => (
+                        <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+                          <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                          {mappedFields.map((field) => (
+                            <TableCell key={field} className="max-w-[240px] truncate">
+                              {row.cells[field]}
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <ul className="space-y-0.5 text-sm text-destructive">
+                                {row.errors.map((error) => (
+                                  <li key={error}>{error}</li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <Badge variant="outline">Ready</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {importRows.length > MAX_PREVIEW_ROWS && (
+                  <p className="text-sm text-muted-foreground">
+                    Showing the first {MAX_PREVIEW_ROWS} of {importRows.length} rows.
+                    {invalidCount > 0 && ' Rows further down may also have errors.'}
+                  </p>
+                )}
+
+                {invalidCount > 0 && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={skipInvalid}
+                      onChange={(e) => setSkipInvalid(e.target.checked)}
+                      disabled={step === 'importing'}
+                    />
+                    Skip the {invalidCount} row{invalidCount === 1 ? '' : 's'} with errors and import the rest
+                  </label>
+                )}
+
+                {step === 'importing' ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      Importing {progress} of {importCount} requests...
+                    </p>
+                    <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                      <div
+                        className="h-full bg-primary transition-all"
+                        style={{ width: `${importCount > 0 ? (progress / importCount) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-between gap-2">
+                    <Button variant="outline" onClick={() => setStep('map')}>
+                      <ArrowLeft className="h-4 w-4 mr-2" />
+                      Back to Mapping
+                    </Button>
+                    <Button onClick={handleImport} disabled={importCount === 0 || (invalidCount > 0 && !skipInvalid)}>
+                      Import {importCount} Request{importCount === 1 ? '' : 's'}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {step === 'done' && (
+            <Card className="max-w-2xl">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CheckCircle2 className="h-5 w-5 text-green-600" />
+                  Import Finished
+                </CardTitle>
+                <CardDescription>
+                  Imported {importedCount} of {results.length} request{results.length === 1 ? '' : 's'} from {fileName}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {failedResults.length > 0 && (
+                  <div className="text-sm">
+                    <p className="font-medium text-destructive">
+                      {failedResults.length} row{failedResults.length === 1 ? ' was' : 's were'} not imported:
+                    </p>
+                    <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                      {failedResults.map((result) => (
+                        <li key={result.rowNumber}>
+                          <span className="text-foreground">Row {result.rowNumber}</span> — {result.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button asChild>
+                    <Link href="/reque/all">View All Requests</Link>
+                  </Button>
+                  <Button variant="outline" onClick={reset}>
+                    Import Another File
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -1,5 +1,8 @@
 'use client'
 
+import { Suspense, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { BookmarkPlus } from 'lucide-react'
 import { ProtectedRoute } from '@/components/protected-route'
 import { AppSidebar } from '@/components/app-sidebar'
 import {
@@ -16,23 +19,37 @@ import {
   SidebarProvider,
   SidebarTrigger,
 } from '@/components/ui/sidebar'
+import { Button } from '@/components/ui/button'
 import { RequestList } from '@/components/request-list'
+import { RequestFiltersBar } from '@/components/request-filters-bar'
+import { SaveViewDialog } from '@/components/save-view-dialog'
 import { useRequests } from '@/hooks/use-requests'
+import { useRequestPresence } from '@/hooks/use-request-presence'
+import { useRequestFilters } from '@/hooks/use-request-filters'
+import { hasActiveFilters, ME, serializeRequestFilters } from '@/lib/request-filters'
+import { getSavedViewPath, toViewQuery } from '@/lib/saved-views'
 import { useAuth } from '@/contexts/auth-context'
 
 export default function MyRequestsPage() {
   return (
     <ProtectedRoute>
-      <MyRequestsContent />
+      <Suspense>
+        <MyRequestsContent />
+      </Suspense>
     </ProtectedRoute>
   )
 }
 
 function MyRequestsContent() {
   const { user } = useAuth()
-  const { requests, loading } = useRequests({
+  const { filters, updateFilters, setPage, toggleSort, resetFilters } = useRequestFilters()
+  const { requests, totalCount, loading, refetch, fetchMatching } = useRequests({
+    ...filters,
     createdBy: user?.id,
   })
+  const viewers = useRequestPresence(requests.map((request) => request.id))
+  const router = useRouter()
+  const [saveViewOpen, setSaveViewOpen] = useState(false)
 
   return (
     <SidebarProvider>
@@ -67,14 +84,43 @@ function MyRequestsContent() {
           </div>
         </header>
         <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
-          <div>
-            <h1 className="text-3xl font-bold tracking-tight">My Requests</h1>
-            <p className="text-muted-foreground">View and manage your submitted requests</p>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">My Requests</h1>
+              <p className="text-muted-foreground">View and manage your submitted requests</p>
+            </div>
+            <Button variant="outline" onClick={() => setSaveViewOpen(true)}>
+              <BookmarkPlus className="h-4 w-4 mr-2" />
+              Save View
+            </Button>
           </div>
 
-          <RequestList requests={requests} loading={loading} />
+          <RequestFiltersBar
+            filters={filters}
+            onChange={updateFilters}
+            onReset={resetFilters}
+            showCreator={false}
+          />
+
+          <RequestList
+            requests={requests}
+            loading={loading}
+            viewers={viewers}
+            filtered={hasActiveFilters(filters)}
+            sort={{ column: filters.sort, ascending: filters.ascending, onSort: toggleSort }}
+            pagination={{ page: filters.page, pageSize: filters.pageSize, totalCount, onPageChange: setPage }}
+            bulk={{ fetchMatching, scope: serializeRequestFilters({ ...filters, page: 1 }).toString(), onComplete: refetch }}
+          />
         </div>
       </SidebarInset>
+      <SaveViewDialog
+        open={saveViewOpen}
+        onOpenChange={setSaveViewOpen}
+        // Saved as "created by me" so the view follows whoever opens it
+        query={toViewQuery({ ...filters, createdBy: ME })}
+        columns={null}
+        onSaved={(view) => router.push(getSavedViewPath(view.id))}
+      />
     </SidebarProvider>
   )
 }
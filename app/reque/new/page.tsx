@@ -1,9 +1,11 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { Suspense, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { format } from 'date-fns'
-import { CalendarIcon } from 'lucide-react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { CalendarIcon, Paperclip, X } from 'lucide-react'
 import { ProtectedRoute } from '@/components/protected-route'
 import { AppSidebar } from '@/components/app-sidebar'
 import {
@@ -24,7 +26,6 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Textarea } from '@/components/ui/textarea'
 import {
   Select,
   SelectContent,
@@ -38,31 +39,71 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover'
+import { AttachmentDropzone } from '@/components/attachment-dropzone'
+import { MarkdownEditor } from '@/components/markdown-editor'
+import { RequestTypeFields } from '@/components/request-type-fields'
 import { cn } from '@/lib/utils'
+import { formatFileSize, uploadAttachment } from '@/lib/attachments'
+import {
+  buildFieldSchema,
+  getDefaultFieldValues,
+  toFieldValuePayload,
+  type FieldFormValues,
+} from '@/lib/request-types'
 import { supabase } from '@/lib/supabase/client'
 import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
 import { usePermissions } from '@/hooks/use-permissions'
+import { useProjects } from '@/hooks/use-projects'
+import { useMentionableProfiles } from '@/hooks/use-mentionable-profiles'
+import { useRequestTypes } from '@/hooks/use-request-types'
 import { toast } from 'sonner'
-import type { RequestPriority, RequestStatus } from '@/lib/supabase/types'
+import type { Request, RequestPriority } from '@/lib/supabase/types'
+
+const NO_PROJECT = 'none'
+const NO_TYPE = 'none'
 
 export default function NewRequestPage() {
   return (
     <ProtectedRoute>
-      <NewRequestContent />
+      <Suspense>
+        <NewRequestContent />
+      </Suspense>
     </ProtectedRoute>
   )
 }
 
 function NewRequestContent() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const { user } = useAuth()
+  const { activeTeam } = useTeam()
   const { canCreateRequest } = usePermissions()
+  const { projects } = useProjects()
+  const { profiles: mentionables } = useMentionableProfiles(user?.id)
+  const { requestTypes } = useRequestTypes()
 
   const [title, setTitle] = useState('')
   const [description, setDescription] = useState('')
   const [priority, setPriority] = useState<RequestPriority>('normal')
   const [dueDate, setDueDate] = useState<Date>()
+  // Opening the form from a project page (?project=<id>) preselects it
+  const [projectId, setProjectId] = useState(searchParams.get('project') || NO_PROJECT)
+  const [files, setFiles] = useState<File[]>([])
   const [loading, setLoading] = useState(false)
+  const [typeId, setTypeId] = useState(NO_TYPE)
+
+  const activeTypes = requestTypes.filter((type) => type.is_active)
+  const selectedType = activeTypes.find((type) => type.id === typeId) || null
+  const typeFields = useMemo(() => selectedType?.fields || [], [selectedType])
+  const fieldSchema = useMemo(() => buildFieldSchema(typeFields), [typeFields])
+  const {
+    control,
+    formState: { errors: fieldErrors },
+    getValues,
+    reset: resetFields,
+    trigger: validateFields,
+  } = useForm<FieldFormValues>({ resolver: zodResolver(fieldSchema), defaultValues: {} })
 
   if (!canCreateRequest) {
     return (
@@ -84,6 +125,14 @@ function NewRequestContent() {
     )
   }
 
+  // Switching type starts its form afresh and applies the type's default priority
+  const handleTypeChange = (value: string) => {
+    setTypeId(value)
+    const type = activeTypes.find((t) => t.id === value)
+    resetFields(getDefaultFieldValues(type?.fields || []))
+    if (type) setPriority(type.default_priority)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -92,34 +141,61 @@ function NewRequestContent() {
       return
     }
 
+    if (!activeTeam) {
+      toast.error('Select a team before creating a request')
+      return
+    }
+
     if (!title.trim()) {
       toast.error('Please enter a title')
       return
     }
 
+    if (selectedType && !(await validateFields())) {
+      toast.error(`Please complete the ${selectedType.name} fields`)
+      return
+    }
+
     setLoading(true)
 
     try {
-      const { data, error } = await supabase
-        .from('requests')
-        .insert({
-          title: title.trim(),
-          description: description.trim() || null,
-          priority,
-          status: 'new' as RequestStatus,
-          due_date: dueDate ? dueDate.toISOString() : null,
-          created_by: user.id,
-        } as any)
-        .select()
-        .single()
+      // One transaction for the request and its answers, so a rejected
+      // answer never leaves a half-created request behind
+      const { data, error } = await supabase.rpc('create_request', {
+        p_team_id: activeTeam.id,
+        p_title: title.trim(),
+        p_description: description.trim() || null,
+        p_priority: priority,
+        p_due_date: dueDate ? dueDate.toISOString() : null,
+        p_project_id: projectId !== NO_PROJECT && projects.some((p) => p.id === projectId) ? projectId : null,
+        p_request_type_id: selectedType?.id || null,
+        p_field_values: toFieldValuePayload(typeFields, getValues()),
+      })
 
       if (error) throw error
 
-      toast.success('Request created successfully!')
-      router.push(`/reque/request/${(data as any).id}`)
+      const requestId = (data as Request).id
+      const failedUploads: string[] = []
+
+      for (const file of files) {
+        try {
+          await uploadAttachment(requestId, user.id, file)
+        } catch (uploadError) {
+          console.error('Error uploading attachment:', uploadError)
+          failedUploads.push(file.name)
+        }
+      }
+
+      if (failedUploads.length > 0) {
+        toast.warning(`Request created, but some files failed to upload: ${failedUploads.join(', ')}`)
+      } else {
+        toast.success('Request created successfully!')
+      }
+      router.push(`/reque/request/${requestId}`)
     } catch (error) {
       console.error('Error creating request:', error)
-      toast.error('Failed to create request')
+      // check_violation messages name the offending field, e.g. "Cost center is required"
+      toast.error((error as { code?: string }).code === '23514' ? (error as Error).message : 'Failed to create request')
     } finally {
       setLoading(false)
     }
@@ -167,11 +243,33 @@ function NewRequestContent() {
             <CardHeader>
               <CardTitle>Request Details</CardTitle>
               <CardDescription>
-                Fill in the information below to create your request
+                Fill in the information below to create your request in {activeTeam?.name || 'your team'}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
+                {activeTypes.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="request-type">Request Type</Label>
+                    <Select value={typeId} onValueChange={handleTypeChange} disabled={loading}>
+                      <SelectTrigger id="request-type">
+                        <SelectValue placeholder="Select request type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_TYPE}>General request</SelectItem>
+                        {activeTypes.map((type) => (
+                          <SelectItem key={type.id} value={type.id}>
+                            {type.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedType?.description && (
+                      <p className="text-xs text-muted-foreground">{selectedType.description}</p>
+                    )}
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label htmlFor="title">Title *</Label>
                   <Input
@@ -186,16 +284,48 @@ function NewRequestContent() {
 
                 <div className="space-y-2">
                   <Label htmlFor="description">Description</Label>
-                  <Textarea
+                  <MarkdownEditor
                     id="description"
                     placeholder="Provide details about your request..."
                     value={description}
-                    onChange={(e) => setDescription(e.target.value)}
+                    onChange={setDescription}
                     rows={5}
                     disabled={loading}
+                    mentionables={mentionables}
                   />
                 </div>
 
+                {typeFields.length > 0 && (
+                  <div className="space-y-4 rounded-lg border p-4">
+                    <p className="text-sm font-medium">{selectedType?.name} Details</p>
+                    <RequestTypeFields
+                      fields={typeFields}
+                      control={control}
+                      errors={fieldErrors}
+                      disabled={loading}
+                    />
+                  </div>
+                )}
+
+                {projects.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="project">Project</Label>
+                    <Select value={projectId} onValueChange={setProjectId} disabled={loading}>
+                      <SelectTrigger id="project">
+                        <SelectValue placeholder="Select project" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                        {projects.map((project) => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="grid gap-6 md:grid-cols-2">
                   <div className="space-y-2">
                     <Label htmlFor="priority">Priority</Label>
@@ -243,6 +373,35 @@ function NewRequestContent() {
                   </div>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Attachments (Optional)</Label>
+                  <AttachmentDropzone
+                    onFiles={(added) => setFiles((current) => [...current, ...added])}
+                    disabled={loading}
+                  />
+                  {files.length > 0 && (
+                    <ul className="space-y-1">
+                      {files.map((file, index) => (
+                        <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm">
+                          <Paperclip className="h-4 w-4 text-muted-foreground" />
+                          <span className="flex-1 truncate">{file.name}</span>
+                          <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                            disabled={loading}
+                          >
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">Remove</span>
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 <div className="flex gap-4">
                   <Button type="submit" disabled={loading}>
                     {loading ? 'Creating...' : 'Create Request'}
@@ -0,0 +1,241 @@
+'use client'
+
+import { Suspense, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { AlertCircle, CheckCircle2, ClipboardList, Clock, Forward, Plus, Trash2 } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { RequestList } from '@/components/request-list'
+import { RequestFiltersBar } from '@/components/request-filters-bar'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useProject } from '@/hooks/use-projects'
+import { useProjectStats } from '@/hooks/use-project-stats'
+import { useRequestFilters } from '@/hooks/use-request-filters'
+import { useRequestPresence } from '@/hooks/use-request-presence'
+import { useRequests } from '@/hooks/use-requests'
+import { copyProjectLink, deleteProject } from '@/lib/projects'
+import { hasActiveFilters, serializeRequestFilters } from '@/lib/request-filters'
+
+export default function ProjectPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense>
+        <ProjectContent />
+      </Suspense>
+    </ProtectedRoute>
+  )
+}
+
+function ProjectContent() {
+  const params = useParams()
+  const router = useRouter()
+  const projectId = params.id as string
+
+  const { teams, activeTeam, setActiveTeamId } = useTeam()
+  const { canManageTeam, canCreateRequest } = usePermissions()
+  const { project, loading: projectLoading } = useProject(projectId)
+  const { stats, loading: statsLoading } = useProjectStats(projectId)
+  const { filters, updateFilters, setPage, toggleSort, resetFilters } = useRequestFilters()
+  const { requests, totalCount, loading, refetch, fetchMatching } = useRequests({ ...filters, projectId })
+  const viewers = useRequestPresence(requests.map((request) => request.id))
+
+  // Shared links can point at another of the caller's teams
+  useEffect(() => {
+    if (!project || project.team_id === activeTeam?.id) return
+    if (teams.some((team) => team.id === project.team_id)) {
+      setActiveTeamId(project.team_id)
+    }
+  }, [project?.team_id, activeTeam?.id, teams])
+
+  const handleShare = async () => {
+    try {
+      await copyProjectLink(projectId)
+      toast.success('Project link copied')
+    } catch (error) {
+      console.error('Error copying project link:', error)
+      toast.error('Failed to copy project link')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!project) return
+    if (!confirm(`Delete "${project.name}"? Its requests are kept but will no longer belong to a project.`)) return
+
+    try {
+      await deleteProject(projectId)
+      toast.success('Project deleted')
+      router.push('/dashboard')
+    } catch (error) {
+      console.error('Error deleting project:', error)
+      toast.error('Failed to delete project')
+    }
+  }
+
+  const statValue = (value: number) =>
+    statsLoading ? <Skeleton className="h-8 w-12" /> : <div className="text-2xl font-bold">{value}</div>
+
+  if (!projectLoading && !project) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <CardTitle>Project Not Found</CardTitle>
+                <CardDescription>
+                  This project doesn&apos;t exist or belongs to a team you&apos;re not on.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem className="hidden md:block">
+                  Projects
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>{project?.name || 'Project'}</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              {projectLoading ? (
+                <Skeleton className="h-9 w-64" />
+              ) : (
+                <h1 className="text-3xl font-bold tracking-tight">{project?.name}</h1>
+              )}
+              <p className="text-muted-foreground">{project?.description || 'Requests filed under this project'}</p>
+            </div>
+            <div className="flex gap-2">
+              {canManageTeam && (
+                <>
+                  <Button variant="outline" onClick={handleShare}>
+                    <Forward className="h-4 w-4 mr-2" />
+                    Share
+                  </Button>
+                  <Button variant="outline" onClick={handleDelete}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </>
+              )}
+              {canCreateRequest && (
+                <Button asChild>
+                  <Link href={`/reque/new?project=${projectId}`}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Request
+                  </Link>
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Requests</CardTitle>
+                <ClipboardList className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {statValue(stats.total)}
+                <p className="text-xs text-muted-foreground">In this project</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Open</CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {statValue(stats.open)}
+                <p className="text-xs text-muted-foreground">Not yet completed or rejected</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Completed</CardTitle>
+                <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {statValue(stats.completed)}
+                <p className="text-xs text-muted-foreground">
+                  {stats.total > 0 ? `${Math.round((stats.completed / stats.total) * 100)}% of requests` : 'No requests yet'}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Overdue</CardTitle>
+                <AlertCircle className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                {statValue(stats.overdue)}
+                <p className="text-xs text-muted-foreground">Open and past their due date</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <RequestFiltersBar filters={filters} onChange={updateFilters} onReset={resetFilters} />
+
+          <RequestList
+            requests={requests}
+            loading={loading}
+            viewers={viewers}
+            filtered={hasActiveFilters(filters)}
+            sort={{ column: filters.sort, ascending: filters.ascending, onSort: toggleSort }}
+            pagination={{ page: filters.page, pageSize: filters.pageSize, totalCount, onPageChange: setPage }}
+            bulk={{ fetchMatching, scope: serializeRequestFilters({ ...filters, page: 1 }).toString(), onComplete: refetch }}
+          />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
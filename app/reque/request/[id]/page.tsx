@@ -1,6 +1,7 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
 import { format } from 'date-fns'
 import { ProtectedRoute } from '@/components/protected-route'
@@ -22,7 +23,6 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Textarea } from '@/components/ui/textarea'
 import {
   Select,
   SelectContent,
@@ -30,14 +30,41 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Skeleton } from '@/components/ui/skeleton'
+import { RequestAttachments } from '@/components/request-attachments'
+import { RequestComments } from '@/components/request-comments'
+import { RequestCustomFields } from '@/components/request-custom-fields'
+import { SlaMetricRow } from '@/components/sla-indicator'
+import { StatusReasonDialog } from '@/components/status-reason-dialog'
+import { RequestViewers } from '@/components/request-viewers'
+import { RequestEditForm } from '@/components/request-edit-form'
+import { TextDiff } from '@/components/text-diff'
+import { Markdown } from '@/components/markdown'
+import { MarkdownEditor } from '@/components/markdown-editor'
 import { supabase } from '@/lib/supabase/client'
 import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
 import { usePermissions } from '@/hooks/use-permissions'
+import { useAssignableProfiles } from '@/hooks/use-assignable-profiles'
+import { useRequestRealtime } from '@/hooks/use-request-realtime'
+import { useRequestPresence } from '@/hooks/use-request-presence'
+import { useRequestWatch } from '@/hooks/use-request-watch'
+import { useRequestSla } from '@/hooks/use-request-sla'
+import { useProjects } from '@/hooks/use-projects'
+import { useMentionableProfiles } from '@/hooks/use-mentionable-profiles'
+import { addComment } from '@/lib/comments'
+import { slaMetricLabels } from '@/lib/sla'
+import { getProjectPath } from '@/lib/projects'
+import {
+  getAllowedTransitions,
+  isReopen,
+  statusLabels,
+  transitionRequiresReason,
+  updateRequestStatus,
+} from '@/lib/request-status'
 import { toast } from 'sonner'
-import { Edit, Trash2, Calendar, User, Clock } from 'lucide-react'
-import type { Request, RequestComment, RequestActivity, Profile, RequestStatus, RequestPriority, Database } from '@/lib/supabase/types'
+import { Edit, Trash2, Calendar, User, UserCheck, Clock, Eye, EyeOff, Folder, Lock, MessageSquare } from 'lucide-react'
+import type { CommentVisibility, SlaMetric, Request, RequestAttachment, RequestComment, RequestCommentReaction, RequestActivity, Profile, RequestStatus, RequestPriority } from '@/lib/supabase/types'
 
 export default function RequestDetailPage() {
   return (
@@ -51,35 +78,79 @@ function RequestDetailContent() {
   const params = useParams()
   const router = useRouter()
   const { user } = useAuth()
-  const { canEditRequest, canDeleteRequest, canCommentOnRequest } = usePermissions()
+  const { teams, activeTeam, setActiveTeamId } = useTeam()
+  const {
+    isAdmin,
+    canEditRequest,
+    canDeleteRequest,
+    canCommentOnRequest,
+    canViewInternalNotes,
+    canUploadAttachment,
+    canReassignRequest,
+    canClaimRequest,
+  } = usePermissions()
+  const { profiles: assignableProfiles } = useAssignableProfiles()
+  const { projects } = useProjects()
 
   const [request, setRequest] = useState<Request | null>(null)
   const [comments, setComments] = useState<RequestComment[]>([])
+  const [reactions, setReactions] = useState<RequestCommentReaction[]>([])
+  const [attachments, setAttachments] = useState<RequestAttachment[]>([])
   const [activity, setActivity] = useState<RequestActivity[]>([])
   const [profiles, setProfiles] = useState<Map<string, Profile>>(new Map())
   const [loading, setLoading] = useState(true)
   const [commentText, setCommentText] = useState('')
+  const [visibilityChoice, setVisibilityChoice] = useState<CommentVisibility>('public')
   const [submittingComment, setSubmittingComment] = useState(false)
+  const [pendingStatus, setPendingStatus] = useState<RequestStatus | null>(null)
+  const [editing, setEditing] = useState(false)
+  const { profiles: mentionables } = useMentionableProfiles(request?.created_by)
 
   const requestId = params.id as string
 
+  const viewers = useRequestPresence([requestId], requestId).get(requestId) || []
+
   useEffect(() => {
     fetchRequestDetails()
   }, [requestId])
 
-  const fetchRequestDetails = async () => {
+  // Permissions come from the active team, so follow the request into its
+  // team when it was opened from a link or another team's search result.
+  useEffect(() => {
+    if (!request || request.team_id === activeTeam?.id) return
+    if (teams.some((team) => team.id === request.team_id)) {
+      setActiveTeamId(request.team_id)
+    }
+  }, [request?.team_id, activeTeam?.id, teams])
+
+  const { watching, loading: watchLoading, toggleWatch, refetch: refetchWatch } = useRequestWatch(requestId)
+
+  const { statuses: slaStatuses, refetch: refetchSla } = useRequestSla([requestId])
+  const slaStatus = slaStatuses.get(requestId)
+
+  useRequestRealtime(requestId, () => {
+    fetchRequestDetails(false)
+    refetchWatch()
+    refetchSla()
+  })
+
+  const fetchRequestDetails = async (showLoading = true) => {
     try {
-      setLoading(true)
+      if (showLoading) setLoading(true)
 
-      const [{ data: requestData }, { data: commentsData }, { data: activityData }] = await Promise.all([
+      const [{ data: requestData }, { data: commentsData }, { data: activityData }, { data: attachmentsData }, { data: reactionsData }] = await Promise.all([
         supabase.from('requests').select('*').eq('id', requestId).single(),
         supabase.from('request_comments').select('*').eq('request_id', requestId).order('created_at', { ascending: false }),
         supabase.from('request_activity').select('*').eq('request_id', requestId).order('created_at', { ascending: false }),
+        supabase.from('request_attachments').select('*').eq('request_id', requestId).order('created_at', { ascending: false }),
+        supabase.from('request_comment_reactions').select('*').eq('request_id', requestId).order('created_at', { ascending: true }),
       ])
 
       const typedRequestData = requestData as Request | null
       const typedCommentsData = commentsData as RequestComment[] | null
       const typedActivityData = activityData as RequestActivity[] | null
+      const typedAttachmentsData = attachmentsData as RequestAttachment[] | null
+      const typedReactionsData = reactionsData as RequestCommentReaction[] | null
 
       if (!typedRequestData) {
         toast.error('Request not found')
@@ -90,12 +161,20 @@ function RequestDetailContent() {
       setRequest(typedRequestData)
       setComments(typedCommentsData || [])
       setActivity(typedActivityData || [])
+      setAttachments(typedAttachmentsData || [])
+      setReactions(typedReactionsData || [])
 
       const userIds = new Set<string>([
         typedRequestData.created_by,
         ...(typedRequestData.assigned_to ? [typedRequestData.assigned_to] : []),
-        ...(typedCommentsData || []).map((c) => c.user_id),
-        ...(typedActivityData || []).map((a) => a.user_id),
+        ...(typedCommentsData || []).flatMap((c) => [c.user_id, ...(c.deleted_by ? [c.deleted_by] : [])]),
+        ...(typedReactionsData || []).map((r) => r.user_id),
+        ...(typedActivityData || []).flatMap((a) => (a.user_id ? [a.user_id] : [])),
+        ...(typedActivityData || [])
+          .filter((a) => a.activity_type === 'assignment_changed')
+          .flatMap((a) => [a.old_value, a.new_value])
+          .filter((id): id is string => !!id),
+        ...(typedAttachmentsData || []).map((a) => a.uploaded_by),
       ])
 
       const { data: profilesData } = await supabase
@@ -118,23 +197,30 @@ function RequestDetailContent() {
     }
   }
 
-  const handleStatusChange = async (newStatus: RequestStatus) => {
+  const handleStatusChange = (newStatus: RequestStatus) => {
+    if (!request || newStatus === request.status) return
+
+    if (transitionRequiresReason(request.status, newStatus)) {
+      setPendingStatus(newStatus)
+      return
+    }
+
+    applyStatusChange(newStatus)
+  }
+
+  const applyStatusChange = async (newStatus: RequestStatus, reason?: string) => {
     if (!request || !user) return
 
     try {
-      const { error } = await (supabase
-        .from('requests') as any)
-        .update({ status: newStatus })
-        .eq('id', request.id)
-
-      if (error) throw error
+      await updateRequestStatus(request.id, newStatus, reason)
 
+      setPendingStatus(null)
       setRequest({ ...request, status: newStatus })
       toast.success('Status updated')
       fetchRequestDetails()
     } catch (error) {
       console.error('Error updating status:', error)
-      toast.error('Failed to update status')
+      toast.error(error instanceof Error ? error.message : 'Failed to update status')
     }
   }
 
@@ -142,44 +228,78 @@ function RequestDetailContent() {
     if (!request || !user) return
 
     try {
-      const { error } = await (supabase
-        .from('requests') as any)
+      const { error } = await supabase
+        .from('requests')
         .update({ priority: newPriority })
         .eq('id', request.id)
 
-      if (error) throw error
+      if (error) throw new Error(error.message)
 
       setRequest({ ...request, priority: newPriority })
       toast.success('Priority updated')
       fetchRequestDetails()
     } catch (error) {
       console.error('Error updating priority:', error)
-      toast.error('Failed to update priority')
+      toast.error(error instanceof Error ? error.message : 'Failed to update priority')
     }
   }
 
+  const handleProjectChange = async (projectId: string | null) => {
+    if (!request || !user) return
+
+    try {
+      const { error } = await supabase
+        .from('requests')
+        .update({ project_id: projectId })
+        .eq('id', request.id)
+
+      if (error) throw new Error(error.message)
+
+      setRequest({ ...request, project_id: projectId })
+      toast.success('Project updated')
+    } catch (error) {
+      console.error('Error updating project:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update project')
+    }
+  }
+
+  const handleAssign = async (assigneeId: string | null) => {
+    if (!request || !user) return
+
+    try {
+      const { error } = await supabase.rpc('assign_request', {
+        p_request_id: request.id,
+        p_assignee: assigneeId,
+      })
+
+      if (error) throw new Error(error.message)
+
+      setRequest({ ...request, assigned_to: assigneeId })
+      toast.success(assigneeId ? 'Request assigned' : 'Request unassigned')
+      fetchRequestDetails()
+    } catch (error) {
+      console.error('Error assigning request:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update assignee')
+    }
+  }
+
+  // Falls back to public when the active team changes to one without staff access
+  const commentVisibility: CommentVisibility = canViewInternalNotes ? visibilityChoice : 'public'
+
   const handleSubmitComment = async () => {
     if (!commentText.trim() || !user || !request) return
 
     setSubmittingComment(true)
 
     try {
-      const { error } = await supabase
-        .from('request_comments')
-        .insert({
-          request_id: request.id,
-          user_id: user.id,
-          comment_text: commentText.trim(),
-        } as any)
-
-      if (error) throw error
+      await addComment(request.id, user.id, commentText.trim(), null, commentVisibility)
 
       setCommentText('')
-      toast.success('Comment added')
+      toast.success(commentVisibility === 'internal' ? 'Internal note added' : 'Comment added')
       fetchRequestDetails()
     } catch (error) {
       console.error('Error adding comment:', error)
-      toast.error('Failed to add comment')
+      toast.error(error instanceof Error ? error.message : 'Failed to add comment')
     } finally {
       setSubmittingComment(false)
     }
@@ -194,13 +314,22 @@ function RequestDetailContent() {
         .delete()
         .eq('id', request.id)
 
-      if (error) throw error
+      if (error) throw new Error(error.message)
 
       toast.success('Request deleted')
       router.push('/reque/my-requests')
     } catch (error) {
       console.error('Error deleting request:', error)
-      toast.error('Failed to delete request')
+      toast.error(error instanceof Error ? error.message : 'Failed to delete request')
+    }
+  }
+
+  const handleToggleWatch = async () => {
+    const wasWatching = watching
+    if (await toggleWatch()) {
+      toast.success(wasWatching ? 'You will no longer get updates for this request' : 'You will get updates for this request')
+    } else {
+      toast.error('Failed to update watch settings')
     }
   }
 
@@ -238,9 +367,36 @@ function RequestDetailContent() {
   }
 
   const creatorProfile = profiles.get(request.created_by)
+  const assigneeProfile = request.assigned_to ? profiles.get(request.assigned_to) : undefined
   const canEdit = canEditRequest(request.created_by, request.assigned_to)
   const canDelete = canDeleteRequest(request.created_by)
   const canComment = canCommentOnRequest(request.created_by)
+  const canUpload = canUploadAttachment(request.created_by, request.assigned_to)
+  const canReassign = canReassignRequest(request.assigned_to)
+  const canClaim = canClaimRequest(request.assigned_to)
+  const allowedStatuses = getAllowedTransitions(request.status, isAdmin)
+
+  const describeActivityValue = (item: RequestActivity) => {
+    if (item.activity_type === 'assignment_changed') {
+      return item.new_value
+        ? ` to ${profiles.get(item.new_value)?.full_name || 'Unknown User'}`
+        : ' to unassigned'
+    }
+    if (item.activity_type === 'sla_breached') {
+      return item.new_value ? ` (${slaMetricLabels[item.new_value as SlaMetric] || item.new_value})` : ''
+    }
+    if (item.activity_type === 'due_date_reminder') {
+      return item.new_value === 'overdue' ? ' (overdue)' : ' (due soon)'
+    }
+    if (item.activity_type === 'due_date_changed') {
+      return item.new_value ? ` to ${format(new Date(item.new_value), 'MMM d, yyyy')}` : ' (removed)'
+    }
+    if (item.activity_type === 'request_imported') {
+      return item.new_value ? ` from ${item.new_value}` : ''
+    }
+    if (['comment_added', 'note_added', 'title_changed', 'description_changed'].includes(item.activity_type)) return ''
+    return item.new_value ? ` to ${item.new_value}` : ''
+  }
 
   return (
     <SidebarProvider>
@@ -281,30 +437,66 @@ function RequestDetailContent() {
               <div className="flex items-center gap-2 mt-2">
                 <Badge className={statusColors[request.status]}>{request.status.replace('_', ' ')}</Badge>
                 <Badge className={priorityColors[request.priority]}>{request.priority}</Badge>
+                <RequestViewers viewers={viewers} className="ml-2" />
               </div>
             </div>
-            {canDelete && (
-              <Button variant="destructive" onClick={handleDeleteRequest}>
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete
+            <div className="flex items-center gap-2">
+              {canEdit && !editing && (
+                <Button variant="outline" onClick={() => setEditing(true)}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleToggleWatch} disabled={watchLoading}>
+                {watching ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                {watching ? 'Unwatch' : 'Watch'}
               </Button>
-            )}
+              {canDelete && (
+                <Button variant="destructive" onClick={handleDeleteRequest}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
           </div>
 
           <div className="grid gap-6 lg:grid-cols-3">
             <div className="lg:col-span-2 space-y-6">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Description</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  {request.description ? (
-                    <p className="whitespace-pre-wrap text-sm">{request.description}</p>
-                  ) : (
-                    <p className="text-sm text-muted-foreground">No description provided</p>
-                  )}
-                </CardContent>
-              </Card>
+              {editing ? (
+                <RequestEditForm
+                  request={request}
+                  mentionables={mentionables}
+                  onSaved={(updated) => {
+                    setRequest(updated)
+                    setEditing(false)
+                    fetchRequestDetails(false)
+                  }}
+                  onCancel={() => setEditing(false)}
+                />
+              ) : (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Description</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {request.description ? (
+                      <Markdown content={request.description} />
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No description provided</p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              <RequestCustomFields request={request} canEdit={canEdit} />
+
+              <RequestAttachments
+                requestId={request.id}
+                attachments={attachments}
+                profiles={profiles}
+                canUpload={canUpload}
+                onChange={() => fetchRequestDetails()}
+              />
 
               {canComment && (
                 <Card>
@@ -312,55 +504,55 @@ function RequestDetailContent() {
                     <CardTitle>Add Comment</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    <Textarea
-                      placeholder="Write a comment..."
+                    {canViewInternalNotes && (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant={commentVisibility === 'public' ? 'secondary' : 'ghost'}
+                          onClick={() => setVisibilityChoice('public')}
+                        >
+                          <MessageSquare className="h-4 w-4 mr-2" />
+                          Comment
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={commentVisibility === 'internal' ? 'secondary' : 'ghost'}
+                          onClick={() => setVisibilityChoice('internal')}
+                        >
+                          <Lock className="h-4 w-4 mr-2" />
+                          Internal note
+                        </Button>
+                      </div>
+                    )}
+                    <MarkdownEditor
+                      placeholder={commentVisibility === 'internal' ? 'Write an internal note...' : 'Write a comment...'}
                       value={commentText}
-                      onChange={(e) => setCommentText(e.target.value)}
+                      onChange={setCommentText}
                       disabled={submittingComment}
                       rows={3}
+                      mentionables={mentionables}
                     />
+                    {commentVisibility === 'internal' && (
+                      <p className="text-xs text-amber-700 dark:text-amber-400">
+                        Only admins and team members can see internal notes.
+                      </p>
+                    )}
                     <Button onClick={handleSubmitComment} disabled={submittingComment || !commentText.trim()}>
-                      {submittingComment ? 'Posting...' : 'Post Comment'}
+                      {submittingComment ? 'Posting...' : commentVisibility === 'internal' ? 'Post Internal Note' : 'Post Comment'}
                     </Button>
                   </CardContent>
                 </Card>
               )}
 
-              <Card>
-                <CardHeader>
-                  <CardTitle>Comments ({comments.length})</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  {comments.length === 0 ? (
-                    <p className="text-sm text-muted-foreground">No comments yet</p>
-                  ) : (
-                    comments.map((comment) => {
-                      const commentProfile = profiles.get(comment.user_id)
-                      return (
-                        <div key={comment.id} className="flex gap-4">
-                          <Avatar>
-                            <AvatarImage src={commentProfile?.avatar_url || ''} />
-                            <AvatarFallback>
-                              {commentProfile?.full_name?.charAt(0) || 'U'}
-                            </AvatarFallback>
-                          </Avatar>
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2 mb-1">
-                              <span className="font-medium text-sm">
-                                {commentProfile?.full_name || 'Unknown User'}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                {format(new Date(comment.created_at), 'MMM d, yyyy h:mm a')}
-                              </span>
-                            </div>
-                            <p className="text-sm whitespace-pre-wrap">{comment.comment_text}</p>
-                          </div>
-                        </div>
-                      )
-                    })
-                  )}
-                </CardContent>
-              </Card>
+              <RequestComments
+                requestId={request.id}
+                comments={comments}
+                reactions={reactions}
+                profiles={profiles}
+                canComment={canComment}
+                mentionables={mentionables}
+                onChange={() => fetchRequestDetails(false)}
+              />
 
               <Card>
                 <CardHeader>
@@ -371,17 +563,23 @@ function RequestDetailContent() {
                     <p className="text-sm text-muted-foreground">No activity yet</p>
                   ) : (
                     activity.map((item) => {
-                      const actorProfile = profiles.get(item.user_id)
+                      const actorProfile = item.user_id ? profiles.get(item.user_id) : undefined
                       return (
                         <div key={item.id} className="flex gap-3 text-sm">
                           <Clock className="h-4 w-4 text-muted-foreground mt-0.5" />
                           <div className="flex-1">
                             <p>
-                              <span className="font-medium">{actorProfile?.full_name || 'User'}</span>
+                              <span className="font-medium">{actorProfile?.full_name || (item.user_id ? 'User' : 'ReQue')}</span>
                               {' '}
-                              {item.activity_type.replace('_', ' ')}
-                              {item.new_value && ` to ${item.new_value}`}
+                              {item.activity_type.replace(/_/g, ' ')}
+                              {describeActivityValue(item)}
                             </p>
+                            {item.note && (
+                              <p className="text-muted-foreground">Reason: {item.note}</p>
+                            )}
+                            {(item.activity_type === 'title_changed' || item.activity_type === 'description_changed') && (
+                              <TextDiff before={item.old_value} after={item.new_value} className="mt-1" />
+                            )}
                             <p className="text-xs text-muted-foreground">
                               {format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}
                             </p>
@@ -408,6 +606,73 @@ function RequestDetailContent() {
                     <p className="text-sm">{creatorProfile?.full_name || 'Unknown'}</p>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium flex items-center gap-2">
+                      <UserCheck className="h-4 w-4" />
+                      Assigned To
+                    </Label>
+                    {canReassign ? (
+                      <Select
+                        value={request.assigned_to || 'unassigned'}
+                        onValueChange={(value) => handleAssign(value === 'unassigned' ? null : value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="unassigned">Unassigned</SelectItem>
+                          {assignableProfiles.map((assignee) => (
+                            <SelectItem key={assignee.id} value={assignee.id}>
+                              {assignee.full_name || assignee.email}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <p className="text-sm">
+                        {request.assigned_to ? assigneeProfile?.full_name || 'Unknown' : 'Unassigned'}
+                      </p>
+                    )}
+                    {canClaim && user && (
+                      <Button variant="outline" size="sm" onClick={() => handleAssign(user.id)}>
+                        Assign to me
+                      </Button>
+                    )}
+                  </div>
+
+                  {(request.project_id || (canEdit && projects.length > 0)) && (
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium flex items-center gap-2">
+                        <Folder className="h-4 w-4" />
+                        Project
+                      </Label>
+                      {canEdit && projects.length > 0 ? (
+                        <Select
+                          value={request.project_id || 'none'}
+                          onValueChange={(value) => handleProjectChange(value === 'none' ? null : value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No project</SelectItem>
+                            {projects.map((project) => (
+                              <SelectItem key={project.id} value={project.id}>
+                                {project.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <p className="text-sm">
+                          <Link href={getProjectPath(request.project_id!)} className="hover:underline">
+                            {projects.find((project) => project.id === request.project_id)?.name || 'View project'}
+                          </Link>
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label className="text-sm font-medium flex items-center gap-2">
                       <Calendar className="h-4 w-4" />
@@ -428,6 +693,23 @@ function RequestDetailContent() {
                 </CardContent>
               </Card>
 
+              {slaStatus && (slaStatus.first_response_target !== null || slaStatus.resolution_target !== null) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>SLA</CardTitle>
+                    <CardDescription>
+                      {slaStatus.paused
+                        ? 'The resolution clock is paused while the request is under review'
+                        : `Targets for ${request.priority} priority requests`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <SlaMetricRow status={slaStatus} metric="first_response" />
+                    <SlaMetricRow status={slaStatus} metric="resolution" />
+                  </CardContent>
+                </Card>
+              )}
+
               {canEdit && (
                 <Card>
                   <CardHeader>
@@ -436,16 +718,23 @@ function RequestDetailContent() {
                   <CardContent className="space-y-4">
                     <div className="space-y-2">
                       <Label>Status</Label>
-                      <Select value={request.status} onValueChange={handleStatusChange}>
+                      <Select
+                        value={request.status}
+                        onValueChange={(value) => handleStatusChange(value as RequestStatus)}
+                        disabled={allowedStatuses.length === 0}
+                      >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="new">New</SelectItem>
-                          <SelectItem value="in_progress">In Progress</SelectItem>
-                          <SelectItem value="under_review">Under Review</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
-                          <SelectItem value="rejected">Rejected</SelectItem>
+                          <SelectItem value={request.status} disabled>
+                            {statusLabels[request.status]}
+                          </SelectItem>
+                          {allowedStatuses.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {isReopen(request.status, status) ? `Reopen (${statusLabels[status]})` : statusLabels[status]}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -469,6 +758,14 @@ function RequestDetailContent() {
             </div>
           </div>
         </div>
+        <StatusReasonDialog
+          status={pendingStatus}
+          reopen={!!pendingStatus && isReopen(request.status, pendingStatus)}
+          onConfirm={async (reason) => {
+            if (pendingStatus) await applyStatusChange(pendingStatus, reason)
+          }}
+          onCancel={() => setPendingStatus(null)}
+        />
       </SidebarInset>
     </SidebarProvider>
   )
@@ -0,0 +1,256 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useParams, usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { toast } from 'sonner'
+import { BookmarkPlus, RotateCcw, Save, Users } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { RequestList } from '@/components/request-list'
+import { RequestFiltersBar } from '@/components/request-filters-bar'
+import { SaveViewDialog } from '@/components/save-view-dialog'
+import { SavedViewActions } from '@/components/saved-view-actions'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useRequests } from '@/hooks/use-requests'
+import { useRequestPresence } from '@/hooks/use-request-presence'
+import { useRequestFilters } from '@/hooks/use-request-filters'
+import { useSavedViews } from '@/hooks/use-saved-views'
+import { hasActiveFilters } from '@/lib/request-filters'
+import { getSavedViewPath, normalizeViewQuery, toViewQuery, updateSavedView } from '@/lib/saved-views'
+import type { SavedView } from '@/lib/supabase/types'
+
+export default function SavedViewPage() {
+  return (
+    <ProtectedRoute>
+      <Suspense>
+        <SavedViewContent />
+      </Suspense>
+    </ProtectedRoute>
+  )
+}
+
+function sameColumns(a: string[] | null, b: string[] | null) {
+  if (!a || !b) return a === b
+  return a.length === b.length && a.every((column, index) => column === b[index])
+}
+
+function SavedViewContent() {
+  const params = useParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { teams, activeTeam, setActiveTeamId } = useTeam()
+  const { canManageSavedView } = usePermissions()
+  const { preferences } = useSavedViews()
+  const { filters, updateFilters, setPage, toggleSort, resetFilters } = useRequestFilters()
+  const { requests, totalCount, loading: requestsLoading, refetch, fetchMatching } = useRequests(filters)
+  const viewers = useRequestPresence(requests.map((request) => request.id))
+
+  const [view, setView] = useState<SavedView | null>(null)
+  const [columns, setColumns] = useState<string[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [saveAsOpen, setSaveAsOpen] = useState(false)
+
+  const viewId = params.id as string
+
+  useEffect(() => {
+    fetchView()
+  }, [viewId])
+
+  // Opening a view without filters in the URL (sidebar, landing page) loads
+  // the saved ones; a link that already carries filters is left as it is
+  useEffect(() => {
+    if (!view) return
+    if (!searchParams.toString() && view.query) {
+      router.replace(`${pathname}?${view.query}`, { scroll: false })
+    }
+  }, [view?.id])
+
+  // Follow the view into its team so the list shows that team's requests
+  useEffect(() => {
+    if (!view || view.team_id === activeTeam?.id) return
+    if (teams.some((team) => team.id === view.team_id)) {
+      setActiveTeamId(view.team_id)
+    }
+  }, [view?.team_id, activeTeam?.id, teams])
+
+  const fetchView = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase.from('saved_views').select('*').eq('id', viewId).maybeSingle()
+
+      if (error) throw error
+      if (!data) {
+        toast.error('View not found')
+        router.push('/reque/views')
+        return
+      }
+
+      const typedView = data as SavedView
+      setView(typedView)
+      setColumns(typedView.columns)
+    } catch (error) {
+      console.error('Error fetching view:', error)
+      toast.error('Failed to load view')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const applying = !!view && !searchParams.toString() && !!view.query
+  const currentQuery = toViewQuery(filters)
+  const dirty = !!view && (currentQuery !== normalizeViewQuery(view.query) || !sameColumns(columns, view.columns))
+  const canManage = !!view && canManageSavedView(view.owner_id, view.visibility)
+
+  const handleSave = async () => {
+    if (!view) return
+
+    setSaving(true)
+    try {
+      await updateSavedView(view.id, { query: currentQuery, columns })
+      setView({ ...view, query: currentQuery, columns })
+      toast.success('View saved')
+    } catch (error) {
+      console.error('Error saving view:', error)
+      toast.error('Failed to save view')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevert = () => {
+    if (!view) return
+    setColumns(view.columns)
+    router.replace(view.query ? `${pathname}?${view.query}` : pathname, { scroll: false })
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/reque/views">
+                    Saved Views
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>{view?.name || 'View'}</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          {loading || !view ? (
+            <div className="space-y-4">
+              <Skeleton className="h-10 w-1/3" />
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-3">
+                    <h1 className="text-3xl font-bold tracking-tight">{view.name}</h1>
+                    {view.visibility === 'shared' && (
+                      <Badge variant="outline">
+                        <Users className="h-3 w-3 mr-1" />
+                        Shared
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-muted-foreground">
+                    {dirty ? 'You have changed this view. Save it or revert to the saved version.' : 'Saved filters, sort order and columns'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {dirty && (
+                    <>
+                      <Button variant="ghost" onClick={handleRevert} disabled={saving}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Revert
+                      </Button>
+                      {canManage && (
+                        <Button onClick={handleSave} disabled={saving}>
+                          <Save className="h-4 w-4 mr-2" />
+                          {saving ? 'Saving...' : 'Save Changes'}
+                        </Button>
+                      )}
+                      <Button variant="outline" onClick={() => setSaveAsOpen(true)} disabled={saving}>
+                        <BookmarkPlus className="h-4 w-4 mr-2" />
+                        Save as New
+                      </Button>
+                    </>
+                  )}
+                  <SavedViewActions
+                    view={view}
+                    preference={preferences.get(view.id)}
+                    onChanged={setView}
+                    onDeleted={() => router.push('/reque/views')}
+                  />
+                </div>
+              </div>
+
+              <RequestFiltersBar filters={filters} onChange={updateFilters} onReset={resetFilters} />
+
+              <RequestList
+                requests={applying ? [] : requests}
+                loading={applying || requestsLoading}
+                viewers={viewers}
+                filtered={hasActiveFilters(filters)}
+                sort={{ column: filters.sort, ascending: filters.ascending, onSort: toggleSort }}
+                pagination={{ page: filters.page, pageSize: filters.pageSize, totalCount, onPageChange: setPage }}
+                bulk={{ fetchMatching, scope: currentQuery, onComplete: refetch }}
+                columns={columns ?? undefined}
+                onColumnsChange={setColumns}
+              />
+            </>
+          )}
+        </div>
+      </SidebarInset>
+      <SaveViewDialog
+        open={saveAsOpen}
+        onOpenChange={setSaveAsOpen}
+        query={currentQuery}
+        columns={columns}
+        onSaved={(saved) => router.push(getSavedViewPath(saved.id))}
+      />
+    </SidebarProvider>
+  )
+}
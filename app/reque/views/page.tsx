@@ -0,0 +1,166 @@
+'use client'
+
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Home, Pin } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { SavedViewActions } from '@/components/saved-view-actions'
+import { useAuth } from '@/contexts/auth-context'
+import { useSavedViews } from '@/hooks/use-saved-views'
+import { getSavedViewPath, savedViewVisibilityLabels } from '@/lib/saved-views'
+
+export default function SavedViewsPage() {
+  return (
+    <ProtectedRoute>
+      <SavedViewsContent />
+    </ProtectedRoute>
+  )
+}
+
+function SavedViewsContent() {
+  const { user } = useAuth()
+  const { views, preferences, loading, refetch } = useSavedViews()
+
+  const ownViews = views.filter((view) => view.owner_id === user?.id)
+  const sharedViews = views.filter((view) => view.owner_id !== user?.id)
+
+  const renderTable = (list: typeof views, emptyText: string) =>
+    list.length === 0 ? (
+      <p className="text-sm text-muted-foreground text-center py-8">{emptyText}</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Visible to</TableHead>
+            <TableHead>Updated</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {list.map((view) => {
+            const preference = preferences.get(view.id)
+            return (
+              <TableRow key={view.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Link href={getSavedViewPath(view.id)} className="font-medium hover:underline">
+                      {view.name}
+                    </Link>
+                    {preference?.pinned && <Pin className="h-3 w-3 text-muted-foreground" />}
+                    {preference?.is_default && (
+                      <Badge variant="secondary">
+                        <Home className="h-3 w-3 mr-1" />
+                        Landing page
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{savedViewVisibilityLabels[view.visibility]}</Badge>
+                </TableCell>
+                <TableCell>{format(new Date(view.updated_at), 'MMM d, yyyy')}</TableCell>
+                <TableCell className="text-right">
+                  <SavedViewActions
+                    view={view}
+                    preference={preference}
+                    onChanged={() => refetch()}
+                    onDeleted={() => refetch()}
+                  />
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+    )
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/reque/all">
+                    ReQue
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Saved Views</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Saved Views</h1>
+            <p className="text-muted-foreground">
+              Named filters for the request list. Save one from All Requests or My Requests.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              {[...Array(4)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle>My Views</CardTitle>
+                  <CardDescription>Views you created, personal or shared with the team</CardDescription>
+                </CardHeader>
+                <CardContent>{renderTable(ownViews, 'You have not saved any views yet')}</CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Shared with the Team</CardTitle>
+                  <CardDescription>Views teammates have shared. Pin one to add it to your sidebar.</CardDescription>
+                </CardHeader>
+                <CardContent>{renderTable(sharedViews, 'No shared views in this team')}</CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { ArrowRight, Plus, ShieldAlert } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import { priorityLabels } from '@/components/request-list'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useTeam } from '@/contexts/team-context'
+import { useDueDateConfig } from '@/hooks/use-due-date-config'
+import { usePermissions } from '@/hooks/use-permissions'
+import {
+  addEscalationRule,
+  defaultDueDateSettings,
+  describeEscalationRule,
+  escalationConditionLabels,
+  removeEscalationRule,
+  saveDueDateSettings,
+} from '@/lib/due-dates'
+import type { DueDateSettings, EscalationCondition, RequestPriority } from '@/lib/supabase/types'
+
+// Lowest first, the order priorities escalate in
+const escalationPriorities: RequestPriority[] = ['normal', 'high', 'urgent']
+
+export default function DueDateSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <DueDateSettingsContent />
+    </ProtectedRoute>
+  )
+}
+
+function DueDateSettingsContent() {
+  const { activeTeam } = useTeam()
+  const { canManageTeam } = usePermissions()
+  const { settings, rules, loading, refetch } = useDueDateConfig()
+  const [reminders, setReminders] = useState<Omit<DueDateSettings, 'team_id' | 'updated_at'>>(defaultDueDateSettings)
+  const [fromPriority, setFromPriority] = useState<RequestPriority>('normal')
+  const [toPriority, setToPriority] = useState<RequestPriority>('high')
+  const [condition, setCondition] = useState<EscalationCondition>('overdue_for')
+  const [ruleHours, setRuleHours] = useState('0')
+  const [saving, setSaving] = useState<'reminders' | 'rule' | null>(null)
+
+  useEffect(() => {
+    if (!settings) {
+      setReminders(defaultDueDateSettings)
+      return
+    }
+    const { team_id: _teamId, updated_at: _updatedAt, ...rest } = settings
+    setReminders(rest)
+  }, [settings])
+
+  const higherPriorities = escalationPriorities.slice(escalationPriorities.indexOf(fromPriority) + 1)
+
+  const handleFromPriorityChange = (value: RequestPriority) => {
+    setFromPriority(value)
+    const higher = escalationPriorities.slice(escalationPriorities.indexOf(value) + 1)
+    if (!higher.includes(toPriority)) setToPriority(higher[0])
+  }
+
+  const handleSaveReminders = async () => {
+    if (!activeTeam) return
+    if (!Number.isInteger(reminders.reminder_days) || reminders.reminder_days < 1 || reminders.reminder_days > 30) {
+      toast.error('Remind between 1 and 30 days before the due date')
+      return
+    }
+
+    setSaving('reminders')
+    try {
+      await saveDueDateSettings(activeTeam.id, reminders)
+      toast.success('Reminder settings saved')
+      refetch()
+    } catch (error) {
+      console.error('Error saving reminder settings:', error)
+      toast.error('Failed to save reminder settings')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleAddRule = async () => {
+    if (!activeTeam) return
+
+    const hours = Number(ruleHours)
+    if (!ruleHours.trim() || !Number.isInteger(hours) || hours < 0 || hours > 2160) {
+      toast.error('Enter a whole number of hours between 0 and 2160')
+      return
+    }
+
+    setSaving('rule')
+    try {
+      await addEscalationRule({
+        team_id: activeTeam.id,
+        from_priority: fromPriority,
+        to_priority: toPriority,
+        condition,
+        hours,
+      })
+      toast.success('Escalation rule added')
+      refetch()
+    } catch (error) {
+      console.error('Error adding escalation rule:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to add escalation rule')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleRemoveRule = async (ruleId: string) => {
+    try {
+      await removeEscalationRule(ruleId)
+      toast.success('Escalation rule removed')
+      refetch()
+    } catch (error) {
+      console.error('Error removing escalation rule:', error)
+      toast.error('Failed to remove escalation rule')
+    }
+  }
+
+  if (!canManageTeam) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+                <CardTitle>Team Admins Only</CardTitle>
+                <CardDescription>You don&apos;t have permission to manage this team&apos;s due-date automation.</CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Due Dates</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Due Dates</h1>
+            <p className="text-muted-foreground">
+              Reminders and automatic escalation for requests in {activeTeam?.name || 'this team'}
+            </p>
+          </div>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>Reminders</CardTitle>
+              <CardDescription>
+                The assignee, or the requester when nobody is assigned, is reminded before an open
+                request is due. Requests are always marked overdue once their due date passes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <Skeleton className="h-16 w-full" />
+              ) : (
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Due-soon reminders</Label>
+                    <Select
+                      value={reminders.reminders_enabled ? 'on' : 'off'}
+                      onValueChange={(value) => setReminders((current) => ({ ...current, reminders_enabled: value === 'on' }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="on">On</SelectItem>
+                        <SelectItem value="off">Off</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reminder-days">Days before due</Label>
+                    <Input
+                      id="reminder-days"
+                      type="number"
+                      min="1"
+                      max="30"
+                      disabled={!reminders.reminders_enabled}
+                      value={reminders.reminder_days}
+                      onChange={(e) => setReminders((current) => ({ ...current, reminder_days: Number(e.target.value) }))}
+                    />
+                  </div>
+                </div>
+              )}
+              <Button onClick={handleSaveReminders} disabled={loading || saving === 'reminders'}>
+                {saving === 'reminders' ? 'Saving...' : 'Save Reminders'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>Escalation Rules ({rules.length})</CardTitle>
+              <CardDescription>
+                Raise the priority of open requests as their due date approaches or passes. Each step
+                happens once per request, so lowering the priority again by hand sticks.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Select value={fromPriority} onValueChange={(value) => handleFromPriorityChange(value as RequestPriority)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {escalationPriorities.slice(0, -1).map((priority) => (
+                        <SelectItem key={priority} value={priority}>{priorityLabels[priority]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Select value={toPriority} onValueChange={(value) => setToPriority(value as RequestPriority)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {higherPriorities.map((priority) => (
+                        <SelectItem key={priority} value={priority}>{priorityLabels[priority]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>When</Label>
+                  <Select value={condition} onValueChange={(value) => setCondition(value as EscalationCondition)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(escalationConditionLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="escalation-hours">Hours</Label>
+                  <Input
+                    id="escalation-hours"
+                    type="number"
+                    min="0"
+                    max="2160"
+                    className="w-24"
+                    value={ruleHours}
+                    onChange={(e) => setRuleHours(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleAddRule} disabled={saving === 'rule'}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rule
+                </Button>
+              </div>
+
+              {rules.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Escalation</TableHead>
+                      <TableHead>Condition</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.map((rule) => (
+                      <TableRow key={rule.id}>
+                        <TableCell className="font-medium">
+                          <span className="flex items-center gap-2">
+                            {priorityLabels[rule.from_priority]}
+                            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                            {priorityLabels[rule.to_priority]}
+                          </span>
+                        </TableCell>
+                        <TableCell>{describeEscalationRule(rule)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveRule(rule.id)}>
+                            Remove
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { toast } from 'sonner'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { useAuth } from '@/contexts/auth-context'
+import { useNotificationPreferences } from '@/hooks/use-notification-preferences'
+import { emailEventLabels, emailEventTypes, type EmailPreference } from '@/lib/notifications/events'
+import type { EmailEventType } from '@/lib/supabase/types'
+
+type DeliveryOption = 'off' | 'instant' | 'daily'
+
+function toOption(preference: EmailPreference): DeliveryOption {
+  return preference.email_enabled ? preference.delivery : 'off'
+}
+
+export default function NotificationSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <NotificationSettingsContent />
+    </ProtectedRoute>
+  )
+}
+
+function NotificationSettingsContent() {
+  const { profile } = useAuth()
+  const { preferences, loading, updatePreference } = useNotificationPreferences()
+
+  const handleChange = async (eventType: EmailEventType, option: DeliveryOption) => {
+    const saved = await updatePreference(
+      eventType,
+      option === 'off' ? { email_enabled: false } : { email_enabled: true, delivery: option }
+    )
+
+    if (saved) {
+      toast.success('Notification preferences saved')
+    } else {
+      toast.error('Failed to save notification preferences')
+    }
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Notifications</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Notifications</h1>
+            <p className="text-muted-foreground">Choose which emails you receive and how often</p>
+          </div>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>Email</CardTitle>
+              <CardDescription>
+                Sent to {profile?.email || 'your account email'}. In-app notifications are always on.
+                Daily digests arrive once a day with everything since the last one.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="divide-y">
+              {emailEventTypes.map((eventType) => (
+                <div key={eventType} className="flex items-center justify-between gap-4 py-4 first:pt-0 last:pb-0">
+                  <div>
+                    <p className="font-medium">{emailEventLabels[eventType].title}</p>
+                    <p className="text-sm text-muted-foreground">{emailEventLabels[eventType].description}</p>
+                  </div>
+                  {loading ? (
+                    <Skeleton className="h-9 w-36" />
+                  ) : (
+                    <Select
+                      value={toOption(preferences[eventType])}
+                      onValueChange={(value) => handleChange(eventType, value as DeliveryOption)}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="instant">Instantly</SelectItem>
+                        <SelectItem value="daily">Daily digest</SelectItem>
+                        <SelectItem value="off">Off</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,522 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { ArrowDown, ArrowUp, Plus, ShieldAlert, Trash2 } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import { priorityLabels } from '@/components/request-list'
+import { Badge } from '@/components/ui/badge'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useTeam } from '@/contexts/team-context'
+import { useAssignableProfiles } from '@/hooks/use-assignable-profiles'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useRequestTypes } from '@/hooks/use-request-types'
+import {
+  addRequestTypeField,
+  createRequestType,
+  customFieldTypeLabels,
+  deleteRequestType,
+  moveRequestTypeField,
+  parseFieldOptions,
+  removeRequestTypeField,
+  updateRequestType,
+} from '@/lib/request-types'
+import type { CustomFieldType, Profile, RequestPriority, RequestTypeWithFields } from '@/lib/supabase/types'
+
+const NO_ASSIGNEE = 'none'
+const priorities: RequestPriority[] = ['normal', 'high', 'urgent']
+
+export default function RequestTypesSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <RequestTypesSettingsContent />
+    </ProtectedRoute>
+  )
+}
+
+function RequestTypesSettingsContent() {
+  const { activeTeam } = useTeam()
+  const { canManageTeam } = usePermissions()
+  const { requestTypes, loading, refetch } = useRequestTypes()
+  const { profiles: assignees } = useAssignableProfiles()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [defaultPriority, setDefaultPriority] = useState<RequestPriority>('normal')
+  const [defaultAssignee, setDefaultAssignee] = useState(NO_ASSIGNEE)
+  const [creating, setCreating] = useState(false)
+
+  const handleCreate = async () => {
+    if (!activeTeam) return
+    if (!name.trim()) {
+      toast.error('Please enter a name')
+      return
+    }
+
+    setCreating(true)
+    try {
+      await createRequestType(
+        activeTeam.id,
+        {
+          name: name.trim(),
+          description: description.trim() || null,
+          default_priority: defaultPriority,
+          default_assignee: defaultAssignee === NO_ASSIGNEE ? null : defaultAssignee,
+        },
+        requestTypes.length
+      )
+      toast.success('Request type created')
+      setName('')
+      setDescription('')
+      setDefaultPriority('normal')
+      setDefaultAssignee(NO_ASSIGNEE)
+      refetch()
+    } catch (error) {
+      console.error('Error creating request type:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to create request type')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (!canManageTeam) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+                <CardTitle>Team Admins Only</CardTitle>
+                <CardDescription>You don&apos;t have permission to manage this team&apos;s request types.</CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Request Types</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Request Types</h1>
+            <p className="text-muted-foreground">
+              Intake forms for the kinds of requests {activeTeam?.name || 'this team'} handles
+            </p>
+          </div>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>New Request Type</CardTitle>
+              <CardDescription>
+                Requesters pick a type on the New Request form and fill in its fields. The default
+                assignee picks up new requests of the type automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="type-name">Name</Label>
+                  <Input
+                    id="type-name"
+                    placeholder="e.g. Access request"
+                    maxLength={100}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="type-description">Description</Label>
+                  <Input
+                    id="type-description"
+                    placeholder="Shown under the type picker"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Default priority</Label>
+                  <PrioritySelect value={defaultPriority} onChange={setDefaultPriority} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Default assignee</Label>
+                  <AssigneeSelect value={defaultAssignee} assignees={assignees} onChange={setDefaultAssignee} />
+                </div>
+              </div>
+              <Button onClick={handleCreate} disabled={creating}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Request Type
+              </Button>
+            </CardContent>
+          </Card>
+
+          {loading ? (
+            <Skeleton className="h-40 max-w-3xl" />
+          ) : (
+            requestTypes.map((requestType) => (
+              <RequestTypeCard
+                key={requestType.id}
+                requestType={requestType}
+                assignees={assignees}
+                onChange={refetch}
+              />
+            ))
+          )}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
+
+function PrioritySelect({ value, onChange }: { value: RequestPriority; onChange: (value: RequestPriority) => void }) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as RequestPriority)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {priorities.map((priority) => (
+          <SelectItem key={priority} value={priority}>{priorityLabels[priority]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface AssigneeSelectProps {
+  value: string
+  assignees: Profile[]
+  onChange: (value: string) => void
+}
+
+function AssigneeSelect({ value, assignees, onChange }: AssigneeSelectProps) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_ASSIGNEE}>Nobody</SelectItem>
+        {assignees.map((assignee) => (
+          <SelectItem key={assignee.id} value={assignee.id}>
+            {assignee.full_name || assignee.email}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface RequestTypeCardProps {
+  requestType: RequestTypeWithFields
+  assignees: Profile[]
+  onChange: () => void
+}
+
+function RequestTypeCard({ requestType, assignees, onChange }: RequestTypeCardProps) {
+  const [label, setLabel] = useState('')
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text')
+  const [required, setRequired] = useState(false)
+  const [options, setOptions] = useState('')
+  const [helpText, setHelpText] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const run = async (action: () => Promise<void>, success: string, failure: string) => {
+    setSaving(true)
+    try {
+      await action()
+      toast.success(success)
+      onChange()
+    } catch (error) {
+      console.error('Error updating request type:', error)
+      toast.error(error instanceof Error && error.message.startsWith('A request type') ? error.message : failure)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddField = () => {
+    const parsedOptions = fieldType === 'select' ? parseFieldOptions(options) : []
+
+    if (!label.trim()) {
+      toast.error('Please enter a field label')
+      return
+    }
+    if (fieldType === 'select' && parsedOptions.length === 0) {
+      toast.error('Add at least one option, separated by commas')
+      return
+    }
+
+    run(
+      async () => {
+        await addRequestTypeField(
+          requestType.id,
+          {
+            label: label.trim(),
+            field_type: fieldType,
+            required,
+            options: parsedOptions,
+            help_text: helpText.trim() || null,
+          },
+          requestType.fields.length
+        )
+        setLabel('')
+        setRequired(false)
+        setOptions('')
+        setHelpText('')
+      },
+      'Field added',
+      'Failed to add field'
+    )
+  }
+
+  const handleRemoveField = (fieldId: string, fieldLabel: string) => {
+    if (!confirm(`Remove "${fieldLabel}"? Answers already given to it are deleted too.`)) return
+    run(() => removeRequestTypeField(fieldId), 'Field removed', 'Failed to remove field')
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete "${requestType.name}"? Its requests are kept, but lose their answers to its fields. Deactivate it instead to keep them.`)) return
+    run(() => deleteRequestType(requestType.id), 'Request type deleted', 'Failed to delete request type')
+  }
+
+  return (
+    <Card className="max-w-3xl">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              {requestType.name}
+              {!requestType.is_active && <Badge variant="outline">Inactive</Badge>}
+            </CardTitle>
+            {requestType.description && <CardDescription>{requestType.description}</CardDescription>}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={saving}
+              onClick={() =>
+                run(
+                  () => updateRequestType(requestType.id, { is_active: !requestType.is_active }),
+                  requestType.is_active ? 'Request type deactivated' : 'Request type activated',
+                  'Failed to update request type'
+                )
+              }
+            >
+              {requestType.is_active ? 'Deactivate' : 'Activate'}
+            </Button>
+            <Button variant="ghost" size="sm" disabled={saving} onClick={handleDelete}>
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Delete</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Default priority</Label>
+            <PrioritySelect
+              value={requestType.default_priority}
+              onChange={(value) =>
+                run(
+                  () => updateRequestType(requestType.id, { default_priority: value }),
+                  'Default priority updated',
+                  'Failed to update request type'
+                )
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Default assignee</Label>
+            <AssigneeSelect
+              value={requestType.default_assignee || NO_ASSIGNEE}
+              assignees={assignees}
+              onChange={(value) =>
+                run(
+                  () => updateRequestType(requestType.id, { default_assignee: value === NO_ASSIGNEE ? null : value }),
+                  'Default assignee updated',
+                  'Failed to update request type'
+                )
+              }
+            />
+          </div>
+        </div>
+
+        {requestType.fields.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Required</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requestType.fields.map((field, index) => (
+                <TableRow key={field.id}>
+                  <TableCell>
+                    <p className="font-medium">{field.label}</p>
+                    {field.field_type === 'select' && (
+                      <p className="text-xs text-muted-foreground">{field.options.join(', ')}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{customFieldTypeLabels[field.field_type]}</TableCell>
+                  <TableCell>{field.required ? 'Yes' : 'No'}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving || index === 0}
+                        onClick={() => run(() => moveRequestTypeField(requestType.fields, field.id, -1), 'Field moved', 'Failed to move field')}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving || index === requestType.fields.length - 1}
+                        onClick={() => run(() => moveRequestTypeField(requestType.fields, field.id, 1), 'Field moved', 'Failed to move field')}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => handleRemoveField(field.id, field.label)}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <p className="text-sm font-medium">Add Field</p>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`field-label-${requestType.id}`}>Label</Label>
+              <Input
+                id={`field-label-${requestType.id}`}
+                placeholder="e.g. Cost center"
+                maxLength={100}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={fieldType} onValueChange={(value) => setFieldType(value as CustomFieldType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(customFieldTypeLabels).map(([value, typeLabel]) => (
+                    <SelectItem key={value} value={value}>{typeLabel}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {fieldType === 'select' && (
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor={`field-options-${requestType.id}`}>Options</Label>
+                <Input
+                  id={`field-options-${requestType.id}`}
+                  placeholder="Comma-separated, e.g. Laptop, Monitor, Headset"
+                  value={options}
+                  onChange={(e) => setOptions(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor={`field-help-${requestType.id}`}>Help text</Label>
+              <Input
+                id={`field-help-${requestType.id}`}
+                placeholder="Optional hint shown under the field"
+                value={helpText}
+                onChange={(e) => setHelpText(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              id={`field-required-${requestType.id}`}
+              type="checkbox"
+              className="h-4 w-4 accent-primary"
+              checked={required}
+              onChange={(e) => setRequired(e.target.checked)}
+            />
+            <Label htmlFor={`field-required-${requestType.id}`}>Required</Label>
+          </div>
+          <Button variant="outline" onClick={handleAddField} disabled={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
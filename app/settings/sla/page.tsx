@@ -0,0 +1,480 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { CalendarPlus, ShieldAlert } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import { priorityLabels } from '@/components/request-list'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useSlaConfig } from '@/hooks/use-sla-config'
+import {
+  addSlaHoliday,
+  defaultSlaSettings,
+  removeSlaHoliday,
+  saveSlaPolicy,
+  saveSlaSettings,
+  slaPriorities,
+  weekdayLabels,
+} from '@/lib/sla'
+import type { RequestPriority, SlaSettings } from '@/lib/supabase/types'
+
+type TargetDraft = { firstResponseHours: string; resolutionHours: string }
+
+const emptyTargets = Object.fromEntries(
+  slaPriorities.map((priority) => [priority, { firstResponseHours: '', resolutionHours: '' }])
+) as Record<RequestPriority, TargetDraft>
+
+// Targets are edited in hours and stored in minutes
+function toHours(minutes: number) {
+  return String(Math.round((minutes / 60) * 100) / 100)
+}
+
+function toMinutes(hours: string) {
+  const value = Number(hours)
+  return hours.trim() && Number.isFinite(value) && value > 0 ? Math.round(value * 60) : null
+}
+
+export default function SlaSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <SlaSettingsContent />
+    </ProtectedRoute>
+  )
+}
+
+function SlaSettingsContent() {
+  const { activeTeam } = useTeam()
+  const { canManageTeam } = usePermissions()
+  const { policies, settings, holidays, loading, refetch } = useSlaConfig()
+  const [targets, setTargets] = useState<Record<RequestPriority, TargetDraft>>(emptyTargets)
+  const [hours, setHours] = useState<Omit<SlaSettings, 'team_id' | 'updated_at'>>(defaultSlaSettings)
+  const [holidayDate, setHolidayDate] = useState('')
+  const [holidayName, setHolidayName] = useState('')
+  const [saving, setSaving] = useState<'targets' | 'hours' | 'holiday' | null>(null)
+
+  useEffect(() => {
+    const next = { ...emptyTargets }
+    policies.forEach((policy) => {
+      next[policy.priority] = {
+        firstResponseHours: toHours(policy.first_response_minutes),
+        resolutionHours: toHours(policy.resolution_minutes),
+      }
+    })
+    setTargets(next)
+  }, [policies])
+
+  useEffect(() => {
+    if (!settings) {
+      setHours(defaultSlaSettings)
+      return
+    }
+    const { team_id: _teamId, updated_at: _updatedAt, ...rest } = settings
+    // Postgres returns times as HH:MM:SS; the time inputs use HH:MM
+    setHours({ ...rest, day_start: rest.day_start.slice(0, 5), day_end: rest.day_end.slice(0, 5) })
+  }, [settings])
+
+  const updateTarget = (priority: RequestPriority, field: keyof TargetDraft, value: string) => {
+    setTargets((current) => ({ ...current, [priority]: { ...current[priority], [field]: value } }))
+  }
+
+  const toggleDay = (day: number) => {
+    setHours((current) => ({
+      ...current,
+      business_days: current.business_days.includes(day)
+        ? current.business_days.filter((d) => d !== day)
+        : [...current.business_days, day].sort(),
+    }))
+  }
+
+  const handleSaveTargets = async () => {
+    if (!activeTeam) return
+
+    for (const priority of slaPriorities) {
+      const { firstResponseHours, resolutionHours } = targets[priority]
+      const firstResponse = toMinutes(firstResponseHours)
+      const resolution = toMinutes(resolutionHours)
+      if ((firstResponseHours.trim() || resolutionHours.trim()) && (!firstResponse || !resolution)) {
+        toast.error(`Enter both targets as positive hours for ${priorityLabels[priority]}, or leave both empty`)
+        return
+      }
+    }
+
+    setSaving('targets')
+    try {
+      await Promise.all(
+        slaPriorities.map((priority) => {
+          const firstResponse = toMinutes(targets[priority].firstResponseHours)
+          const resolution = toMinutes(targets[priority].resolutionHours)
+          return saveSlaPolicy(
+            activeTeam.id,
+            priority,
+            firstResponse && resolution
+              ? { first_response_minutes: firstResponse, resolution_minutes: resolution }
+              : null
+          )
+        })
+      )
+      toast.success('SLA targets saved')
+      refetch()
+    } catch (error) {
+      console.error('Error saving SLA targets:', error)
+      toast.error('Failed to save SLA targets')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleSaveHours = async () => {
+    if (!activeTeam) return
+    if (hours.business_days.length === 0) {
+      toast.error('Pick at least one business day')
+      return
+    }
+    if (hours.day_end <= hours.day_start) {
+      toast.error('Business hours must end after they start')
+      return
+    }
+
+    setSaving('hours')
+    try {
+      await saveSlaSettings(activeTeam.id, { ...hours, timezone: hours.timezone.trim() })
+      toast.success('Business hours saved')
+      refetch()
+    } catch (error) {
+      console.error('Error saving business hours:', error)
+      toast.error(error instanceof Error && error.message.startsWith('Unknown time zone')
+        ? error.message
+        : 'Failed to save business hours')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleAddHoliday = async () => {
+    if (!activeTeam || !holidayDate || !holidayName.trim()) return
+
+    setSaving('holiday')
+    try {
+      await addSlaHoliday({ team_id: activeTeam.id, holiday_date: holidayDate, name: holidayName.trim() })
+      toast.success('Holiday added')
+      setHolidayDate('')
+      setHolidayName('')
+      refetch()
+    } catch (error) {
+      console.error('Error adding holiday:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to add holiday')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleRemoveHoliday = async (date: string) => {
+    if (!activeTeam) return
+
+    try {
+      await removeSlaHoliday(activeTeam.id, date)
+      toast.success('Holiday removed')
+      refetch()
+    } catch (error) {
+      console.error('Error removing holiday:', error)
+      toast.error('Failed to remove holiday')
+    }
+  }
+
+  if (!canManageTeam) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+                <CardTitle>Team Admins Only</CardTitle>
+                <CardDescription>You don&apos;t have permission to manage this team&apos;s SLAs.</CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>SLAs</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">SLAs</h1>
+            <p className="text-muted-foreground">
+              Response and resolution targets for requests in {activeTeam?.name || 'this team'}
+            </p>
+          </div>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>Targets</CardTitle>
+              <CardDescription>
+                In hours, counted with the clock below. Leave a priority empty for no SLA.
+                The resolution clock pauses while a request is under review.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>First response (hours)</TableHead>
+                      <TableHead>Resolution (hours)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {slaPriorities.map((priority) => (
+                      <TableRow key={priority}>
+                        <TableCell className="font-medium">{priorityLabels[priority]}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.25"
+                            className="w-32"
+                            value={targets[priority].firstResponseHours}
+                            onChange={(e) => updateTarget(priority, 'firstResponseHours', e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.25"
+                            className="w-32"
+                            value={targets[priority].resolutionHours}
+                            onChange={(e) => updateTarget(priority, 'resolutionHours', e.target.value)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <Button onClick={handleSaveTargets} disabled={loading || saving === 'targets'}>
+                {saving === 'targets' ? 'Saving...' : 'Save Targets'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>Clock</CardTitle>
+              <CardDescription>
+                Whether SLA time runs around the clock or only during business hours.
+                Holidays are skipped when counting business hours.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Count time</Label>
+                  <Select
+                    value={hours.business_hours_only ? 'business' : 'always'}
+                    onValueChange={(value) => setHours((current) => ({ ...current, business_hours_only: value === 'business' }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="always">Around the clock</SelectItem>
+                      <SelectItem value="business">Business hours only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sla-at-risk">At risk after (% of target)</Label>
+                  <Input
+                    id="sla-at-risk"
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={hours.at_risk_percent}
+                    onChange={(e) => setHours((current) => ({ ...current, at_risk_percent: Number(e.target.value) }))}
+                  />
+                </div>
+              </div>
+
+              {hours.business_hours_only && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Business days</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(weekdayLabels).map(([day, label]) => (
+                        <Button
+                          key={day}
+                          type="button"
+                          size="sm"
+                          variant={hours.business_days.includes(Number(day)) ? 'secondary' : 'outline'}
+                          onClick={() => toggleDay(Number(day))}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="sla-day-start">Opens</Label>
+                      <Input
+                        id="sla-day-start"
+                        type="time"
+                        value={hours.day_start}
+                        onChange={(e) => setHours((current) => ({ ...current, day_start: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sla-day-end">Closes</Label>
+                      <Input
+                        id="sla-day-end"
+                        type="time"
+                        value={hours.day_end}
+                        onChange={(e) => setHours((current) => ({ ...current, day_end: e.target.value }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="sla-timezone">Time zone</Label>
+                      <Input
+                        id="sla-timezone"
+                        placeholder="e.g. Europe/Berlin"
+                        value={hours.timezone}
+                        onChange={(e) => setHours((current) => ({ ...current, timezone: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+
+              <Button onClick={handleSaveHours} disabled={loading || saving === 'hours'}>
+                {saving === 'hours' ? 'Saving...' : 'Save Clock'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="max-w-3xl">
+            <CardHeader>
+              <CardTitle>Holidays ({holidays.length})</CardTitle>
+              <CardDescription>Days that never count towards business hours</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sla-holiday-date">Date</Label>
+                  <Input
+                    id="sla-holiday-date"
+                    type="date"
+                    value={holidayDate}
+                    onChange={(e) => setHolidayDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 flex-1 min-w-[200px]">
+                  <Label htmlFor="sla-holiday-name">Name</Label>
+                  <Input
+                    id="sla-holiday-name"
+                    placeholder="e.g. New Year's Day"
+                    value={holidayName}
+                    onChange={(e) => setHolidayName(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={handleAddHoliday}
+                  disabled={!holidayDate || !holidayName.trim() || saving === 'holiday'}
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+
+              {holidays.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holidays.map((holiday) => (
+                      <TableRow key={holiday.holiday_date}>
+                        <TableCell>{format(new Date(`${holiday.holiday_date}T00:00:00`), 'EEE, MMM d, yyyy')}</TableCell>
+                        <TableCell>{holiday.name}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleRemoveHoliday(holiday.holiday_date)}>
+                            Remove
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
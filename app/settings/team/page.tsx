@@ -0,0 +1,321 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { ShieldAlert, UserPlus } from 'lucide-react'
+import { ProtectedRoute } from '@/components/protected-route'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useProfiles } from '@/hooks/use-profiles'
+import { useTeamMembers, type TeamMember } from '@/hooks/use-team-members'
+import { roleLabels, userRoles } from '@/lib/admin-users'
+import { supabase } from '@/lib/supabase/client'
+import type { UserRole } from '@/lib/supabase/types'
+
+export default function TeamSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <TeamSettingsContent />
+    </ProtectedRoute>
+  )
+}
+
+function TeamSettingsContent() {
+  const { user } = useAuth()
+  const { activeTeam } = useTeam()
+  const { canManageTeam } = usePermissions()
+  const { members, loading, refetch } = useTeamMembers(activeTeam?.id)
+  const { profiles } = useProfiles()
+  const [newMemberId, setNewMemberId] = useState('')
+  const [newMemberRole, setNewMemberRole] = useState<UserRole>('user')
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const memberIds = new Set(members.map((member) => member.id))
+  const candidates = profiles.filter((profile) => !memberIds.has(profile.id) && !profile.deactivated_at)
+
+  const handleRoleChange = async (member: TeamMember, role: UserRole) => {
+    if (!activeTeam || role === member.team_role) return
+
+    setSavingId(member.id)
+    try {
+      const { error } = await supabase
+        .from('team_memberships')
+        .update({ role })
+        .eq('team_id', activeTeam.id)
+        .eq('user_id', member.id)
+
+      if (error) throw error
+
+      toast.success(`${member.full_name || member.email} is now ${roleLabels[role]} in ${activeTeam.name}`)
+      refetch()
+    } catch (error) {
+      console.error('Error updating team role:', error)
+      toast.error('Failed to update team role')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleRemove = async (member: TeamMember) => {
+    if (!activeTeam) return
+    if (!confirm(`Remove ${member.full_name || member.email} from ${activeTeam.name}?`)) return
+
+    setSavingId(member.id)
+    try {
+      const { error } = await supabase
+        .from('team_memberships')
+        .delete()
+        .eq('team_id', activeTeam.id)
+        .eq('user_id', member.id)
+
+      if (error) throw error
+
+      toast.success('Member removed')
+      refetch()
+    } catch (error) {
+      console.error('Error removing team member:', error)
+      toast.error('Failed to remove member')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!activeTeam || !newMemberId) return
+
+    setSavingId(newMemberId)
+    try {
+      const { error } = await supabase.from('team_memberships').insert({
+        team_id: activeTeam.id,
+        user_id: newMemberId,
+        role: newMemberRole,
+      })
+
+      if (error) throw error
+
+      toast.success('Member added')
+      setNewMemberId('')
+      setNewMemberRole('user')
+      refetch()
+    } catch (error) {
+      console.error('Error adding team member:', error)
+      toast.error('Failed to add member')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (!canManageTeam) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex flex-1 items-center justify-center p-6">
+            <Card className="max-w-md text-center">
+              <CardHeader>
+                <ShieldAlert className="h-10 w-10 mx-auto text-muted-foreground" />
+                <CardTitle>Team Admins Only</CardTitle>
+                <CardDescription>You don&apos;t have permission to manage this team.</CardDescription>
+              </CardHeader>
+            </Card>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem className="hidden md:block">
+                  <BreadcrumbLink href="/dashboard">
+                    Dashboard
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator className="hidden md:block" />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Team</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-6 p-6 pt-0">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{activeTeam?.name}</h1>
+            <p className="text-muted-foreground">Manage who belongs to this team and what they can do in it</p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Member</CardTitle>
+              <CardDescription>
+                People can belong to several teams with a different role in each.
+                To add someone who doesn&apos;t have an account yet, invite them from the Users page.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2 flex-1 min-w-[200px]">
+                  <Label>Person</Label>
+                  <Select value={newMemberId} onValueChange={setNewMemberId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={candidates.length === 0 ? 'Nobody left to add' : 'Select a person'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {candidates.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.full_name || profile.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Role</Label>
+                  <Select value={newMemberRole} onValueChange={(value) => setNewMemberRole(value as UserRole)}>
+                    <SelectTrigger className="w-[150px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userRoles.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleAdd} disabled={!newMemberId || savingId === newMemberId}>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Members ({members.length})</CardTitle>
+              <CardDescription>Platform admins act as admins in every team regardless of the role shown here.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="space-y-3">
+                  {[...Array(4)].map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead>Team Role</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {members.map((member) => {
+                      const isSelf = member.id === user?.id
+                      const saving = savingId === member.id
+                      return (
+                        <TableRow key={member.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-3">
+                              <Avatar className="h-8 w-8">
+                                <AvatarImage src={member.avatar_url || ''} />
+                                <AvatarFallback>{(member.full_name || member.email).charAt(0)}</AvatarFallback>
+                              </Avatar>
+                              <div>
+                                <p className="font-medium">
+                                  {member.full_name || 'Unnamed'}
+                                  {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                                </p>
+                                <p className="text-xs text-muted-foreground">{member.email}</p>
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={member.team_role}
+                              onValueChange={(value) => handleRoleChange(member, value as UserRole)}
+                              disabled={isSelf || saving}
+                            >
+                              <SelectTrigger className="w-[150px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {userRoles.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {roleLabels[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>{format(new Date(member.joined_at), 'MMM d, yyyy')}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRemove(member)}
+                              disabled={isSelf || saving}
+                            >
+                              Remove
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
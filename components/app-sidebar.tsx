@@ -2,19 +2,16 @@
 
 import * as React from "react"
 import {
-  AudioWaveform,
   BookOpen,
   Bot,
-  Command,
-  Frame,
-  GalleryVerticalEnd,
-  Map,
-  PieChart,
   Settings2,
   ClipboardList,
+  ShieldCheck,
 } from "lucide-react"
 
+import { GlobalSearch } from '@/components/global-search'
 import { NavMain } from '@/components/nav-main'
+import { NotificationBell } from '@/components/notification-bell'
 import { NavProjects } from '@/components/nav-projects'
 import { NavUser } from '@/components/nav-user'
 import { TeamSwitcher } from '@/components/team-switcher'
@@ -26,9 +23,14 @@ import {
   SidebarRail,
 } from '@/components/ui/sidebar'
 import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useSavedViews } from '@/hooks/use-saved-views'
+import { getSavedViewPath } from '@/lib/saved-views'
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const { profile } = useAuth()
+  const { canViewAllRequests, canManageTeam, canManageUsers } = usePermissions()
+  const { pinnedViews } = useSavedViews()
 
   const data = {
     user: {
@@ -36,23 +38,6 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       email: profile?.email || "user@example.com",
       avatar: profile?.avatar_url || "/placeholder-user.jpg",
     },
-    teams: [
-      {
-        name: "Acme Inc",
-        logo: GalleryVerticalEnd,
-        plan: "Enterprise",
-      },
-      {
-        name: "Acme Corp.",
-        logo: AudioWaveform,
-        plan: "Startup",
-      },
-      {
-        name: "Evil Corp.",
-        logo: Command,
-        plan: "Free",
-      },
-    ],
     navMain: [
       {
         title: "ReQue",
@@ -64,16 +49,63 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             title: "All Requests",
             url: "/reque/all",
           },
+          {
+            title: "Board",
+            url: "/reque/board",
+          },
+          {
+            title: "Calendar",
+            url: "/reque/calendar",
+          },
           {
             title: "My Requests",
             url: "/reque/my-requests",
           },
+          ...(canViewAllRequests
+            ? [
+                {
+                  title: "Assigned to Me",
+                  url: "/reque/assigned",
+                },
+              ]
+            : []),
           {
             title: "New Request",
             url: "/reque/new",
           },
+          ...(canManageTeam
+            ? [
+                {
+                  title: "Import",
+                  url: "/reque/import",
+                },
+              ]
+            : []),
+          {
+            title: "Saved Views",
+            url: "/reque/views",
+          },
+          ...pinnedViews.map((view) => ({
+            title: view.name,
+            url: getSavedViewPath(view.id),
+          })),
         ],
       },
+      ...(canManageUsers
+        ? [
+            {
+              title: "Admin",
+              url: "/admin/users",
+              icon: ShieldCheck,
+              items: [
+                {
+                  title: "Users",
+                  url: "/admin/users",
+                },
+              ],
+            },
+          ]
+        : []),
     {
       title: "Models",
       url: "#",
@@ -125,9 +157,25 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           title: "General",
           url: "#",
         },
+        {
+          title: "Notifications",
+          url: "/settings/notifications",
+        },
         {
           title: "Team",
-          url: "#",
+          url: "/settings/team",
+        },
+        {
+          title: "SLAs",
+          url: "/settings/sla",
+        },
+        {
+          title: "Due Dates",
+          url: "/settings/due-dates",
+        },
+        {
+          title: "Request Types",
+          url: "/settings/request-types",
         },
         {
           title: "Billing",
@@ -140,33 +188,18 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       ],
     },
   ],
-    projects: [
-      {
-        name: "Design Engineering",
-        url: "#",
-        icon: Frame,
-      },
-      {
-        name: "Sales & Marketing",
-        url: "#",
-        icon: PieChart,
-      },
-      {
-        name: "Travel",
-        url: "#",
-        icon: Map,
-      },
-    ],
   }
 
   return (
     <Sidebar collapsible="icon" {...props}>
       <SidebarHeader>
-        <TeamSwitcher teams={data.teams} />
+        <TeamSwitcher />
+        <GlobalSearch />
+        <NotificationBell />
       </SidebarHeader>
       <SidebarContent>
         <NavMain items={data.navMain} />
-        <NavProjects projects={data.projects} />
+        <NavProjects />
       </SidebarContent>
       <SidebarFooter>
         <NavUser user={data.user} />
@@ -0,0 +1,91 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  validateAttachment,
+} from '@/lib/attachments'
+
+interface AttachmentDropzoneProps {
+  onFiles: (files: File[]) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function AttachmentDropzone({ onFiles, disabled, className }: AttachmentDropzoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || disabled) return
+
+    const accepted: File[] = []
+    Array.from(fileList).forEach((file) => {
+      const error = validateAttachment(file)
+      if (error) {
+        toast.error(error)
+      } else {
+        accepted.push(file)
+      }
+    })
+
+    if (accepted.length > 0) {
+      onFiles(accepted)
+    }
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={disabled ? -1 : 0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if (!disabled && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault()
+          inputRef.current?.click()
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault()
+        if (!disabled) setDragging(true)
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault()
+        setDragging(false)
+        handleFiles(e.dataTransfer.files)
+      }}
+      className={cn(
+        'flex flex-col items-center justify-center gap-2 rounded-md border border-dashed p-6 text-center text-sm transition-colors',
+        dragging ? 'border-primary bg-primary/5' : 'border-input',
+        disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer hover:bg-muted/50',
+        className
+      )}
+    >
+      <Upload className="h-6 w-6 text-muted-foreground" />
+      <p>
+        <span className="font-medium">Click to upload</span> or drag and drop
+      </p>
+      <p className="text-xs text-muted-foreground">
+        Images, PDF, text and Office documents up to {formatFileSize(MAX_ATTACHMENT_SIZE)}
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+        disabled={disabled}
+        onChange={(e) => {
+          handleFiles(e.target.files)
+          e.target.value = ''
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useAuth } from '@/contexts/auth-context'
+import {
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+  resetCalendarFeedToken,
+  revokeCalendarFeedToken,
+} from '@/lib/calendar'
+
+interface CalendarFeedDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Lets users create, copy, reset and turn off their private ICS feed URL
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { user } = useAuth()
+  const [token, setToken] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+
+  useEffect(() => {
+    if (!open || !user) return
+
+    setLoading(true)
+    getCalendarFeedToken(user.id)
+      .then(setToken)
+      .catch((error) => {
+        console.error('Error fetching calendar feed:', error)
+        toast.error('Failed to load calendar feed')
+      })
+      .finally(() => setLoading(false))
+  }, [open, user?.id])
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : ''
+
+  const handleReset = async () => {
+    setWorking(true)
+    try {
+      setToken(await resetCalendarFeedToken())
+      toast.success(token ? 'Feed URL reset. The old URL no longer works.' : 'Calendar feed created')
+    } catch (error) {
+      console.error('Error resetting calendar feed:', error)
+      toast.error('Failed to create calendar feed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!user) return
+
+    setWorking(true)
+    try {
+      await revokeCalendarFeedToken(user.id)
+      setToken(null)
+      toast.success('Calendar feed turned off')
+    } catch (error) {
+      console.error('Error turning off calendar feed:', error)
+      toast.error('Failed to turn off calendar feed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast.success('Feed URL copied')
+    } catch {
+      toast.error('Could not copy the URL')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to Your Deadlines</DialogTitle>
+          <DialogDescription>
+            Add this URL to Google Calendar, Outlook or Apple Calendar to see the due dates of requests
+            you created, are assigned to or watch. Anyone with the URL can see them, so keep it private.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Skeleton className="h-9 w-full" />
+        ) : token ? (
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy feed URL">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">You don&apos;t have a calendar feed yet.</p>
+        )}
+
+        <DialogFooter>
+          {token && (
+            <Button variant="ghost" disabled={working} onClick={handleRevoke}>
+              Turn Off
+            </Button>
+          )}
+          <Button variant={token ? 'outline' : 'default'} disabled={loading || working} onClick={handleReset}>
+            {token && <RefreshCw className="h-4 w-4 mr-2" />}
+            {token ? 'Reset URL' : 'Create Feed URL'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
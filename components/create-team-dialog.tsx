@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { supabase } from '@/lib/supabase/client'
+
+interface CreateTeamDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated: (teamId: string) => void
+}
+
+export function CreateTeamDialog({ open, onOpenChange, onCreated }: CreateTeamDialogProps) {
+  const [name, setName] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    setSubmitting(true)
+    try {
+      const { data, error } = await supabase.rpc('create_team', { p_name: name.trim() })
+
+      if (error) throw error
+
+      toast.success(`Team "${name.trim()}" created`)
+      setName('')
+      onOpenChange(false)
+      onCreated(data as string)
+    } catch (error) {
+      console.error('Error creating team:', error)
+      toast.error('Failed to create team')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Create Team</DialogTitle>
+            <DialogDescription>
+              You will be the team&apos;s first admin. Add members from the team settings page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="team-name">Name *</Label>
+            <Input
+              id="team-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={submitting}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || !name.trim()}>
+              {submitting ? 'Creating...' : 'Create Team'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
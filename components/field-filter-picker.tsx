@@ -0,0 +1,202 @@
+'use client'
+
+import { useState } from 'react'
+import { ListFilter } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  fieldFilterOperatorLabels,
+  fieldFilterOperators,
+  type FieldFilter,
+  type FieldFilterOperator,
+} from '@/lib/request-filters'
+import type { RequestTypeField, RequestTypeWithFields } from '@/lib/supabase/types'
+
+interface FieldFilterPickerProps {
+  requestTypes: RequestTypeWithFields[]
+  onAdd: (filter: FieldFilter) => void
+}
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+function isValidBound(field: RequestTypeField, value: string) {
+  if (field.field_type === 'number') return Number.isFinite(Number(value))
+  if (field.field_type === 'date') return datePattern.test(value)
+  return true
+}
+
+// Builds one filter on a request type field: pick the field, then an operator
+// that suits its type, then the value or range
+export function FieldFilterPicker({ requestTypes, onAdd }: FieldFilterPickerProps) {
+  const [open, setOpen] = useState(false)
+  const [fieldId, setFieldId] = useState('')
+  const [op, setOp] = useState<FieldFilterOperator>('eq')
+  const [value, setValue] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const typesWithFields = requestTypes.filter((type) => type.fields.length > 0)
+  const field = typesWithFields.flatMap((type) => type.fields).find((f) => f.id === fieldId)
+  const operators = field ? fieldFilterOperators[field.field_type] : []
+
+  if (typesWithFields.length === 0) return null
+
+  const handleFieldChange = (id: string) => {
+    const next = typesWithFields.flatMap((type) => type.fields).find((f) => f.id === id)
+    setFieldId(id)
+    setOp(next ? fieldFilterOperators[next.field_type][0] : 'eq')
+    setValue(next?.field_type === 'checkbox' ? 'true' : '')
+    setFrom('')
+    setTo('')
+    setError(null)
+  }
+
+  const handleAdd = () => {
+    if (!field) return
+
+    if (op === 'range') {
+      const lower = from.trim()
+      const upper = to.trim()
+      if (!lower && !upper) {
+        setError('Enter at least one bound')
+        return
+      }
+      if ((lower && !isValidBound(field, lower)) || (upper && !isValidBound(field, upper))) {
+        setError(field.field_type === 'number' ? 'Enter numbers' : 'Enter valid dates')
+        return
+      }
+      onAdd({ field: field.id, op, from: lower || undefined, to: upper || undefined })
+    } else if (op === 'empty') {
+      onAdd({ field: field.id, op })
+    } else {
+      const trimmed = value.trim()
+      if (!trimmed) {
+        setError('Enter a value')
+        return
+      }
+      if (!isValidBound(field, trimmed)) {
+        setError(field.field_type === 'number' ? 'Enter a number' : 'Enter a valid date')
+        return
+      }
+      onAdd({ field: field.id, op, value: trimmed })
+    }
+
+    setOpen(false)
+    handleFieldChange('')
+  }
+
+  const inputType = field?.field_type === 'number' ? 'number' : field?.field_type === 'date' ? 'date' : 'text'
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <ListFilter className="h-4 w-4 mr-2" />
+          Field filter
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label>Field</Label>
+          <Select value={fieldId} onValueChange={handleFieldChange}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a field" />
+            </SelectTrigger>
+            <SelectContent>
+              {typesWithFields.map((type) => (
+                <SelectGroup key={type.id}>
+                  <SelectLabel>{type.name}</SelectLabel>
+                  {type.fields.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {field && (
+          <>
+            {operators.length > 1 && (
+              <div className="space-y-2">
+                <Label>Condition</Label>
+                <Select value={op} onValueChange={(next) => { setOp(next as FieldFilterOperator); setError(null) }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {fieldFilterOperatorLabels[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {op === 'range' ? (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="field-filter-from">From</Label>
+                  <Input id="field-filter-from" type={inputType} value={from} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="field-filter-to">To</Label>
+                  <Input id="field-filter-to" type={inputType} value={to} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </div>
+            ) : op !== 'empty' && (
+              <div className="space-y-2">
+                <Label htmlFor="field-filter-value">Value</Label>
+                {field.field_type === 'select' || field.field_type === 'checkbox' ? (
+                  <Select value={value} onValueChange={setValue}>
+                    <SelectTrigger id="field-filter-value">
+                      <SelectValue placeholder="Select a value" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.field_type === 'checkbox' ? (
+                        <>
+                          <SelectItem value="true">Yes</SelectItem>
+                          <SelectItem value="false">No</SelectItem>
+                        </>
+                      ) : (
+                        field.options.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option}
+                          </SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input id="field-filter-value" type={inputType} value={value} onChange={(e) => setValue(e.target.value)} />
+                )}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button className="w-full" onClick={handleAdd}>
+              Add Filter
+            </Button>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
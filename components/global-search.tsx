@@ -0,0 +1,168 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { FileText, MessageSquare, Search } from 'lucide-react'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar'
+import { Badge } from '@/components/ui/badge'
+import { statusColors } from '@/components/request-list'
+import { statusLabels } from '@/lib/request-status'
+import { mentionsToPlainText } from '@/lib/mentions'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import type { RequestSearchResult } from '@/lib/supabase/types'
+
+const HIGHLIGHT_PATTERN = /\[\[\[(.*?)\]\]\]/g
+
+// ts_headline wraps matches in [[[ ]]] (see the full-text search migration).
+// Split on the markers and render <mark> elements so user text is never
+// injected as HTML.
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = mentionsToPlainText(snippet).split(HIGHLIGHT_PATTERN)
+
+  return (
+    <span className="text-xs text-muted-foreground line-clamp-2">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200/70 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </span>
+  )
+}
+
+export function GlobalSearch() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const { activeTeam } = useTeam()
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<RequestSearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < 2) {
+      setResults([])
+      return
+    }
+
+    let cancelled = false
+    const timeoutId = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const { data, error } = await supabase.rpc('search_requests', {
+          p_query: trimmed,
+          p_limit: 20,
+          p_team_id: activeTeam?.id || null,
+        })
+
+        if (error) throw error
+        if (!cancelled) setResults((data || []) as RequestSearchResult[])
+      } catch (error) {
+        console.error('Error searching requests:', error)
+        if (!cancelled) setResults([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, 250)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [query, activeTeam?.id])
+
+  const handleSelect = (result: RequestSearchResult) => {
+    setOpen(false)
+    setQuery('')
+    router.push(`/reque/request/${result.request_id}`)
+  }
+
+  return (
+    <>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <SidebarMenuButton tooltip="Search" onClick={() => setOpen(true)}>
+            <Search />
+            <span>Search</span>
+            <kbd className="ml-auto pointer-events-none hidden h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground sm:inline-flex">
+              ⌘K
+            </kbd>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      </SidebarMenu>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        shouldFilter={false}
+        title="Search requests"
+        description="Search request titles, descriptions and comments"
+      >
+        <CommandInput
+          placeholder="Search requests and comments..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          <CommandEmpty>
+            {query.trim().length < 2 ? 'Type at least 2 characters' : loading ? 'Searching...' : 'No results found'}
+          </CommandEmpty>
+          {results.length > 0 && (
+            <CommandGroup heading="Requests">
+              {results.map((result) => (
+                <CommandItem
+                  key={result.request_id}
+                  value={result.request_id}
+                  onSelect={() => handleSelect(result)}
+                  className="items-start"
+                >
+                  {result.match_source === 'comment' ? (
+                    <MessageSquare className="mt-0.5" />
+                  ) : (
+                    <FileText className="mt-0.5" />
+                  )}
+                  <div className="flex flex-1 flex-col gap-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{result.title}</span>
+                      <Badge className={statusColors[result.status]}>{statusLabels[result.status]}</Badge>
+                    </div>
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  )
+}
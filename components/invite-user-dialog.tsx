@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import type { UserRole } from '@/lib/supabase/types'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTeam } from '@/contexts/team-context'
+import { inviteUser, roleLabels, userRoles } from '@/lib/admin-users'
+
+interface InviteUserDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onInvited: () => void
+}
+
+export function InviteUserDialog({ open, onOpenChange, onInvited }: InviteUserDialogProps) {
+  const { activeTeam } = useTeam()
+  const [email, setEmail] = useState('')
+  const [fullName, setFullName] = useState('')
+  const [role, setRole] = useState<UserRole>('user')
+  const [submitting, setSubmitting] = useState(false)
+
+  const reset = () => {
+    setEmail('')
+    setFullName('')
+    setRole('user')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setSubmitting(true)
+    try {
+      await inviteUser(email.trim(), role, fullName.trim() || undefined, activeTeam?.id)
+      toast.success(`Invitation sent to ${email.trim()}`)
+      reset()
+      onOpenChange(false)
+      onInvited()
+    } catch (error) {
+      console.error('Error inviting user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              They will get an email to set a password. Their account starts with the role you pick here
+              {activeTeam ? <> and joins {activeTeam.name}</> : null}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email *</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={submitting}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-name">Full Name</Label>
+            <Input
+              id="invite-name"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              disabled={submitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-role">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as UserRole)} disabled={submitting}>
+              <SelectTrigger id="invite-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {userRoles.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {roleLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || !email.trim()}>
+              {submitting ? 'Sending...' : 'Send Invite'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Markdown } from '@/components/markdown'
+import { formatMention } from '@/lib/mentions'
+import { cn } from '@/lib/utils'
+import type { Profile } from '@/lib/supabase/types'
+
+interface MarkdownEditorProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  rows?: number
+  disabled?: boolean
+  mentionables?: Profile[]
+}
+
+interface MentionQuery {
+  start: number
+  query: string
+}
+
+const MAX_SUGGESTIONS = 6
+
+// An "@" at the start of a word, followed by the name typed so far
+function findMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = /(^|\s)@([^\s@\[\]()]{0,30})$/.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: caret - match[2].length - 1, query: match[2].toLowerCase() }
+}
+
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  rows = 4,
+  disabled,
+  mentionables = [],
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mode, setMode] = useState<'write' | 'preview'>('write')
+  const [mention, setMention] = useState<MentionQuery | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const suggestions = mention
+    ? mentionables
+        .filter((profile) =>
+          [profile.full_name || '', profile.email].some((field) => field.toLowerCase().includes(mention.query))
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(findMentionQuery(text, caret))
+    setHighlighted(0)
+  }
+
+  const insertMention = (profile: Profile) => {
+    if (!mention) return
+    const caret = textareaRef.current?.selectionStart ?? value.length
+    const token = `${formatMention(profile)} `
+    const next = value.slice(0, mention.start) + token + value.slice(caret)
+    onChange(next)
+    setMention(null)
+
+    const nextCaret = mention.start + token.length
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted((current) => (current + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted((current) => (current - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      insertMention(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setMention(null)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'write' ? 'secondary' : 'ghost'}
+          onClick={() => setMode('write')}
+        >
+          Write
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={mode === 'preview' ? 'secondary' : 'ghost'}
+          onClick={() => {
+            setMode('preview')
+            setMention(null)
+          }}
+        >
+          Preview
+        </Button>
+      </div>
+
+      {mode === 'write' ? (
+        <div className="relative">
+          <Textarea
+            id={id}
+            ref={textareaRef}
+            value={value}
+            placeholder={placeholder}
+            rows={rows}
+            disabled={disabled}
+            onChange={(e) => {
+              onChange(e.target.value)
+              updateMention(e.target.value, e.target.selectionStart)
+            }}
+            onKeyDown={handleKeyDown}
+            onClick={(e) => updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+            onBlur={() => setMention(null)}
+          />
+          {suggestions.length > 0 && (
+            <ul className="absolute left-2 right-2 top-full z-50 mt-1 max-w-sm overflow-hidden rounded-md border bg-popover p-1 text-sm shadow-md">
+              {suggestions.map((profile, index) => (
+                <li key={profile.id}>
+                  <button
+                    type="button"
+                    className={cn(
+                      'flex w-full flex-col items-start rounded-sm px-2 py-1.5 text-left',
+                      index === highlighted && 'bg-accent text-accent-foreground'
+                    )}
+                    // Keep focus in the textarea so the caret position survives
+                    onMouseDown={(e) => {
+                      e.preventDefault()
+                      insertMention(profile)
+                    }}
+                    onMouseEnter={() => setHighlighted(index)}
+                  >
+                    <span className="font-medium">{profile.full_name || profile.email}</span>
+                    {profile.full_name && <span className="text-xs text-muted-foreground">{profile.email}</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <div className="min-h-[80px] rounded-md border px-3 py-2">
+          {value.trim() ? (
+            <Markdown content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Markdown is supported, including code blocks, checklists and links. Type @ to mention someone.
+      </p>
+    </div>
+  )
+}
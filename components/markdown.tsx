@@ -0,0 +1,69 @@
+'use client'
+
+import ReactMarkdown, { type Components } from 'react-markdown'
+import rehypeSanitize from 'rehype-sanitize'
+import remarkGfm from 'remark-gfm'
+import { MENTION_HREF_PREFIX, mentionsToMarkdown } from '@/lib/mentions'
+import { cn } from '@/lib/utils'
+
+interface MarkdownProps {
+  content: string
+  className?: string
+}
+
+const components: Components = {
+  a: ({ href, children }) => {
+    if (href?.startsWith(MENTION_HREF_PREFIX)) {
+      return <span className="rounded bg-primary/10 px-1 font-medium text-primary">{children}</span>
+    }
+    return (
+      <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+        {children}
+      </a>
+    )
+  },
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  h1: ({ children }) => <h1 className="mt-4 mb-2 text-lg font-semibold first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="mt-4 mb-2 text-base font-semibold first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="mt-3 mb-1 font-semibold first:mt-0">{children}</h3>,
+  ul: ({ children, className }) => (
+    <ul className={cn('my-2 pl-5', className?.includes('contains-task-list') ? 'list-none pl-1' : 'list-disc')}>
+      {children}
+    </ul>
+  ),
+  ol: ({ children }) => <ol className="my-2 list-decimal pl-5">{children}</ol>,
+  li: ({ children }) => <li className="my-0.5 [&>input]:mr-2 [&>input]:align-middle">{children}</li>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground">{children}</blockquote>
+  ),
+  code: ({ children, className }) =>
+    className ? (
+      <code className={className}>{children}</code>
+    ) : (
+      <code className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{children}</code>
+    ),
+  pre: ({ children }) => (
+    <pre className="my-2 overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs [&_code]:bg-transparent [&_code]:p-0">
+      {children}
+    </pre>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-left">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="border px-2 py-1 font-medium">{children}</th>,
+  td: ({ children }) => <td className="border px-2 py-1">{children}</td>,
+}
+
+// Renders user-written Markdown (GitHub flavoured: task lists, tables, fenced
+// code). Raw HTML is never rendered and the output is sanitized.
+export function Markdown({ content, className }: MarkdownProps) {
+  return (
+    <div className={cn('text-sm break-words', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]} components={components}>
+        {mentionsToMarkdown(content)}
+      </ReactMarkdown>
+    </div>
+  )
+}
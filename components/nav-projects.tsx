@@ -1,13 +1,19 @@
 "use client"
 
+import * as React from "react"
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { toast } from 'sonner'
 import {
   Folder,
+  FolderOpen,
   Forward,
   MoreHorizontal,
+  Plus,
   Trash2,
-  type LucideIcon,
 } from "lucide-react"
 
+import { CreateProjectDialog } from '@/components/create-project-dialog'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,66 +30,109 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useProjects } from '@/hooks/use-projects'
+import { copyProjectLink, deleteProject, getProjectPath } from '@/lib/projects'
+import type { Project } from '@/lib/supabase/types'
 
-export function NavProjects({
-  projects,
-}: {
-  projects: {
-    name: string
-    url: string
-    icon: LucideIcon
-  }[]
-}) {
+export function NavProjects() {
   const { isMobile } = useSidebar()
+  const router = useRouter()
+  const pathname = usePathname()
+  const { canManageTeam } = usePermissions()
+  const { projects, loading, refetch } = useProjects()
+  const [createOpen, setCreateOpen] = React.useState(false)
+
+  const handleShare = async (project: Project) => {
+    try {
+      await copyProjectLink(project.id)
+      toast.success('Project link copied')
+    } catch (error) {
+      console.error('Error copying project link:', error)
+      toast.error('Failed to copy project link')
+    }
+  }
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.name}"? Its requests are kept but will no longer belong to a project.`)) return
+
+    try {
+      await deleteProject(project.id)
+      toast.success('Project deleted')
+      refetch()
+      if (pathname === getProjectPath(project.id)) {
+        router.push('/dashboard')
+      }
+    } catch (error) {
+      console.error('Error deleting project:', error)
+      toast.error('Failed to delete project')
+    }
+  }
+
+  if (loading || (projects.length === 0 && !canManageTeam)) {
+    return null
+  }
 
   return (
     <SidebarGroup className="group-data-[collapsible=icon]:hidden">
       <SidebarGroupLabel>Projects</SidebarGroupLabel>
       <SidebarMenu>
-        {projects.map((item) => (
-          <SidebarMenuItem key={item.name}>
-            <SidebarMenuButton asChild>
-              <a href={item.url}>
-                <item.icon />
-                <span>{item.name}</span>
-              </a>
+        {projects.map((project) => (
+          <SidebarMenuItem key={project.id}>
+            <SidebarMenuButton asChild isActive={pathname === getProjectPath(project.id)}>
+              <Link href={getProjectPath(project.id)}>
+                <Folder />
+                <span>{project.name}</span>
+              </Link>
             </SidebarMenuButton>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <SidebarMenuAction showOnHover>
-                  <MoreHorizontal />
-                  <span className="sr-only">More</span>
-                </SidebarMenuAction>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent
-                className="w-48 rounded-lg"
-                side={isMobile ? "bottom" : "right"}
-                align={isMobile ? "end" : "start"}
-              >
-                <DropdownMenuItem>
-                  <Folder className="text-muted-foreground" />
-                  <span>View Project</span>
-                </DropdownMenuItem>
-                <DropdownMenuItem>
-                  <Forward className="text-muted-foreground" />
-                  <span>Share Project</span>
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem>
-                  <Trash2 className="text-muted-foreground" />
-                  <span>Delete Project</span>
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            {canManageTeam && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <SidebarMenuAction showOnHover>
+                    <MoreHorizontal />
+                    <span className="sr-only">More</span>
+                  </SidebarMenuAction>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                  className="w-48 rounded-lg"
+                  side={isMobile ? "bottom" : "right"}
+                  align={isMobile ? "end" : "start"}
+                >
+                  <DropdownMenuItem onClick={() => router.push(getProjectPath(project.id))}>
+                    <FolderOpen className="text-muted-foreground" />
+                    <span>View Project</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleShare(project)}>
+                    <Forward className="text-muted-foreground" />
+                    <span>Share Project</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => handleDelete(project)}>
+                    <Trash2 className="text-muted-foreground" />
+                    <span>Delete Project</span>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </SidebarMenuItem>
         ))}
-        <SidebarMenuItem>
-          <SidebarMenuButton className="text-sidebar-foreground/70">
-            <MoreHorizontal className="text-sidebar-foreground/70" />
-            <span>More</span>
-          </SidebarMenuButton>
-        </SidebarMenuItem>
+        {canManageTeam && (
+          <SidebarMenuItem>
+            <SidebarMenuButton className="text-sidebar-foreground/70" onClick={() => setCreateOpen(true)}>
+              <Plus className="text-sidebar-foreground/70" />
+              <span>New Project</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        )}
       </SidebarMenu>
+      <CreateProjectDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onCreated={(project) => {
+          refetch()
+          router.push(getProjectPath(project.id))
+        }}
+      />
     </SidebarGroup>
   )
 }
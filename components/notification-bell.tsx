@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { formatDistanceToNow } from 'date-fns'
+import { AtSign, Bell, CalendarClock, CheckCheck, MessageSquare, RefreshCw, UserCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar'
+import { useNotifications } from '@/hooks/use-notifications'
+import { cn } from '@/lib/utils'
+import type { NotificationType, UserNotification } from '@/lib/supabase/types'
+
+const notificationIcons: Record<NotificationType, typeof Bell> = {
+  comment_added: MessageSquare,
+  status_changed: RefreshCw,
+  assigned: UserCheck,
+  mentioned: AtSign,
+  due_reminder: CalendarClock,
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const { isMobile } = useSidebar()
+  const [open, setOpen] = useState(false)
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications()
+
+  const handleOpenNotification = (notification: UserNotification) => {
+    markAsRead(notification.id)
+    setOpen(false)
+    if (notification.request_id) {
+      router.push(`/reque/request/${notification.request_id}`)
+    }
+  }
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <SidebarMenuButton tooltip="Notifications">
+              <Bell />
+              <span>Notifications</span>
+            </SidebarMenuButton>
+          </PopoverTrigger>
+          {unreadCount > 0 && (
+            <SidebarMenuBadge className="bg-primary text-primary-foreground rounded-full">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </SidebarMenuBadge>
+          )}
+          <PopoverContent
+            className="w-80 p-0"
+            side={isMobile ? 'bottom' : 'right'}
+            align="start"
+          >
+            <div className="flex items-center justify-between border-b px-4 py-3">
+              <p className="text-sm font-medium">Notifications</p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={markAllAsRead}
+                disabled={unreadCount === 0}
+              >
+                <CheckCheck className="h-4 w-4 mr-2" />
+                Mark all read
+              </Button>
+            </div>
+            <div className="max-h-96 overflow-y-auto">
+              {notifications.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground text-center">You&apos;re all caught up</p>
+              ) : (
+                notifications.map((notification) => {
+                  const Icon = notificationIcons[notification.type] || Bell
+                  return (
+                    <button
+                      key={notification.id}
+                      type="button"
+                      onClick={() => handleOpenNotification(notification)}
+                      className={cn(
+                        'flex w-full gap-3 px-4 py-3 text-left text-sm hover:bg-muted/50 border-b last:border-b-0',
+                        !notification.read_at && 'bg-primary/5'
+                      )}
+                    >
+                      <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                      <div className="flex-1 min-w-0">
+                        <p className={cn(!notification.read_at && 'font-medium')}>{notification.message}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {!notification.read_at && (
+                        <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />
+                      )}
+                    </button>
+                  )
+                })
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      </SidebarMenuItem>
+    </SidebarMenu>
+  )
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { Download, FileText, Paperclip, Trash2 } from 'lucide-react'
+import type { Profile, RequestAttachment } from '@/lib/supabase/types'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AttachmentDropzone } from '@/components/attachment-dropzone'
+import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import {
+  deleteAttachment,
+  formatFileSize,
+  getAttachmentDownloadUrl,
+  getAttachmentUrls,
+  isImageAttachment,
+  isPdfAttachment,
+  uploadAttachment,
+} from '@/lib/attachments'
+
+interface RequestAttachmentsProps {
+  requestId: string
+  attachments: RequestAttachment[]
+  profiles: Map<string, Profile>
+  canUpload: boolean
+  onChange: () => void
+}
+
+export function RequestAttachments({
+  requestId,
+  attachments,
+  profiles,
+  canUpload,
+  onChange,
+}: RequestAttachmentsProps) {
+  const { user } = useAuth()
+  const { canDeleteAttachment } = usePermissions()
+  const [previewUrls, setPreviewUrls] = useState<Map<string, string>>(new Map())
+  const [uploading, setUploading] = useState(false)
+
+  useEffect(() => {
+    const previewable = attachments.filter((a) => isImageAttachment(a) || isPdfAttachment(a))
+
+    getAttachmentUrls(previewable)
+      .then(setPreviewUrls)
+      .catch((error) => console.error('Error loading attachment previews:', error))
+  }, [attachments])
+
+  const handleUpload = async (files: File[]) => {
+    if (!user) return
+
+    setUploading(true)
+    let uploaded = 0
+
+    for (const file of files) {
+      try {
+        await uploadAttachment(requestId, user.id, file)
+        uploaded++
+      } catch (error) {
+        console.error('Error uploading attachment:', error)
+        toast.error(`Failed to upload ${file.name}`)
+      }
+    }
+
+    setUploading(false)
+    if (uploaded > 0) {
+      toast.success(uploaded === 1 ? 'File uploaded' : `${uploaded} files uploaded`)
+      onChange()
+    }
+  }
+
+  const handleDownload = async (attachment: RequestAttachment) => {
+    try {
+      window.location.href = await getAttachmentDownloadUrl(attachment)
+    } catch (error) {
+      console.error('Error downloading attachment:', error)
+      toast.error('Failed to download file')
+    }
+  }
+
+  const handleDelete = async (attachment: RequestAttachment) => {
+    if (!confirm(`Delete ${attachment.filename}?`)) return
+
+    try {
+      await deleteAttachment(attachment)
+      toast.success('Attachment deleted')
+      onChange()
+    } catch (error) {
+      console.error('Error deleting attachment:', error)
+      toast.error('Failed to delete attachment')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attachments ({attachments.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canUpload && <AttachmentDropzone onFiles={handleUpload} disabled={uploading} />}
+
+        {attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No attachments</p>
+        ) : (
+          attachments.map((attachment) => {
+            const previewUrl = previewUrls.get(attachment.file_url)
+            const uploader = profiles.get(attachment.uploaded_by)
+
+            return (
+              <div key={attachment.id} className="rounded-md border">
+                <div className="flex items-center gap-3 p-3">
+                  {isImageAttachment(attachment) || isPdfAttachment(attachment) ? (
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Paperclip className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{attachment.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(attachment.file_size)}
+                      {' · '}
+                      {uploader?.full_name || 'Unknown User'}
+                      {' · '}
+                      {format(new Date(attachment.created_at), 'MMM d, yyyy h:mm a')}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+                    <Download className="h-4 w-4" />
+                    <span className="sr-only">Download</span>
+                  </Button>
+                  {canDeleteAttachment(attachment.uploaded_by) && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(attachment)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  )}
+                </div>
+                {previewUrl && isImageAttachment(attachment) && (
+                  <div className="border-t p-3">
+                    <img
+                      src={previewUrl}
+                      alt={attachment.filename}
+                      className="max-h-80 rounded object-contain"
+                    />
+                  </div>
+                )}
+                {previewUrl && isPdfAttachment(attachment) && (
+                  <div className="border-t p-3">
+                    <iframe
+                      src={previewUrl}
+                      title={attachment.filename}
+                      className="h-96 w-full rounded"
+                    />
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
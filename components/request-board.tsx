@@ -0,0 +1,333 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { AlertTriangle, CalendarDays, Gauge, User } from 'lucide-react'
+import { priorityColors, priorityLabels } from '@/components/request-list'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  boardPriorities,
+  boardStatuses,
+  getWipState,
+  sortBoardRequests,
+  type BoardSwimlane,
+  type WipState,
+} from '@/lib/board'
+import { statusLabels } from '@/lib/request-status'
+import { cn } from '@/lib/utils'
+import type { Profile, Request, RequestStatus } from '@/lib/supabase/types'
+
+const UNASSIGNED_LANE = 'unassigned'
+
+const wipStateClasses: Record<WipState, string> = {
+  none: 'text-muted-foreground',
+  ok: 'text-muted-foreground',
+  at_limit: 'text-amber-700',
+  over: 'text-red-700',
+}
+
+interface Lane {
+  key: string
+  title: string
+  requests: Request[]
+}
+
+interface RequestBoardProps {
+  requests: Request[]
+  profiles: Map<string, Profile>
+  swimlane: BoardSwimlane
+  wipLimits: Partial<Record<RequestStatus, number>>
+  canEditWipLimits: boolean
+  canMove: (request: Request, status: RequestStatus) => boolean
+  onMove: (request: Request, status: RequestStatus) => void
+  onWipLimitChange: (status: RequestStatus, wipLimit: number | null) => Promise<void>
+}
+
+function buildLanes(requests: Request[], swimlane: BoardSwimlane, profiles: Map<string, Profile>): Lane[] {
+  if (swimlane === 'priority') {
+    return boardPriorities
+      .map((priority) => ({
+        key: priority,
+        title: priorityLabels[priority],
+        requests: requests.filter((request) => request.priority === priority),
+      }))
+      .filter((lane) => lane.requests.length > 0)
+  }
+
+  if (swimlane === 'assignee') {
+    const assigneeIds = Array.from(new Set(requests.map((request) => request.assigned_to).filter((id): id is string => !!id)))
+    const name = (id: string) => profiles.get(id)?.full_name || profiles.get(id)?.email || 'Unknown User'
+    const lanes = assigneeIds
+      .sort((a, b) => name(a).localeCompare(name(b)))
+      .map((id) => ({ key: id, title: name(id), requests: requests.filter((request) => request.assigned_to === id) }))
+    const unassigned = requests.filter((request) => !request.assigned_to)
+
+    return unassigned.length > 0
+      ? [...lanes, { key: UNASSIGNED_LANE, title: 'Unassigned', requests: unassigned }]
+      : lanes
+  }
+
+  return [{ key: 'all', title: '', requests }]
+}
+
+export function RequestBoard({
+  requests,
+  profiles,
+  swimlane,
+  wipLimits,
+  canEditWipLimits,
+  canMove,
+  onMove,
+  onWipLimitChange,
+}: RequestBoardProps) {
+  const [dragging, setDragging] = useState<Request | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const counts = Object.fromEntries(
+    boardStatuses.map((status) => [status, requests.filter((request) => request.status === status).length])
+  ) as Record<RequestStatus, number>
+  const lanes = buildLanes(requests, swimlane, profiles)
+
+  const endDrag = () => {
+    setDragging(null)
+    setDropTarget(null)
+  }
+
+  const handleDrop = (status: RequestStatus) => {
+    if (dragging && dragging.status !== status && canMove(dragging, status)) {
+      onMove(dragging, status)
+    }
+    endDrag()
+  }
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="min-w-[1100px] space-y-4">
+        <div className="grid grid-cols-5 gap-4">
+          {boardStatuses.map((status) => (
+            <ColumnHeader
+              key={status}
+              status={status}
+              count={counts[status]}
+              wipLimit={wipLimits[status]}
+              canEdit={canEditWipLimits}
+              onWipLimitChange={onWipLimitChange}
+            />
+          ))}
+        </div>
+
+        {lanes.map((lane) => (
+          <div key={lane.key} className="space-y-2">
+            {lane.title && (
+              <div className="flex items-center gap-2 border-b pb-1 text-sm font-medium">
+                {lane.title}
+                <span className="text-xs font-normal text-muted-foreground">{lane.requests.length}</span>
+              </div>
+            )}
+            <div className="grid grid-cols-5 gap-4">
+              {boardStatuses.map((status) => {
+                const cellKey = `${lane.key}:${status}`
+                const allowed = !!dragging && dragging.status !== status && canMove(dragging, status)
+                const cards = sortBoardRequests(lane.requests.filter((request) => request.status === status))
+
+                return (
+                  <div
+                    key={status}
+                    onDragOver={(e) => {
+                      if (!allowed) return
+                      e.preventDefault()
+                      e.dataTransfer.dropEffect = 'move'
+                      setDropTarget(cellKey)
+                    }}
+                    onDragLeave={() => setDropTarget((current) => (current === cellKey ? null : current))}
+                    onDrop={(e) => {
+                      e.preventDefault()
+                      handleDrop(status)
+                    }}
+                    className={cn(
+                      'min-h-24 space-y-2 rounded-lg border border-dashed bg-muted/30 p-2 transition-colors',
+                      dragging && !allowed && dragging.status !== status && 'opacity-50',
+                      allowed && 'border-primary/40',
+                      dropTarget === cellKey && 'border-primary bg-primary/5'
+                    )}
+                  >
+                    {cards.map((request) => (
+                      <BoardCard
+                        key={request.id}
+                        request={request}
+                        assignee={request.assigned_to ? profiles.get(request.assigned_to) : undefined}
+                        draggable={boardStatuses.some((target) => target !== request.status && canMove(request, target))}
+                        dragging={dragging?.id === request.id}
+                        onDragStart={() => setDragging(request)}
+                        onDragEnd={endDrag}
+                      />
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function ColumnHeader({
+  status,
+  count,
+  wipLimit,
+  canEdit,
+  onWipLimitChange,
+}: {
+  status: RequestStatus
+  count: number
+  wipLimit: number | undefined
+  canEdit: boolean
+  onWipLimitChange: (status: RequestStatus, wipLimit: number | null) => Promise<void>
+}) {
+  const wipState = getWipState(count, wipLimit)
+
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-between gap-2 rounded-lg border px-3 py-2',
+        wipState === 'over' && 'border-red-500/40 bg-red-500/5',
+        wipState === 'at_limit' && 'border-amber-500/40 bg-amber-500/5'
+      )}
+    >
+      <div className="min-w-0">
+        <p className="truncate text-sm font-semibold">{statusLabels[status]}</p>
+        <p className={cn('flex items-center gap-1 text-xs', wipStateClasses[wipState])}>
+          {wipState === 'over' && <AlertTriangle className="h-3 w-3" />}
+          {wipLimit ? `${count} / ${wipLimit}` : count}
+          {wipState === 'over' && ' · over WIP limit'}
+          {wipState === 'at_limit' && ' · at WIP limit'}
+        </p>
+      </div>
+      {canEdit && <WipLimitEditor status={status} wipLimit={wipLimit} onSave={onWipLimitChange} />}
+    </div>
+  )
+}
+
+function WipLimitEditor({
+  status,
+  wipLimit,
+  onSave,
+}: {
+  status: RequestStatus
+  wipLimit: number | undefined
+  onSave: (status: RequestStatus, wipLimit: number | null) => Promise<void>
+}) {
+  const [open, setOpen] = useState(false)
+  const [value, setValue] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setValue(wipLimit ? String(wipLimit) : '')
+  }, [open, wipLimit])
+
+  const parsed = Number(value)
+  const valid = value.trim() !== '' && Number.isInteger(parsed) && parsed >= 1 && parsed <= 1000
+
+  const save = async (next: number | null) => {
+    setSaving(true)
+    try {
+      await onSave(status, next)
+      setOpen(false)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`WIP limit for ${statusLabels[status]}`}>
+          <Gauge className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60 space-y-3" align="end">
+        <div className="space-y-2">
+          <Label htmlFor={`wip-limit-${status}`}>WIP limit for {statusLabels[status]}</Label>
+          <Input
+            id={`wip-limit-${status}`}
+            type="number"
+            min="1"
+            max="1000"
+            placeholder="No limit"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          {wipLimit && (
+            <Button variant="ghost" size="sm" disabled={saving} onClick={() => save(null)}>
+              Remove
+            </Button>
+          )}
+          <Button size="sm" disabled={!valid || saving} onClick={() => save(parsed)}>
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function BoardCard({
+  request,
+  assignee,
+  draggable,
+  dragging,
+  onDragStart,
+  onDragEnd,
+}: {
+  request: Request
+  assignee: Profile | undefined
+  draggable: boolean
+  dragging: boolean
+  onDragStart: () => void
+  onDragEnd: () => void
+}) {
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move'
+        e.dataTransfer.setData('text/plain', request.id)
+        onDragStart()
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        'space-y-2 rounded-md border bg-card p-3 text-sm shadow-xs',
+        draggable && 'cursor-grab active:cursor-grabbing',
+        dragging && 'opacity-50'
+      )}
+    >
+      <Link href={`/reque/request/${request.id}`} className="block font-medium leading-snug hover:underline">
+        {request.title}
+      </Link>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="outline" className={priorityColors[request.priority]}>
+          {priorityLabels[request.priority]}
+        </Badge>
+        {request.due_date && (
+          <span className="flex items-center gap-1">
+            <CalendarDays className="h-3 w-3" />
+            {format(new Date(request.due_date), 'MMM d')}
+          </span>
+        )}
+        <span className="flex items-center gap-1 truncate">
+          <User className="h-3 w-3" />
+          {assignee?.full_name || (request.assigned_to ? 'Unknown User' : 'Unassigned')}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { CalendarClock, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { StatusReasonDialog } from '@/components/status-reason-dialog'
+import { priorityLabels } from '@/components/request-list'
+import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useAssignableProfiles } from '@/hooks/use-assignable-profiles'
+import { UNASSIGNED } from '@/lib/request-filters'
+import { canTransition, isReopen, statusLabels, transitionRequiresReason } from '@/lib/request-status'
+import {
+  runBulkAction,
+  summarizeBulkResults,
+  type BulkAction,
+  type BulkResult,
+  type BulkTarget,
+} from '@/lib/request-bulk-actions'
+import type { RequestPriority, RequestStatus } from '@/lib/supabase/types'
+
+interface RequestBulkActionsProps {
+  selected: BulkTarget[]
+  onClear: () => void
+  // Called with the requests that failed, which stay selected for a retry
+  onComplete: (failedIds: string[]) => void
+}
+
+interface BulkFailure {
+  id: string
+  title: string
+  message: string
+}
+
+const MAX_LISTED_FAILURES = 5
+
+export function RequestBulkActions({ selected, onClear, onComplete }: RequestBulkActionsProps) {
+  const { user } = useAuth()
+  const { isAdmin, canEditRequest, canDeleteRequest, canReassignRequest, canClaimRequest } = usePermissions()
+  const { profiles: assignableProfiles } = useAssignableProfiles()
+  const [running, setRunning] = useState(false)
+  const [pendingStatus, setPendingStatus] = useState<RequestStatus | null>(null)
+  const [shiftOpen, setShiftOpen] = useState(false)
+  const [shiftDays, setShiftDays] = useState('7')
+  const [failures, setFailures] = useState<BulkFailure[]>([])
+
+  // Mirrors the checks the detail page makes before offering the same change;
+  // the database has the final say for anything that gets through
+  const checkTarget = (target: BulkTarget, action: BulkAction): string | null => {
+    switch (action.type) {
+      case 'status':
+        if (!canEditRequest(target.created_by, target.assigned_to)) return 'You cannot edit this request'
+        if (target.status !== action.status && !canTransition(target.status, action.status, isAdmin)) {
+          return `Cannot move from ${statusLabels[target.status]} to ${statusLabels[action.status]}`
+        }
+        return null
+      case 'priority':
+      case 'shift_due':
+        return canEditRequest(target.created_by, target.assigned_to) ? null : 'You cannot edit this request'
+      case 'assign': {
+        const claiming = action.assigneeId === user?.id && canClaimRequest(target.assigned_to)
+        if (!canEditRequest(target.created_by, target.assigned_to) && !claiming) return 'You cannot edit this request'
+        return canReassignRequest(target.assigned_to) || claiming ? null : 'You cannot reassign this request'
+      }
+      case 'delete':
+        return canDeleteRequest(target.created_by) ? null : 'You cannot delete this request'
+    }
+  }
+
+  const run = async (action: BulkAction) => {
+    const skipped: BulkResult[] = []
+    const allowedIds: string[] = []
+    selected.forEach((target) => {
+      const reason = checkTarget(target, action)
+      if (reason) {
+        skipped.push({ requestId: target.id, outcome: 'skipped', message: reason })
+      } else {
+        allowedIds.push(target.id)
+      }
+    })
+
+    setRunning(true)
+    try {
+      const results = [...skipped, ...(await runBulkAction(allowedIds, action))]
+      const titles = new Map(selected.map((target) => [target.id, target.title]))
+      const failed = results.filter((result) => result.outcome === 'failed' || result.outcome === 'skipped')
+      const summary = summarizeBulkResults(action, results)
+
+      if (failed.length > 0) {
+        toast.warning(summary)
+      } else {
+        toast.success(summary)
+      }
+
+      setFailures(
+        failed.map((result) => ({
+          id: result.requestId,
+          title: titles.get(result.requestId) || 'Request',
+          message: result.message || 'Unknown error',
+        }))
+      )
+      onComplete(failed.map((result) => result.requestId))
+    } catch (error) {
+      console.error('Error running bulk action:', error)
+      toast.error('Failed to update requests')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleStatusChange = (status: RequestStatus) => {
+    if (selected.some((target) => target.status !== status && transitionRequiresReason(target.status, status))) {
+      setPendingStatus(status)
+      return
+    }
+    run({ type: 'status', status })
+  }
+
+  const handleShiftDueDates = () => {
+    const days = Number(shiftDays)
+    if (!Number.isInteger(days) || days === 0) {
+      toast.error('Enter a whole number of days other than 0')
+      return
+    }
+    setShiftOpen(false)
+    run({ type: 'shift_due', days })
+  }
+
+  const handleDelete = () => {
+    const count = selected.length
+    if (!confirm(`Delete ${count} request${count === 1 ? '' : 's'}? This cannot be undone.`)) return
+    run({ type: 'delete' })
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border bg-muted/50 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-2 text-sm font-medium">{selected.length} selected</span>
+
+        <Select value="" onValueChange={(value) => handleStatusChange(value as RequestStatus)} disabled={running}>
+          <SelectTrigger className="h-9 w-[150px]">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(statusLabels) as RequestStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {statusLabels[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => run({ type: 'priority', priority: value as RequestPriority })}
+          disabled={running}
+        >
+          <SelectTrigger className="h-9 w-[150px]">
+            <SelectValue placeholder="Set priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(priorityLabels) as RequestPriority[]).map((priority) => (
+              <SelectItem key={priority} value={priority}>
+                {priorityLabels[priority]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => run({ type: 'assign', assigneeId: value === UNASSIGNED ? null : value })}
+          disabled={running}
+        >
+          <SelectTrigger className="h-9 w-[170px]">
+            <SelectValue placeholder="Assign to" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {assignableProfiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.full_name || profile.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover open={shiftOpen} onOpenChange={setShiftOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" disabled={running}>
+              <CalendarClock className="h-4 w-4 mr-2" />
+              Shift due dates
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-64 space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-shift-days">Days</Label>
+              <Input
+                id="bulk-shift-days"
+                type="number"
+                step={1}
+                value={shiftDays}
+                onChange={(e) => setShiftDays(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Negative numbers move due dates earlier. Requests without a due date are left alone.
+              </p>
+            </div>
+            <Button className="w-full" onClick={handleShiftDueDates}>
+              Shift
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        <Button variant="outline" size="sm" onClick={handleDelete} disabled={running}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => {
+            setFailures([])
+            onClear()
+          }}
+          disabled={running}
+        >
+          <X className="h-4 w-4 mr-2" />
+          Clear selection
+        </Button>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="text-sm">
+          <p className="font-medium text-destructive">
+            {failures.length} request{failures.length === 1 ? ' was' : 's were'} not changed and {failures.length === 1 ? 'is' : 'are'} still selected:
+          </p>
+          <ul className="mt-1 space-y-0.5 text-muted-foreground">
+            {failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+              <li key={failure.id}>
+                <span className="text-foreground">{failure.title}</span> — {failure.message}
+              </li>
+            ))}
+            {failures.length > MAX_LISTED_FAILURES && <li>and {failures.length - MAX_LISTED_FAILURES} more</li>}
+          </ul>
+        </div>
+      )}
+
+      <StatusReasonDialog
+        status={pendingStatus}
+        reopen={!!pendingStatus && selected.some((target) => isReopen(target.status, pendingStatus))}
+        onConfirm={async (reason) => {
+          const status = pendingStatus!
+          setPendingStatus(null)
+          await run({ type: 'status', status, reason })
+        }}
+        onCancel={() => setPendingStatus(null)}
+      />
+    </div>
+  )
+}
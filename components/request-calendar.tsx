@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format, isSameMonth, isToday } from 'date-fns'
+import { priorityColors, priorityLabels } from '@/components/request-list'
+import { boardPriorities } from '@/lib/board'
+import { toDayKey, type CalendarView } from '@/lib/calendar'
+import { statusLabels } from '@/lib/request-status'
+import { cn } from '@/lib/utils'
+import type { Request } from '@/lib/supabase/types'
+
+const closedStatuses = ['completed', 'rejected']
+
+interface RequestCalendarProps {
+  view: CalendarView
+  month: Date
+  days: Date[]
+  requests: Request[]
+  canReschedule: (request: Request) => boolean
+  onReschedule: (request: Request, day: Date) => void
+}
+
+export function RequestCalendar({ view, month, days, requests, canReschedule, onReschedule }: RequestCalendarProps) {
+  const [dragging, setDragging] = useState<Request | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const requestsByDay = new Map<string, Request[]>()
+  requests.forEach((request) => {
+    if (!request.due_date) return
+    const key = toDayKey(new Date(request.due_date))
+    requestsByDay.set(key, [...(requestsByDay.get(key) || []), request])
+  })
+
+  const endDrag = () => {
+    setDragging(null)
+    setDropTarget(null)
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="min-w-[840px] rounded-lg border">
+        <div className="grid grid-cols-7 border-b bg-muted/50">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+              {format(day, view === 'week' ? 'EEE d' : 'EEE')}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map((day) => {
+            const key = toDayKey(day)
+            const dayRequests = (requestsByDay.get(key) || []).sort(
+              (a, b) => boardPriorities.indexOf(a.priority) - boardPriorities.indexOf(b.priority)
+            )
+            const allowed = !!dragging && toDayKey(new Date(dragging.due_date!)) !== key
+
+            return (
+              <div
+                key={key}
+                onDragOver={(e) => {
+                  if (!allowed) return
+                  e.preventDefault()
+                  e.dataTransfer.dropEffect = 'move'
+                  setDropTarget(key)
+                }}
+                onDragLeave={() => setDropTarget((current) => (current === key ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  if (dragging && allowed) onReschedule(dragging, day)
+                  endDrag()
+                }}
+                className={cn(
+                  'space-y-1 border-b border-r p-1.5 transition-colors [&:nth-child(7n)]:border-r-0',
+                  view === 'month' ? 'min-h-28' : 'min-h-[60vh]',
+                  view === 'month' && !isSameMonth(day, month) && 'bg-muted/30 text-muted-foreground',
+                  dropTarget === key && 'bg-primary/5 ring-1 ring-inset ring-primary'
+                )}
+              >
+                {view === 'month' && (
+                  <div
+                    className={cn(
+                      'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                      isToday(day) && 'bg-primary text-primary-foreground font-semibold'
+                    )}
+                  >
+                    {format(day, 'd')}
+                  </div>
+                )}
+                {view === 'week' && isToday(day) && (
+                  <div className="text-xs font-semibold text-primary">Today</div>
+                )}
+                {dayRequests.map((request) => {
+                  const draggable = canReschedule(request)
+                  const closed = closedStatuses.includes(request.status)
+
+                  return (
+                    <Link
+                      key={request.id}
+                      href={`/reque/request/${request.id}`}
+                      draggable={draggable}
+                      onDragStart={(e) => {
+                        if (!draggable) return
+                        e.dataTransfer.effectAllowed = 'move'
+                        e.dataTransfer.setData('text/plain', request.id)
+                        setDragging(request)
+                      }}
+                      onDragEnd={endDrag}
+                      title={`${request.title} · ${priorityLabels[request.priority]} · ${statusLabels[request.status]}`}
+                      className={cn(
+                        'block truncate rounded border px-1.5 py-0.5 text-xs',
+                        priorityColors[request.priority],
+                        draggable && 'cursor-grab active:cursor-grabbing',
+                        closed && 'line-through opacity-60',
+                        dragging?.id === request.id && 'opacity-50'
+                      )}
+                    >
+                      {view === 'week' && (
+                        <span className="block text-[10px] opacity-75">{format(new Date(request.due_date!), 'p')}</span>
+                      )}
+                      {request.title}
+                    </Link>
+                  )
+                })}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { Columns3 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  builtInColumnLabels,
+  defaultRequestColumns,
+  toFieldColumn,
+  type BuiltInColumn,
+} from '@/lib/request-columns'
+import type { RequestTypeWithFields } from '@/lib/supabase/types'
+
+interface RequestColumnChooserProps {
+  columns: string[]
+  requestTypes: RequestTypeWithFields[]
+  onChange: (columns: string[]) => void
+}
+
+// Shown columns keep their order; newly ticked ones are added at the end
+export function RequestColumnChooser({ columns, requestTypes, onChange }: RequestColumnChooserProps) {
+  const toggle = (column: string, checked: boolean) => {
+    onChange(checked ? [...columns.filter((c) => c !== column), column] : columns.filter((c) => c !== column))
+  }
+
+  const typesWithFields = requestTypes.filter((type) => type.fields.length > 0)
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 className="h-4 w-4 mr-2" />
+          Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-96 w-56 overflow-y-auto">
+        <DropdownMenuLabel>Columns</DropdownMenuLabel>
+        {(Object.keys(builtInColumnLabels) as BuiltInColumn[]).map((column) => (
+          <DropdownMenuCheckboxItem
+            key={column}
+            checked={columns.includes(column)}
+            onCheckedChange={(checked) => toggle(column, checked === true)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {builtInColumnLabels[column]}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {typesWithFields.map((type) => (
+          <div key={type.id}>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-muted-foreground">{type.name}</DropdownMenuLabel>
+            {type.fields.map((field) => {
+              const column = toFieldColumn(field.id)
+              return (
+                <DropdownMenuCheckboxItem
+                  key={field.id}
+                  checked={columns.includes(column)}
+                  onCheckedChange={(checked) => toggle(column, checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {field.label}
+                </DropdownMenuCheckboxItem>
+              )
+            })}
+          </div>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => onChange(defaultRequestColumns)}>Reset to default</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
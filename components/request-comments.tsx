@@ -0,0 +1,387 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { Lock, Pencil, Reply, SmilePlus, Trash2 } from 'lucide-react'
+import type { Profile, RequestComment, RequestCommentReaction, RequestCommentRevision } from '@/lib/supabase/types'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Markdown } from '@/components/markdown'
+import { MarkdownEditor } from '@/components/markdown-editor'
+import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import {
+  addComment,
+  deleteComment,
+  editComment,
+  getCommentRevisions,
+  groupReactions,
+  reactionEmojis,
+  toggleReaction,
+} from '@/lib/comments'
+import { cn } from '@/lib/utils'
+
+interface RequestCommentsProps {
+  requestId: string
+  comments: RequestComment[]
+  reactions: RequestCommentReaction[]
+  profiles: Map<string, Profile>
+  canComment: boolean
+  mentionables: Profile[]
+  onChange: () => void
+}
+
+export function RequestComments({
+  requestId,
+  comments,
+  reactions,
+  profiles,
+  canComment,
+  mentionables,
+  onChange,
+}: RequestCommentsProps) {
+  const { user } = useAuth()
+  const { isAdmin, canEditComment, canDeleteComment } = usePermissions()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editText, setEditText] = useState('')
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [historyFor, setHistoryFor] = useState<RequestComment | null>(null)
+  const [revisions, setRevisions] = useState<RequestCommentRevision[]>([])
+  const [revisionsLoading, setRevisionsLoading] = useState(false)
+
+  const topLevel = comments.filter((comment) => !comment.parent_id)
+  const replies = new Map<string, RequestComment[]>()
+  comments
+    .filter((comment) => comment.parent_id)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach((comment) => {
+      replies.set(comment.parent_id!, [...(replies.get(comment.parent_id!) || []), comment])
+    })
+  const reactionsByComment = groupReactions(reactions)
+  const visibleCount = comments.filter((comment) => !comment.deleted_at).length
+
+  const nameOf = (userId: string | null) => (userId && profiles.get(userId)?.full_name) || 'Unknown User'
+
+  const runAction = async (commentId: string, action: () => Promise<void>, success: string, failure: string) => {
+    setBusyId(commentId)
+    try {
+      await action()
+      if (success) toast.success(success)
+      onChange()
+      return true
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      toast.error(failure)
+      return false
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSaveEdit = async (comment: RequestComment) => {
+    if (!editText.trim()) return
+    if (await runAction(comment.id, () => editComment(comment.id, editText.trim()), 'Comment updated', 'Failed to update comment')) {
+      setEditingId(null)
+    }
+  }
+
+  const handleDelete = async (comment: RequestComment) => {
+    const prompt = comment.user_id === user?.id
+      ? 'Delete this comment?'
+      : `Delete ${nameOf(comment.user_id)}'s comment? It will be shown as removed by a moderator.`
+    if (!confirm(prompt)) return
+    await runAction(comment.id, () => deleteComment(comment.id), 'Comment deleted', 'Failed to delete comment')
+  }
+
+  const handleReply = async (parent: RequestComment) => {
+    if (!user || !replyText.trim()) return
+    if (await runAction(parent.id, () => addComment(requestId, user.id, replyText.trim(), parent.id), 'Reply added', 'Failed to add reply')) {
+      setReplyText('')
+      setReplyingTo(null)
+    }
+  }
+
+  const handleReaction = async (comment: RequestComment, emoji: string, reacted: boolean) => {
+    if (!user) return
+    await runAction(comment.id, () => toggleReaction(comment, user.id, emoji, reacted), '', 'Failed to update reaction')
+  }
+
+  const openHistory = async (comment: RequestComment) => {
+    setHistoryFor(comment)
+    setRevisionsLoading(true)
+    try {
+      setRevisions(await getCommentRevisions(comment.id))
+    } catch (error) {
+      console.error('Error loading comment history:', error)
+      toast.error('Failed to load edit history')
+    } finally {
+      setRevisionsLoading(false)
+    }
+  }
+
+  const renderComment = (comment: RequestComment, isReply: boolean) => {
+    const author = profiles.get(comment.user_id)
+    const isAuthor = comment.user_id === user?.id
+    const deleted = !!comment.deleted_at
+    const busy = busyId === comment.id
+    const commentReactions = reactionsByComment.get(comment.id) || new Map<string, string[]>()
+    // Replies inherit their parent's visibility, so only the thread is marked
+    const internalThread = !isReply && comment.visibility === 'internal'
+
+    return (
+      <div
+        key={comment.id}
+        className={cn(
+          'flex gap-4',
+          internalThread && 'rounded-md border border-amber-300 bg-amber-50 p-3 dark:border-amber-900 dark:bg-amber-950/30'
+        )}
+      >
+        <Avatar className={cn(isReply && 'h-8 w-8')}>
+          <AvatarImage src={author?.avatar_url || ''} />
+          <AvatarFallback>{author?.full_name?.charAt(0) || 'U'}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-medium text-sm">{author?.full_name || 'Unknown User'}</span>
+            {internalThread && (
+              <Badge variant="outline" className="gap-1 border-amber-400 text-amber-700 dark:text-amber-400">
+                <Lock className="h-3 w-3" />
+                Internal
+              </Badge>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {format(new Date(comment.created_at), 'MMM d, yyyy h:mm a')}
+            </span>
+            {comment.edited_at && !deleted && (
+              isAuthor || isAdmin ? (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:underline"
+                  onClick={() => openHistory(comment)}
+                >
+                  (edited)
+                </button>
+              ) : (
+                <span
+                  className="text-xs text-muted-foreground"
+                  title={`Edited ${format(new Date(comment.edited_at), 'MMM d, yyyy h:mm a')}`}
+                >
+                  (edited)
+                </span>
+              )
+            )}
+          </div>
+
+          {deleted ? (
+            <p className="text-sm italic text-muted-foreground">
+              {comment.deleted_by && comment.deleted_by !== comment.user_id
+                ? 'This comment was removed by a moderator'
+                : 'This comment was deleted'}
+            </p>
+          ) : editingId === comment.id ? (
+            <div className="space-y-2">
+              <MarkdownEditor
+                value={editText}
+                onChange={setEditText}
+                rows={3}
+                disabled={busy}
+                mentionables={mentionables}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleSaveEdit(comment)} disabled={busy || !editText.trim()}>
+                  {busy ? 'Saving...' : 'Save'}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={busy}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Markdown content={comment.comment_text} />
+          )}
+
+          {!deleted && editingId !== comment.id && (
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+              {Array.from(commentReactions.entries()).map(([emoji, userIds]) => {
+                const reacted = !!user && userIds.includes(user.id)
+                return (
+                  <button
+                    key={emoji}
+                    type="button"
+                    title={userIds.map(nameOf).join(', ')}
+                    disabled={!canComment || busy}
+                    onClick={() => handleReaction(comment, emoji, reacted)}
+                    className={cn(
+                      'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs disabled:cursor-default',
+                      reacted ? 'border-primary/40 bg-primary/10' : 'bg-muted/40'
+                    )}
+                  >
+                    <span>{emoji}</span>
+                    <span>{userIds.length}</span>
+                  </button>
+                )
+              })}
+              {canComment && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-7 px-2" disabled={busy}>
+                      <SmilePlus className="h-4 w-4" />
+                      <span className="sr-only">Add reaction</span>
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-1" align="start">
+                    <div className="flex gap-1">
+                      {reactionEmojis.map((emoji) => {
+                        const reacted = !!user && (commentReactions.get(emoji) || []).includes(user.id)
+                        return (
+                          <Button
+                            key={emoji}
+                            variant={reacted ? 'secondary' : 'ghost'}
+                            size="sm"
+                            className="h-8 w-8 p-0 text-base"
+                            onClick={() => handleReaction(comment, emoji, reacted)}
+                          >
+                            {emoji}
+                          </Button>
+                        )
+                      })}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+              {!isReply && canComment && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => {
+                    setReplyingTo(comment.id)
+                    setReplyText('')
+                  }}
+                >
+                  <Reply className="h-3.5 w-3.5 mr-1" />
+                  Reply
+                </Button>
+              )}
+              {canEditComment(comment.user_id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => {
+                    setEditingId(comment.id)
+                    setEditText(comment.comment_text)
+                  }}
+                >
+                  <Pencil className="h-3.5 w-3.5 mr-1" />
+                  Edit
+                </Button>
+              )}
+              {canDeleteComment(comment.user_id) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => handleDelete(comment)}
+                  disabled={busy}
+                >
+                  <Trash2 className="h-3.5 w-3.5 mr-1" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!isReply && ((replies.get(comment.id) || []).length > 0 || replyingTo === comment.id) && (
+            <div className={cn('mt-4 space-y-4 border-l pl-4', internalThread && 'border-amber-300 dark:border-amber-900')}>
+              {(replies.get(comment.id) || []).map((reply) => renderComment(reply, true))}
+              {replyingTo === comment.id && (
+                <div className="space-y-2">
+                  <MarkdownEditor
+                    placeholder={internalThread ? 'Write an internal reply...' : 'Write a reply...'}
+                    value={replyText}
+                    onChange={setReplyText}
+                    rows={2}
+                    disabled={busy}
+                    mentionables={mentionables}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleReply(comment)} disabled={busy || !replyText.trim()}>
+                      {busy ? 'Posting...' : 'Reply'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setReplyingTo(null)} disabled={busy}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comments ({visibleCount})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {topLevel.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet</p>
+        ) : (
+          topLevel.map((comment) => renderComment(comment, false))
+        )}
+      </CardContent>
+
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit History</DialogTitle>
+            <DialogDescription>Earlier versions of this comment, newest first</DialogDescription>
+          </DialogHeader>
+          {historyFor && (
+            <div className="space-y-4">
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground mb-2">
+                  Current version
+                  {historyFor.edited_at && ` · ${format(new Date(historyFor.edited_at), 'MMM d, yyyy h:mm a')}`}
+                </p>
+                <Markdown content={historyFor.comment_text} />
+              </div>
+              {revisionsLoading ? (
+                <Skeleton className="h-20 w-full" />
+              ) : (
+                revisions.map((revision, index) => (
+                  <div key={revision.id} className="rounded-md border bg-muted/30 p-3">
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {index === revisions.length - 1
+                        ? `Original · ${format(new Date(historyFor.created_at), 'MMM d, yyyy h:mm a')}`
+                        : `Replaced by ${nameOf(revision.edited_by)} · ${format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}`}
+                    </p>
+                    <Markdown content={revision.comment_text} />
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
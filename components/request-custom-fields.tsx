@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { toast } from 'sonner'
+import { Edit } from 'lucide-react'
+import { RequestTypeFields } from '@/components/request-type-fields'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  buildFieldSchema,
+  formatFieldValue,
+  toFieldValuePayload,
+  type FieldFormValues,
+} from '@/lib/request-types'
+import { supabase } from '@/lib/supabase/client'
+import type { Request, RequestFieldValue, RequestType, RequestTypeField } from '@/lib/supabase/types'
+
+interface RequestCustomFieldsProps {
+  request: Request
+  canEdit: boolean
+}
+
+function toFormValues(fields: RequestTypeField[], values: Map<string, RequestFieldValue>): FieldFormValues {
+  return Object.fromEntries(
+    fields.map((field) => {
+      const value = values.get(field.id)
+      switch (field.field_type) {
+        case 'checkbox':
+          return [field.id, value?.value_boolean === true]
+        case 'number':
+          return [field.id, value?.value_number === null || value?.value_number === undefined ? '' : String(value.value_number)]
+        case 'date':
+          return [field.id, value?.value_date || '']
+        default:
+          return [field.id, value?.value_text || '']
+      }
+    })
+  )
+}
+
+// The answers given on the intake form of the request's type
+export function RequestCustomFields({ request, canEdit }: RequestCustomFieldsProps) {
+  const [requestType, setRequestType] = useState<RequestType | null>(null)
+  const [fields, setFields] = useState<RequestTypeField[]>([])
+  const [values, setValues] = useState<Map<string, RequestFieldValue>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const schema = useMemo(() => buildFieldSchema(fields), [fields])
+  const { control, formState: { errors }, handleSubmit, reset } = useForm<FieldFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {},
+  })
+
+  const fetchFields = async () => {
+    if (!request.request_type_id) {
+      setRequestType(null)
+      setFields([])
+      setValues(new Map())
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [{ data: typeData, error: typeError }, { data: fieldsData, error: fieldsError }, { data: valuesData, error: valuesError }] =
+        await Promise.all([
+          supabase.from('request_types').select('*').eq('id', request.request_type_id).maybeSingle(),
+          supabase
+            .from('request_type_fields')
+            .select('*')
+            .eq('request_type_id', request.request_type_id)
+            .order('position', { ascending: true }),
+          supabase.from('request_field_values').select('*').eq('request_id', request.id),
+        ])
+
+      if (typeError) throw typeError
+      if (fieldsError) throw fieldsError
+      if (valuesError) throw valuesError
+
+      setRequestType(typeData as RequestType | null)
+      setFields((fieldsData || []) as RequestTypeField[])
+      setValues(new Map(((valuesData || []) as RequestFieldValue[]).map((value) => [value.field_id, value])))
+    } catch (error) {
+      console.error('Error fetching request fields:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    setEditing(false)
+    fetchFields()
+  }, [request.id, request.request_type_id])
+
+  if (!request.request_type_id) return null
+
+  const startEditing = () => {
+    reset(toFormValues(fields, values))
+    setEditing(true)
+  }
+
+  const handleSave = handleSubmit(async (formValues) => {
+    setSaving(true)
+    try {
+      const { error } = await supabase.rpc('set_request_field_values', {
+        p_request_id: request.id,
+        p_values: toFieldValuePayload(fields, formValues),
+      })
+
+      if (error) throw error
+
+      toast.success('Details updated')
+      setEditing(false)
+      fetchFields()
+    } catch (error) {
+      console.error('Error saving request fields:', error)
+      toast.error((error as { code?: string }).code === '23514' ? (error as Error).message : 'Failed to save details')
+    } finally {
+      setSaving(false)
+    }
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              {requestType?.name || 'Request'} Details
+              {requestType && !requestType.is_active && <Badge variant="outline">Inactive type</Badge>}
+            </CardTitle>
+            {requestType?.description && <CardDescription>{requestType.description}</CardDescription>}
+          </div>
+          {canEdit && !editing && fields.length > 0 && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : editing ? (
+          <form onSubmit={handleSave} className="space-y-6">
+            <RequestTypeFields fields={fields} control={control} errors={errors} disabled={saving} />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This request type has no fields</p>
+        ) : (
+          <dl className="grid gap-4 sm:grid-cols-2">
+            {fields.map((field) => {
+              const display = formatFieldValue(field, values.get(field.id))
+              return (
+                <div key={field.id} className="space-y-1">
+                  <dt className="text-sm font-medium">{field.label}</dt>
+                  <dd className={display ? 'text-sm whitespace-pre-wrap' : 'text-sm text-muted-foreground'}>
+                    {display || 'Not provided'}
+                  </dd>
+                </div>
+              )
+            })}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertTriangle, CalendarIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { MarkdownEditor } from '@/components/markdown-editor'
+import { supabase } from '@/lib/supabase/client'
+import { cn } from '@/lib/utils'
+import type { Profile, Request } from '@/lib/supabase/types'
+
+interface RequestEditFormProps {
+  request: Request
+  mentionables: Profile[]
+  onSaved: (request: Request) => void
+  onCancel: () => void
+}
+
+const formatDueDate = (value: string | null) => (value ? format(new Date(value), 'PPP') : 'No due date')
+
+// Edits are checked against the `details_version` the form was opened with, so
+// a save never silently overwrites someone else's edit to the same fields.
+// Status, priority and assignment changes do not move it.
+export function RequestEditForm({ request, mentionables, onSaved, onCancel }: RequestEditFormProps) {
+  const [title, setTitle] = useState(request.title)
+  const [description, setDescription] = useState(request.description || '')
+  const [dueDate, setDueDate] = useState<Date | undefined>(request.due_date ? new Date(request.due_date) : undefined)
+  const [baseVersion, setBaseVersion] = useState(request.details_version)
+  const [conflict, setConflict] = useState<Request | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const save = async (expectedVersion: number) => {
+    if (!title.trim()) {
+      toast.error('Please enter a title')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase.rpc('update_request_details', {
+        p_request_id: request.id,
+        p_title: title.trim(),
+        p_description: description.trim() || null,
+        p_due_date: dueDate ? dueDate.toISOString() : null,
+        p_expected_version: expectedVersion,
+      })
+
+      if (error) {
+        if (error.code === '40001') {
+          const { data: latest } = await supabase.from('requests').select('*').eq('id', request.id).single()
+          setConflict(latest as Request | null)
+          return
+        }
+        throw error
+      }
+
+      toast.success('Request updated')
+      onSaved(data as Request)
+    } catch (error) {
+      console.error('Error updating request:', error)
+      toast.error('Failed to update request')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleKeepMine = () => {
+    if (!conflict) return
+    setBaseVersion(conflict.details_version)
+    setConflict(null)
+    save(conflict.details_version)
+  }
+
+  const handleUseTheirs = () => {
+    if (!conflict) return
+    setTitle(conflict.title)
+    setDescription(conflict.description || '')
+    setDueDate(conflict.due_date ? new Date(conflict.due_date) : undefined)
+    setBaseVersion(conflict.details_version)
+    setConflict(null)
+  }
+
+  // Realtime keeps `request` current while the form is open
+  const changedSinceOpened = !conflict && request.details_version !== baseVersion
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Edit Request</CardTitle>
+        <CardDescription>Changes are recorded in the activity timeline</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            save(baseVersion)
+          }}
+          className="space-y-4"
+        >
+          {conflict && (
+            <div className="rounded-md border border-yellow-500/30 bg-yellow-500/10 p-4 text-sm space-y-3">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4 text-yellow-700" />
+                Someone else changed this request while you were editing
+              </div>
+              <dl className="grid gap-1 text-muted-foreground">
+                {conflict.title !== title.trim() && (
+                  <div>
+                    <dt className="inline font-medium text-foreground">Their title: </dt>
+                    <dd className="inline">{conflict.title}</dd>
+                  </div>
+                )}
+                {(conflict.description || '') !== description.trim() && (
+                  <div>
+                    <dt className="inline font-medium text-foreground">Their description: </dt>
+                    <dd className="inline whitespace-pre-wrap">{conflict.description || 'None'}</dd>
+                  </div>
+                )}
+                {formatDueDate(conflict.due_date) !== formatDueDate(dueDate ? dueDate.toISOString() : null) && (
+                  <div>
+                    <dt className="inline font-medium text-foreground">Their due date: </dt>
+                    <dd className="inline">{formatDueDate(conflict.due_date)}</dd>
+                  </div>
+                )}
+              </dl>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" onClick={handleKeepMine} disabled={saving}>
+                  Save mine anyway
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={handleUseTheirs} disabled={saving}>
+                  Use their version
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {changedSinceOpened && (
+            <p className="text-sm text-yellow-700">
+              This request has been updated since you started editing. Saving will ask you to resolve any conflict.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-title">Title *</Label>
+            <Input
+              id="edit-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Description</Label>
+            <MarkdownEditor
+              id="edit-description"
+              value={description}
+              onChange={setDescription}
+              rows={6}
+              disabled={saving}
+              mentionables={mentionables}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Due Date</Label>
+            <div className="flex gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={cn('flex-1 justify-start text-left font-normal', !dueDate && 'text-muted-foreground')}
+                    disabled={saving}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dueDate ? format(dueDate, 'PPP') : 'Pick a date'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar mode="single" selected={dueDate} onSelect={setDueDate} initialFocus />
+                </PopoverContent>
+              </Popover>
+              {dueDate && (
+                <Button type="button" variant="ghost" onClick={() => setDueDate(undefined)} disabled={saving}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-4">
+            <Button type="submit" disabled={saving || !!conflict || !title.trim()}>
+              {saving ? 'Saving...' : 'Save Changes'}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,258 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Search, X } from 'lucide-react'
+import type { RequestPriority, RequestStatus } from '@/lib/supabase/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { FieldFilterPicker } from '@/components/field-filter-picker'
+import { useAssignableProfiles } from '@/hooks/use-assignable-profiles'
+import { useRequestTypes } from '@/hooks/use-request-types'
+import { useTeamMembers } from '@/hooks/use-team-members'
+import { useTeam } from '@/contexts/team-context'
+import { priorityLabels } from '@/components/request-list'
+import { statusLabels } from '@/lib/request-status'
+import {
+  ME,
+  UNASSIGNED,
+  describeFieldFilter,
+  duePresetLabels,
+  hasActiveFilters,
+  type DuePreset,
+  type FieldFilter,
+  type RequestFilters,
+} from '@/lib/request-filters'
+
+const ALL = 'all'
+
+interface RequestFiltersBarProps {
+  filters: RequestFilters
+  onChange: (changes: Partial<Omit<RequestFilters, 'page'>>) => void
+  onReset: () => void
+  showCreator?: boolean
+  showStatus?: boolean
+}
+
+export function RequestFiltersBar({ filters, onChange, onReset, showCreator = true, showStatus = true }: RequestFiltersBarProps) {
+  const { profiles: assignees } = useAssignableProfiles()
+  const { activeTeam } = useTeam()
+  const { members: creators } = useTeamMembers(activeTeam?.id)
+  const { requestTypes } = useRequestTypes()
+  const [search, setSearch] = useState(filters.search || '')
+
+  useEffect(() => {
+    setSearch(filters.search || '')
+  }, [filters.search])
+
+  useEffect(() => {
+    const trimmed = search.trim()
+    if (trimmed === (filters.search || '')) return
+
+    const timeoutId = setTimeout(() => onChange({ search: trimmed || undefined }), 300)
+    return () => clearTimeout(timeoutId)
+  }, [search])
+
+  const fields = requestTypes.flatMap((type) => type.fields)
+
+  // One filter per field and condition; adding the same pair again replaces it
+  const addFieldFilter = (filter: FieldFilter) => {
+    onChange({
+      fields: [...filters.fields.filter((f) => f.field !== filter.field || f.op !== filter.op), filter],
+    })
+  }
+
+  const removeFieldFilter = (index: number) => {
+    onChange({ fields: filters.fields.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2 flex-1 min-w-[200px]">
+          <Label htmlFor="request-search">Search</Label>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="request-search"
+              placeholder="Title or description..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        {showStatus && (
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={filters.status || ALL}
+              onValueChange={(value) => onChange({ status: value === ALL ? undefined : (value as RequestStatus) })}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {(Object.keys(statusLabels) as RequestStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabels[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Priority</Label>
+          <Select
+            value={filters.priority || ALL}
+            onValueChange={(value) => onChange({ priority: value === ALL ? undefined : (value as RequestPriority) })}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All priorities</SelectItem>
+              {(Object.keys(priorityLabels) as RequestPriority[]).map((priority) => (
+                <SelectItem key={priority} value={priority}>
+                  {priorityLabels[priority]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Assignee</Label>
+          <Select
+            value={filters.assignedTo || ALL}
+            onValueChange={(value) => onChange({ assignedTo: value === ALL ? undefined : value })}
+          >
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              <SelectItem value={ME}>Me</SelectItem>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {assignees.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.full_name || profile.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {showCreator && (
+          <div className="space-y-2">
+            <Label>Creator</Label>
+            <Select
+              value={filters.createdBy || ALL}
+              onValueChange={(value) => onChange({ createdBy: value === ALL ? undefined : value })}
+            >
+              <SelectTrigger className="w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                <SelectItem value={ME}>Me</SelectItem>
+                {creators.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.full_name || profile.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Due</Label>
+          <Select
+            value={filters.due || ALL}
+            onValueChange={(value) =>
+              onChange(
+                value === ALL
+                  ? { due: undefined }
+                  : { due: value as DuePreset, dueFrom: undefined, dueTo: undefined }
+              )
+            }
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any time</SelectItem>
+              {(Object.keys(duePresetLabels) as DuePreset[]).map((preset) => (
+                <SelectItem key={preset} value={preset}>
+                  {duePresetLabels[preset]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="due-from">Due from</Label>
+          <Input
+            id="due-from"
+            type="date"
+            value={filters.dueFrom || ''}
+            onChange={(e) => onChange({ dueFrom: e.target.value || undefined, due: undefined })}
+            className="w-[150px]"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="due-to">Due to</Label>
+          <Input
+            id="due-to"
+            type="date"
+            value={filters.dueTo || ''}
+            onChange={(e) => onChange({ dueTo: e.target.value || undefined, due: undefined })}
+            className="w-[150px]"
+          />
+        </div>
+
+        <FieldFilterPicker requestTypes={requestTypes} onAdd={addFieldFilter} />
+
+        {hasActiveFilters(filters) && (
+          <Button variant="ghost" onClick={onReset}>
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {filters.fields.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filters.fields.map((filter, index) => (
+            <Badge key={`${filter.field}:${filter.op}`} variant="secondary" className="gap-1 pr-1">
+              {describeFieldFilter(filter, fields.find((field) => field.id === filter.field))}
+              <button
+                type="button"
+                onClick={() => removeFieldFilter(index)}
+                className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+              >
+                <X className="h-3 w-3" />
+                <span className="sr-only">Remove filter</span>
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,21 +1,78 @@
 'use client'
 
-import { useState } from 'react'
+import { Fragment, useEffect, useMemo, useState } from 'react'
 import Link from 'next/link'
 import { format } from 'date-fns'
-import type { Request } from '@/lib/supabase/types'
+import { toast } from 'sonner'
+import type { Request, RequestType, RequestTypeField } from '@/lib/supabase/types'
+import type { RequestSortColumn } from '@/lib/request-filters'
+import {
+  builtInColumnLabels,
+  builtInColumnSort,
+  getColumnFieldId,
+  isBuiltInColumn,
+  type BuiltInColumn,
+} from '@/lib/request-columns'
+import { formatFieldValue } from '@/lib/request-types'
+import { statusLabels } from '@/lib/request-status'
+import { bulkTargetColumns, MAX_BULK_REQUESTS, type BulkTarget } from '@/lib/request-bulk-actions'
+import { useTeam } from '@/contexts/team-context'
+import type { RequestViewer } from '@/hooks/use-request-presence'
+import { RequestBulkActions } from '@/components/request-bulk-actions'
+import { RequestColumnChooser } from '@/components/request-column-chooser'
+import { RequestViewers } from '@/components/request-viewers'
+import { SlaIndicator } from '@/components/sla-indicator'
+import { useRequestSla } from '@/hooks/use-request-sla'
+import { useRequestFieldValues } from '@/hooks/use-request-field-values'
+import { useRequestListLayout } from '@/hooks/use-request-list-layout'
+import { useRequestTypes } from '@/hooks/use-request-types'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { Eye } from 'lucide-react'
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Eye } from 'lucide-react'
 
 interface RequestListProps {
   requests: Request[]
   loading: boolean
+  sort?: {
+    column: RequestSortColumn
+    ascending: boolean
+    onSort: (column: RequestSortColumn) => void
+  }
+  pagination?: {
+    page: number
+    pageSize: number
+    totalCount: number
+    onPageChange: (page: number) => void
+  }
+  filtered?: boolean
+  viewers?: Map<string, RequestViewer[]>
+  // A saved view's own column layout; without it the user's list layout is used
+  columns?: string[]
+  onColumnsChange?: (columns: string[]) => void
+  // Row checkboxes and bulk actions
+  bulk?: {
+    // Loads every request matching the list's filters, across pages
+    fetchMatching: <T>(columns: string, limit: number) => Promise<T[]>
+    // The selection is cleared whenever this changes, e.g. the filters
+    scope: string
+    onComplete: () => void
+  }
 }
 
-const statusColors = {
+function toBulkTarget(request: Request): BulkTarget {
+  return {
+    id: request.id,
+    title: request.title,
+    status: request.status,
+    created_by: request.created_by,
+    assigned_to: request.assigned_to,
+    due_date: request.due_date,
+  }
+}
+
+export const statusColors = {
   new: 'bg-blue-500/10 text-blue-700 border-blue-500/20',
   in_progress: 'bg-yellow-500/10 text-yellow-700 border-yellow-500/20',
   under_review: 'bg-purple-500/10 text-purple-700 border-purple-500/20',
@@ -23,27 +80,170 @@ const statusColors = {
   rejected: 'bg-red-500/10 text-red-700 border-red-500/20',
 }
 
-const priorityColors = {
+export const priorityColors = {
   normal: 'bg-gray-500/10 text-gray-700 border-gray-500/20',
   high: 'bg-orange-500/10 text-orange-700 border-orange-500/20',
   urgent: 'bg-red-500/10 text-red-700 border-red-500/20',
 }
 
-const statusLabels = {
-  new: 'New',
-  in_progress: 'In Progress',
-  under_review: 'Under Review',
-  completed: 'Completed',
-  rejected: 'Rejected',
-}
-
-const priorityLabels = {
+export const priorityLabels = {
   normal: 'Normal',
   high: 'High',
   urgent: 'Urgent',
 }
 
-export function RequestList({ requests, loading }: RequestListProps) {
+export function RequestList({
+  requests,
+  loading,
+  sort,
+  pagination,
+  filtered,
+  viewers,
+  columns: columnsOverride,
+  onColumnsChange,
+  bulk,
+}: RequestListProps) {
+  const { activeTeam } = useTeam()
+  const { statuses: slaStatuses } = useRequestSla(requests.map((request) => request.id))
+  const layout = useRequestListLayout()
+  const columns = columnsOverride ?? layout.columns
+  const setColumns = onColumnsChange ?? layout.setColumns
+  const { requestTypes } = useRequestTypes()
+
+  const fieldsById = useMemo(() => {
+    const fields = new Map<string, { field: RequestTypeField; type: RequestType }>()
+    requestTypes.forEach((type) => type.fields.forEach((field) => fields.set(field.id, { field, type })))
+    return fields
+  }, [requestTypes])
+
+  // Columns of deleted fields are dropped quietly rather than shown empty
+  const visibleColumns = columns.filter((column) => isBuiltInColumn(column) || fieldsById.has(getColumnFieldId(column) || ''))
+  const fieldIds = visibleColumns.map(getColumnFieldId).filter((id): id is string => !!id)
+  const fieldValues = useRequestFieldValues(requests.map((request) => request.id), fieldIds)
+
+  const [selected, setSelected] = useState<Map<string, BulkTarget>>(new Map())
+  const [selectingAll, setSelectingAll] = useState(false)
+
+  useEffect(() => {
+    setSelected(new Map())
+  }, [bulk?.scope, activeTeam?.id])
+
+  // Rows on this page may have changed since they were selected
+  const pageById = new Map(requests.map((request) => [request.id, request]))
+  const selectedTargets = Array.from(selected.values()).map((target) => {
+    const current = pageById.get(target.id)
+    return current ? toBulkTarget(current) : target
+  })
+  const pageSelected = requests.length > 0 && requests.every((request) => selected.has(request.id))
+  const somePageSelected = requests.some((request) => selected.has(request.id))
+  const matchingCount = pagination?.totalCount ?? requests.length
+  const selectableCount = Math.min(matchingCount, MAX_BULK_REQUESTS)
+
+  const toggleRow = (request: Request, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Map(current)
+      if (checked) {
+        next.set(request.id, toBulkTarget(request))
+      } else {
+        next.delete(request.id)
+      }
+      return next
+    })
+  }
+
+  const togglePage = (checked: boolean) => {
+    setSelected((current) => {
+      const next = new Map(current)
+      requests.forEach((request) => {
+        if (checked) {
+          next.set(request.id, toBulkTarget(request))
+        } else {
+          next.delete(request.id)
+        }
+      })
+      return next
+    })
+  }
+
+  const handleSelectAllMatching = async () => {
+    if (!bulk) return
+
+    setSelectingAll(true)
+    try {
+      const targets = await bulk.fetchMatching<BulkTarget>(bulkTargetColumns, MAX_BULK_REQUESTS)
+      setSelected(new Map(targets.map((target) => [target.id, target])))
+    } catch (error) {
+      console.error('Error selecting requests:', error)
+      toast.error('Failed to select requests')
+    } finally {
+      setSelectingAll(false)
+    }
+  }
+
+  const handleBulkComplete = (failedIds: string[]) => {
+    setSelected((current) => {
+      const next = new Map<string, BulkTarget>()
+      failedIds.forEach((id) => {
+        const target = current.get(id)
+        if (target) next.set(id, target)
+      })
+      return next
+    })
+    bulk?.onComplete()
+  }
+
+  // Field labels only need their type's name when another type uses the same label
+  const fieldColumnLabel = (fieldId: string) => {
+    const { field, type } = fieldsById.get(fieldId)!
+    const shared = Array.from(fieldsById.values()).some(
+      (other) => other.field.id !== fieldId && other.field.label.toLowerCase() === field.label.toLowerCase()
+    )
+    return shared ? `${field.label} (${type.name})` : field.label
+  }
+
+  const builtInCell = (column: BuiltInColumn, request: Request) => {
+    switch (column) {
+      case 'status':
+        return (
+          <Badge className={statusColors[request.status]}>
+            {statusLabels[request.status]}
+          </Badge>
+        )
+      case 'priority':
+        return (
+          <Badge className={priorityColors[request.priority]}>
+            {priorityLabels[request.priority]}
+          </Badge>
+        )
+      case 'due_date':
+        return request.due_date ? format(new Date(request.due_date), 'MMM d, yyyy') : 'No due date'
+      case 'sla':
+        return <SlaIndicator status={slaStatuses.get(request.id)} />
+      case 'created_at':
+        return format(new Date(request.created_at), 'MMM d, yyyy')
+    }
+  }
+
+  const sortableHead = (column: RequestSortColumn, label: string) => {
+    if (!sort) return <TableHead>{label}</TableHead>
+
+    const active = sort.column === column
+    const Icon = active ? (sort.ascending ? ArrowUp : ArrowDown) : ArrowUpDown
+
+    return (
+      <TableHead aria-sort={active ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>
+        <button
+          type="button"
+          onClick={() => sort.onSort(column)}
+          className="inline-flex items-center gap-1 hover:text-foreground"
+        >
+          {label}
+          <Icon className={active ? 'h-3.5 w-3.5' : 'h-3.5 w-3.5 opacity-50'} />
+        </button>
+      </TableHead>
+    )
+  }
+
   if (loading) {
     return (
       <Card>
@@ -61,6 +261,19 @@ export function RequestList({ requests, loading }: RequestListProps) {
     )
   }
 
+  if (requests.length === 0 && filtered) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>No Matching Requests</CardTitle>
+          <CardDescription>
+            No requests match the current filters. Try widening your search.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
   if (requests.length === 0) {
     return (
       <Card>
@@ -82,47 +295,111 @@ export function RequestList({ requests, loading }: RequestListProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Requests</CardTitle>
-        <CardDescription>
-          Manage and track all requests
-        </CardDescription>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Requests</CardTitle>
+            <CardDescription>
+              Manage and track all requests
+            </CardDescription>
+          </div>
+          <RequestColumnChooser columns={columns} requestTypes={requestTypes} onChange={setColumns} />
+        </div>
       </CardHeader>
       <CardContent>
+        {bulk && selected.size > 0 && (
+          <div className="mb-4 space-y-2">
+            <RequestBulkActions
+              selected={selectedTargets}
+              onClear={() => setSelected(new Map())}
+              onComplete={handleBulkComplete}
+            />
+            {pageSelected && matchingCount > requests.length && (
+              <p className="text-center text-sm text-muted-foreground">
+                {selected.size >= selectableCount ? (
+                  `All ${selected.size} matching requests are selected.`
+                ) : (
+                  <>
+                    All {requests.length} requests on this page are selected.{' '}
+                    <Button
+                      variant="link"
+                      className="h-auto p-0"
+                      onClick={handleSelectAllMatching}
+                      disabled={selectingAll}
+                    >
+                      {matchingCount > MAX_BULK_REQUESTS
+                        ? `Select the first ${MAX_BULK_REQUESTS} matching requests`
+                        : `Select all ${matchingCount} matching requests`}
+                    </Button>
+                  </>
+                )}
+              </p>
+            )}
+          </div>
+        )}
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Title</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Priority</TableHead>
-              <TableHead>Due Date</TableHead>
-              <TableHead>Created</TableHead>
+              {bulk && (
+                <TableHead className="w-10">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-primary"
+                    aria-label="Select all requests on this page"
+                    checked={pageSelected}
+                    ref={(el) => {
+                      if (el) el.indeterminate = somePageSelected && !pageSelected
+                    }}
+                    onChange={(e) => togglePage(e.target.checked)}
+                  />
+                </TableHead>
+              )}
+              {sortableHead('title', 'Title')}
+              {visibleColumns.map((column) => {
+                if (!isBuiltInColumn(column)) {
+                  return <TableHead key={column}>{fieldColumnLabel(getColumnFieldId(column)!)}</TableHead>
+                }
+                const sortColumn = builtInColumnSort[column]
+                return sortColumn ? (
+                  <Fragment key={column}>{sortableHead(sortColumn, builtInColumnLabels[column])}</Fragment>
+                ) : (
+                  <TableHead key={column}>{builtInColumnLabels[column]}</TableHead>
+                )
+              })}
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {requests.map((request) => (
-              <TableRow key={request.id}>
+              <TableRow key={request.id} data-state={selected.has(request.id) ? 'selected' : undefined}>
+                {bulk && (
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      aria-label={`Select ${request.title}`}
+                      checked={selected.has(request.id)}
+                      onChange={(e) => toggleRow(request, e.target.checked)}
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="font-medium">
                   <Link href={`/reque/request/${request.id}`} className="hover:underline">
                     {request.title}
                   </Link>
+                  <RequestViewers viewers={viewers?.get(request.id) || []} compact className="ml-2" />
                 </TableCell>
-                <TableCell>
-                  <Badge className={statusColors[request.status]}>
-                    {statusLabels[request.status]}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <Badge className={priorityColors[request.priority]}>
-                    {priorityLabels[request.priority]}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  {request.due_date ? format(new Date(request.due_date), 'MMM d, yyyy') : 'No due date'}
-                </TableCell>
-                <TableCell>
-                  {format(new Date(request.created_at), 'MMM d, yyyy')}
-                </TableCell>
+                {visibleColumns.map((column) => {
+                  if (isBuiltInColumn(column)) {
+                    return <TableCell key={column}>{builtInCell(column, request)}</TableCell>
+                  }
+                  const fieldId = getColumnFieldId(column)!
+                  const value = formatFieldValue(fieldsById.get(fieldId)!.field, fieldValues.get(request.id)?.get(fieldId))
+                  return (
+                    <TableCell key={column} className="max-w-[200px] truncate">
+                      {value ?? <span className="text-muted-foreground">—</span>}
+                    </TableCell>
+                  )
+                })}
                 <TableCell className="text-right">
                   <Link href={`/reque/request/${request.id}`}>
                     <Button variant="ghost" size="sm">
@@ -135,7 +412,42 @@ export function RequestList({ requests, loading }: RequestListProps) {
             ))}
           </TableBody>
         </Table>
+        {pagination && (
+          <RequestListPagination {...pagination} />
+        )}
       </CardContent>
     </Card>
   )
 }
+
+function RequestListPagination({
+  page,
+  pageSize,
+  totalCount,
+  onPageChange,
+}: NonNullable<RequestListProps['pagination']>) {
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+  const from = totalCount === 0 ? 0 : (page - 1) * pageSize + 1
+  const to = Math.min(page * pageSize, totalCount)
+
+  return (
+    <div className="flex items-center justify-between pt-4">
+      <p className="text-sm text-muted-foreground">
+        Showing {from}-{to} of {totalCount}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+          <ChevronLeft className="h-4 w-4" />
+          <span className="sr-only">Previous page</span>
+        </Button>
+        <span className="text-sm">
+          Page {page} of {pageCount}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount}>
+          <ChevronRight className="h-4 w-4" />
+          <span className="sr-only">Next page</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
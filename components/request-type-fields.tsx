@@ -0,0 +1,108 @@
+'use client'
+
+import { Controller, type Control, type FieldErrors } from 'react-hook-form'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import type { FieldFormValues } from '@/lib/request-types'
+import type { RequestTypeField } from '@/lib/supabase/types'
+
+interface RequestTypeFieldsProps {
+  fields: RequestTypeField[]
+  control: Control<FieldFormValues>
+  errors: FieldErrors<FieldFormValues>
+  disabled?: boolean
+}
+
+// Renders a request type's intake fields, bound to a react-hook-form form
+export function RequestTypeFields({ fields, control, errors, disabled }: RequestTypeFieldsProps) {
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => {
+        const inputId = `field-${field.id}`
+        const error = errors[field.id]?.message
+
+        return (
+          <div key={field.id} className="space-y-2">
+            <Controller
+              name={field.id}
+              control={control}
+              render={({ field: input }) => {
+                if (field.field_type === 'checkbox') {
+                  return (
+                    <div className="flex items-center gap-2">
+                      <input
+                        id={inputId}
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={input.value === true}
+                        onChange={(e) => input.onChange(e.target.checked)}
+                        onBlur={input.onBlur}
+                        disabled={disabled}
+                      />
+                      <Label htmlFor={inputId}>
+                        {field.label}{field.required && ' *'}
+                      </Label>
+                    </div>
+                  )
+                }
+
+                const value = typeof input.value === 'string' ? input.value : ''
+
+                return (
+                  <>
+                    <Label htmlFor={inputId}>
+                      {field.label}{field.required && ' *'}
+                    </Label>
+                    {field.field_type === 'select' ? (
+                      <Select value={value} onValueChange={input.onChange} disabled={disabled}>
+                        <SelectTrigger id={inputId}>
+                          <SelectValue placeholder="Select an option" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {field.options.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {option}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : field.field_type === 'text' ? (
+                      <Textarea
+                        id={inputId}
+                        rows={2}
+                        value={value}
+                        onChange={input.onChange}
+                        onBlur={input.onBlur}
+                        disabled={disabled}
+                      />
+                    ) : (
+                      <Input
+                        id={inputId}
+                        type={field.field_type === 'number' ? 'number' : 'date'}
+                        step={field.field_type === 'number' ? 'any' : undefined}
+                        value={value}
+                        onChange={input.onChange}
+                        onBlur={input.onBlur}
+                        disabled={disabled}
+                      />
+                    )}
+                  </>
+                )
+              }}
+            />
+            {field.help_text && <p className="text-xs text-muted-foreground">{field.help_text}</p>}
+            {error && <p className="text-sm text-destructive">{String(error)}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
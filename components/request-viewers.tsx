@@ -0,0 +1,48 @@
+'use client'
+
+import { Eye } from 'lucide-react'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import type { RequestViewer } from '@/hooks/use-request-presence'
+import { cn } from '@/lib/utils'
+
+interface RequestViewersProps {
+  viewers: RequestViewer[]
+  compact?: boolean
+  className?: string
+}
+
+export function RequestViewers({ viewers, compact, className }: RequestViewersProps) {
+  if (viewers.length === 0) return null
+
+  const names = viewers.map((viewer) => viewer.name).join(', ')
+  const label = `${names} ${viewers.length === 1 ? 'is' : 'are'} viewing this request`
+
+  if (compact) {
+    return (
+      <span
+        title={label}
+        className={cn('inline-flex items-center gap-1 text-xs text-muted-foreground', className)}
+      >
+        <Eye className="h-3.5 w-3.5" />
+        {viewers.length}
+        <span className="sr-only">{label}</span>
+      </span>
+    )
+  }
+
+  return (
+    <div className={cn('flex items-center gap-2 text-sm text-muted-foreground', className)} title={label}>
+      <div className="flex -space-x-2">
+        {viewers.slice(0, 4).map((viewer) => (
+          <Avatar key={viewer.user_id} className="h-6 w-6 border-2 border-background">
+            <AvatarImage src={viewer.avatar_url || ''} />
+            <AvatarFallback className="text-[10px]">{viewer.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+      <span>
+        {viewers.length === 1 ? `${viewers[0].name} is also viewing` : `${viewers.length} others are viewing`}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
+import {
+  createSavedView,
+  savedViewVisibilityLabels,
+  setSavedViewPinned,
+  updateSavedView,
+} from '@/lib/saved-views'
+import type { SavedView, SavedViewVisibility } from '@/lib/supabase/types'
+
+interface SaveViewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Filters and sort to save, as produced by toViewQuery
+  query: string
+  columns: string[] | null
+  // When set, the dialog renames this view instead of creating one
+  view?: SavedView
+  onSaved?: (view: SavedView) => void
+}
+
+export function SaveViewDialog({ open, onOpenChange, query, columns, view, onSaved }: SaveViewDialogProps) {
+  const { user } = useAuth()
+  const { activeTeam } = useTeam()
+  const [name, setName] = useState('')
+  const [visibility, setVisibility] = useState<SavedViewVisibility>('personal')
+  const [pinned, setPinned] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(view?.name || '')
+    setVisibility(view?.visibility || 'personal')
+    setPinned(true)
+  }, [open, view])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !activeTeam || !name.trim()) return
+
+    setSubmitting(true)
+    try {
+      let saved: SavedView
+      if (view) {
+        await updateSavedView(view.id, { name: name.trim(), visibility })
+        saved = { ...view, name: name.trim(), visibility }
+        toast.success('View updated')
+      } else {
+        saved = await createSavedView({
+          teamId: activeTeam.id,
+          ownerId: user.id,
+          name: name.trim(),
+          visibility,
+          query,
+          columns,
+        })
+        if (pinned) await setSavedViewPinned(user.id, saved.id, true)
+        toast.success(`View "${saved.name}" saved`)
+      }
+      onOpenChange(false)
+      onSaved?.(saved)
+    } catch (error) {
+      console.error('Error saving view:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save view')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{view ? 'Edit View' : 'Save View'}</DialogTitle>
+            <DialogDescription>
+              {view
+                ? 'Rename this view or change who can see it.'
+                : 'Save the current filters, sort order and columns as a named view.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name *</Label>
+            <Input
+              id="view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Urgent unassigned"
+              maxLength={80}
+              disabled={submitting}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="view-visibility">Visible to</Label>
+            <Select
+              value={visibility}
+              onValueChange={(value) => setVisibility(value as SavedViewVisibility)}
+              // Only the owner can take a shared view back to personal
+              disabled={submitting || (!!view && view.owner_id !== user?.id)}
+            >
+              <SelectTrigger id="view-visibility">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(savedViewVisibilityLabels) as SavedViewVisibility[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {savedViewVisibilityLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {!view && (
+            <div className="flex items-center gap-2">
+              <input
+                id="view-pinned"
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={pinned}
+                onChange={(e) => setPinned(e.target.checked)}
+                disabled={submitting}
+              />
+              <Label htmlFor="view-pinned">Pin to sidebar</Label>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || !name.trim()}>
+              {submitting ? 'Saving...' : view ? 'Save Changes' : 'Save View'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Home, MoreHorizontal, Pencil, Pin, PinOff, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { SaveViewDialog } from '@/components/save-view-dialog'
+import { useAuth } from '@/contexts/auth-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { deleteSavedView, setDefaultSavedView, setSavedViewPinned } from '@/lib/saved-views'
+import type { SavedView, SavedViewPreference } from '@/lib/supabase/types'
+
+interface SavedViewActionsProps {
+  view: SavedView
+  preference?: SavedViewPreference
+  onChanged?: (view: SavedView) => void
+  onDeleted?: () => void
+}
+
+export function SavedViewActions({ view, preference, onChanged, onDeleted }: SavedViewActionsProps) {
+  const { user } = useAuth()
+  const { canManageSavedView } = usePermissions()
+  const [editOpen, setEditOpen] = useState(false)
+
+  const pinned = preference?.pinned || false
+  const isDefault = preference?.is_default || false
+  const canManage = canManageSavedView(view.owner_id, view.visibility)
+
+  const handleTogglePin = async () => {
+    if (!user) return
+
+    try {
+      await setSavedViewPinned(user.id, view.id, !pinned)
+      toast.success(pinned ? 'View unpinned' : 'View pinned to sidebar')
+    } catch (error) {
+      console.error('Error pinning view:', error)
+      toast.error('Failed to update view')
+    }
+  }
+
+  const handleToggleDefault = async () => {
+    if (!user) return
+
+    try {
+      await setDefaultSavedView(user.id, isDefault ? null : view.id)
+      toast.success(isDefault ? 'Dashboard is your landing page again' : `"${view.name}" is now your landing page`)
+    } catch (error) {
+      console.error('Error setting landing page:', error)
+      toast.error('Failed to update landing page')
+    }
+  }
+
+  const handleDelete = async () => {
+    const othersAffected = view.visibility === 'shared' ? ' It will be removed for everyone in the team.' : ''
+    if (!confirm(`Delete the view "${view.name}"?${othersAffected}`)) return
+
+    try {
+      await deleteSavedView(view.id)
+      toast.success('View deleted')
+      onDeleted?.()
+    } catch (error) {
+      console.error('Error deleting view:', error)
+      toast.error('Failed to delete view')
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon">
+            <MoreHorizontal className="h-4 w-4" />
+            <span className="sr-only">View actions</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuItem onClick={handleTogglePin}>
+            {pinned ? <PinOff className="text-muted-foreground" /> : <Pin className="text-muted-foreground" />}
+            <span>{pinned ? 'Unpin from Sidebar' : 'Pin to Sidebar'}</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleToggleDefault}>
+            <Home className="text-muted-foreground" />
+            <span>{isDefault ? 'Stop Using as Landing Page' : 'Use as Landing Page'}</span>
+          </DropdownMenuItem>
+          {canManage && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setEditOpen(true)}>
+                <Pencil className="text-muted-foreground" />
+                <span>Rename or Share</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleDelete}>
+                <Trash2 className="text-muted-foreground" />
+                <span>Delete View</span>
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <SaveViewDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        query={view.query}
+        columns={view.columns}
+        view={view}
+        onSaved={onChanged}
+      />
+    </>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { AlertTriangle, CheckCircle2, Clock, PauseCircle, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import {
+  formatSlaMinutes,
+  getOverallSlaState,
+  slaMetricLabels,
+  slaStateColors,
+  slaStateLabels,
+} from '@/lib/sla'
+import type { RequestSlaStatus, SlaMetric, SlaState } from '@/lib/supabase/types'
+import { cn } from '@/lib/utils'
+
+const stateIcons: Record<SlaState, typeof Clock> = {
+  none: Clock,
+  on_track: Clock,
+  at_risk: AlertTriangle,
+  paused: PauseCircle,
+  met: CheckCircle2,
+  breached: XCircle,
+}
+
+function metricSummary(status: RequestSlaStatus, metric: SlaMetric) {
+  const state = status[`${metric}_state`]
+  const elapsed = status[`${metric}_elapsed`]
+  const target = status[`${metric}_target`]
+  return `${slaMetricLabels[metric]}: ${slaStateLabels[state]} (${formatSlaMinutes(elapsed)} of ${formatSlaMinutes(target)})`
+}
+
+// Compact badge for request lists. Requests without an SLA render nothing.
+export function SlaIndicator({ status, className }: { status: RequestSlaStatus | undefined; className?: string }) {
+  const state = getOverallSlaState(status)
+  if (!status || state === 'none') return null
+
+  const Icon = stateIcons[state]
+
+  return (
+    <Badge
+      className={cn('gap-1', slaStateColors[state], className)}
+      title={[metricSummary(status, 'first_response'), metricSummary(status, 'resolution')].join('\n')}
+    >
+      <Icon className="h-3 w-3" />
+      {slaStateLabels[state]}
+    </Badge>
+  )
+}
+
+// One row per clock, for the request detail page
+export function SlaMetricRow({ status, metric }: { status: RequestSlaStatus; metric: SlaMetric }) {
+  const state = status[`${metric}_state`]
+  const elapsed = status[`${metric}_elapsed`]
+  const target = status[`${metric}_target`]
+  const Icon = stateIcons[state]
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm">{slaMetricLabels[metric]}</span>
+        <Badge className={cn('gap-1', slaStateColors[state])}>
+          <Icon className="h-3 w-3" />
+          {slaStateLabels[state]}
+        </Badge>
+      </div>
+      {target !== null && (
+        <p className="text-xs text-muted-foreground">
+          {formatSlaMinutes(elapsed)} of {formatSlaMinutes(target)}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { RequestStatus } from '@/lib/supabase/types'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { statusLabels } from '@/lib/request-status'
+
+interface StatusReasonDialogProps {
+  status: RequestStatus | null
+  reopen: boolean
+  onConfirm: (reason: string) => Promise<void> | void
+  onCancel: () => void
+}
+
+export function StatusReasonDialog({ status, reopen, onConfirm, onCancel }: StatusReasonDialogProps) {
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (status) setReason('')
+  }, [status])
+
+  const handleConfirm = async () => {
+    if (!reason.trim()) return
+
+    setSubmitting(true)
+    try {
+      await onConfirm(reason.trim())
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!status} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{reopen ? 'Reopen Request' : `Move to ${status ? statusLabels[status] : ''}`}</DialogTitle>
+          <DialogDescription>
+            {reopen
+              ? 'Explain why this request is being reopened. The reason is added to the activity log.'
+              : 'Explain why this request is being rejected. The reason is added to the activity log.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="status-reason">Reason *</Label>
+          <Textarea
+            id="status-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            disabled={submitting}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={submitting || !reason.trim()}>
+            {submitting ? 'Saving...' : 'Confirm'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
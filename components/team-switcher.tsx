@@ -3,13 +3,13 @@
 import * as React from "react"
 import { ChevronsUpDown, Plus } from "lucide-react"
 
+import { CreateTeamDialog } from '@/components/create-team-dialog'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
-  DropdownMenuShortcut,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import {
@@ -18,18 +18,24 @@ import {
   SidebarMenuItem,
   useSidebar,
 } from '@/components/ui/sidebar'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import { roleLabels } from '@/lib/admin-users'
 
-export function TeamSwitcher({
-  teams,
-}: {
-  teams: {
-    name: string
-    logo: React.ElementType
-    plan: string
-  }[]
-}) {
+function TeamInitial({ name, className }: { name: string; className?: string }) {
+  return <span className={className}>{name.charAt(0).toUpperCase()}</span>
+}
+
+export function TeamSwitcher() {
   const { isMobile } = useSidebar()
-  const [activeTeam, setActiveTeam] = React.useState(teams[0])
+  const { teams, activeTeam, loading, setActiveTeamId, refreshTeams } = useTeam()
+  const { canCreateTeam } = usePermissions()
+  const [createOpen, setCreateOpen] = React.useState(false)
+
+  if (loading) {
+    return <Skeleton className="h-12 w-full" />
+  }
 
   if (!activeTeam) {
     return null
@@ -45,11 +51,11 @@ export function TeamSwitcher({
               className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground"
             >
               <div className="bg-sidebar-primary text-sidebar-primary-foreground flex aspect-square size-8 items-center justify-center rounded-lg">
-                <activeTeam.logo className="size-4" />
+                <TeamInitial name={activeTeam.name} className="text-sm font-semibold" />
               </div>
               <div className="grid flex-1 text-left text-sm leading-tight">
                 <span className="truncate font-medium">{activeTeam.name}</span>
-                <span className="truncate text-xs">{activeTeam.plan}</span>
+                <span className="truncate text-xs">{roleLabels[activeTeam.role]}</span>
               </div>
               <ChevronsUpDown className="ml-auto" />
             </SidebarMenuButton>
@@ -63,28 +69,40 @@ export function TeamSwitcher({
             <DropdownMenuLabel className="text-muted-foreground text-xs">
               Teams
             </DropdownMenuLabel>
-            {teams.map((team, index) => (
+            {teams.map((team) => (
               <DropdownMenuItem
-                key={team.name}
-                onClick={() => setActiveTeam(team)}
+                key={team.id}
+                onClick={() => setActiveTeamId(team.id)}
                 className="gap-2 p-2"
               >
                 <div className="flex size-6 items-center justify-center rounded-md border">
-                  <team.logo className="size-3.5 shrink-0" />
+                  <TeamInitial name={team.name} className="text-xs font-medium" />
                 </div>
-                {team.name}
-                <DropdownMenuShortcut>⌘{index + 1}</DropdownMenuShortcut>
+                <span className="flex-1 truncate">{team.name}</span>
+                {team.id === activeTeam.id && <span className="text-xs text-muted-foreground">Current</span>}
               </DropdownMenuItem>
             ))}
-            <DropdownMenuSeparator />
-            <DropdownMenuItem className="gap-2 p-2">
-              <div className="flex size-6 items-center justify-center rounded-md border bg-transparent">
-                <Plus className="size-4" />
-              </div>
-              <div className="text-muted-foreground font-medium">Add team</div>
-            </DropdownMenuItem>
+            {canCreateTeam && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="gap-2 p-2" onClick={() => setCreateOpen(true)}>
+                  <div className="flex size-6 items-center justify-center rounded-md border bg-transparent">
+                    <Plus className="size-4" />
+                  </div>
+                  <div className="text-muted-foreground font-medium">Add team</div>
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
+        <CreateTeamDialog
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          onCreated={async (teamId) => {
+            await refreshTeams()
+            setActiveTeamId(teamId)
+          }}
+        />
       </SidebarMenuItem>
     </SidebarMenu>
   )
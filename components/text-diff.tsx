@@ -0,0 +1,38 @@
+'use client'
+
+import { mentionsToPlainText } from '@/lib/mentions'
+import { diffWords } from '@/lib/text-diff'
+import { cn } from '@/lib/utils'
+
+interface TextDiffProps {
+  before: string | null
+  after: string | null
+  className?: string
+}
+
+export function TextDiff({ before, after, className }: TextDiffProps) {
+  const segments = diffWords(mentionsToPlainText(before || ''), mentionsToPlainText(after || ''))
+
+  return (
+    <p className={cn('rounded-md border bg-muted/30 p-2 text-sm whitespace-pre-wrap break-words', className)}>
+      {segments.map((segment, index) => {
+        if (segment.type === 'removed') {
+          return (
+            <del key={index} className="bg-red-500/10 text-red-700 line-through">
+              {segment.text}
+            </del>
+          )
+        }
+        if (segment.type === 'added') {
+          return (
+            <ins key={index} className="bg-green-500/10 text-green-700 no-underline">
+              {segment.text}
+            </ins>
+          )
+        }
+        return <span key={index}>{segment.text}</span>
+      })}
+      {segments.length === 0 && <span className="text-muted-foreground">Empty</span>}
+    </p>
+  )
+}
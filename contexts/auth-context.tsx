@@ -123,6 +123,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [])
 
+  // Deactivated accounts are banned from signing in, but an existing session
+  // lives until its token expires, so end it as soon as the profile says so
+  useEffect(() => {
+    if (profile?.deactivated_at) {
+      console.warn('[Auth] Account is deactivated, signing out')
+      signOut()
+    }
+  }, [profile?.deactivated_at])
+
   const signIn = async (email: string, password: string) => {
     try {
       const { error } = await supabase.auth.signInWithPassword({
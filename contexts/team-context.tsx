@@ -0,0 +1,97 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+import type { Team, TeamMembership, UserRole } from '@/lib/supabase/types'
+
+const ACTIVE_TEAM_STORAGE_KEY = 'reque:active-team'
+
+export interface TeamWithRole extends Team {
+  role: UserRole
+}
+
+interface TeamContextType {
+  teams: TeamWithRole[]
+  activeTeam: TeamWithRole | null
+  loading: boolean
+  setActiveTeamId: (teamId: string) => void
+  refreshTeams: () => Promise<void>
+}
+
+const TeamContext = createContext<TeamContextType | undefined>(undefined)
+
+export function TeamProvider({ children }: { children: React.ReactNode }) {
+  const { user, profile } = useAuth()
+  const [teams, setTeams] = useState<TeamWithRole[]>([])
+  const [activeTeamId, setActiveTeamIdState] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchTeams = async () => {
+    if (!user) {
+      setTeams([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [{ data: teamsData, error: teamsError }, { data: membershipsData, error: membershipsError }] =
+        await Promise.all([
+          supabase.from('teams').select('*').order('name', { ascending: true }),
+          supabase.from('team_memberships').select('*').eq('user_id', user.id),
+        ])
+
+      if (teamsError) throw teamsError
+      if (membershipsError) throw membershipsError
+
+      const roles = new Map(((membershipsData || []) as TeamMembership[]).map((m) => [m.team_id, m.role]))
+      const isPlatformAdmin = profile?.role === 'admin'
+
+      // Platform admins can see every team and act as admin in all of them
+      const nextTeams = ((teamsData || []) as Team[])
+        .map((team) => ({ ...team, role: isPlatformAdmin ? 'admin' : roles.get(team.id) }))
+        .filter((team): team is TeamWithRole => !!team.role)
+
+      setTeams(nextTeams)
+      setActiveTeamIdState((current) => {
+        const stored = current || window.localStorage.getItem(ACTIVE_TEAM_STORAGE_KEY)
+        if (stored && nextTeams.some((team) => team.id === stored)) return stored
+        return (nextTeams.find((team) => team.is_default) || nextTeams[0])?.id || null
+      })
+    } catch (error) {
+      console.error('Error fetching teams:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchTeams()
+  }, [user?.id, profile?.role])
+
+  const setActiveTeamId = (teamId: string) => {
+    setActiveTeamIdState(teamId)
+    window.localStorage.setItem(ACTIVE_TEAM_STORAGE_KEY, teamId)
+  }
+
+  const activeTeam = teams.find((team) => team.id === activeTeamId) || null
+
+  const value = {
+    teams,
+    activeTeam,
+    loading,
+    setActiveTeamId,
+    refreshTeams: fetchTeams,
+  }
+
+  return <TeamContext.Provider value={value}>{children}</TeamContext.Provider>
+}
+
+export function useTeam() {
+  const context = useContext(TeamContext)
+  if (context === undefined) {
+    throw new Error('useTeam must be used within a TeamProvider')
+  }
+  return context
+}
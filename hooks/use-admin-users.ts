@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { toSearchPattern } from '@/lib/request-filters'
+import type { Profile, ProfileAuditEntry, UserInvitation, UserRole } from '@/lib/supabase/types'
+
+export interface AdminUserFilters {
+  search?: string
+  role?: UserRole
+  status?: 'active' | 'deactivated'
+}
+
+export function useAdminUsers(filters: AdminUserFilters = {}) {
+  const [users, setUsers] = useState<Profile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true)
+      let query = supabase
+        .from('profiles')
+        .select('*')
+        .order('full_name', { ascending: true })
+
+      if (filters.search) {
+        const pattern = toSearchPattern(filters.search)
+        query = query.or(`full_name.ilike.${pattern},email.ilike.${pattern}`)
+      }
+      if (filters.role) {
+        query = query.eq('role', filters.role)
+      }
+      if (filters.status === 'active') {
+        query = query.is('deactivated_at', null)
+      } else if (filters.status === 'deactivated') {
+        query = query.not('deactivated_at', 'is', null)
+      }
+
+      const { data, error: fetchError } = await query
+
+      if (fetchError) throw fetchError
+
+      setUsers((data || []) as Profile[])
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching users:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch users')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchUsers()
+  }, [filters.search, filters.role, filters.status])
+
+  return { users, loading, error, refetch: fetchUsers }
+}
+
+export function usePendingInvitations() {
+  const [invitations, setInvitations] = useState<UserInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchInvitations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select('*')
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      setInvitations((data || []) as UserInvitation[])
+    } catch (err) {
+      console.error('Error fetching invitations:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchInvitations()
+  }, [])
+
+  return { invitations, loading, refetch: fetchInvitations }
+}
+
+export function useProfileAuditLog(limit = 50) {
+  const [entries, setEntries] = useState<ProfileAuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profile_audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      setEntries((data || []) as ProfileAuditEntry[])
+    } catch (err) {
+      console.error('Error fetching audit log:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEntries()
+  }, [limit])
+
+  return { entries, loading, refetch: fetchEntries }
+}
@@ -0,0 +1,13 @@
+import { useTeamMembers } from '@/hooks/use-team-members'
+import { useTeam } from '@/contexts/team-context'
+import type { UserRole } from '@/lib/supabase/types'
+
+const assignableRoles: UserRole[] = ['admin', 'team_member']
+
+// Staff of the active team. Deactivated staff keep their role but can no
+// longer pick up work.
+export function useAssignableProfiles() {
+  const { activeTeam } = useTeam()
+  const { members, loading, error } = useTeamMembers(activeTeam?.id, assignableRoles)
+  return { profiles: members.filter((profile) => !profile.deactivated_at), loading, error }
+}
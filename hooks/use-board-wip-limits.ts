@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import type { BoardWipLimit, RequestStatus } from '@/lib/supabase/types'
+
+// WIP limits of the active team's board, keyed by column
+export function useBoardWipLimits() {
+  const { activeTeam } = useTeam()
+  const [limits, setLimits] = useState<Partial<Record<RequestStatus, number>>>({})
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchLimits = async () => {
+    if (!activeTeam) {
+      setLimits({})
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('board_wip_limits')
+        .select('*')
+        .eq('team_id', activeTeam.id)
+
+      if (fetchError) throw fetchError
+
+      setLimits(Object.fromEntries(((data || []) as BoardWipLimit[]).map((limit) => [limit.status, limit.wip_limit])))
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching WIP limits:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchLimits()
+  }, [activeTeam?.id])
+
+  return { limits, loading, error, refetch: fetchLimits }
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react'
+import { startOfMonth } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
+import { usePermissions } from '@/hooks/use-permissions'
+import type { Profile, Request, RequestActivity } from '@/lib/supabase/types'
+
+export interface DashboardStats {
+  total: number
+  inProgress: number
+  completedThisMonth: number
+  urgent: number
+}
+
+export interface DashboardActivity extends RequestActivity {
+  request: Pick<Request, 'id' | 'title'> | null
+  actor: Profile | null
+}
+
+const emptyStats: DashboardStats = {
+  total: 0,
+  inProgress: 0,
+  completedThisMonth: 0,
+  urgent: 0,
+}
+
+// Counts and activity run through the caller's session, so RLS limits them to
+// rows the caller could open. Users are additionally scoped to their own
+// requests so the numbers match "My Requests". Everything is limited to the
+// active team.
+export function useDashboardStats(recentLimit = 10) {
+  const { user } = useAuth()
+  const { activeTeam } = useTeam()
+  const { canViewAllRequests } = usePermissions()
+  const [stats, setStats] = useState<DashboardStats>(emptyStats)
+  const [recentActivity, setRecentActivity] = useState<DashboardActivity[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchStats = async () => {
+    if (!user || !activeTeam) return
+
+    try {
+      setLoading(true)
+
+      const countRequests = () => {
+        let query = supabase
+          .from('requests')
+          .select('id', { count: 'exact', head: true })
+          .eq('team_id', activeTeam.id)
+
+        if (!canViewAllRequests) {
+          query = query.eq('created_by', user.id)
+        }
+        return query
+      }
+
+      const [total, inProgress, completed, urgent, activity] = await Promise.all([
+        countRequests(),
+        countRequests().eq('status', 'in_progress'),
+        // By completion time: updated_at also moves on later edits and jobs
+        countRequests()
+          .eq('status', 'completed')
+          .gte('completed_at', startOfMonth(new Date()).toISOString()),
+        countRequests()
+          .eq('priority', 'urgent')
+          .not('status', 'in', '(completed,rejected)'),
+        supabase
+          .from('request_activity')
+          .select('*, requests!inner(team_id)')
+          .eq('requests.team_id', activeTeam.id)
+          .order('created_at', { ascending: false })
+          .limit(recentLimit),
+      ])
+
+      const firstError = [total, inProgress, completed, urgent, activity].find((r) => r.error)?.error
+      if (firstError) throw firstError
+
+      setStats({
+        total: total.count || 0,
+        inProgress: inProgress.count || 0,
+        completedThisMonth: completed.count || 0,
+        urgent: urgent.count || 0,
+      })
+
+      const typedActivity = ((activity.data || []) as (RequestActivity & { requests?: unknown })[]).map(
+        ({ requests: _team, ...item }) => item as RequestActivity
+      )
+
+      const requestIds = Array.from(new Set(typedActivity.map((a) => a.request_id)))
+      const userIds = Array.from(new Set(typedActivity.flatMap((a) => (a.user_id ? [a.user_id] : []))))
+
+      const [{ data: requestsData }, { data: profilesData }] = await Promise.all([
+        supabase.from('requests').select('id, title').in('id', requestIds),
+        supabase.from('profiles').select('*').in('id', userIds),
+      ])
+
+      const requestsMap = new Map<string, Pick<Request, 'id' | 'title'>>()
+      ;((requestsData || []) as Pick<Request, 'id' | 'title'>[]).forEach((r) => requestsMap.set(r.id, r))
+
+      const profilesMap = new Map<string, Profile>()
+      ;((profilesData || []) as Profile[]).forEach((p) => profilesMap.set(p.id, p))
+
+      setRecentActivity(
+        typedActivity.map((item) => ({
+          ...item,
+          request: requestsMap.get(item.request_id) || null,
+          actor: (item.user_id && profilesMap.get(item.user_id)) || null,
+        }))
+      )
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching dashboard stats:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStats()
+  }, [user?.id, activeTeam?.id, canViewAllRequests, recentLimit])
+
+  return { stats, recentActivity, loading, error, refetch: fetchStats }
+}
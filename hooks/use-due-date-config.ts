@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import type { DueDateSettings, PriorityEscalationRule } from '@/lib/supabase/types'
+
+// Reminder settings and priority escalation rules of the active team
+export function useDueDateConfig() {
+  const { activeTeam } = useTeam()
+  const [settings, setSettings] = useState<DueDateSettings | null>(null)
+  const [rules, setRules] = useState<PriorityEscalationRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchConfig = async () => {
+    if (!activeTeam) {
+      setSettings(null)
+      setRules([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [{ data: settingsData, error: settingsError }, { data: rulesData, error: rulesError }] = await Promise.all([
+        supabase.from('due_date_settings').select('*').eq('team_id', activeTeam.id).maybeSingle(),
+        supabase
+          .from('priority_escalation_rules')
+          .select('*')
+          .eq('team_id', activeTeam.id)
+          .order('from_priority', { ascending: true })
+          .order('hours', { ascending: true }),
+      ])
+
+      if (settingsError) throw settingsError
+      if (rulesError) throw rulesError
+
+      setSettings(settingsData as DueDateSettings | null)
+      setRules((rulesData || []) as PriorityEscalationRule[])
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching due date configuration:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchConfig()
+  }, [activeTeam?.id])
+
+  return { settings, rules, loading, error, refetch: fetchConfig }
+}
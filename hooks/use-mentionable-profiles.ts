@@ -0,0 +1,18 @@
+import { useTeam } from '@/contexts/team-context'
+import { useTeamMembers } from '@/hooks/use-team-members'
+
+// People who can open a request in the active team: its admins and team
+// members, plus the request's creator. Mentions of anyone else are ignored
+// by the database, so they are not offered.
+export function useMentionableProfiles(requestCreatorId?: string | null) {
+  const { activeTeam } = useTeam()
+  const { members, loading } = useTeamMembers(activeTeam?.id)
+
+  const profiles = members.filter(
+    (member) =>
+      !member.deactivated_at &&
+      (member.team_role === 'admin' || member.team_role === 'team_member' || member.id === requestCreatorId)
+  )
+
+  return { profiles, loading }
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+import { defaultEmailPreference, emailEventTypes, type EmailPreference } from '@/lib/notifications/events'
+import type { EmailEventType, NotificationPreference } from '@/lib/supabase/types'
+
+type PreferenceMap = Record<EmailEventType, EmailPreference>
+
+function buildPreferenceMap(rows: NotificationPreference[]): PreferenceMap {
+  return emailEventTypes.reduce((map, eventType) => {
+    const row = rows.find((preference) => preference.event_type === eventType)
+    map[eventType] = row ? { email_enabled: row.email_enabled, delivery: row.delivery } : defaultEmailPreference
+    return map
+  }, {} as PreferenceMap)
+}
+
+export function useNotificationPreferences() {
+  const { user } = useAuth()
+  const [preferences, setPreferences] = useState<PreferenceMap>(buildPreferenceMap([]))
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPreferences = async () => {
+    if (!user) return
+
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+
+      if (error) throw error
+
+      setPreferences(buildPreferenceMap((data || []) as NotificationPreference[]))
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching notification preferences:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch notification preferences')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPreferences()
+  }, [user?.id])
+
+  const updatePreference = async (eventType: EmailEventType, changes: Partial<EmailPreference>) => {
+    if (!user) return false
+
+    const previous = preferences
+    const next = { ...preferences[eventType], ...changes }
+    setPreferences({ ...preferences, [eventType]: next })
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: user.id, event_type: eventType, ...next }, { onConflict: 'user_id,event_type' })
+
+    if (error) {
+      console.error('Error updating notification preference:', error)
+      setPreferences(previous)
+      return false
+    }
+
+    return true
+  }
+
+  return { preferences, loading, error, updatePreference, refetch: fetchPreferences }
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+import type { UserNotification } from '@/lib/supabase/types'
+
+export function useNotifications(limit = 20) {
+  const { user } = useAuth()
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  const fetchNotifications = async () => {
+    if (!user) return
+
+    try {
+      const [{ data, error }, { count, error: countError }] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(limit),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .is('read_at', null),
+      ])
+
+      if (error) throw error
+      if (countError) throw countError
+
+      setNotifications((data || []) as UserNotification[])
+      setUnreadCount(count || 0)
+    } catch (err) {
+      console.error('Error fetching notifications:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchNotifications()
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => fetchNotifications()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user?.id, limit])
+
+  const markAsRead = async (id: string) => {
+    const readAt = new Date().toISOString()
+    setNotifications((current) =>
+      current.map((n) => (n.id === id && !n.read_at ? { ...n, read_at: readAt } : n))
+    )
+    setUnreadCount((count) =>
+      notifications.some((n) => n.id === id && !n.read_at) ? Math.max(0, count - 1) : count
+    )
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id)
+      .is('read_at', null)
+
+    if (error) {
+      console.error('Error marking notification as read:', error)
+      fetchNotifications()
+    }
+  }
+
+  const markAllAsRead = async () => {
+    if (!user) return
+
+    const readAt = new Date().toISOString()
+    setNotifications((current) => current.map((n) => (n.read_at ? n : { ...n, read_at: readAt })))
+    setUnreadCount(0)
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user.id)
+      .is('read_at', null)
+
+    if (error) {
+      console.error('Error marking notifications as read:', error)
+      fetchNotifications()
+    }
+  }
+
+  return { notifications, unreadCount, loading, markAsRead, markAllAsRead, refetch: fetchNotifications }
+}
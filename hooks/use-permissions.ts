@@ -1,10 +1,15 @@
 import { useAuth } from '@/contexts/auth-context'
-import type { UserRole } from '@/lib/supabase/types'
+import { useTeam } from '@/contexts/team-context'
+import type { SavedViewVisibility, UserRole } from '@/lib/supabase/types'
 
+// Request permissions follow the caller's role in the active team.
+// profiles.role only matters for platform admins (user and team management).
 export function usePermissions() {
   const { profile, user } = useAuth()
+  const { activeTeam } = useTeam()
 
-  const role: UserRole | null = profile?.role || null
+  const role: UserRole | null = activeTeam?.role || null
+  const isPlatformAdmin = profile?.role === 'admin'
 
   const isAdmin = role === 'admin'
   const isTeamMember = role === 'team_member'
@@ -13,6 +18,7 @@ export function usePermissions() {
 
   const canCreateRequest = isAdmin || isTeamMember || isUser
   const canViewAllRequests = isAdmin || isTeamMember
+  const canViewInternalNotes = isAdmin || isTeamMember
   const canEditAnyRequest = isAdmin
   const canDeleteAnyRequest = isAdmin
 
@@ -36,13 +42,59 @@ export function usePermissions() {
     return createdBy === user.id
   }
 
+  // Only authors edit their text; admins moderate by deleting
+  const canEditComment = (authorId: string) => {
+    if (!user) return false
+    return authorId === user.id
+  }
+
+  const canDeleteComment = (authorId: string) => {
+    if (!user) return false
+    if (isAdmin) return true
+    return authorId === user.id
+  }
+
   const canViewRequest = (createdBy: string) => {
     if (!user) return false
     if (isAdmin || isTeamMember) return true
     return createdBy === user.id
   }
 
-  const canManageUsers = isAdmin
+  const canReassignRequest = (assignedTo?: string | null) => {
+    if (!user) return false
+    if (isAdmin) return true
+    return isTeamMember && assignedTo === user.id
+  }
+
+  const canClaimRequest = (assignedTo?: string | null) => {
+    if (!user) return false
+    if (assignedTo === user.id) return false
+    if (isAdmin) return true
+    return isTeamMember && !assignedTo
+  }
+
+  const canUploadAttachment = (createdBy: string, assignedTo?: string | null) => {
+    if (!user) return false
+    if (isAdmin) return true
+    return createdBy === user.id || assignedTo === user.id
+  }
+
+  const canDeleteAttachment = (uploadedBy: string) => {
+    if (!user) return false
+    if (isAdmin) return true
+    return uploadedBy === user.id
+  }
+
+  // Team admins look after shared views; personal ones belong to their owner
+  const canManageSavedView = (ownerId: string, visibility: SavedViewVisibility) => {
+    if (!user) return false
+    if (ownerId === user.id) return true
+    return isAdmin && visibility === 'shared'
+  }
+
+  const canManageUsers = isPlatformAdmin
+  const canManageTeam = isAdmin
+  const canCreateTeam = isPlatformAdmin
 
   return {
     role,
@@ -52,12 +104,23 @@ export function usePermissions() {
     isGuest,
     canCreateRequest,
     canViewAllRequests,
+    canViewInternalNotes,
     canEditAnyRequest,
     canDeleteAnyRequest,
     canEditRequest,
     canDeleteRequest,
     canCommentOnRequest,
+    canEditComment,
+    canDeleteComment,
     canViewRequest,
+    canReassignRequest,
+    canClaimRequest,
+    canUploadAttachment,
+    canDeleteAttachment,
+    canManageSavedView,
     canManageUsers,
+    canManageTeam,
+    canCreateTeam,
+    isPlatformAdmin,
   }
 }
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import type { Profile, UserRole } from '@/lib/supabase/types'
+
+// Returns every profile the caller is allowed to read, optionally limited to
+// some roles. RLS decides the rest: everyone sees their teammates, platform
+// admins see everyone.
+export function useProfiles(roles?: UserRole[]) {
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const rolesKey = roles?.join(',') || ''
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        setLoading(true)
+        let query = supabase
+          .from('profiles')
+          .select('*')
+          .order('full_name', { ascending: true })
+
+        if (roles && roles.length > 0) {
+          query = query.in('role', roles)
+        }
+
+        const { data, error: fetchError } = await query
+
+        if (fetchError) throw fetchError
+
+        setProfiles((data || []) as Profile[])
+        setError(null)
+      } catch (err) {
+        setError(err as Error)
+        console.error('Error fetching profiles:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProfiles()
+  }, [rolesKey])
+
+  return { profiles, loading, error }
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+
+export interface ProjectStats {
+  total: number
+  open: number
+  completed: number
+  overdue: number
+}
+
+const emptyStats: ProjectStats = {
+  total: 0,
+  open: 0,
+  completed: 0,
+  overdue: 0,
+}
+
+// Counts run through the caller's session, so they match the requests the
+// caller can see in the project's list.
+export function useProjectStats(projectId: string) {
+  const [stats, setStats] = useState<ProjectStats>(emptyStats)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchStats = async () => {
+    try {
+      setLoading(true)
+
+      const countRequests = () =>
+        supabase
+          .from('requests')
+          .select('id', { count: 'exact', head: true })
+          .eq('project_id', projectId)
+
+      const [total, open, completed, overdue] = await Promise.all([
+        countRequests(),
+        countRequests().not('status', 'in', '(completed,rejected)'),
+        countRequests().eq('status', 'completed'),
+        countRequests()
+          .lt('due_date', new Date().toISOString())
+          .not('status', 'in', '(completed,rejected)'),
+      ])
+
+      const firstError = [total, open, completed, overdue].find((r) => r.error)?.error
+      if (firstError) throw firstError
+
+      setStats({
+        total: total.count || 0,
+        open: open.count || 0,
+        completed: completed.count || 0,
+        overdue: overdue.count || 0,
+      })
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching project stats:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStats()
+  }, [projectId])
+
+  return { stats, loading, error, refetch: fetchStats }
+}
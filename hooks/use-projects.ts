@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import type { Project } from '@/lib/supabase/types'
+
+// Projects of the active team, ordered by name
+export function useProjects() {
+  const { activeTeam } = useTeam()
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchProjects = async () => {
+    if (!activeTeam) {
+      setProjects([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      const { data, error: fetchError } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('team_id', activeTeam.id)
+        .order('name', { ascending: true })
+
+      if (fetchError) throw fetchError
+
+      setProjects((data || []) as Project[])
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching projects:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchProjects()
+  }, [activeTeam?.id])
+
+  return { projects, loading, error, refetch: fetchProjects }
+}
+
+export function useProject(projectId: string) {
+  const [project, setProject] = useState<Project | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      try {
+        setLoading(true)
+        const { data, error: fetchError } = await supabase
+          .from('projects')
+          .select('*')
+          .eq('id', projectId)
+          .maybeSingle()
+
+        if (fetchError) throw fetchError
+
+        setProject(data as Project | null)
+        setError(null)
+      } catch (err) {
+        setError(err as Error)
+        console.error('Error fetching project:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProject()
+  }, [projectId])
+
+  return { project, loading, error }
+}
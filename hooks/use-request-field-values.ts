@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import type { RequestFieldValue } from '@/lib/supabase/types'
+
+// Answers to the given fields for a page of requests, keyed by request then field
+export function useRequestFieldValues(requestIds: string[], fieldIds: string[]) {
+  const [values, setValues] = useState<Map<string, Map<string, RequestFieldValue>>>(new Map())
+  const requestKey = requestIds.join(',')
+  const fieldKey = fieldIds.join(',')
+
+  useEffect(() => {
+    if (requestIds.length === 0 || fieldIds.length === 0) {
+      setValues(new Map())
+      return
+    }
+
+    let cancelled = false
+
+    supabase
+      .from('request_field_values')
+      .select('*')
+      .in('request_id', requestIds)
+      .in('field_id', fieldIds)
+      .then(({ data, error }) => {
+        if (cancelled) return
+        if (error) {
+          console.error('Error fetching field values:', error)
+          return
+        }
+
+        const rows = (data || []) as RequestFieldValue[]
+        const next = new Map<string, Map<string, RequestFieldValue>>()
+        rows.forEach((value) => {
+          const byField = next.get(value.request_id) || new Map<string, RequestFieldValue>()
+          byField.set(value.field_id, value)
+          next.set(value.request_id, byField)
+        })
+        setValues(next)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [requestKey, fieldKey])
+
+  return values
+}
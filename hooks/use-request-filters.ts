@@ -0,0 +1,48 @@
+import { useMemo } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import {
+  defaultRequestFilters,
+  parseRequestFilters,
+  serializeRequestFilters,
+  type RequestFilters,
+  type RequestSortColumn,
+} from '@/lib/request-filters'
+
+// Filters live in the URL so lists survive reloads and can be shared as links.
+export function useRequestFilters() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const filters = useMemo(
+    () => parseRequestFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  )
+
+  const replaceFilters = (next: RequestFilters) => {
+    const query = serializeRequestFilters(next).toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  // Any change other than paging sends the user back to the first page.
+  const updateFilters = (changes: Partial<Omit<RequestFilters, 'page'>>) => {
+    replaceFilters({ ...filters, ...changes, page: 1 })
+  }
+
+  const setPage = (page: number) => {
+    replaceFilters({ ...filters, page })
+  }
+
+  const toggleSort = (column: RequestSortColumn) => {
+    updateFilters({
+      sort: column,
+      ascending: filters.sort === column ? !filters.ascending : column === 'title',
+    })
+  }
+
+  const resetFilters = () => {
+    replaceFilters({ ...defaultRequestFilters, pageSize: filters.pageSize })
+  }
+
+  return { filters, updateFilters, setPage, toggleSort, resetFilters }
+}
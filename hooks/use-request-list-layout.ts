@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
+import { defaultRequestColumns, saveRequestListLayout } from '@/lib/request-columns'
+import type { RequestListLayout } from '@/lib/supabase/types'
+
+// The current user's request list columns for the active team. Changes apply
+// immediately and are saved in the background.
+export function useRequestListLayout() {
+  const { user } = useAuth()
+  const { activeTeam } = useTeam()
+  const [columns, setColumnsState] = useState<string[]>(defaultRequestColumns)
+  const [loading, setLoading] = useState(true)
+
+  const fetchLayout = async () => {
+    if (!user || !activeTeam) {
+      setColumnsState(defaultRequestColumns)
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('request_list_layouts')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('team_id', activeTeam.id)
+        .maybeSingle()
+
+      if (error) throw error
+      setColumnsState((data as RequestListLayout | null)?.columns || defaultRequestColumns)
+    } catch (err) {
+      console.error('Error fetching list layout:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchLayout()
+  }, [user?.id, activeTeam?.id])
+
+  const setColumns = async (next: string[]) => {
+    setColumnsState(next)
+    if (!user || !activeTeam) return
+
+    try {
+      await saveRequestListLayout(user.id, activeTeam.id, next)
+    } catch (err) {
+      console.error('Error saving list layout:', err)
+      toast.error('Failed to save columns')
+    }
+  }
+
+  return { columns, loading, setColumns }
+}
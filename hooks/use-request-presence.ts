@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+
+export interface RequestViewer {
+  user_id: string
+  name: string
+  avatar_url: string | null
+}
+
+function getRequestPresenceTopic(requestId: string) {
+  return `request:${requestId}`
+}
+
+// Each request has its own private presence channel, which only users who
+// can view the request may join. Lists pass the ids they show to watch them;
+// the detail page also passes viewingId to announce itself. The returned map
+// excludes the caller.
+export function useRequestPresence(requestIds: string[], viewingId?: string) {
+  const { user, profile } = useAuth()
+  const [viewers, setViewers] = useState<Map<string, RequestViewer[]>>(new Map())
+
+  const idsKey = Array.from(new Set(requestIds)).sort().join(',')
+
+  useEffect(() => {
+    if (!user || !idsKey) {
+      setViewers(new Map())
+      return
+    }
+
+    const channels = idsKey.split(',').map((requestId) => {
+      const channel = supabase.channel(getRequestPresenceTopic(requestId), {
+        config: { private: true, presence: { key: user.id } },
+      })
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const others: RequestViewer[] = []
+          Object.values(channel.presenceState<RequestViewer>()).forEach((presences) => {
+            presences.forEach((presence) => {
+              if (presence.user_id === user.id || others.some((viewer) => viewer.user_id === presence.user_id)) return
+              others.push(presence)
+            })
+          })
+
+          setViewers((current) => {
+            const next = new Map(current)
+            if (others.length > 0) {
+              next.set(requestId, others)
+            } else {
+              next.delete(requestId)
+            }
+            return next
+          })
+        })
+        .subscribe(async (status) => {
+          if (status === 'SUBSCRIBED' && requestId === viewingId) {
+            await channel.track({
+              user_id: user.id,
+              name: profile?.full_name || profile?.email || 'Someone',
+              avatar_url: profile?.avatar_url || null,
+            })
+          }
+        })
+
+      return channel
+    })
+
+    return () => {
+      channels.forEach((channel) => supabase.removeChannel(channel))
+      setViewers(new Map())
+    }
+  }, [user?.id, idsKey, viewingId, profile?.full_name])
+
+  return viewers
+}
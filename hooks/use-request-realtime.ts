@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react'
+import { supabase } from '@/lib/supabase/client'
+
+const REFRESH_DELAY_MS = 300
+
+// Calls onChange whenever the request or any of its comments, reactions,
+// activity or attachments change. Bursts (a status change also writes an activity row)
+// are collapsed into a single call.
+export function useRequestRealtime(requestId: string | undefined, onChange: () => void) {
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  useEffect(() => {
+    if (!requestId) return
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const scheduleRefresh = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => onChangeRef.current(), REFRESH_DELAY_MS)
+    }
+
+    const channel = supabase
+      .channel(`request-changes:${requestId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'requests', filter: `id=eq.${requestId}` }, scheduleRefresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'request_comments', filter: `request_id=eq.${requestId}` }, scheduleRefresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'request_comment_reactions', filter: `request_id=eq.${requestId}` }, scheduleRefresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'request_activity', filter: `request_id=eq.${requestId}` }, scheduleRefresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'request_attachments', filter: `request_id=eq.${requestId}` }, scheduleRefresh)
+      .subscribe()
+
+    return () => {
+      clearTimeout(timeoutId)
+      supabase.removeChannel(channel)
+    }
+  }, [requestId])
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { getRequestSlaStatuses } from '@/lib/sla'
+import type { RequestSlaStatus } from '@/lib/supabase/types'
+
+// SLA clocks keep running between data changes, so states are re-read on
+// this interval to move requests into "at risk" and "breached" on time.
+const REFRESH_INTERVAL_MS = 60_000
+
+export function useRequestSla(requestIds: string[]) {
+  const [statuses, setStatuses] = useState<Map<string, RequestSlaStatus>>(new Map())
+  const [loading, setLoading] = useState(true)
+
+  const idsKey = requestIds.join(',')
+
+  const fetchStatuses = async () => {
+    try {
+      setStatuses(await getRequestSlaStatuses(requestIds))
+    } catch (err) {
+      console.error('Error fetching SLA status:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatuses()
+    const intervalId = setInterval(fetchStatuses, REFRESH_INTERVAL_MS)
+    return () => clearInterval(intervalId)
+  }, [idsKey])
+
+  return { statuses, loading, refetch: fetchStatuses }
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import type { RequestType, RequestTypeField, RequestTypeWithFields } from '@/lib/supabase/types'
+
+// Request types of the active team with their intake fields, in form order
+export function useRequestTypes() {
+  const { activeTeam } = useTeam()
+  const [requestTypes, setRequestTypes] = useState<RequestTypeWithFields[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchRequestTypes = async () => {
+    if (!activeTeam) {
+      setRequestTypes([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const { data: typesData, error: typesError } = await supabase
+        .from('request_types')
+        .select('*')
+        .eq('team_id', activeTeam.id)
+        .order('position', { ascending: true })
+        .order('name', { ascending: true })
+
+      if (typesError) throw typesError
+
+      const types = (typesData || []) as RequestType[]
+      let fields: RequestTypeField[] = []
+
+      if (types.length > 0) {
+        const { data: fieldsData, error: fieldsError } = await supabase
+          .from('request_type_fields')
+          .select('*')
+          .in('request_type_id', types.map((type) => type.id))
+          .order('position', { ascending: true })
+
+        if (fieldsError) throw fieldsError
+        fields = (fieldsData || []) as RequestTypeField[]
+      }
+
+      setRequestTypes(
+        types.map((type) => ({ ...type, fields: fields.filter((field) => field.request_type_id === type.id) }))
+      )
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching request types:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchRequestTypes()
+  }, [activeTeam?.id])
+
+  return { requestTypes, loading, error, refetch: fetchRequestTypes }
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+
+export function useRequestWatch(requestId?: string) {
+  const { user } = useAuth()
+  const [watching, setWatching] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const fetchWatch = async () => {
+    if (!user || !requestId) return
+
+    try {
+      const { data, error } = await supabase
+        .from('request_watchers')
+        .select('request_id')
+        .eq('request_id', requestId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (error) throw error
+      setWatching(!!data)
+    } catch (err) {
+      console.error('Error fetching watch state:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchWatch()
+  }, [requestId, user?.id])
+
+  const toggleWatch = async () => {
+    if (!user || !requestId) return false
+
+    const next = !watching
+    setWatching(next)
+
+    const { error } = next
+      ? await supabase.from('request_watchers').insert({ request_id: requestId, user_id: user.id })
+      : await supabase.from('request_watchers').delete().eq('request_id', requestId).eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error updating watch state:', error)
+      setWatching(!next)
+      return false
+    }
+
+    return true
+  }
+
+  return { watching, loading, toggleWatch, refetch: fetchWatch }
+}
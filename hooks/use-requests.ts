@@ -1,82 +1,134 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { addDays, endOfWeek, parseISO, startOfDay, startOfWeek } from 'date-fns'
 import { supabase } from '@/lib/supabase/client'
-import type { Request } from '@/lib/supabase/types'
+import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
+import {
+  ME,
+  UNASSIGNED,
+  toSearchPattern,
+  type DuePreset,
+  type FieldFilter,
+  type RequestSortColumn,
+} from '@/lib/request-filters'
+import type { Request, RequestPriority, RequestStatus } from '@/lib/supabase/types'
 
 export function useRequests(filters?: {
-  status?: string
-  priority?: string
+  projectId?: string
+  status?: RequestStatus
+  priority?: RequestPriority
   createdBy?: string
   assignedTo?: string
+  due?: DuePreset
+  dueFrom?: string
+  dueTo?: string
+  search?: string
+  fields?: FieldFilter[]
+  sort?: RequestSortColumn
+  ascending?: boolean
+  page?: number
+  pageSize?: number
 }) {
+  const { user } = useAuth()
+  const { activeTeam, loading: teamLoading } = useTeam()
   const [requests, setRequests] = useState<Request[]>([])
+  const [totalCount, setTotalCount] = useState(0)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<Error | null>(null)
+  const fieldFiltersKey = JSON.stringify(filters?.fields || [])
 
-  useEffect(() => {
-    const fetchRequests = async () => {
-      try {
-        setLoading(true)
-        let query = supabase
-          .from('requests')
-          .select('*')
-          .order('created_at', { ascending: false })
-
-        if (filters?.status) {
-          query = query.eq('status', filters.status)
-        }
-        if (filters?.priority) {
-          query = query.eq('priority', filters.priority)
-        }
-        if (filters?.createdBy) {
-          query = query.eq('created_by', filters.createdBy)
-        }
-        if (filters?.assignedTo) {
-          query = query.eq('assigned_to', filters.assignedTo)
-        }
-
-        const { data, error: fetchError } = await query
-
-        if (fetchError) throw fetchError
-
-        setRequests(data || [])
-        setError(null)
-      } catch (err) {
-        setError(err as Error)
-        console.error('Error fetching requests:', err)
-      } finally {
-        setLoading(false)
-      }
+  // Every filter and the sort, but no paging, so the list and "select all
+  // matching" always agree on what matches
+  const buildQuery = (teamId: string, columns = '*') => {
+    const selectRequests = () => supabase.from('requests').select(columns as '*', { count: 'exact' })
+    // Field filters are matched in the database. The RPC returns requests
+    // rows, so every other filter, the sort and paging chain on as usual.
+    const base = filters?.fields?.length
+      ? (supabase
+          .rpc('filter_requests_by_fields', { p_team_id: teamId, p_filters: filters.fields }, { count: 'exact' })
+          .select(columns) as unknown as ReturnType<typeof selectRequests>)
+      : selectRequests()
+    let query = base
+      .eq('team_id', teamId)
+      .order(filters?.sort || 'created_at', { ascending: filters?.ascending ?? false })
+
+    if (filters?.sort && filters.sort !== 'created_at') {
+      query = query.order('created_at', { ascending: false })
     }
 
-    fetchRequests()
-  }, [filters?.status, filters?.priority, filters?.createdBy, filters?.assignedTo])
+    if (filters?.projectId) {
+      query = query.eq('project_id', filters.projectId)
+    }
+    if (filters?.status) {
+      query = query.eq('status', filters.status)
+    }
+    if (filters?.priority) {
+      query = query.eq('priority', filters.priority)
+    }
+    if (filters?.createdBy) {
+      query = query.eq('created_by', filters.createdBy === ME ? user?.id || '' : filters.createdBy)
+    }
+    if (filters?.assignedTo === UNASSIGNED) {
+      query = query.is('assigned_to', null)
+    } else if (filters?.assignedTo) {
+      query = query.eq('assigned_to', filters.assignedTo === ME ? user?.id || '' : filters.assignedTo)
+    }
+    if (filters?.due === 'overdue') {
+      query = query.lt('due_date', new Date().toISOString()).not('status', 'in', '(completed,rejected)')
+    } else if (filters?.due) {
+      const weekOptions = { weekStartsOn: 1 as const }
+      const from = filters.due === 'today' ? startOfDay(new Date()) : startOfWeek(new Date(), weekOptions)
+      const to = filters.due === 'today' ? addDays(from, 1) : addDays(startOfDay(endOfWeek(new Date(), weekOptions)), 1)
+      query = query.gte('due_date', from.toISOString()).lt('due_date', to.toISOString())
+    }
+    if (filters?.dueFrom) {
+      query = query.gte('due_date', parseISO(filters.dueFrom).toISOString())
+    }
+    if (filters?.dueTo) {
+      query = query.lt('due_date', addDays(parseISO(filters.dueTo), 1).toISOString())
+    }
+    if (filters?.search) {
+      const pattern = toSearchPattern(filters.search)
+      query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`)
+    }
+
+    return query
+  }
+
+  // Every matching request across all pages, up to `limit`, with just the
+  // given columns. Used to act on a whole filtered list at once.
+  const fetchMatching = async <T>(columns: string, limit: number): Promise<T[]> => {
+    if (!activeTeam) return []
+
+    const { data, error: fetchError } = await buildQuery(activeTeam.id, columns).range(0, limit - 1)
+
+    if (fetchError) throw fetchError
+    return (data || []) as unknown as T[]
+  }
+
+  const fetchRequests = async (silent = false) => {
+    if (!activeTeam) {
+      setRequests([])
+      setTotalCount(0)
+      if (!teamLoading) setLoading(false)
+      return
+    }
 
-  const refetch = async () => {
     try {
-      setLoading(true)
-      let query = supabase
-        .from('requests')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (filters?.status) {
-        query = query.eq('status', filters.status)
-      }
-      if (filters?.priority) {
-        query = query.eq('priority', filters.priority)
-      }
-      if (filters?.createdBy) {
-        query = query.eq('created_by', filters.createdBy)
-      }
-      if (filters?.assignedTo) {
-        query = query.eq('assigned_to', filters.assignedTo)
+      if (!silent) setLoading(true)
+      let query = buildQuery(activeTeam.id)
+
+      if (filters?.pageSize) {
+        const from = ((filters.page || 1) - 1) * filters.pageSize
+        query = query.range(from, from + filters.pageSize - 1)
       }
 
-      const { data, error: fetchError } = await query
+      const { data, count, error: fetchError } = await query
 
       if (fetchError) throw fetchError
 
       setRequests(data || [])
+      setTotalCount(count ?? (data || []).length)
       setError(null)
     } catch (err) {
       setError(err as Error)
@@ -86,5 +138,59 @@ export function useRequests(filters?: {
     }
   }
 
-  return { requests, loading, error, refetch }
+  useEffect(() => {
+    fetchRequests()
+  }, [
+    activeTeam?.id,
+    user?.id,
+    teamLoading,
+    filters?.projectId,
+    filters?.status,
+    filters?.priority,
+    filters?.createdBy,
+    filters?.assignedTo,
+    filters?.due,
+    filters?.dueFrom,
+    filters?.dueTo,
+    filters?.search,
+    fieldFiltersKey,
+    filters?.sort,
+    filters?.ascending,
+    filters?.page,
+    filters?.pageSize,
+  ])
+
+  const fetchRef = useRef(fetchRequests)
+  fetchRef.current = fetchRequests
+
+  // Keep the current page live: updates and deletes are patched in place,
+  // and inserts and deletes trigger a quiet refetch since they shift paging.
+  useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    const scheduleRefetch = () => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => fetchRef.current(true), 300)
+    }
+
+    const channel = supabase
+      .channel(`requests-list:${Math.random().toString(36).slice(2)}`)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'requests' }, (payload) => {
+        const updated = payload.new as Request
+        setRequests((current) => current.map((request) => (request.id === updated.id ? updated : request)))
+      })
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'requests' }, (payload) => {
+        const deletedId = (payload.old as Partial<Request>).id
+        setRequests((current) => current.filter((request) => request.id !== deletedId))
+        scheduleRefetch()
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'requests' }, scheduleRefetch)
+      .subscribe()
+
+    return () => {
+      clearTimeout(timeoutId)
+      supabase.removeChannel(channel)
+    }
+  }, [])
+
+  return { requests, totalCount, loading, error, refetch: () => fetchRequests(), fetchMatching }
 }
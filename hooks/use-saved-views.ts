@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useAuth } from '@/contexts/auth-context'
+import { useTeam } from '@/contexts/team-context'
+import type { SavedView, SavedViewPreference } from '@/lib/supabase/types'
+
+// Views of the active team the user can see, with their own pins and landing
+// choice. Follows changes made elsewhere so the sidebar stays in step.
+export function useSavedViews() {
+  const { user } = useAuth()
+  const { activeTeam } = useTeam()
+  const [views, setViews] = useState<SavedView[]>([])
+  const [preferences, setPreferences] = useState<Map<string, SavedViewPreference>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchViews = async () => {
+    if (!user || !activeTeam) {
+      setViews([])
+      setPreferences(new Map())
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [{ data: viewsData, error: viewsError }, { data: preferencesData, error: preferencesError }] = await Promise.all([
+        supabase
+          .from('saved_views')
+          .select('*')
+          .eq('team_id', activeTeam.id)
+          .order('name', { ascending: true }),
+        supabase.from('saved_view_preferences').select('*').eq('user_id', user.id),
+      ])
+
+      if (viewsError) throw viewsError
+      if (preferencesError) throw preferencesError
+
+      setViews((viewsData || []) as SavedView[])
+      setPreferences(
+        new Map(((preferencesData || []) as SavedViewPreference[]).map((preference) => [preference.view_id, preference]))
+      )
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching saved views:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!user || !activeTeam) {
+      fetchViews()
+      return
+    }
+
+    setLoading(true)
+    fetchViews()
+
+    const channel = supabase
+      .channel(`saved-views:${user.id}:${Math.random().toString(36).slice(2)}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'saved_views', filter: `team_id=eq.${activeTeam.id}` },
+        () => fetchViews()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'saved_view_preferences', filter: `user_id=eq.${user.id}` },
+        () => fetchViews()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user?.id, activeTeam?.id])
+
+  const pinnedViews = views
+    .filter((view) => preferences.get(view.id)?.pinned)
+    .sort((a, b) => preferences.get(a.id)!.position - preferences.get(b.id)!.position)
+
+  const defaultViewId = Array.from(preferences.values()).find((preference) => preference.is_default)?.view_id || null
+
+  return { views, preferences, pinnedViews, defaultViewId, loading, error, refetch: fetchViews }
+}
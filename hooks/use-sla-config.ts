@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import { useTeam } from '@/contexts/team-context'
+import type { SlaHoliday, SlaPolicy, SlaSettings } from '@/lib/supabase/types'
+
+// SLA policies, business hours and holidays of the active team
+export function useSlaConfig() {
+  const { activeTeam } = useTeam()
+  const [policies, setPolicies] = useState<SlaPolicy[]>([])
+  const [settings, setSettings] = useState<SlaSettings | null>(null)
+  const [holidays, setHolidays] = useState<SlaHoliday[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const fetchConfig = async () => {
+    if (!activeTeam) {
+      setPolicies([])
+      setSettings(null)
+      setHolidays([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      const [
+        { data: policiesData, error: policiesError },
+        { data: settingsData, error: settingsError },
+        { data: holidaysData, error: holidaysError },
+      ] = await Promise.all([
+        supabase.from('sla_policies').select('*').eq('team_id', activeTeam.id),
+        supabase.from('sla_settings').select('*').eq('team_id', activeTeam.id).maybeSingle(),
+        supabase.from('sla_holidays').select('*').eq('team_id', activeTeam.id).order('holiday_date', { ascending: true }),
+      ])
+
+      if (policiesError) throw policiesError
+      if (settingsError) throw settingsError
+      if (holidaysError) throw holidaysError
+
+      setPolicies((policiesData || []) as SlaPolicy[])
+      setSettings(settingsData as SlaSettings | null)
+      setHolidays((holidaysData || []) as SlaHoliday[])
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching SLA configuration:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    fetchConfig()
+  }, [activeTeam?.id])
+
+  return { policies, settings, holidays, loading, error, refetch: fetchConfig }
+}
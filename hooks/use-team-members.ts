@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase/client'
+import type { Profile, TeamMembership, UserRole } from '@/lib/supabase/types'
+
+export interface TeamMember extends Profile {
+  team_role: UserRole
+  joined_at: string
+}
+
+// Members of one team with their role in it, optionally limited to some roles
+export function useTeamMembers(teamId?: string | null, roles?: UserRole[]) {
+  const [members, setMembers] = useState<TeamMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  const rolesKey = roles?.join(',') || ''
+
+  const fetchMembers = async () => {
+    if (!teamId) {
+      setMembers([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      let query = supabase.from('team_memberships').select('*').eq('team_id', teamId)
+
+      if (roles && roles.length > 0) {
+        query = query.in('role', roles)
+      }
+
+      const { data: membershipsData, error: membershipsError } = await query
+
+      if (membershipsError) throw membershipsError
+
+      const memberships = (membershipsData || []) as TeamMembership[]
+      if (memberships.length === 0) {
+        setMembers([])
+        setError(null)
+        return
+      }
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('*')
+        .in('id', memberships.map((m) => m.user_id))
+        .order('full_name', { ascending: true })
+
+      if (profilesError) throw profilesError
+
+      const byUser = new Map(memberships.map((m) => [m.user_id, m]))
+      setMembers(
+        ((profilesData || []) as Profile[]).map((profile) => ({
+          ...profile,
+          team_role: byUser.get(profile.id)!.role,
+          joined_at: byUser.get(profile.id)!.created_at,
+        }))
+      )
+      setError(null)
+    } catch (err) {
+      setError(err as Error)
+      console.error('Error fetching team members:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchMembers()
+  }, [teamId, rolesKey])
+
+  return { members, loading, error, refetch: fetchMembers }
+}
@@ -0,0 +1,54 @@
+import { supabase } from '@/lib/supabase/client'
+import type { UserRole } from '@/lib/supabase/types'
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: 'Admin',
+  team_member: 'Team Member',
+  user: 'User',
+  guest: 'Guest',
+}
+
+export const userRoles: UserRole[] = ['admin', 'team_member', 'user', 'guest']
+
+// Invites and deactivation need the service role, so they go through route
+// handlers that re-check the caller is an admin.
+async function callAdminApi(path: string, init: RequestInit) {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token || ''}`,
+    },
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed with status ${response.status}`)
+  }
+  return body
+}
+
+export async function updateUserRole(userId: string, role: UserRole) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ role })
+    .eq('id', userId)
+
+  if (error) throw error
+}
+
+export async function setUserActive(userId: string, active: boolean) {
+  await callAdminApi(`/api/admin/users/${userId}/status`, {
+    method: 'PATCH',
+    body: JSON.stringify({ active }),
+  })
+}
+
+export async function inviteUser(email: string, role: UserRole, fullName?: string, teamId?: string) {
+  await callAdminApi('/api/admin/users/invite', {
+    method: 'POST',
+    body: JSON.stringify({ email, role, fullName, teamId }),
+  })
+}
@@ -0,0 +1,121 @@
+import { supabase } from '@/lib/supabase/client'
+import type { RequestAttachment } from '@/lib/supabase/types'
+
+export const ATTACHMENTS_BUCKET = 'request-attachments'
+
+// Keep in sync with the bucket limits in the request attachments storage migration.
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+]
+
+export function validateAttachment(file: File): string | null {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: file type not allowed`
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: file is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+  }
+  return null
+}
+
+export function formatFileSize(bytes: number | null) {
+  if (bytes === null) return 'Unknown size'
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function isImageAttachment(attachment: Pick<RequestAttachment, 'mime_type'>) {
+  return !!attachment.mime_type?.startsWith('image/')
+}
+
+export function isPdfAttachment(attachment: Pick<RequestAttachment, 'mime_type'>) {
+  return attachment.mime_type === 'application/pdf'
+}
+
+export async function uploadAttachment(requestId: string, userId: string, file: File) {
+  const safeName = file.name.replace(/[^\w.\-]+/g, '_')
+  const path = `${requestId}/${crypto.randomUUID()}-${safeName}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false })
+
+  if (uploadError) throw uploadError
+
+  const { data, error } = await supabase
+    .from('request_attachments')
+    .insert({
+      request_id: requestId,
+      file_url: path,
+      filename: file.name,
+      file_size: file.size,
+      mime_type: file.type || null,
+      uploaded_by: userId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path])
+    throw error
+  }
+
+  return data as RequestAttachment
+}
+
+export async function deleteAttachment(attachment: RequestAttachment) {
+  const { error } = await supabase
+    .from('request_attachments')
+    .delete()
+    .eq('id', attachment.id)
+
+  if (error) throw error
+
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove([attachment.file_url])
+
+  if (storageError) {
+    console.error('Error removing attachment file:', storageError)
+  }
+}
+
+export async function getAttachmentUrls(attachments: RequestAttachment[], expiresIn = 3600) {
+  const urls = new Map<string, string>()
+  if (attachments.length === 0) return urls
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(attachments.map((a) => a.file_url), expiresIn)
+
+  if (error) throw error
+
+  data?.forEach((item) => {
+    if (item.path && item.signedUrl) {
+      urls.set(item.path, item.signedUrl)
+    }
+  })
+  return urls
+}
+
+export async function getAttachmentDownloadUrl(attachment: RequestAttachment) {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.file_url, 60, { download: attachment.filename })
+
+  if (error) throw error
+  return data.signedUrl
+}
@@ -0,0 +1,46 @@
+import { supabase } from '@/lib/supabase/client'
+import type { Request, RequestPriority, RequestStatus } from '@/lib/supabase/types'
+
+export type BoardSwimlane = 'none' | 'assignee' | 'priority'
+
+export const boardSwimlaneLabels: Record<BoardSwimlane, string> = {
+  none: 'No swimlanes',
+  assignee: 'By assignee',
+  priority: 'By priority',
+}
+
+// Column order, left to right
+export const boardStatuses: RequestStatus[] = ['new', 'in_progress', 'under_review', 'completed', 'rejected']
+
+// Most urgent first, the order of priority swimlanes
+export const boardPriorities: RequestPriority[] = ['urgent', 'high', 'normal']
+
+export type WipState = 'none' | 'ok' | 'at_limit' | 'over'
+
+export function getWipState(count: number, limit: number | undefined): WipState {
+  if (!limit) return 'none'
+  if (count > limit) return 'over'
+  return count === limit ? 'at_limit' : 'ok'
+}
+
+// Cards within a column: most urgent first, then the earliest due, then the oldest
+export function sortBoardRequests(requests: Request[]) {
+  const rank = (request: Request) => boardPriorities.indexOf(request.priority)
+  const due = (request: Request) => (request.due_date ? new Date(request.due_date).getTime() : Infinity)
+
+  return [...requests].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      due(a) - due(b) ||
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  )
+}
+
+// Passing null removes the limit for that column
+export async function saveWipLimit(teamId: string, status: RequestStatus, wipLimit: number | null) {
+  const { error } = wipLimit
+    ? await supabase.from('board_wip_limits').upsert({ team_id: teamId, status, wip_limit: wipLimit })
+    : await supabase.from('board_wip_limits').delete().eq('team_id', teamId).eq('status', status)
+
+  if (error) throw error
+}
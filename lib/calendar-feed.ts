@@ -0,0 +1,97 @@
+import { getRequestUrl } from '@/lib/notifications/templates'
+import { statusLabels } from '@/lib/request-status'
+import type { CalendarFeedRequest } from '@/lib/supabase/types'
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The calendar day (YYYYMMDD) an instant falls on in a time zone
+function toIcsDate(date: Date, timeZone: string) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(date)
+    .replace(/-/g, '')
+}
+
+function nextIcsDate(icsDate: string) {
+  const next = new Date(Date.UTC(Number(icsDate.slice(0, 4)), Number(icsDate.slice(4, 6)) - 1, Number(icsDate.slice(6, 8)) + 1))
+  return next.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+function toIcsTimestamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+// RFC 5545 lines are at most 75 octets; longer ones continue after CRLF + space
+function foldLine(line: string) {
+  const chunks: string[] = []
+  let current = ''
+  let size = 0
+
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char)
+    if (size + charSize > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+
+  chunks.push(current)
+  return chunks.join('\r\n ')
+}
+
+/**
+ * Renders requests as all-day events on their due date. Due dates are
+ * instants, so the day is worked out in the subscriber's time zone (passed
+ * as `?tz=` on the feed URL) rather than the server's.
+ */
+export function renderCalendarFeed(requests: CalendarFeedRequest[], timeZone: string) {
+  const stamp = toIcsTimestamp(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ReQue//Due dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:ReQue deadlines',
+    `X-WR-TIMEZONE:${timeZone}`,
+  ]
+
+  requests.forEach((request) => {
+    if (!request.due_date) return
+
+    const day = toIcsDate(new Date(request.due_date), timeZone)
+    const url = getRequestUrl(request.id)
+    const closed = request.status === 'completed' || request.status === 'rejected'
+    const priority = request.priority.charAt(0).toUpperCase() + request.priority.slice(1)
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${request.id}@reque`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${toIcsTimestamp(new Date(request.updated_at))}`,
+      `DTSTART;VALUE=DATE:${day}`,
+      `DTEND;VALUE=DATE:${nextIcsDate(day)}`,
+      `SUMMARY:${escapeText(`${closed ? '✓ ' : ''}[${priority}] ${request.title}`)}`,
+      `DESCRIPTION:${escapeText(`Status: ${statusLabels[request.status]}\n${url}`)}`,
+      `URL:${url}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    )
+  })
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,88 @@
+import {
+  addDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  setHours,
+  setMinutes,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import type { Request } from '@/lib/supabase/types'
+
+export type CalendarView = 'month' | 'week'
+
+const weekOptions = { weekStartsOn: 1 as const }
+
+// Every day shown for a view: whole weeks, Monday first
+export function getCalendarDays(view: CalendarView, date: Date) {
+  const start = view === 'month' ? startOfWeek(startOfMonth(date), weekOptions) : startOfWeek(date, weekOptions)
+  const end = view === 'month' ? endOfWeek(endOfMonth(date), weekOptions) : endOfWeek(date, weekOptions)
+
+  const days: Date[] = []
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+// Local day key, used to bucket requests by the day they are due
+export function toDayKey(date: Date) {
+  return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Moves a request's due date to another day, keeping its time of day. Goes
+ * through update_request_details like the edit form, so its title,
+ * description and due date must not have changed since it was loaded.
+ */
+export async function rescheduleRequest(request: Request, day: Date) {
+  const current = request.due_date ? new Date(request.due_date) : day
+  const dueDate = setMinutes(setHours(day, current.getHours()), current.getMinutes())
+
+  const { data, error } = await supabase.rpc('update_request_details', {
+    p_request_id: request.id,
+    p_title: request.title,
+    p_description: request.description,
+    p_due_date: dueDate.toISOString(),
+    p_expected_version: request.details_version,
+  })
+
+  if (error) {
+    if (error.code === '40001') throw new Error('This request was just changed by someone else. Try again.')
+    throw error
+  }
+
+  return data as Request
+}
+
+export async function getCalendarFeedToken(userId: string) {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data as { token: string } | null)?.token || null
+}
+
+export async function resetCalendarFeedToken() {
+  const { data, error } = await supabase.rpc('reset_calendar_feed_token')
+
+  if (error) throw error
+  return data as string
+}
+
+export async function revokeCalendarFeedToken(userId: string) {
+  const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', userId)
+
+  if (error) throw error
+}
+
+// Feed URL for the browser's time zone, so all-day events land on the right day
+export function getCalendarFeedUrl(token: string) {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  return `${window.location.origin}/api/calendar/${token}.ics?tz=${encodeURIComponent(timeZone)}`
+}
@@ -0,0 +1,88 @@
+import { supabase } from '@/lib/supabase/client'
+import type { CommentVisibility, RequestComment, RequestCommentReaction, RequestCommentRevision } from '@/lib/supabase/types'
+
+// Must match the CHECK constraint on request_comment_reactions.emoji
+export const reactionEmojis = ['👍', '👎', '🎉', '❤️', '👀', '🚀'] as const
+
+// Replies always take the visibility of their parent, whatever is passed here
+export async function addComment(
+  requestId: string,
+  userId: string,
+  text: string,
+  parentId?: string | null,
+  visibility: CommentVisibility = 'public'
+) {
+  const { error } = await supabase.from('request_comments').insert({
+    request_id: requestId,
+    user_id: userId,
+    comment_text: text,
+    parent_id: parentId || null,
+    visibility,
+  })
+
+  if (error) throw new Error(error.message)
+}
+
+// The previous text is kept in request_comment_revisions by a trigger
+export async function editComment(commentId: string, text: string) {
+  const { error } = await supabase
+    .from('request_comments')
+    .update({ comment_text: text })
+    .eq('id', commentId)
+
+  if (error) throw new Error(error.message)
+}
+
+// Soft delete: the comment stays in the thread as "deleted"
+export async function deleteComment(commentId: string) {
+  const { error } = await supabase
+    .from('request_comments')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', commentId)
+
+  if (error) throw new Error(error.message)
+}
+
+export async function getCommentRevisions(commentId: string) {
+  const { data, error } = await supabase
+    .from('request_comment_revisions')
+    .select('*')
+    .eq('comment_id', commentId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(error.message)
+  return (data || []) as RequestCommentRevision[]
+}
+
+export async function toggleReaction(
+  comment: Pick<RequestComment, 'id' | 'request_id'>,
+  userId: string,
+  emoji: string,
+  reacted: boolean
+) {
+  const { error } = reacted
+    ? await supabase
+        .from('request_comment_reactions')
+        .delete()
+        .eq('comment_id', comment.id)
+        .eq('user_id', userId)
+        .eq('emoji', emoji)
+    : await supabase.from('request_comment_reactions').insert({
+        comment_id: comment.id,
+        request_id: comment.request_id,
+        user_id: userId,
+        emoji,
+      })
+
+  if (error) throw new Error(error.message)
+}
+
+export function groupReactions(reactions: RequestCommentReaction[]) {
+  const byComment = new Map<string, Map<string, string[]>>()
+  reactions.forEach((reaction) => {
+    const byEmoji = byComment.get(reaction.comment_id) || new Map<string, string[]>()
+    byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) || []), reaction.user_id])
+    byComment.set(reaction.comment_id, byEmoji)
+  })
+  return byComment
+}
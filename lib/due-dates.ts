@@ -0,0 +1,40 @@
+import { supabase } from '@/lib/supabase/client'
+import type { DueDateSettings, EscalationCondition, PriorityEscalationRule } from '@/lib/supabase/types'
+
+// Mirrors the column defaults of due_date_settings, used until a team saves its own
+export const defaultDueDateSettings: Omit<DueDateSettings, 'team_id' | 'updated_at'> = {
+  reminders_enabled: true,
+  reminder_days: 1,
+}
+
+export const escalationConditionLabels: Record<EscalationCondition, string> = {
+  due_within: 'Due within',
+  overdue_for: 'Overdue for',
+}
+
+export function describeEscalationRule(rule: Pick<PriorityEscalationRule, 'condition' | 'hours'>) {
+  if (rule.condition === 'overdue_for' && rule.hours === 0) return 'As soon as it is overdue'
+  const hours = `${rule.hours} hour${rule.hours === 1 ? '' : 's'}`
+  return rule.condition === 'due_within' ? `When due within ${hours}` : `When overdue for ${hours}`
+}
+
+export async function saveDueDateSettings(teamId: string, settings: Omit<DueDateSettings, 'team_id' | 'updated_at'>) {
+  const { error } = await supabase.from('due_date_settings').upsert({ team_id: teamId, ...settings })
+
+  if (error) throw error
+}
+
+export async function addEscalationRule(rule: Omit<PriorityEscalationRule, 'id' | 'created_at'>) {
+  const { error } = await supabase.from('priority_escalation_rules').insert(rule)
+
+  if (error) {
+    if (error.code === '23505') throw new Error('An identical rule already exists')
+    throw error
+  }
+}
+
+export async function removeEscalationRule(ruleId: string) {
+  const { error } = await supabase.from('priority_escalation_rules').delete().eq('id', ruleId)
+
+  if (error) throw error
+}
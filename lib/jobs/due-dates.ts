@@ -0,0 +1,33 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/lib/supabase/types'
+
+type ServiceClient = SupabaseClient<Database>
+
+export interface DueDateJobResult {
+  reminded: number
+  overdue: number
+  escalated: number
+}
+
+async function callJobFunction(
+  client: ServiceClient,
+  fn: 'send_due_date_reminders' | 'mark_overdue_requests' | 'escalate_request_priorities'
+) {
+  const { data, error } = await client.rpc(fn)
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
+
+/**
+ * Sends due-soon reminders, marks requests overdue and applies the teams'
+ * priority escalation rules. Each step is logged to request_activity by the
+ * database as the system (user_id NULL) and only happens once per request
+ * and due date, so the job can run as often as you like.
+ */
+export async function runDueDateJobs(client: ServiceClient): Promise<DueDateJobResult> {
+  const reminded = await callJobFunction(client, 'send_due_date_reminders')
+  const overdue = await callJobFunction(client, 'mark_overdue_requests')
+  const escalated = await callJobFunction(client, 'escalate_request_priorities')
+
+  return { reminded, overdue, escalated }
+}
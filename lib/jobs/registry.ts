@@ -0,0 +1,61 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { dispatchEmailNotifications, queueEmailDeliveries, sendDailyDigests } from '@/lib/notifications/dispatcher'
+import { getEmailTransport } from '@/lib/notifications/transport'
+import type { Database } from '@/lib/supabase/types'
+import { runDueDateJobs } from './due-dates'
+
+type ServiceClient = SupabaseClient<Database>
+
+export type JobResult = Record<string, number>
+
+export interface Job {
+  name: string
+  description: string
+  // Cron expression the job is meant to run on, see vercel.json
+  schedule: string
+  run: (client: ServiceClient) => Promise<JobResult>
+}
+
+/**
+ * Every scheduled job, runnable through `/api/jobs/<name>` or locally with
+ * `npm run jobs -- <name>`. Jobs must be idempotent: running one twice, or
+ * late after a missed run, never repeats its effects.
+ */
+export const jobs: Job[] = [
+  {
+    name: 'due-dates',
+    description: 'Send due-date reminders, mark requests overdue and escalate priorities',
+    schedule: '*/15 * * * *',
+    run: async (client) => ({ ...(await runDueDateJobs(client)) }),
+  },
+  {
+    name: 'sla-breaches',
+    description: 'Log SLA clocks that have run out',
+    schedule: '*/5 * * * *',
+    run: async (client) => {
+      const { data, error } = await client.rpc('record_sla_breaches')
+      if (error) throw error
+      return { recorded: data ?? 0 }
+    },
+  },
+  {
+    name: 'email-dispatch',
+    description: 'Queue and send instant email notifications',
+    schedule: '*/5 * * * *',
+    run: async (client) => ({ ...(await dispatchEmailNotifications(client, getEmailTransport())) }),
+  },
+  {
+    name: 'email-digest',
+    description: 'Send daily email digests',
+    schedule: '0 8 * * *',
+    run: async (client) => {
+      const queued = await queueEmailDeliveries(client)
+      const { sent, failed } = await sendDailyDigests(client, getEmailTransport())
+      return { queued, sent, failed }
+    },
+  },
+]
+
+export function getJob(name: string) {
+  return jobs.find((job) => job.name === name) || null
+}
@@ -0,0 +1,24 @@
+import type { Profile } from '@/lib/supabase/types'
+
+// Mentions are stored inline as `@[Full Name](user:<profile id>)`. The same
+// pattern is parsed by `extract_mentions()` in the database, which notifies
+// and subscribes the people mentioned.
+const MENTION_PATTERN =
+  /@\[([^\]\n]+)\]\(user:([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)/g
+
+export const MENTION_HREF_PREFIX = '#mention-'
+
+export function formatMention(profile: Pick<Profile, 'id' | 'full_name' | 'email'>) {
+  const name = (profile.full_name || profile.email).replace(/[\[\]\n]/g, '')
+  return `@[${name}](user:${profile.id})`
+}
+
+// Rewrites mentions as ordinary Markdown links so the renderer can style them
+export function mentionsToMarkdown(text: string) {
+  return text.replace(MENTION_PATTERN, (_, name: string, id: string) => `[@${name}](${MENTION_HREF_PREFIX}${id})`)
+}
+
+// For plain-text surfaces such as emails and search snippets
+export function mentionsToPlainText(text: string) {
+  return text.replace(MENTION_PATTERN, (_, name: string) => `@${name}`)
+}
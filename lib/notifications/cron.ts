@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * Job endpoints are called by a scheduler (e.g. Vercel Cron) with
+ * `Authorization: Bearer $CRON_SECRET`. Returns an error response when the
+ * request is not authorized, or null when it may proceed.
+ */
+export function verifyCronRequest(request: Request) {
+  const secret = process.env.CRON_SECRET
+
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 500 })
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  return null
+}
@@ -0,0 +1,444 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { mentionsToPlainText } from '@/lib/mentions'
+import type {
+  Database,
+  EmailDelivery,
+  EmailDeliveryRecord,
+  EmailDeliveryStatus,
+  EmailEventType,
+  NotificationPreference,
+  Profile,
+  Request,
+  RequestActivity,
+  TeamMembership,
+  UserRole,
+} from '@/lib/supabase/types'
+import { activityEventTypes, defaultEmailPreference, type EmailPreference } from './events'
+import { renderDigestEmail, renderEventEmail, type EmailEvent } from './templates'
+import type { EmailTransport } from './transport'
+
+type ServiceClient = SupabaseClient<Database>
+
+type RequestSummary = Pick<Request, 'id' | 'team_id' | 'title' | 'created_by' | 'assigned_to' | 'due_date'>
+type Recipient = Pick<Profile, 'id' | 'full_name' | 'email'>
+
+export interface DispatchResult {
+  queued: number
+  sent: number
+  failed: number
+}
+
+const BATCH_SIZE = 200
+const MAX_ATTEMPTS = 3
+
+// created_at is the transaction's start time, so a long transaction can commit
+// rows older than ones already read. Only activity at least this old is read,
+// which keeps the cursor from moving past rows that are still uncommitted.
+const ACTIVITY_SETTLE_MS = 2 * 60 * 1000
+
+function unique(ids: (string | null | undefined)[]) {
+  return Array.from(new Set(ids.filter((id): id is string => !!id)))
+}
+
+async function loadRequests(client: ServiceClient, requestIds: string[]) {
+  if (requestIds.length === 0) return new Map<string, RequestSummary>()
+
+  const { data, error } = await client
+    .from('requests')
+    .select('id, team_id, title, created_by, assigned_to, due_date')
+    .in('id', requestIds)
+
+  if (error) throw error
+  return new Map(((data || []) as RequestSummary[]).map((request) => [request.id, request]))
+}
+
+async function loadProfiles(client: ServiceClient, userIds: string[]) {
+  if (userIds.length === 0) return new Map<string, Recipient>()
+
+  const { data, error } = await client.from('profiles').select('id, full_name, email').in('id', userIds)
+
+  if (error) throw error
+  return new Map(((data || []) as Recipient[]).map((profile) => [profile.id, profile]))
+}
+
+/**
+ * Returns each user's role in each of these teams, mirroring team_role_of():
+ * active platform admins count as admins everywhere, and non-members get null.
+ */
+async function loadTeamRoles(client: ServiceClient, teamIds: string[]) {
+  if (teamIds.length === 0) return () => null
+
+  const [
+    { data: membershipData, error: membershipError },
+    { data: adminData, error: adminError },
+    { data: deactivatedData, error: deactivatedError },
+  ] = await Promise.all([
+    client.from('team_memberships').select('team_id, user_id, role').in('team_id', teamIds),
+    client.from('profiles').select('id').eq('role', 'admin').is('deactivated_at', null),
+    client.from('profiles').select('id').not('deactivated_at', 'is', null),
+  ])
+
+  if (membershipError) throw membershipError
+  if (adminError) throw adminError
+  if (deactivatedError) throw deactivatedError
+
+  const roles = new Map(
+    ((membershipData || []) as Pick<TeamMembership, 'team_id' | 'user_id' | 'role'>[]).map((m) => [
+      `${m.team_id}:${m.user_id}`,
+      m.role,
+    ])
+  )
+  const platformAdmins = new Set(((adminData || []) as Pick<Profile, 'id'>[]).map((profile) => profile.id))
+  const deactivated = new Set(((deactivatedData || []) as Pick<Profile, 'id'>[]).map((profile) => profile.id))
+
+  // Same as team_role_of(): deactivated accounts have no role in any team
+  return (teamId: string, userId: string): UserRole | null => {
+    if (deactivated.has(userId)) return null
+    return platformAdmins.has(userId) ? 'admin' : roles.get(`${teamId}:${userId}`) || null
+  }
+}
+
+function isStaffRole(role: UserRole | null) {
+  return role === 'admin' || role === 'team_member'
+}
+
+/**
+ * Same rule as can_user_view_request(): staff see every request in their
+ * team, other members only the ones they created.
+ */
+function canView(request: RequestSummary, userId: string, role: UserRole | null) {
+  return isStaffRole(role) || (role !== null && request.created_by === userId)
+}
+
+// Internal notes are for staff only
+function canReceive(activity: RequestActivity, request: RequestSummary, userId: string, role: UserRole | null) {
+  if (activity.activity_type === 'note_added') return isStaffRole(role)
+  return canView(request, userId, role)
+}
+
+/**
+ * Works out who should hear about an activity. Assignments only go to the
+ * new assignee, reminders to whoever owns the request, everything else to
+ * the creator, assignee and watchers. The actor is never emailed, and the
+ * caller drops anyone who can no longer see the request.
+ */
+function resolveRecipients(activity: RequestActivity, request: RequestSummary, watchers: string[]) {
+  let recipients: (string | null)[]
+
+  switch (activityEventTypes[activity.activity_type]) {
+    case 'assigned':
+      recipients = [activity.new_value]
+      break
+    case 'due_reminder':
+      recipients = [request.assigned_to || request.created_by]
+      break
+    default:
+      recipients = [request.created_by, request.assigned_to, ...watchers]
+  }
+
+  return unique(recipients).filter((id) => id !== activity.user_id)
+}
+
+/**
+ * Turns new request_activity rows into email_deliveries, one per recipient,
+ * using each recipient's preference for that event type. Re-running over the
+ * same activity is harmless thanks to the (user_id, activity_id) constraint.
+ */
+export async function queueEmailDeliveries(client: ServiceClient): Promise<number> {
+  const { data: state, error: stateError } = await client
+    .from('email_dispatch_state')
+    .select('last_activity_at, last_activity_id')
+    .eq('id', 1)
+    .maybeSingle()
+
+  if (stateError) throw stateError
+
+  const cursor = state as { last_activity_at: string; last_activity_id: string | null } | null
+  const since = cursor?.last_activity_at || new Date().toISOString()
+
+  // Rows written in one transaction share a created_at, and a bulk action or
+  // import can write more than a batch of them, so page on (created_at, id)
+  let activityQuery = client
+    .from('request_activity')
+    .select('*')
+    .in('activity_type', Object.keys(activityEventTypes))
+    .lt('created_at', new Date(Date.now() - ACTIVITY_SETTLE_MS).toISOString())
+
+  activityQuery = cursor?.last_activity_id
+    ? activityQuery.or(
+        `created_at.gt."${since}",and(created_at.eq."${since}",id.gt.${cursor.last_activity_id})`
+      )
+    : activityQuery.gte('created_at', since)
+
+  const { data: activityData, error: activityError } = await activityQuery
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(BATCH_SIZE)
+
+  if (activityError) throw activityError
+
+  const activity = (activityData || []) as RequestActivity[]
+  if (activity.length === 0) return 0
+
+  const requestIds = unique(activity.map((item) => item.request_id))
+  const requests = await loadRequests(client, requestIds)
+
+  const { data: watcherData, error: watcherError } = await client
+    .from('request_watchers')
+    .select('request_id, user_id')
+    .in('request_id', requestIds)
+
+  if (watcherError) throw watcherError
+
+  const watchersByRequest = new Map<string, string[]>()
+  ;((watcherData || []) as { request_id: string; user_id: string }[]).forEach((watcher) => {
+    watchersByRequest.set(watcher.request_id, [...(watchersByRequest.get(watcher.request_id) || []), watcher.user_id])
+  })
+
+  const teamRoleOf = await loadTeamRoles(client, unique(Array.from(requests.values()).map((request) => request.team_id)))
+
+  const pairs: { activity: RequestActivity; eventType: EmailEventType; userId: string }[] = []
+  activity.forEach((item) => {
+    const request = requests.get(item.request_id)
+    if (!request) return
+    // Activity is only written by triggers, but never email about an action
+    // its actor could not have taken
+    if (item.user_id && !canView(request, item.user_id, teamRoleOf(request.team_id, item.user_id))) return
+    resolveRecipients(item, request, watchersByRequest.get(item.request_id) || [])
+      .filter((userId) => canReceive(item, request, userId, teamRoleOf(request.team_id, userId)))
+      .forEach((userId) => {
+        pairs.push({ activity: item, eventType: activityEventTypes[item.activity_type], userId })
+      })
+  })
+
+  const preferences = new Map<string, EmailPreference>()
+  const recipientIds = unique(pairs.map((pair) => pair.userId))
+  if (recipientIds.length > 0) {
+    const { data: preferenceData, error: preferenceError } = await client
+      .from('notification_preferences')
+      .select('*')
+      .in('user_id', recipientIds)
+
+    if (preferenceError) throw preferenceError
+
+    ;((preferenceData || []) as NotificationPreference[]).forEach((preference) => {
+      preferences.set(`${preference.user_id}:${preference.event_type}`, preference)
+    })
+  }
+
+  const rows = pairs.map(({ activity: item, eventType, userId }) => {
+    const preference = preferences.get(`${userId}:${eventType}`) || defaultEmailPreference
+    return {
+      user_id: userId,
+      activity_id: item.id,
+      event_type: eventType,
+      delivery: preference.delivery,
+      status: (preference.email_enabled ? 'pending' : 'skipped') as EmailDeliveryStatus,
+    }
+  })
+
+  let queued = 0
+  if (rows.length > 0) {
+    const { data: inserted, error: insertError } = await client
+      .from('email_deliveries')
+      .upsert(rows, { onConflict: 'user_id,activity_id', ignoreDuplicates: true })
+      .select('id')
+
+    if (insertError) throw insertError
+    queued = (inserted || []).length
+  }
+
+  const last = activity[activity.length - 1]
+  const { error: cursorError } = await client
+    .from('email_dispatch_state')
+    .upsert({ id: 1, last_activity_at: last.created_at, last_activity_id: last.id })
+
+  if (cursorError) throw cursorError
+
+  return queued
+}
+
+async function loadPendingDeliveries(client: ServiceClient, delivery: EmailDelivery) {
+  const { data, error } = await client
+    .from('email_deliveries')
+    .select('*')
+    .eq('delivery', delivery)
+    .in('status', ['pending', 'failed'])
+    .lt('attempts', MAX_ATTEMPTS)
+    .order('created_at', { ascending: true })
+    .limit(BATCH_SIZE)
+
+  if (error) throw error
+  return (data || []) as EmailDeliveryRecord[]
+}
+
+/**
+ * Loads the event behind each delivery, keyed by delivery id. Deliveries whose
+ * recipient can no longer see the request (e.g. daily ones queued before they
+ * left the team) are left out, so the caller skips them.
+ */
+async function loadEmailEvents(client: ServiceClient, deliveries: EmailDeliveryRecord[]) {
+  const { data: activityData, error: activityError } = await client
+    .from('request_activity')
+    .select('*')
+    .in('id', unique(deliveries.map((delivery) => delivery.activity_id)))
+
+  if (activityError) throw activityError
+
+  const activity = (activityData || []) as RequestActivity[]
+  const requests = await loadRequests(client, unique(activity.map((item) => item.request_id)))
+  const actors = await loadProfiles(client, unique(activity.map((item) => item.user_id)))
+
+  const commentIds = unique(
+    activity
+      .filter((item) => item.activity_type === 'comment_added' || item.activity_type === 'note_added')
+      .map((item) => item.new_value)
+  )
+  const comments = new Map<string, string>()
+  if (commentIds.length > 0) {
+    const { data: commentData, error: commentError } = await client
+      .from('request_comments')
+      .select('id, comment_text')
+      .in('id', commentIds)
+
+    if (commentError) throw commentError
+    ;((commentData || []) as { id: string; comment_text: string }[]).forEach((comment) => {
+      comments.set(comment.id, mentionsToPlainText(comment.comment_text))
+    })
+  }
+
+  const teamRoleOf = await loadTeamRoles(client, unique(Array.from(requests.values()).map((request) => request.team_id)))
+
+  const eventsByActivity = new Map<string, EmailEvent>()
+  activity.forEach((item) => {
+    const request = requests.get(item.request_id)
+    if (!request) return
+    eventsByActivity.set(item.id, {
+      eventType: activityEventTypes[item.activity_type],
+      requestId: request.id,
+      requestTitle: request.title,
+      actorName: (item.user_id && actors.get(item.user_id)?.full_name) || 'Someone',
+      oldValue: item.old_value,
+      newValue: item.new_value,
+      note: item.note,
+      commentText: item.new_value ? comments.get(item.new_value) || null : null,
+      internal: item.activity_type === 'note_added',
+      dueDate: request.due_date,
+      createdAt: item.created_at,
+    })
+  })
+
+  const activityById = new Map(activity.map((item) => [item.id, item]))
+  const events = new Map<string, EmailEvent>()
+  deliveries.forEach((delivery) => {
+    const item = activityById.get(delivery.activity_id)
+    const request = item && requests.get(item.request_id)
+    const event = eventsByActivity.get(delivery.activity_id)
+    if (!item || !request || !event) return
+    if (!canReceive(item, request, delivery.user_id, teamRoleOf(request.team_id, delivery.user_id))) return
+    events.set(delivery.id, event)
+  })
+
+  return events
+}
+
+async function markDeliveries(
+  client: ServiceClient,
+  deliveries: EmailDeliveryRecord[],
+  outcome: { status: 'sent' | 'failed' | 'skipped'; error?: string }
+) {
+  await Promise.all(
+    deliveries.map((delivery) =>
+      client.from('email_deliveries')
+        .update({
+          status: outcome.status,
+          attempts: delivery.attempts + 1,
+          last_error: outcome.error || null,
+          sent_at: outcome.status === 'sent' ? new Date().toISOString() : null,
+        })
+        .eq('id', delivery.id)
+    )
+  )
+}
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/** Sends every pending instant delivery as its own email. */
+export async function sendInstantEmails(client: ServiceClient, transport: EmailTransport) {
+  const deliveries = await loadPendingDeliveries(client, 'instant')
+  const result = { sent: 0, failed: 0 }
+  if (deliveries.length === 0) return result
+
+  const events = await loadEmailEvents(client, deliveries)
+  const recipients = await loadProfiles(client, unique(deliveries.map((delivery) => delivery.user_id)))
+
+  for (const delivery of deliveries) {
+    const event = events.get(delivery.id)
+    const recipient = recipients.get(delivery.user_id)
+
+    if (!event || !recipient?.email) {
+      await markDeliveries(client, [delivery], { status: 'skipped' })
+      continue
+    }
+
+    try {
+      await transport.send({ to: recipient.email, ...renderEventEmail(event, recipient.full_name || 'there') })
+      await markDeliveries(client, [delivery], { status: 'sent' })
+      result.sent++
+    } catch (error) {
+      console.error('Error sending notification email:', error)
+      await markDeliveries(client, [delivery], { status: 'failed', error: describeError(error) })
+      result.failed++
+    }
+  }
+
+  return result
+}
+
+/** Rolls each user's pending daily deliveries into a single digest email. */
+export async function sendDailyDigests(client: ServiceClient, transport: EmailTransport) {
+  const deliveries = await loadPendingDeliveries(client, 'daily')
+  const result = { sent: 0, failed: 0 }
+  if (deliveries.length === 0) return result
+
+  const events = await loadEmailEvents(client, deliveries)
+  const recipients = await loadProfiles(client, unique(deliveries.map((delivery) => delivery.user_id)))
+
+  const byUser = new Map<string, EmailDeliveryRecord[]>()
+  deliveries.forEach((delivery) => {
+    byUser.set(delivery.user_id, [...(byUser.get(delivery.user_id) || []), delivery])
+  })
+
+  for (const [userId, userDeliveries] of byUser) {
+    const recipient = recipients.get(userId)
+    const userEvents = userDeliveries
+      .map((delivery) => events.get(delivery.id))
+      .filter((event): event is EmailEvent => !!event)
+
+    if (!recipient?.email || userEvents.length === 0) {
+      await markDeliveries(client, userDeliveries, { status: 'skipped' })
+      continue
+    }
+
+    try {
+      await transport.send({ to: recipient.email, ...renderDigestEmail(userEvents, recipient.full_name || 'there') })
+      await markDeliveries(client, userDeliveries, { status: 'sent' })
+      result.sent++
+    } catch (error) {
+      console.error('Error sending digest email:', error)
+      await markDeliveries(client, userDeliveries, { status: 'failed', error: describeError(error) })
+      result.failed++
+    }
+  }
+
+  return result
+}
+
+/** One dispatcher tick: queue new activity, then send instant emails. */
+export async function dispatchEmailNotifications(client: ServiceClient, transport: EmailTransport): Promise<DispatchResult> {
+  const queued = await queueEmailDeliveries(client)
+  const { sent, failed } = await sendInstantEmails(client, transport)
+  return { queued, sent, failed }
+}
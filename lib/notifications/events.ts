@@ -0,0 +1,41 @@
+import type { EmailDelivery, EmailEventType } from '@/lib/supabase/types'
+
+export const emailEventTypes: EmailEventType[] = ['assigned', 'status_changed', 'comment_added', 'due_reminder']
+
+export const emailEventLabels: Record<EmailEventType, { title: string; description: string }> = {
+  assigned: {
+    title: 'Assignments',
+    description: 'A request is assigned to you',
+  },
+  status_changed: {
+    title: 'Status changes',
+    description: 'A request you created, are assigned to or watch changes status',
+  },
+  comment_added: {
+    title: 'New comments',
+    description: 'Someone comments on a request you watch',
+  },
+  due_reminder: {
+    title: 'Due-date reminders',
+    description: 'A request assigned to you is due soon or overdue',
+  },
+}
+
+// request_activity.activity_type values that produce emails
+export const activityEventTypes: Record<string, EmailEventType> = {
+  assignment_changed: 'assigned',
+  status_changed: 'status_changed',
+  comment_added: 'comment_added',
+  note_added: 'comment_added',
+  due_date_reminder: 'due_reminder',
+}
+
+export interface EmailPreference {
+  email_enabled: boolean
+  delivery: EmailDelivery
+}
+
+export const defaultEmailPreference: EmailPreference = {
+  email_enabled: true,
+  delivery: 'instant',
+}
@@ -0,0 +1,153 @@
+import { format } from 'date-fns'
+import { statusLabels } from '@/lib/request-status'
+import type { EmailEventType, RequestStatus } from '@/lib/supabase/types'
+import type { EmailMessage } from './transport'
+
+export interface EmailEvent {
+  eventType: EmailEventType
+  requestId: string
+  requestTitle: string
+  actorName: string
+  oldValue: string | null
+  newValue: string | null
+  note: string | null
+  commentText: string | null
+  internal: boolean
+  dueDate: string | null
+  createdAt: string
+}
+
+type RenderedEmail = Omit<EmailMessage, 'to'>
+
+function getAppUrl() {
+  return (process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
+
+export function getRequestUrl(requestId: string) {
+  return `${getAppUrl()}/reque/request/${requestId}`
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatStatus(value: string | null) {
+  return value ? statusLabels[value as RequestStatus] || value : 'unknown'
+}
+
+function summarize(event: EmailEvent) {
+  switch (event.eventType) {
+    case 'assigned':
+      return {
+        subject: `Assigned to you: ${event.requestTitle}`,
+        headline: `${event.actorName} assigned "${event.requestTitle}" to you.`,
+        detail: null,
+      }
+    case 'status_changed':
+      return {
+        subject: `${formatStatus(event.newValue)}: ${event.requestTitle}`,
+        headline: `${event.actorName} moved "${event.requestTitle}" from ${formatStatus(event.oldValue)} to ${formatStatus(event.newValue)}.`,
+        detail: event.note ? `Reason: ${event.note}` : null,
+      }
+    case 'comment_added':
+      return event.internal
+        ? {
+            subject: `Internal note on ${event.requestTitle}`,
+            headline: `${event.actorName} left an internal note on "${event.requestTitle}".`,
+            detail: event.commentText,
+          }
+        : {
+            subject: `New comment on ${event.requestTitle}`,
+            headline: `${event.actorName} commented on "${event.requestTitle}".`,
+            detail: event.commentText,
+          }
+    case 'due_reminder': {
+      const due = event.dueDate ? format(new Date(event.dueDate), 'PPP') : 'soon'
+      const overdue = event.newValue === 'overdue'
+      return {
+        subject: `${overdue ? 'Overdue' : 'Due soon'}: ${event.requestTitle}`,
+        headline: overdue
+          ? `"${event.requestTitle}" was due on ${due} and is still open.`
+          : `"${event.requestTitle}" is due on ${due}.`,
+        detail: null,
+      }
+    }
+  }
+}
+
+function layout(greeting: string, bodyHtml: string) {
+  return `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #0f172a; line-height: 1.5;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px;">
+      <p>${escapeHtml(greeting)}</p>
+      ${bodyHtml}
+      <p style="margin-top: 32px; font-size: 12px; color: #64748b;">
+        You are receiving this because of your ReQue notification settings.
+        <a href="${getAppUrl()}/settings/notifications" style="color: #64748b;">Manage email preferences</a>
+      </p>
+    </div>
+  </body>
+</html>`
+}
+
+export function renderEventEmail(event: EmailEvent, recipientName: string): RenderedEmail {
+  const { subject, headline, detail } = summarize(event)
+  const url = getRequestUrl(event.requestId)
+
+  const text = [
+    `Hi ${recipientName},`,
+    '',
+    headline,
+    detail ? `\n${detail}` : null,
+    '',
+    `View the request: ${url}`,
+  ]
+    .filter((line) => line !== null)
+    .join('\n')
+
+  const html = layout(
+    `Hi ${recipientName},`,
+    `<p>${escapeHtml(headline)}</p>
+      ${detail ? `<blockquote style="margin: 0; padding: 8px 12px; border-left: 3px solid #e2e8f0; color: #334155; white-space: pre-wrap;">${escapeHtml(detail)}</blockquote>` : ''}
+      <p><a href="${url}" style="display: inline-block; padding: 8px 16px; background: #0f172a; color: #ffffff; border-radius: 6px; text-decoration: none;">View request</a></p>`
+  )
+
+  return { subject: `[ReQue] ${subject}`, text, html }
+}
+
+export function renderDigestEmail(events: EmailEvent[], recipientName: string): RenderedEmail {
+  const items = events.map((event) => ({ event, ...summarize(event), url: getRequestUrl(event.requestId) }))
+
+  const text = [
+    `Hi ${recipientName},`,
+    '',
+    `Here is what happened on your requests in the last day:`,
+    '',
+    ...items.map(({ headline, url }) => `- ${headline}\n  ${url}`),
+  ].join('\n')
+
+  const html = layout(
+    `Hi ${recipientName},`,
+    `<p>Here is what happened on your requests in the last day:</p>
+      <ul style="padding-left: 20px;">
+        ${items
+          .map(
+            ({ event, headline, url }) =>
+              `<li style="margin-bottom: 8px;"><a href="${url}" style="color: #0f172a;">${escapeHtml(headline)}</a><br /><span style="font-size: 12px; color: #64748b;">${format(new Date(event.createdAt), 'PPp')}</span></li>`
+          )
+          .join('\n        ')}
+      </ul>`
+  )
+
+  return {
+    subject: `[ReQue] Daily digest: ${events.length} update${events.length === 1 ? '' : 's'}`,
+    text,
+    html,
+  }
+}
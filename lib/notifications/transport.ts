@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+export function createSmtpTransport(): EmailTransport {
+  const from = process.env.EMAIL_FROM || 'ReQue <no-reply@localhost>'
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from, ...message })
+    },
+  }
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[Email] To: ${message.to}\n[Email] Subject: ${message.subject}\n${message.text}\n`)
+    },
+  }
+}
+
+// Writes each email as an .eml file, handy for previewing templates locally
+export function createFileTransport(directory = process.env.EMAIL_OUTPUT_DIR || '.emails'): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`
+      const contents = [
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        message.html,
+      ].join('\n')
+      await fs.writeFile(path.join(directory, fileName), contents, 'utf8')
+    },
+  }
+}
+
+/**
+ * Picks the transport from EMAIL_TRANSPORT (smtp, file or console).
+ * Defaults to smtp when SMTP_HOST is set and console otherwise.
+ */
+export function getEmailTransport(): EmailTransport {
+  const kind = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console')
+
+  switch (kind) {
+    case 'smtp':
+      return createSmtpTransport()
+    case 'file':
+      return createFileTransport()
+    case 'console':
+      return createConsoleTransport()
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`)
+  }
+}
@@ -0,0 +1,34 @@
+import { supabase } from '@/lib/supabase/client'
+import type { Project } from '@/lib/supabase/types'
+
+export function getProjectPath(projectId: string) {
+  return `/reque/projects/${projectId}`
+}
+
+export async function createProject(teamId: string, userId: string, name: string, description?: string) {
+  const { data, error } = await supabase
+    .from('projects')
+    .insert({ team_id: teamId, name, description: description || null, created_by: userId })
+    .select()
+    .single()
+
+  if (error) {
+    // Names are unique per team (idx_projects_team_name)
+    if (error.code === '23505') throw new Error('A project with this name already exists')
+    throw error
+  }
+  return data as Project
+}
+
+// Requests in the project stay in the team; their project is cleared.
+export async function deleteProject(projectId: string) {
+  const { error } = await supabase.from('projects').delete().eq('id', projectId)
+
+  if (error) throw error
+}
+
+// Copies a link to the project page. Recipients still need to be on the team
+// to open it.
+export async function copyProjectLink(projectId: string) {
+  await navigator.clipboard.writeText(`${window.location.origin}${getProjectPath(projectId)}`)
+}
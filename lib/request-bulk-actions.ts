@@ -0,0 +1,72 @@
+import { supabase } from '@/lib/supabase/client'
+import type { Request, RequestPriority, RequestStatus } from '@/lib/supabase/types'
+
+export type BulkAction =
+  | { type: 'status'; status: RequestStatus; reason?: string }
+  | { type: 'priority'; priority: RequestPriority }
+  | { type: 'assign'; assigneeId: string | null }
+  | { type: 'shift_due'; days: number }
+  | { type: 'delete' }
+
+// Enough of a request to check permissions on it and report back by title
+export type BulkTarget = Pick<Request, 'id' | 'title' | 'status' | 'created_by' | 'assigned_to' | 'due_date'>
+
+export const bulkTargetColumns = 'id, title, status, created_by, assigned_to, due_date'
+
+// Matches the limit in bulk_update_requests()
+export const MAX_BULK_REQUESTS = 1000
+
+// `skipped` requests were never sent: the UI already knew they would fail
+export type BulkOutcome = 'updated' | 'unchanged' | 'failed' | 'skipped'
+
+export interface BulkResult {
+  requestId: string
+  outcome: BulkOutcome
+  message: string | null
+}
+
+function toRpcValue(action: BulkAction) {
+  switch (action.type) {
+    case 'status':
+      return action.status
+    case 'priority':
+      return action.priority
+    case 'assign':
+      return action.assigneeId
+    case 'shift_due':
+      return String(action.days)
+    case 'delete':
+      return null
+  }
+}
+
+export async function runBulkAction(requestIds: string[], action: BulkAction): Promise<BulkResult[]> {
+  if (requestIds.length === 0) return []
+
+  const { data, error } = await supabase.rpc('bulk_update_requests', {
+    p_request_ids: requestIds,
+    p_action: action.type,
+    p_value: toRpcValue(action),
+    p_reason: action.type === 'status' ? action.reason?.trim() || null : null,
+  })
+
+  if (error) throw error
+
+  return ((data || []) as { request_id: string; outcome: BulkOutcome; message: string | null }[]).map((row) => ({
+    requestId: row.request_id,
+    outcome: row.outcome,
+    message: row.message,
+  }))
+}
+
+export function summarizeBulkResults(action: BulkAction, results: BulkResult[]) {
+  const count = (outcome: BulkOutcome) => results.filter((result) => result.outcome === outcome).length
+  const plural = (n: number) => `${n} request${n === 1 ? '' : 's'}`
+
+  const parts = [`${action.type === 'delete' ? 'Deleted' : 'Updated'} ${plural(count('updated'))}`]
+  if (count('unchanged')) parts.push(`${count('unchanged')} already up to date`)
+  const failed = count('failed') + count('skipped')
+  if (failed) parts.push(`${failed} failed`)
+
+  return parts.join(', ')
+}
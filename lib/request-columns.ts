@@ -0,0 +1,47 @@
+import { supabase } from '@/lib/supabase/client'
+import type { RequestSortColumn } from '@/lib/request-filters'
+
+export type BuiltInColumn = 'status' | 'priority' | 'due_date' | 'sla' | 'created_at'
+
+export const builtInColumnLabels: Record<BuiltInColumn, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  due_date: 'Due Date',
+  sla: 'SLA',
+  created_at: 'Created',
+}
+
+export const builtInColumnSort: Partial<Record<BuiltInColumn, RequestSortColumn>> = {
+  status: 'status',
+  priority: 'priority',
+  due_date: 'due_date',
+  created_at: 'created_at',
+}
+
+// Title and actions are always shown; these are the optional columns until a
+// user picks their own
+export const defaultRequestColumns: string[] = ['status', 'priority', 'due_date', 'sla', 'created_at']
+
+const FIELD_COLUMN_PREFIX = 'field:'
+
+export function isBuiltInColumn(column: string): column is BuiltInColumn {
+  return column in builtInColumnLabels
+}
+
+export function toFieldColumn(fieldId: string) {
+  return `${FIELD_COLUMN_PREFIX}${fieldId}`
+}
+
+export function getColumnFieldId(column: string) {
+  return column.startsWith(FIELD_COLUMN_PREFIX) ? column.slice(FIELD_COLUMN_PREFIX.length) : null
+}
+
+export async function saveRequestListLayout(userId: string, teamId: string, columns: string[]) {
+  const { error } = await supabase.from('request_list_layouts').upsert({
+    user_id: userId,
+    team_id: teamId,
+    columns,
+  })
+
+  if (error) throw error
+}
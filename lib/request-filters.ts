@@ -0,0 +1,210 @@
+import type { CustomFieldType, RequestPriority, RequestStatus, RequestTypeField } from '@/lib/supabase/types'
+
+export type RequestSortColumn = 'title' | 'status' | 'priority' | 'due_date' | 'created_at'
+
+export type FieldFilterOperator = 'eq' | 'contains' | 'range' | 'empty'
+
+// A filter on the answer to a request type field, evaluated by
+// filter_requests_by_fields(). Range bounds are inclusive and either may be open
+export interface FieldFilter {
+  field: string
+  op: FieldFilterOperator
+  value?: string
+  from?: string
+  to?: string
+}
+
+// Relative due-date windows, worked out when the list loads so saved views
+// like "My overdue" stay current
+export type DuePreset = 'overdue' | 'today' | 'this_week'
+
+export interface RequestFilters {
+  status?: RequestStatus
+  priority?: RequestPriority
+  assignedTo?: string
+  createdBy?: string
+  due?: DuePreset
+  dueFrom?: string
+  dueTo?: string
+  search?: string
+  fields: FieldFilter[]
+  sort: RequestSortColumn
+  ascending: boolean
+  page: number
+  pageSize: number
+}
+
+export const UNASSIGNED = 'unassigned'
+// Stands for the signed-in user in assignee and creator filters
+export const ME = 'me'
+export const DEFAULT_PAGE_SIZE = 25
+// Larger pages are slow to load and render; the size only comes from the URL
+const MAX_PAGE_SIZE = 100
+
+const sortColumns: RequestSortColumn[] = ['title', 'status', 'priority', 'due_date', 'created_at']
+const statuses: RequestStatus[] = ['new', 'in_progress', 'under_review', 'completed', 'rejected']
+const priorities: RequestPriority[] = ['normal', 'high', 'urgent']
+const duePresets: DuePreset[] = ['overdue', 'today', 'this_week']
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+const idPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+// Range filters only apply to number and date fields
+const rangeBoundPattern = /^(-?\d+(\.\d+)?|\d{4}-\d{2}-\d{2})$/
+
+export const duePresetLabels: Record<DuePreset, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  this_week: 'Due this week',
+}
+
+export const fieldFilterOperatorLabels: Record<FieldFilterOperator, string> = {
+  eq: 'Equals',
+  contains: 'Contains',
+  range: 'Between',
+  empty: 'Is empty',
+}
+
+export const fieldFilterOperators: Record<CustomFieldType, FieldFilterOperator[]> = {
+  text: ['contains', 'eq', 'empty'],
+  select: ['eq', 'empty'],
+  number: ['eq', 'range', 'empty'],
+  date: ['eq', 'range', 'empty'],
+  checkbox: ['eq'],
+}
+
+export const defaultRequestFilters: RequestFilters = {
+  fields: [],
+  sort: 'created_at',
+  ascending: false,
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+}
+
+function positiveInt(value: string | null, fallback: number) {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Assignee and creator filters are a profile id or one of the given keywords;
+// anything else would fail the uuid comparison and break the whole list
+function parseUserFilter(value: string | null, keywords: string[]) {
+  return value && (keywords.includes(value) || idPattern.test(value)) ? value : undefined
+}
+
+// Field filters are repeated `cf` params: <field id>:<op>[:<value>], with
+// range bounds written as <from>..<to>, e.g. cf=<id>:range:10..250. The field
+// type is not known here, so an equals value that does not fit its field is
+// left to request_field_matches(), which treats it as matching nothing
+function parseFieldFilter(param: string): FieldFilter | null {
+  const [field, op, ...rest] = param.split(':')
+  const value = rest.join(':').trim()
+
+  if (!idPattern.test(field)) return null
+
+  switch (op) {
+    case 'empty':
+      return { field, op }
+    case 'eq':
+    case 'contains':
+      return value ? { field, op, value } : null
+    case 'range': {
+      const separator = value.indexOf('..')
+      if (separator < 0) return null
+      const from = value.slice(0, separator).trim()
+      const to = value.slice(separator + 2).trim()
+      if ([from, to].some((bound) => bound && !rangeBoundPattern.test(bound))) return null
+      return from || to ? { field, op, from: from || undefined, to: to || undefined } : null
+    }
+    default:
+      return null
+  }
+}
+
+function serializeFieldFilter(filter: FieldFilter) {
+  if (filter.op === 'empty') return `${filter.field}:empty`
+  if (filter.op === 'range') return `${filter.field}:range:${filter.from || ''}..${filter.to || ''}`
+  return `${filter.field}:${filter.op}:${filter.value}`
+}
+
+// Query string keys are kept short so shared links stay readable,
+// e.g. /reque/all?status=in_progress&priority=urgent&sort=due_date&dir=asc
+export function parseRequestFilters(params: URLSearchParams): RequestFilters {
+  const status = params.get('status') as RequestStatus | null
+  const priority = params.get('priority') as RequestPriority | null
+  const sort = params.get('sort') as RequestSortColumn | null
+  const due = params.get('due') as DuePreset | null
+  const dueFrom = params.get('due_from')
+  const dueTo = params.get('due_to')
+
+  return {
+    status: status && statuses.includes(status) ? status : undefined,
+    priority: priority && priorities.includes(priority) ? priority : undefined,
+    assignedTo: parseUserFilter(params.get('assignee'), [ME, UNASSIGNED]),
+    createdBy: parseUserFilter(params.get('creator'), [ME]),
+    due: due && duePresets.includes(due) ? due : undefined,
+    dueFrom: dueFrom && datePattern.test(dueFrom) ? dueFrom : undefined,
+    dueTo: dueTo && datePattern.test(dueTo) ? dueTo : undefined,
+    search: params.get('q')?.trim() || undefined,
+    fields: params.getAll('cf').map(parseFieldFilter).filter((filter): filter is FieldFilter => !!filter),
+    sort: sort && sortColumns.includes(sort) ? sort : defaultRequestFilters.sort,
+    ascending: params.has('dir') ? params.get('dir') === 'asc' : defaultRequestFilters.ascending,
+    page: positiveInt(params.get('page'), 1),
+    pageSize: Math.min(positiveInt(params.get('size'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+  }
+}
+
+export function serializeRequestFilters(filters: RequestFilters): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (filters.status) params.set('status', filters.status)
+  if (filters.priority) params.set('priority', filters.priority)
+  if (filters.assignedTo) params.set('assignee', filters.assignedTo)
+  if (filters.createdBy) params.set('creator', filters.createdBy)
+  if (filters.due) params.set('due', filters.due)
+  if (filters.dueFrom) params.set('due_from', filters.dueFrom)
+  if (filters.dueTo) params.set('due_to', filters.dueTo)
+  if (filters.search) params.set('q', filters.search)
+  filters.fields.forEach((filter) => params.append('cf', serializeFieldFilter(filter)))
+  if (filters.sort !== defaultRequestFilters.sort) params.set('sort', filters.sort)
+  if (filters.ascending !== defaultRequestFilters.ascending) params.set('dir', filters.ascending ? 'asc' : 'desc')
+  if (filters.page > 1) params.set('page', String(filters.page))
+  if (filters.pageSize !== DEFAULT_PAGE_SIZE) params.set('size', String(filters.pageSize))
+
+  return params
+}
+
+export function hasActiveFilters(filters: RequestFilters) {
+  return !!(
+    filters.status ||
+    filters.priority ||
+    filters.assignedTo ||
+    filters.createdBy ||
+    filters.due ||
+    filters.dueFrom ||
+    filters.dueTo ||
+    filters.search ||
+    filters.fields.length > 0
+  )
+}
+
+export function describeFieldFilter(filter: FieldFilter, field: RequestTypeField | undefined) {
+  const label = field?.label || 'Unknown field'
+  const value = field?.field_type === 'checkbox' ? (filter.value === 'true' ? 'Yes' : 'No') : filter.value
+
+  switch (filter.op) {
+    case 'empty':
+      return `${label} is empty`
+    case 'contains':
+      return `${label} contains "${value}"`
+    case 'range':
+      if (filter.from && filter.to) return `${label} between ${filter.from} and ${filter.to}`
+      return filter.from ? `${label} ≥ ${filter.from}` : `${label} ≤ ${filter.to}`
+    default:
+      return `${label} = ${value}`
+  }
+}
+
+// PostgREST uses commas and parentheses as syntax inside or=(...) filters,
+// so strip them (and LIKE wildcards) from free text before building one.
+export function toSearchPattern(search: string) {
+  return `%${search.replace(/[%_,()\\"]/g, ' ').trim()}%`
+}
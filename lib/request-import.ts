@@ -0,0 +1,232 @@
+import { isValid, parseISO } from 'date-fns'
+import { supabase } from '@/lib/supabase/client'
+import { statusLabels } from '@/lib/request-status'
+import type { TeamMember } from '@/hooks/use-team-members'
+import type { RequestPriority, RequestStatus, UserRole } from '@/lib/supabase/types'
+
+export type ImportField = 'title' | 'description' | 'status' | 'priority' | 'due_date' | 'assignee' | 'creator'
+
+export const importFieldLabels: Record<ImportField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  due_date: 'Due Date',
+  assignee: 'Assignee (email)',
+  creator: 'Creator (email)',
+}
+
+// Header names other trackers and spreadsheets commonly use for each field
+const importFieldAliases: Record<ImportField, string[]> = {
+  title: ['title', 'summary', 'subject', 'name', 'request'],
+  description: ['description', 'details', 'body', 'notes'],
+  status: ['status', 'state'],
+  priority: ['priority', 'severity', 'urgency'],
+  due_date: ['due date', 'due', 'due by', 'deadline'],
+  assignee: ['assignee', 'assigned to', 'assignee email', 'owner'],
+  creator: ['creator', 'created by', 'creator email', 'requester', 'reporter', 'author'],
+}
+
+// Column index in the file for each field, null when not imported
+export type ColumnMapping = Record<ImportField, number | null>
+
+// Well under the 500-row limit of import_requests()
+const IMPORT_BATCH_SIZE = 100
+
+// Larger trackers should be split into several files
+export const MAX_IMPORT_ROWS = 5000
+
+const requestPriorities: RequestPriority[] = ['normal', 'high', 'urgent']
+const assignableRoles: UserRole[] = ['admin', 'team_member']
+
+function normalizeName(value: string) {
+  return value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ')
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeName)
+  const used = new Set<number>()
+  const mapping = {} as ColumnMapping
+
+  ;(Object.keys(importFieldAliases) as ImportField[]).forEach((field) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && importFieldAliases[field].includes(header))
+    mapping[field] = index >= 0 ? index : null
+    if (index >= 0) used.add(index)
+  })
+
+  return mapping
+}
+
+export interface ImportRow {
+  // Row number in the file, header included, so errors can be found there
+  rowNumber: number
+  title: string
+  description: string | null
+  status: RequestStatus | null
+  priority: RequestPriority | null
+  dueDate: string | null
+  assigneeId: string | null
+  creatorId: string | null
+  // Cell text as it appears in the file, for the preview
+  cells: Partial<Record<ImportField, string>>
+  errors: string[]
+}
+
+// Accepts the stored value ("in_progress") or the label ("In Progress")
+function parseChoice<T extends string>(value: string, labels: Record<T, string>) {
+  const normalized = normalizeName(value)
+  return (Object.keys(labels) as T[]).find(
+    (key) => normalizeName(key) === normalized || normalizeName(labels[key]) === normalized
+  )
+}
+
+// Excel stores dates as days since 1899-12-30; CSV exports usually use ISO
+function parseDueDate(value: string) {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Math.floor(Number(value))
+    return serial > 0 && serial < 2958466 ? new Date(1899, 11, 30 + serial) : null
+  }
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value)) return null
+
+  const date = parseISO(value)
+  return isValid(date) ? date : null
+}
+
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  members: TeamMember[],
+  firstRowNumber: number
+): ImportRow[] {
+  const membersByEmail = new Map(members.map((member) => [member.email.toLowerCase(), member]))
+  const priorityChoices = Object.fromEntries(requestPriorities.map((priority) => [priority, priority])) as Record<
+    RequestPriority,
+    string
+  >
+
+  return rows.flatMap((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) return []
+
+    const cell = (field: ImportField) => {
+      const column = mapping[field]
+      return column === null ? '' : (cells[column] || '').trim()
+    }
+
+    const errors: string[] = []
+    const row: ImportRow = {
+      rowNumber: firstRowNumber + index,
+      title: cell('title'),
+      description: cell('description') || null,
+      status: null,
+      priority: null,
+      dueDate: null,
+      assigneeId: null,
+      creatorId: null,
+      cells: {},
+      errors,
+    }
+    ;(Object.keys(mapping) as ImportField[]).forEach((field) => {
+      if (mapping[field] !== null) row.cells[field] = cell(field)
+    })
+
+    if (!row.title) errors.push('Title is required')
+
+    const status = cell('status')
+    if (status) {
+      row.status = parseChoice(status, statusLabels) || null
+      if (!row.status) {
+        errors.push(`Unknown status "${status}". Use one of: ${Object.values(statusLabels).join(', ')}`)
+      }
+    }
+
+    const priority = cell('priority')
+    if (priority) {
+      row.priority = parseChoice(priority, priorityChoices) || null
+      if (!row.priority) errors.push(`Unknown priority "${priority}". Use one of: Normal, High, Urgent`)
+    }
+
+    const dueDate = cell('due_date')
+    if (dueDate) {
+      row.dueDate = parseDueDate(dueDate)?.toISOString() || null
+      if (!row.dueDate) errors.push(`Invalid due date "${dueDate}". Use YYYY-MM-DD`)
+    }
+
+    const assigneeEmail = cell('assignee')
+    if (assigneeEmail) {
+      const assignee = membersByEmail.get(assigneeEmail.toLowerCase())
+      if (!assignee) {
+        errors.push(`No team member with email ${assigneeEmail}`)
+      } else if (!assignableRoles.includes(assignee.team_role) || assignee.deactivated_at) {
+        errors.push(`${assigneeEmail} cannot be assigned requests`)
+      } else {
+        row.assigneeId = assignee.id
+      }
+    }
+
+    const creatorEmail = cell('creator')
+    if (creatorEmail) {
+      const creator = membersByEmail.get(creatorEmail.toLowerCase())
+      if (creator) {
+        row.creatorId = creator.id
+      } else {
+        errors.push(`No team member with email ${creatorEmail}`)
+      }
+    }
+
+    return [row]
+  })
+}
+
+export interface ImportResult {
+  rowNumber: number
+  requestId: string | null
+  error: string | null
+}
+
+/**
+ * Inserts rows in batches, reporting progress after each one. Rows that fail
+ * in the database are returned with their error; if a whole batch fails (e.g.
+ * the connection drops) the import stops there so nothing is sent twice.
+ */
+export async function importRequests(
+  teamId: string,
+  source: string,
+  rows: ImportRow[],
+  onProgress?: (processed: number) => void
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = []
+
+  for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+    const batch = rows.slice(start, start + IMPORT_BATCH_SIZE)
+
+    const { data, error } = await supabase.rpc('import_requests', {
+      p_team_id: teamId,
+      p_source: source,
+      p_rows: batch.map((row) => ({
+        row: row.rowNumber,
+        title: row.title,
+        description: row.description,
+        status: row.status,
+        priority: row.priority,
+        due_date: row.dueDate,
+        assigned_to: row.assigneeId,
+        created_by: row.creatorId,
+      })),
+    })
+
+    if (error) {
+      console.error('Error importing requests:', error)
+      rows.slice(start).forEach((row) => {
+        results.push({ rowNumber: row.rowNumber, requestId: null, error: `Not imported: ${error.message}` })
+      })
+      break
+    }
+
+    ;((data || []) as { row_number: number; request_id: string | null; error: string | null }[]).forEach((result) => {
+      results.push({ rowNumber: result.row_number, requestId: result.request_id, error: result.error })
+    })
+    onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, rows.length))
+  }
+
+  return results
+}
@@ -0,0 +1,51 @@
+import { supabase } from '@/lib/supabase/client'
+import type { RequestStatus } from '@/lib/supabase/types'
+
+export const statusLabels: Record<RequestStatus, string> = {
+  new: 'New',
+  in_progress: 'In Progress',
+  under_review: 'Under Review',
+  completed: 'Completed',
+  rejected: 'Rejected',
+}
+
+// Mirrors is_valid_status_transition() in the status state machine migration.
+// The database is authoritative; this copy only decides what the UI offers.
+const statusTransitions: Record<RequestStatus, RequestStatus[]> = {
+  new: ['in_progress'],
+  in_progress: ['under_review'],
+  under_review: ['completed', 'rejected'],
+  completed: [],
+  rejected: [],
+}
+
+const closedStatuses: RequestStatus[] = ['completed', 'rejected']
+
+export function isReopen(from: RequestStatus, to: RequestStatus) {
+  return closedStatuses.includes(from) && to === 'in_progress'
+}
+
+export function getAllowedTransitions(from: RequestStatus, isAdmin: boolean): RequestStatus[] {
+  if (closedStatuses.includes(from)) {
+    return isAdmin ? ['in_progress'] : []
+  }
+  return statusTransitions[from]
+}
+
+export function canTransition(from: RequestStatus, to: RequestStatus, isAdmin: boolean) {
+  return getAllowedTransitions(from, isAdmin).includes(to)
+}
+
+export function transitionRequiresReason(from: RequestStatus, to: RequestStatus) {
+  return to === 'rejected' || isReopen(from, to)
+}
+
+export async function updateRequestStatus(requestId: string, status: RequestStatus, reason?: string | null) {
+  const { error } = await supabase.rpc('transition_request_status', {
+    p_request_id: requestId,
+    p_status: status,
+    p_reason: reason?.trim() || null,
+  })
+
+  if (error) throw new Error(error.message)
+}
@@ -0,0 +1,162 @@
+import { format } from 'date-fns'
+import { z } from 'zod'
+import { supabase } from '@/lib/supabase/client'
+import type {
+  CustomFieldType,
+  RequestFieldValue,
+  RequestType,
+  RequestTypeField,
+} from '@/lib/supabase/types'
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  date: 'Date',
+  checkbox: 'Checkbox',
+}
+
+// Form state of a type's fields, keyed by field id. Everything but checkboxes
+// is edited as a string so empty inputs stay empty instead of becoming 0
+export type FieldFormValues = Record<string, string | boolean>
+
+export type FieldValuePayload = Record<string, string | number | boolean | null>
+
+function fieldSchema(field: RequestTypeField) {
+  if (field.field_type === 'checkbox') {
+    return field.required
+      ? z.boolean().refine((value) => value, `${field.label} must be checked`)
+      : z.boolean()
+  }
+
+  let schema = z.string().trim()
+
+  if (field.field_type === 'text') {
+    schema = schema.max(2000, `${field.label} must be at most 2000 characters`)
+  }
+
+  return schema
+    .refine((value) => !field.required || value !== '', `${field.label} is required`)
+    .refine(
+      (value) => value === '' || field.field_type !== 'number' || Number.isFinite(Number(value)),
+      'Enter a number'
+    )
+    .refine(
+      (value) => value === '' || field.field_type !== 'select' || field.options.includes(value),
+      'Pick one of the options'
+    )
+    .refine(
+      (value) => value === '' || field.field_type !== 'date' || /^\d{4}-\d{2}-\d{2}$/.test(value),
+      'Enter a valid date'
+    )
+}
+
+/**
+ * Builds the zod schema for a type's intake fields. The database checks the
+ * same rules in set_request_field_values(); this gives feedback before submit.
+ */
+export function buildFieldSchema(fields: RequestTypeField[]) {
+  return z.object(Object.fromEntries(fields.map((field) => [field.id, fieldSchema(field)])))
+}
+
+export function getDefaultFieldValues(fields: RequestTypeField[]): FieldFormValues {
+  return Object.fromEntries(fields.map((field) => [field.id, field.field_type === 'checkbox' ? false : '']))
+}
+
+// Converts validated form state into the `{ field_id: value }` object the RPCs expect
+export function toFieldValuePayload(fields: RequestTypeField[], values: FieldFormValues): FieldValuePayload {
+  return Object.fromEntries(
+    fields.map((field) => {
+      const value = values[field.id]
+      if (field.field_type === 'checkbox') return [field.id, value === true]
+      const text = typeof value === 'string' ? value.trim() : ''
+      if (text === '') return [field.id, null]
+      return [field.id, field.field_type === 'number' ? Number(text) : text]
+    })
+  )
+}
+
+export function formatFieldValue(field: RequestTypeField, value: RequestFieldValue | undefined) {
+  if (!value) return null
+
+  switch (field.field_type) {
+    case 'checkbox':
+      return value.value_boolean ? 'Yes' : 'No'
+    case 'number':
+      return value.value_number === null ? null : Number(value.value_number).toLocaleString()
+    case 'date':
+      return value.value_date ? format(new Date(`${value.value_date}T00:00:00`), 'PPP') : null
+    default:
+      return value.value_text
+  }
+}
+
+export function parseFieldOptions(input: string) {
+  return Array.from(new Set(input.split(',').map((option) => option.trim()).filter(Boolean)))
+}
+
+type RequestTypeInput = Pick<RequestType, 'name' | 'description' | 'default_priority' | 'default_assignee'>
+
+export async function createRequestType(teamId: string, input: RequestTypeInput, position: number) {
+  const { error } = await supabase
+    .from('request_types')
+    .insert({ team_id: teamId, ...input, is_active: true, position })
+
+  if (error) {
+    if (error.code === '23505') throw new Error('A request type with this name already exists')
+    throw error
+  }
+}
+
+export async function updateRequestType(typeId: string, changes: Partial<RequestTypeInput & Pick<RequestType, 'is_active'>>) {
+  const { error } = await supabase.from('request_types').update(changes).eq('id', typeId)
+
+  if (error) {
+    if (error.code === '23505') throw new Error('A request type with this name already exists')
+    throw error
+  }
+}
+
+export async function deleteRequestType(typeId: string) {
+  const { error } = await supabase.from('request_types').delete().eq('id', typeId)
+
+  if (error) throw error
+}
+
+type RequestTypeFieldInput = Pick<RequestTypeField, 'label' | 'field_type' | 'required' | 'options' | 'help_text'>
+
+export async function addRequestTypeField(typeId: string, input: RequestTypeFieldInput, position: number) {
+  const { error } = await supabase
+    .from('request_type_fields')
+    .insert({ request_type_id: typeId, ...input, position })
+
+  if (error) throw error
+}
+
+export async function removeRequestTypeField(fieldId: string) {
+  const { error } = await supabase.from('request_type_fields').delete().eq('id', fieldId)
+
+  if (error) throw error
+}
+
+// Swaps a field with its neighbour; positions are renumbered to stay contiguous
+export async function moveRequestTypeField(fields: RequestTypeField[], fieldId: string, direction: -1 | 1) {
+  const ordered = [...fields]
+  const index = ordered.findIndex((field) => field.id === fieldId)
+  const target = index + direction
+  if (index < 0 || target < 0 || target >= ordered.length) return
+
+  const [moved] = ordered.splice(index, 1)
+  ordered.splice(target, 0, moved)
+
+  const results = await Promise.all(
+    ordered.map((field, position) =>
+      field.position === position
+        ? null
+        : supabase.from('request_type_fields').update({ position }).eq('id', field.id)
+    )
+  )
+
+  const failed = results.find((result) => result?.error)
+  if (failed) throw failed.error
+}
@@ -0,0 +1,136 @@
+import { supabase } from '@/lib/supabase/client'
+import { parseRequestFilters, serializeRequestFilters, type RequestFilters } from '@/lib/request-filters'
+import type { SavedView, SavedViewVisibility } from '@/lib/supabase/types'
+
+export const savedViewVisibilityLabels: Record<SavedViewVisibility, string> = {
+  personal: 'Only me',
+  shared: 'Everyone in the team',
+}
+
+export function getSavedViewPath(viewId: string) {
+  return `/reque/views/${viewId}`
+}
+
+// Views store filters and sort as a list query string, minus the page
+export function toViewQuery(filters: RequestFilters) {
+  return serializeRequestFilters({ ...filters, page: 1 }).toString()
+}
+
+// Rewrites a stored query the way the list would, so equal filters compare equal
+export function normalizeViewQuery(query: string) {
+  return toViewQuery(parseRequestFilters(new URLSearchParams(query)))
+}
+
+interface SavedViewInput {
+  teamId: string
+  ownerId: string
+  name: string
+  visibility: SavedViewVisibility
+  query: string
+  columns: string[] | null
+}
+
+function toFriendlyError(error: { code?: string }) {
+  if (error.code === '23505') return new Error('You already have a view with this name')
+  return error
+}
+
+export async function createSavedView(input: SavedViewInput) {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({
+      team_id: input.teamId,
+      owner_id: input.ownerId,
+      name: input.name,
+      visibility: input.visibility,
+      query: input.query,
+      columns: input.columns,
+    })
+    .select()
+    .single()
+
+  if (error) throw toFriendlyError(error)
+  return data as SavedView
+}
+
+export async function updateSavedView(
+  viewId: string,
+  changes: Partial<Pick<SavedView, 'name' | 'visibility' | 'query' | 'columns'>>
+) {
+  const { error } = await supabase.from('saved_views').update(changes).eq('id', viewId)
+
+  if (error) throw toFriendlyError(error)
+}
+
+export async function deleteSavedView(viewId: string) {
+  const { error } = await supabase.from('saved_views').delete().eq('id', viewId)
+
+  if (error) throw error
+}
+
+// Newly pinned views go to the end of the sidebar list
+export async function setSavedViewPinned(userId: string, viewId: string, pinned: boolean) {
+  let position = 0
+  if (pinned) {
+    const { data } = await supabase
+      .from('saved_view_preferences')
+      .select('position')
+      .eq('user_id', userId)
+      .eq('pinned', true)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    position = ((data as { position: number } | null)?.position ?? -1) + 1
+  }
+
+  const { error } = await supabase.from('saved_view_preferences').upsert({
+    user_id: userId,
+    view_id: viewId,
+    pinned,
+    position,
+  })
+
+  if (error) throw error
+}
+
+// At most one landing view per user: clear the old one before marking the new one
+export async function setDefaultSavedView(userId: string, viewId: string | null) {
+  const { error: clearError } = await supabase.from('saved_view_preferences')
+    .update({ is_default: false })
+    .eq('user_id', userId)
+    .eq('is_default', true)
+
+  if (clearError) throw clearError
+  if (!viewId) return
+
+  const { error } = await supabase.from('saved_view_preferences').upsert({
+    user_id: userId,
+    view_id: viewId,
+    is_default: true,
+  })
+
+  if (error) throw error
+}
+
+/**
+ * Where to send a user after sign-in: their landing view if they picked one
+ * and can still see it, otherwise the dashboard.
+ */
+export async function getLandingPath() {
+  try {
+    const { data } = await supabase
+      .from('saved_view_preferences')
+      .select('view_id')
+      .eq('is_default', true)
+      .maybeSingle()
+
+    const viewId = (data as { view_id: string } | null)?.view_id
+    if (!viewId) return '/dashboard'
+
+    const { data: view } = await supabase.from('saved_views').select('id').eq('id', viewId).maybeSingle()
+    return view ? getSavedViewPath(viewId) : '/dashboard'
+  } catch (error) {
+    console.error('Error resolving landing page:', error)
+    return '/dashboard'
+  }
+}
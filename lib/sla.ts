@@ -0,0 +1,116 @@
+import { supabase } from '@/lib/supabase/client'
+import type {
+  RequestPriority,
+  RequestSlaStatus,
+  SlaHoliday,
+  SlaMetric,
+  SlaSettings,
+  SlaState,
+} from '@/lib/supabase/types'
+
+export const slaStateLabels: Record<SlaState, string> = {
+  none: 'No SLA',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  paused: 'Paused',
+  met: 'Met',
+  breached: 'Breached',
+}
+
+export const slaStateColors: Record<SlaState, string> = {
+  none: 'bg-gray-500/10 text-gray-700 border-gray-500/20',
+  on_track: 'bg-green-500/10 text-green-700 border-green-500/20',
+  at_risk: 'bg-amber-500/10 text-amber-700 border-amber-500/20',
+  paused: 'bg-purple-500/10 text-purple-700 border-purple-500/20',
+  met: 'bg-green-500/10 text-green-700 border-green-500/20',
+  breached: 'bg-red-500/10 text-red-700 border-red-500/20',
+}
+
+// Most urgent first, the order targets are listed in settings
+export const slaPriorities: RequestPriority[] = ['urgent', 'high', 'normal']
+
+export const slaMetricLabels: Record<SlaMetric, string> = {
+  first_response: 'First response',
+  resolution: 'Resolution',
+}
+
+// ISO weekdays, as stored in sla_settings.business_days
+export const weekdayLabels: Record<number, string> = {
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat',
+  7: 'Sun',
+}
+
+// Mirrors the column defaults of sla_settings, used until a team saves its own
+export const defaultSlaSettings: Omit<SlaSettings, 'team_id' | 'updated_at'> = {
+  business_hours_only: false,
+  timezone: 'UTC',
+  business_days: [1, 2, 3, 4, 5],
+  day_start: '09:00',
+  day_end: '17:00',
+  at_risk_percent: 75,
+}
+
+const statePriority: SlaState[] = ['breached', 'at_risk', 'paused', 'on_track', 'met', 'none']
+
+// The state to show when only one indicator fits, e.g. in request lists
+export function getOverallSlaState(status: RequestSlaStatus | undefined): SlaState {
+  if (!status) return 'none'
+  const states = [status.first_response_state, status.resolution_state]
+  return statePriority.find((state) => states.includes(state)) || 'none'
+}
+
+export function formatSlaMinutes(minutes: number | null) {
+  if (minutes === null) return '-'
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  const rest = minutes % 60
+  return [days && `${days}d`, hours && `${hours}h`, (rest || minutes === 0) && `${rest}m`].filter(Boolean).join(' ')
+}
+
+export async function getRequestSlaStatuses(requestIds: string[]) {
+  if (requestIds.length === 0) return new Map<string, RequestSlaStatus>()
+
+  const { data, error } = await supabase.rpc('request_sla_status', { p_request_ids: requestIds })
+
+  if (error) throw error
+  return new Map(((data || []) as RequestSlaStatus[]).map((status) => [status.request_id, status]))
+}
+
+// Passing null targets removes the SLA for that priority
+export async function saveSlaPolicy(
+  teamId: string,
+  priority: RequestPriority,
+  targets: { first_response_minutes: number; resolution_minutes: number } | null
+) {
+  const { error } = targets
+    ? await supabase.from('sla_policies').upsert({ team_id: teamId, priority, ...targets })
+    : await supabase.from('sla_policies').delete().eq('team_id', teamId).eq('priority', priority)
+
+  if (error) throw error
+}
+
+export async function saveSlaSettings(teamId: string, settings: Omit<SlaSettings, 'team_id' | 'updated_at'>) {
+  const { error } = await supabase.from('sla_settings').upsert({ team_id: teamId, ...settings })
+
+  if (error) throw error
+}
+
+export async function addSlaHoliday(holiday: Omit<SlaHoliday, 'created_at'>) {
+  const { error } = await supabase.from('sla_holidays').insert(holiday)
+
+  if (error) {
+    if (error.code === '23505') throw new Error('There is already a holiday on this date')
+    throw error
+  }
+}
+
+export async function removeSlaHoliday(teamId: string, holidayDate: string) {
+  const { error } = await supabase.from('sla_holidays').delete().eq('team_id', teamId).eq('holiday_date', holidayDate)
+
+  if (error) throw error
+}
@@ -0,0 +1,214 @@
+// Reads CSV and XLSX files into rows of cell text, in the browser. XLSX files
+// are zip archives of XML; only what the first worksheet needs is read, so
+// formulas come through as their last computed value and styling is ignored.
+
+export type SpreadsheetRows = string[][]
+
+export class SpreadsheetError extends Error {}
+
+const CSV_DELIMITERS = [',', ';', '\t']
+
+// Excel saves CSV with the list separator of the user's locale, so pick
+// whichever candidate splits the header line into the most columns
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  )
+}
+
+// Blank rows in the middle are kept so row numbers match the file
+function trimTrailingEmptyRows(rows: SpreadsheetRows) {
+  let end = rows.length
+  while (end > 0 && rows[end - 1].every((cell) => cell.trim() === '')) end--
+  return rows.slice(0, end)
+}
+
+// RFC 4180: quoted cells may hold delimiters, newlines and "" for a quote
+export function parseCsv(text: string): SpreadsheetRows {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: SpreadsheetRows = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return trimTrailingEmptyRows(rows)
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readZipEntries(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  // The end of central directory record sits in the last 64 KiB + 22 bytes
+  let end = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new SpreadsheetError('This file is not a valid .xlsx workbook')
+
+  const entryCount = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  if (offset === 0xffffffff) throw new SpreadsheetError('This workbook is too large to import')
+
+  const decoder = new TextDecoder()
+  const entries = new Map<string, ZipEntry>()
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+async function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string) {
+  const entry = entries.get(name)
+  if (!entry) return null
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const start =
+    entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true)
+  const data = bytes.slice(start, start + entry.compressedSize)
+
+  if (entry.method === 0) return new TextDecoder().decode(data)
+  if (entry.method !== 8) throw new SpreadsheetError('This workbook uses an unsupported compression method')
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new TextDecoder().decode(await new Response(stream).arrayBuffer())
+}
+
+function parseXml(text: string) {
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+function elements(parent: Document | Element, localName: string) {
+  return Array.from(parent.getElementsByTagNameNS('*', localName))
+}
+
+// Text of a string item, joining rich text runs
+function stringItemText(item: Element) {
+  return elements(item, 't').map((t) => t.textContent || '').join('')
+}
+
+// "BC12" -> 54 (zero-based column of the cell reference)
+function columnIndex(reference: string) {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || ''
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+async function findFirstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>) {
+  const workbookXml = await readZipText(bytes, entries, 'xl/workbook.xml')
+  const relsXml = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels')
+  if (!workbookXml || !relsXml) throw new SpreadsheetError('This file is not a valid .xlsx workbook')
+
+  const sheet = elements(parseXml(workbookXml), 'sheet')[0]
+  const relationId = sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+  const target = elements(parseXml(relsXml), 'Relationship')
+    .find((rel) => rel.getAttribute('Id') === relationId)
+    ?.getAttribute('Target')
+  if (!target) throw new SpreadsheetError('This workbook has no worksheets')
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetRows> {
+  const bytes = new Uint8Array(buffer)
+  const entries = readZipEntries(bytes)
+
+  const sharedStringsXml = await readZipText(bytes, entries, 'xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsXml ? elements(parseXml(sharedStringsXml), 'si').map(stringItemText) : []
+
+  const sheetXml = await readZipText(bytes, entries, await findFirstSheetPath(bytes, entries))
+  if (!sheetXml) throw new SpreadsheetError('This workbook has no worksheets')
+
+  const rows: SpreadsheetRows = []
+  for (const rowElement of elements(parseXml(sheetXml), 'row')) {
+    const row: string[] = []
+    elements(rowElement, 'c').forEach((cell) => {
+      const reference = cell.getAttribute('r')
+      const index = reference ? columnIndex(reference) : row.length
+      const type = cell.getAttribute('t')
+      const value = elements(cell, 'v')[0]?.textContent || ''
+
+      let text = value
+      if (type === 's') text = sharedStrings[Number(value)] ?? ''
+      else if (type === 'inlineStr') text = elements(cell, 'is').map(stringItemText).join('')
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE'
+
+      while (row.length < index) row.push('')
+      row[index] = text
+    })
+
+    // Empty rows are left out of the XML, so place rows by their number
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows.push(row)
+  }
+
+  const width = Math.max(0, ...rows.map((row) => row.length))
+  return trimTrailingEmptyRows(rows.map((row) => [...row, ...Array(width - row.length).fill('')]))
+}
+
+export async function readSpreadsheet(file: File): Promise<SpreadsheetRows> {
+  const extension = file.name.split('.').pop()?.toLowerCase()
+
+  if (extension === 'csv' || extension === 'txt') return parseCsv(await file.text())
+  if (extension === 'xlsx') return parseXlsx(await file.arrayBuffer())
+  if (extension === 'xls') throw new SpreadsheetError('Old .xls workbooks are not supported. Save the file as .xlsx or .csv first.')
+
+  throw new SpreadsheetError('Choose a .csv or .xlsx file')
+}
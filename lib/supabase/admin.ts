@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { createUserClient, getBearerToken } from './server'
+import type { Database, Profile } from './types'
+
+type AdminCaller =
+  | { client: SupabaseClient<Database>; user: User; error: null }
+  | { client: null; user: null; error: NextResponse }
+
+/**
+ * Resolves the signed-in caller of an admin route handler and checks they
+ * are an active admin. On failure `error` holds the response to return.
+ */
+export async function requireAdmin(request: Request): Promise<AdminCaller> {
+  const client = createUserClient(request)
+  if (!client) {
+    return { client: null, user: null, error: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) }
+  }
+
+  const { data: { user } } = await client.auth.getUser(getBearerToken(request) || undefined)
+  if (!user) {
+    return { client: null, user: null, error: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) }
+  }
+
+  const { data: profile } = await client
+    .from('profiles')
+    .select('role, deactivated_at')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  const caller = profile as Pick<Profile, 'role' | 'deactivated_at'> | null
+  if (caller?.role !== 'admin' || caller.deactivated_at) {
+    return { client: null, user: null, error: NextResponse.json({ error: 'Admins only' }, { status: 403 }) }
+  }
+
+  return { client, user, error: null }
+}
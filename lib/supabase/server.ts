@@ -0,0 +1,57 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './types'
+
+/**
+ * Service-role client for route handlers and background jobs. It bypasses
+ * RLS, so it must never be imported from client components.
+ */
+export function createServiceClient(): SupabaseClient<Database> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('[Supabase] NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required on the server')
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      headers: {
+        'x-client-info': 'reque-server',
+      },
+    },
+  })
+}
+
+export function getBearerToken(request: Request) {
+  return request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || null
+}
+
+/**
+ * Client that acts as the caller of a route handler, using the access token
+ * from its `Authorization: Bearer` header. RLS and auth.uid() apply as if the
+ * request came from the browser. Returns null when no token is present.
+ */
+export function createUserClient(request: Request): SupabaseClient<Database> | null {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ''
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
+  const token = getBearerToken(request)
+
+  if (!token) return null
+
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'x-client-info': 'reque-server',
+      },
+    },
+  })
+}
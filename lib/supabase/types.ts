@@ -2,18 +2,48 @@ export type UserRole = 'admin' | 'team_member' | 'user' | 'guest'
 export type RequestStatus = 'new' | 'in_progress' | 'under_review' | 'completed' | 'rejected'
 export type RequestPriority = 'normal' | 'high' | 'urgent'
 
-export interface Profile {
+export type Profile = {
   id: string
   email: string
   full_name: string | null
   avatar_url: string | null
   role: UserRole
+  deactivated_at: string | null
+  deactivated_by: string | null
   created_at: string
   updated_at: string
 }
 
-export interface Request {
+export type Team = {
   id: string
+  name: string
+  is_default: boolean
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type TeamMembership = {
+  team_id: string
+  user_id: string
+  role: UserRole
+  created_at: string
+}
+
+export type Project = {
+  id: string
+  team_id: string
+  name: string
+  description: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type Request = {
+  id: string
+  team_id: string
+  project_id: string | null
   title: string
   description: string | null
   status: RequestStatus
@@ -21,11 +51,16 @@ export interface Request {
   due_date: string | null
   created_by: string
   assigned_to: string | null
+  request_type_id: string | null
+  // Bumped only when the title, description or due date change
+  details_version: number
+  // Set while the request is completed, by a trigger
+  completed_at: string | null
   created_at: string
   updated_at: string
 }
 
-export interface RequestAttachment {
+export type RequestAttachment = {
   id: string
   request_id: string
   file_url: string
@@ -36,22 +71,290 @@ export interface RequestAttachment {
   created_at: string
 }
 
-export interface RequestComment {
+export type CommentVisibility = 'public' | 'internal'
+
+export type RequestComment = {
   id: string
   request_id: string
   user_id: string
+  parent_id: string | null
   comment_text: string
+  visibility: CommentVisibility
+  edited_at: string | null
+  deleted_at: string | null
+  deleted_by: string | null
   created_at: string
   updated_at: string
 }
 
-export interface RequestActivity {
+export type RequestCommentRevision = {
   id: string
+  comment_id: string
+  comment_text: string
+  edited_by: string | null
+  created_at: string
+}
+
+export type RequestCommentReaction = {
+  comment_id: string
   request_id: string
   user_id: string
+  emoji: string
+  created_at: string
+}
+
+export type RequestActivity = {
+  id: string
+  request_id: string
+  // null for system events such as SLA breaches
+  user_id: string | null
   activity_type: string
   old_value: string | null
   new_value: string | null
+  note: string | null
+  created_at: string
+}
+
+export type NotificationType = 'comment_added' | 'status_changed' | 'assigned' | 'mentioned' | 'due_reminder'
+
+export type UserNotification = {
+  id: string
+  user_id: string
+  request_id: string | null
+  actor_id: string | null
+  type: NotificationType
+  message: string
+  read_at: string | null
+  created_at: string
+}
+
+export type UserInvitation = {
+  id: string
+  email: string
+  role: UserRole
+  invited_by: string | null
+  team_id: string | null
+  created_at: string
+  accepted_at: string | null
+}
+
+export type ProfileAuditAction = 'role_changed' | 'deactivated' | 'reactivated' | 'invited'
+
+export type ProfileAuditEntry = {
+  id: string
+  profile_id: string | null
+  actor_id: string | null
+  action: ProfileAuditAction
+  old_value: string | null
+  new_value: string | null
+  created_at: string
+}
+
+export type RequestWatcher = {
+  request_id: string
+  user_id: string
+  created_at: string
+}
+
+export type EmailEventType = 'assigned' | 'status_changed' | 'comment_added' | 'due_reminder'
+export type EmailDelivery = 'instant' | 'daily'
+export type EmailDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped'
+
+export type NotificationPreference = {
+  user_id: string
+  event_type: EmailEventType
+  email_enabled: boolean
+  delivery: EmailDelivery
+  updated_at: string
+}
+
+export type EmailDeliveryRecord = {
+  id: string
+  user_id: string
+  activity_id: string
+  event_type: EmailEventType
+  delivery: EmailDelivery
+  status: EmailDeliveryStatus
+  attempts: number
+  last_error: string | null
+  created_at: string
+  sent_at: string | null
+}
+
+export type RequestSearchResult = {
+  request_id: string
+  title: string
+  status: RequestStatus
+  priority: RequestPriority
+  match_source: 'request' | 'comment'
+  comment_id: string | null
+  rank: number
+  snippet: string
+}
+
+export type SlaState = 'none' | 'on_track' | 'at_risk' | 'paused' | 'met' | 'breached'
+export type SlaMetric = 'first_response' | 'resolution'
+
+export type SlaPolicy = {
+  team_id: string
+  priority: RequestPriority
+  first_response_minutes: number
+  resolution_minutes: number
+  created_at: string
+  updated_at: string
+}
+
+export type SlaSettings = {
+  team_id: string
+  business_hours_only: boolean
+  timezone: string
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  business_days: number[]
+  day_start: string
+  day_end: string
+  at_risk_percent: number
+  updated_at: string
+}
+
+export type SlaHoliday = {
+  team_id: string
+  holiday_date: string
+  name: string
+  created_at: string
+}
+
+export type RequestSlaClock = {
+  request_id: string
+  first_responded_at: string | null
+  paused_at: string | null
+  paused_minutes: number
+  resolved_at: string | null
+  updated_at: string
+}
+
+export type RequestSlaStatus = {
+  request_id: string
+  first_response_target: number | null
+  first_response_elapsed: number | null
+  first_response_state: SlaState
+  resolution_target: number | null
+  resolution_elapsed: number | null
+  resolution_state: SlaState
+  paused: boolean
+}
+
+export type DueDateSettings = {
+  team_id: string
+  reminders_enabled: boolean
+  reminder_days: number
+  updated_at: string
+}
+
+export type EscalationCondition = 'due_within' | 'overdue_for'
+
+export type PriorityEscalationRule = {
+  id: string
+  team_id: string
+  from_priority: RequestPriority
+  to_priority: RequestPriority
+  condition: EscalationCondition
+  hours: number
+  created_at: string
+}
+
+export type RequestDueDateAlert = {
+  request_id: string
+  due_date: string
+  reminded_at: string | null
+  overdue_at: string | null
+}
+
+export type BoardWipLimit = {
+  team_id: string
+  status: RequestStatus
+  wip_limit: number
+  updated_at: string
+}
+
+export type CalendarFeedToken = {
+  user_id: string
+  token: string
+  created_at: string
+}
+
+export type CalendarFeedRequest = Pick<
+  Request,
+  'id' | 'title' | 'description' | 'status' | 'priority' | 'due_date' | 'updated_at'
+>
+
+export type RequestType = {
+  id: string
+  team_id: string
+  name: string
+  description: string | null
+  default_priority: RequestPriority
+  default_assignee: string | null
+  is_active: boolean
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'date' | 'checkbox'
+
+export type RequestTypeField = {
+  id: string
+  request_type_id: string
+  label: string
+  field_type: CustomFieldType
+  required: boolean
+  options: string[]
+  help_text: string | null
+  position: number
+  created_at: string
+}
+
+export type RequestFieldValue = {
+  request_id: string
+  field_id: string
+  value_text: string | null
+  value_number: number | null
+  value_date: string | null
+  value_boolean: boolean | null
+  updated_at: string
+}
+
+export type RequestTypeWithFields = RequestType & {
+  fields: RequestTypeField[]
+}
+
+export type RequestListLayout = {
+  user_id: string
+  team_id: string
+  columns: string[]
+  updated_at: string
+}
+
+export type SavedViewVisibility = 'personal' | 'shared'
+
+export type SavedView = {
+  id: string
+  team_id: string
+  owner_id: string
+  name: string
+  visibility: SavedViewVisibility
+  query: string
+  columns: string[] | null
+  created_at: string
+  updated_at: string
+}
+
+export type SavedViewPreference = {
+  user_id: string
+  view_id: string
+  pinned: boolean
+  is_default: boolean
+  position: number
   created_at: string
 }
 
@@ -60,14 +363,32 @@ export type Database = {
     Tables: {
       profiles: {
         Row: Profile
-        Insert: Omit<Profile, 'created_at' | 'updated_at'>
+        Insert: Omit<Profile, 'created_at' | 'updated_at' | 'deactivated_at' | 'deactivated_by'>
         Update: Partial<Omit<Profile, 'id' | 'created_at'>>
         Relationships: []
       }
+      teams: {
+        Row: Team
+        Insert: Pick<Team, 'name'>
+        Update: Pick<Team, 'name'>
+        Relationships: []
+      }
+      team_memberships: {
+        Row: TeamMembership
+        Insert: Omit<TeamMembership, 'created_at'>
+        Update: Pick<TeamMembership, 'role'>
+        Relationships: []
+      }
+      projects: {
+        Row: Project
+        Insert: Pick<Project, 'team_id' | 'name' | 'description' | 'created_by'>
+        Update: Partial<Pick<Project, 'name' | 'description'>>
+        Relationships: []
+      }
       requests: {
         Row: Request
-        Insert: Omit<Request, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<Request, 'id' | 'created_at'>>
+        Insert: Omit<Request, 'id' | 'details_version' | 'completed_at' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<Request, 'id' | 'details_version' | 'completed_at' | 'created_at'>>
         Relationships: []
       }
       request_attachments: {
@@ -78,22 +399,254 @@ export type Database = {
       }
       request_comments: {
         Row: RequestComment
-        Insert: Omit<RequestComment, 'id' | 'created_at' | 'updated_at'>
-        Update: Partial<Omit<RequestComment, 'id' | 'created_at'>>
+        Insert: Pick<RequestComment, 'request_id' | 'user_id' | 'comment_text'> & Partial<Pick<RequestComment, 'parent_id' | 'visibility'>>
+        Update: Partial<Pick<RequestComment, 'comment_text' | 'deleted_at'>>
+        Relationships: []
+      }
+      request_comment_revisions: {
+        Row: RequestCommentRevision
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      request_comment_reactions: {
+        Row: RequestCommentReaction
+        Insert: Omit<RequestCommentReaction, 'created_at'>
+        Update: Record<string, never>
         Relationships: []
       }
       request_activity: {
         Row: RequestActivity
-        Insert: Omit<RequestActivity, 'id' | 'created_at'>
+        Insert: Omit<RequestActivity, 'id' | 'created_at' | 'note'> & { note?: string | null }
         Update: Partial<Omit<RequestActivity, 'id' | 'created_at'>>
         Relationships: []
       }
+      notifications: {
+        Row: UserNotification
+        Insert: Omit<UserNotification, 'id' | 'created_at' | 'read_at'>
+        Update: Pick<UserNotification, 'read_at'>
+        Relationships: []
+      }
+      user_invitations: {
+        Row: UserInvitation
+        Insert: Pick<UserInvitation, 'email' | 'role' | 'invited_by' | 'team_id'>
+        Update: Partial<Pick<UserInvitation, 'accepted_at'>>
+        Relationships: []
+      }
+      profile_audit_log: {
+        Row: ProfileAuditEntry
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      request_watchers: {
+        Row: RequestWatcher
+        Insert: Omit<RequestWatcher, 'created_at'>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: NotificationPreference
+        Insert: Omit<NotificationPreference, 'updated_at'>
+        Update: Partial<Omit<NotificationPreference, 'user_id' | 'event_type' | 'updated_at'>>
+        Relationships: []
+      }
+      email_deliveries: {
+        Row: EmailDeliveryRecord
+        Insert: Pick<EmailDeliveryRecord, 'user_id' | 'activity_id' | 'event_type' | 'delivery'> &
+          Partial<Pick<EmailDeliveryRecord, 'status' | 'sent_at' | 'last_error' | 'attempts'>>
+        Update: Partial<Pick<EmailDeliveryRecord, 'status' | 'attempts' | 'last_error' | 'sent_at'>>
+        Relationships: []
+      }
+      sla_policies: {
+        Row: SlaPolicy
+        Insert: Omit<SlaPolicy, 'created_at' | 'updated_at'>
+        Update: Partial<Pick<SlaPolicy, 'first_response_minutes' | 'resolution_minutes'>>
+        Relationships: []
+      }
+      sla_settings: {
+        Row: SlaSettings
+        Insert: Pick<SlaSettings, 'team_id'> & Partial<Omit<SlaSettings, 'team_id' | 'updated_at'>>
+        Update: Partial<Omit<SlaSettings, 'team_id' | 'updated_at'>>
+        Relationships: []
+      }
+      sla_holidays: {
+        Row: SlaHoliday
+        Insert: Omit<SlaHoliday, 'created_at'>
+        Update: Pick<SlaHoliday, 'name'>
+        Relationships: []
+      }
+      request_sla_clocks: {
+        Row: RequestSlaClock
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      due_date_settings: {
+        Row: DueDateSettings
+        Insert: Pick<DueDateSettings, 'team_id'> & Partial<Omit<DueDateSettings, 'team_id' | 'updated_at'>>
+        Update: Partial<Omit<DueDateSettings, 'team_id' | 'updated_at'>>
+        Relationships: []
+      }
+      priority_escalation_rules: {
+        Row: PriorityEscalationRule
+        Insert: Omit<PriorityEscalationRule, 'id' | 'created_at'>
+        Update: Partial<Pick<PriorityEscalationRule, 'from_priority' | 'to_priority' | 'condition' | 'hours'>>
+        Relationships: []
+      }
+      request_due_date_alerts: {
+        Row: RequestDueDateAlert
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      board_wip_limits: {
+        Row: BoardWipLimit
+        Insert: Omit<BoardWipLimit, 'updated_at'>
+        Update: Pick<BoardWipLimit, 'wip_limit'>
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: CalendarFeedToken
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      request_types: {
+        Row: RequestType
+        Insert: Omit<RequestType, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<RequestType, 'id' | 'team_id' | 'created_at' | 'updated_at'>>
+        Relationships: []
+      }
+      request_type_fields: {
+        Row: RequestTypeField
+        Insert: Omit<RequestTypeField, 'id' | 'created_at'>
+        Update: Partial<Omit<RequestTypeField, 'id' | 'request_type_id' | 'created_at'>>
+        Relationships: []
+      }
+      request_field_values: {
+        Row: RequestFieldValue
+        Insert: Record<string, never>
+        Update: Record<string, never>
+        Relationships: []
+      }
+      request_list_layouts: {
+        Row: RequestListLayout
+        Insert: Omit<RequestListLayout, 'updated_at'>
+        Update: Pick<RequestListLayout, 'columns'>
+        Relationships: []
+      }
+      saved_views: {
+        Row: SavedView
+        Insert: Omit<SavedView, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Pick<SavedView, 'name' | 'visibility' | 'query' | 'columns'>>
+        Relationships: []
+      }
+      saved_view_preferences: {
+        Row: SavedViewPreference
+        Insert: Pick<SavedViewPreference, 'user_id' | 'view_id'> &
+          Partial<Pick<SavedViewPreference, 'pinned' | 'is_default' | 'position'>>
+        Update: Partial<Pick<SavedViewPreference, 'pinned' | 'is_default' | 'position'>>
+        Relationships: []
+      }
+      email_dispatch_state: {
+        Row: { id: number; last_activity_at: string; last_activity_id: string | null; updated_at: string }
+        Insert: { id?: number; last_activity_at?: string; last_activity_id?: string | null }
+        Update: { last_activity_at?: string; last_activity_id?: string | null }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      assign_request: {
+        Args: { p_request_id: string; p_assignee: string | null }
+        Returns: undefined
+      }
+      transition_request_status: {
+        Args: { p_request_id: string; p_status: RequestStatus; p_reason?: string | null }
+        Returns: undefined
+      }
+      update_request_details: {
+        Args: {
+          p_request_id: string
+          p_title: string
+          p_description: string | null
+          p_due_date: string | null
+          p_expected_version: number
+        }
+        Returns: Request
+      }
+      set_user_active: {
+        Args: { p_user_id: string; p_active: boolean }
+        Returns: undefined
+      }
+      create_team: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      search_requests: {
+        Args: { p_query: string; p_limit?: number; p_team_id?: string | null }
+        Returns: RequestSearchResult[]
+      }
+      request_sla_status: {
+        Args: { p_request_ids: string[] }
+        Returns: RequestSlaStatus[]
+      }
+      record_sla_breaches: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      send_due_date_reminders: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      mark_overdue_requests: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      escalate_request_priorities: {
+        Args: Record<string, never>
+        Returns: number
+      }
+      reset_calendar_feed_token: {
+        Args: Record<string, never>
+        Returns: string
+      }
+      calendar_feed_requests: {
+        Args: { p_token: string }
+        Returns: CalendarFeedRequest[]
+      }
+      set_request_field_values: {
+        Args: { p_request_id: string; p_values: Record<string, string | number | boolean | null> }
+        Returns: undefined
+      }
+      create_request: {
+        Args: {
+          p_team_id: string
+          p_title: string
+          p_description: string | null
+          p_priority: RequestPriority
+          p_due_date: string | null
+          p_project_id: string | null
+          p_request_type_id: string | null
+          p_field_values: Record<string, string | number | boolean | null>
+        }
+        Returns: Request
+      }
+      filter_requests_by_fields: {
+        Args: { p_team_id: string; p_filters: { field: string; op: string; value?: string; from?: string; to?: string }[] }
+        Returns: Request[]
+      }
+      bulk_update_requests: {
+        Args: { p_request_ids: string[]; p_action: string; p_value: string | null; p_reason: string | null }
+        Returns: { request_id: string; outcome: 'updated' | 'unchanged' | 'failed'; message: string | null }[]
+      }
+      import_requests: {
+        Args: { p_team_id: string; p_source: string; p_rows: Record<string, string | number | null>[] }
+        Returns: { row_number: number; request_id: string | null; error: string | null }[]
+      }
     }
     Enums: {
       user_role: UserRole
@@ -0,0 +1,64 @@
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed'
+  text: string
+}
+
+// Above this many token pairs the LCS table gets too big for the browser, so
+// the diff degrades to "everything removed, everything added".
+const MAX_CELLS = 1_000_000
+
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter(Boolean)
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1]
+  if (last && last.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+// Word-level diff based on the longest common subsequence. Whitespace is kept
+// as its own token so the output can be rendered verbatim.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const segments: DiffSegment[] = []
+
+  if ((a.length + 1) * (b.length + 1) > MAX_CELLS) {
+    if (before) segments.push({ type: 'removed', text: before })
+    if (after) segments.push({ type: 'added', text: after })
+    return segments
+  }
+
+  const width = b.length + 1
+  const lengths = new Uint16Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, 'removed', a[i++])
+    } else {
+      pushSegment(segments, 'added', b[j++])
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++])
+  while (j < b.length) pushSegment(segments, 'added', b[j++])
+
+  return segments
+}
@@ -0,0 +1,53 @@
+/**
+ * Runs scheduled jobs outside of the web server, e.g. from a system cron:
+ *
+ *   npm run jobs              # list jobs
+ *   npm run jobs -- due-dates # run one job
+ *   npm run jobs -- all       # run every job once
+ *
+ * Reads .env.local when present, like `next dev`, and needs
+ * NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+ */
+import { existsSync } from 'node:fs'
+import type { Job } from '@/lib/jobs/registry'
+
+async function main() {
+  // Loaded before the app modules, which read the environment on import
+  if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local')
+  }
+
+  const { getJob, jobs } = await import('@/lib/jobs/registry')
+  const { createServiceClient } = await import('@/lib/supabase/server')
+  const names = process.argv.slice(2)
+
+  if (names.length === 0) {
+    console.log('Usage: npm run jobs -- <job...|all>\n')
+    jobs.forEach((job) => console.log(`  ${job.name.padEnd(16)} ${job.schedule.padEnd(14)} ${job.description}`))
+    return
+  }
+
+  const selected: Job[] = []
+  for (const name of names.includes('all') ? jobs.map((job) => job.name) : names) {
+    const job = getJob(name)
+    if (!job) {
+      console.error(`Unknown job: ${name}`)
+      process.exitCode = 1
+      return
+    }
+    selected.push(job)
+  }
+
+  const client = createServiceClient()
+  for (const job of selected) {
+    try {
+      const result = await job.run(client)
+      console.log(`${job.name}: ${JSON.stringify(result)}`)
+    } catch (error) {
+      console.error(`Error running job ${job.name}:`, error)
+      process.exitCode = 1
+    }
+  }
+}
+
+main()
@@ -0,0 +1,20 @@
+/*
+  # Dashboard Activity Feed Index
+
+  ## Overview
+  The dashboard now shows live request counts and a "Recent Activity" feed.
+  The feed reads `request_activity` ordered by `created_at` across every request
+  the caller can see, which is no longer always filtered by `request_id`.
+
+  ## Changes
+  - Restore `idx_activity_created_at` (dropped in 20251107202226_optimize_indexes)
+  - Add `idx_requests_status_updated_at` for the "Completed this month" count
+
+  ## Security Notes
+  - No policy changes. Dashboard queries run as the caller, so existing RLS
+    policies on `requests` and `request_activity` scope every number shown.
+*/
+
+CREATE INDEX IF NOT EXISTS idx_activity_created_at ON request_activity(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_requests_status_updated_at ON requests(status, updated_at DESC);
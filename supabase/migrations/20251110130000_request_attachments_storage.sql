@@ -0,0 +1,118 @@
+/*
+  # Request Attachments Storage
+
+  ## Overview
+  Creates the private `request-attachments` storage bucket used by the upload UI
+  on the New Request and Request Details pages, and mirrors the
+  `request_attachments` table policies onto `storage.objects`.
+
+  ## Storage Layout
+  - Objects are stored as `<request_id>/<random>-<filename>`
+  - `request_attachments.file_url` holds the object path, not a public URL;
+    the client creates short-lived signed URLs for previews and downloads
+
+  ## Limits
+  - 10 MB per file
+  - Images (PNG, JPEG, GIF, WebP), PDF, plain text, CSV and Office documents
+
+  ## Security
+  - Bucket is private; every read goes through RLS
+  - Read: creator of the parent request, admins and team members
+  - Upload: creator, assignee or admin of the parent request
+  - Delete: uploader or admin
+  - Same rules as the `request_attachments` table policies
+*/
+
+-- ============================================
+-- BUCKET
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'request-attachments',
+  'request-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================
+-- STORAGE OBJECT POLICIES
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can read attachment files for viewable requests" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload attachment files for editable requests" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete accessible attachment files" ON storage.objects;
+
+-- SELECT: Same audience as the parent request
+CREATE POLICY "Users can read attachment files for viewable requests"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id::text = (storage.foldername(name))[1]
+      AND (
+        r.created_by = (select auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM profiles p
+          WHERE p.id = (select auth.uid()) AND p.role IN ('admin', 'team_member')
+        )
+      )
+    )
+  );
+
+-- INSERT: Creator, assignee or admin of the parent request
+CREATE POLICY "Users can upload attachment files for editable requests"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'request-attachments'
+    AND EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id::text = (storage.foldername(name))[1]
+      AND (
+        r.created_by = (select auth.uid())
+        OR r.assigned_to = (select auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM profiles p
+          WHERE p.id = (select auth.uid()) AND p.role = 'admin'
+        )
+      )
+    )
+  );
+
+-- DELETE: Uploader or admin
+CREATE POLICY "Users can delete accessible attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND (
+      owner = (select auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM profiles p
+        WHERE p.id = (select auth.uid()) AND p.role = 'admin'
+      )
+    )
+  );
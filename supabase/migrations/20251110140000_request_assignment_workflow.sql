@@ -0,0 +1,140 @@
+/*
+  # Request Assignment Workflow
+
+  ## Overview
+  `requests.assigned_to` drives the "Team members can update assigned requests"
+  part of the update policy, but nothing could set it: team members cannot
+  update unassigned requests and the update policy's WITH CHECK prevents
+  handing a request to someone else. This migration adds a controlled path for
+  assigning, claiming and handing off requests.
+
+  ## Changes
+
+  ### 1. Staff profiles are readable
+  - New SELECT policy so every authenticated user can read admin and
+    team_member profiles (needed for the assignee picker and to show who is
+    handling a request)
+
+  ### 2. Assignment rules trigger
+  - `validate_request_assignment()` runs BEFORE INSERT/UPDATE on `requests`
+  - The assignee must be an admin or team_member profile
+  - Admins can assign anyone
+  - Team members can claim an unassigned request for themselves, and can hand
+    off or unassign requests currently assigned to them
+  - Everyone else (including request creators) cannot change the assignee
+  - Calls without a user (service role, maintenance scripts) are not checked
+
+  ### 3. `assign_request(p_request_id, p_assignee)`
+  - SECURITY DEFINER RPC so team members can claim and hand off requests
+    without widening the `requests` UPDATE policy
+  - Only touches `assigned_to`; the trigger above enforces who may do what
+  - Activity is still logged by `log_request_status_change()`
+
+  ## Security Notes
+  - Direct updates of `assigned_to` go through the same trigger, so the rules
+    cannot be bypassed by calling the REST API
+*/
+
+-- ============================================
+-- STEP 1: STAFF PROFILES ARE READABLE
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can read staff profiles" ON profiles;
+
+CREATE POLICY "Users can read staff profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (role IN ('admin', 'team_member'));
+
+-- ============================================
+-- STEP 2: ASSIGNMENT RULES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.validate_request_assignment()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  caller_role user_role;
+  old_assignee uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_assignee := OLD.assigned_to;
+    IF OLD.assigned_to IS NOT DISTINCT FROM NEW.assigned_to THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.assigned_to IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = NEW.assigned_to AND p.role IN ('admin', 'team_member')
+  ) THEN
+    RAISE EXCEPTION 'Requests can only be assigned to admins or team members'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF caller_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT role INTO caller_role FROM profiles WHERE id = caller_id;
+
+  IF caller_role = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF caller_role = 'team_member' AND (
+    (old_assignee IS NULL AND NEW.assigned_to = caller_id)
+    OR old_assignee = caller_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'You do not have permission to change the assignee of this request'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_assignment ON requests;
+CREATE TRIGGER on_request_assignment
+  BEFORE INSERT OR UPDATE OF assigned_to ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_request_assignment();
+
+-- ============================================
+-- STEP 3: ASSIGN / CLAIM RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.assign_request(p_request_id uuid, p_assignee uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = (select auth.uid()) AND p.role IN ('admin', 'team_member')
+  ) THEN
+    RAISE EXCEPTION 'Only admins and team members can assign requests'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE requests
+  SET assigned_to = p_assignee
+  WHERE id = p_request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.assign_request(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.assign_request(uuid, uuid) TO authenticated;
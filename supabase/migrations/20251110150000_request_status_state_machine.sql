@@ -0,0 +1,191 @@
+/*
+  # Request Status State Machine
+
+  ## Overview
+  Until now any editor could move a request between any two statuses
+  (e.g. rejected -> new or new -> completed). This migration defines the
+  allowed transitions and enforces them in the database so direct API calls
+  cannot bypass them.
+
+  ## Transition Graph
+  - new          -> in_progress
+  - in_progress  -> under_review
+  - under_review -> completed | rejected
+  - completed    -> in_progress  (reopen, admins only)
+  - rejected     -> in_progress  (reopen, admins only)
+
+  Rejecting and reopening require a reason.
+
+  ## Changes
+
+  ### 1. `request_activity.note`
+  - Optional free-text column for context on an activity entry
+    (used for rejection and reopen reasons)
+
+  ### 2. `is_valid_status_transition(from, to, is_admin)`
+  - Single source of truth for the graph above
+
+  ### 3. `enforce_request_status_transition()` trigger
+  - BEFORE UPDATE OF status on `requests`
+  - Rejects transitions not in the graph and reopens by non-admins
+  - Rejects and reopens must carry a reason, passed through the
+    transaction-local `reque.status_reason` setting
+
+  ### 4. `transition_request_status(p_request_id, p_status, p_reason)`
+  - SECURITY INVOKER RPC, so the normal `requests` UPDATE policy still applies
+  - Sets `reque.status_reason` for the current transaction and updates status
+
+  ### 5. `log_request_status_change()`
+  - Writes the reason into `request_activity.note` for status changes
+
+  ## Security Notes
+  - Calls without a user (service role) may skip the admin check for reopens,
+    but must still follow the graph and give a reason
+*/
+
+-- ============================================
+-- STEP 1: ACTIVITY NOTE COLUMN
+-- ============================================
+
+ALTER TABLE request_activity ADD COLUMN IF NOT EXISTS note text;
+
+-- ============================================
+-- STEP 2: TRANSITION GRAPH
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.is_valid_status_transition(
+  p_from request_status,
+  p_to request_status,
+  p_is_admin boolean
+)
+RETURNS boolean
+SET search_path = public
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_from = 'new' THEN p_to = 'in_progress'
+    WHEN p_from = 'in_progress' THEN p_to = 'under_review'
+    WHEN p_from = 'under_review' THEN p_to IN ('completed', 'rejected')
+    WHEN p_from IN ('completed', 'rejected') THEN p_is_admin AND p_to = 'in_progress'
+    ELSE false
+  END;
+$$;
+
+-- ============================================
+-- STEP 3: ENFORCEMENT TRIGGER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  caller_is_admin boolean;
+  reason text := NULLIF(btrim(current_setting('reque.status_reason', true)), '');
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  caller_is_admin := caller_id IS NULL OR EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.id = caller_id AND p.role = 'admin'
+  );
+
+  IF NOT public.is_valid_status_transition(OLD.status, NEW.status, caller_is_admin) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (NEW.status = 'rejected' OR OLD.status IN ('completed', 'rejected')) AND reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to move a request from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_status_transition ON requests;
+CREATE TRIGGER on_request_status_transition
+  BEFORE UPDATE OF status ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_request_status_transition();
+
+-- ============================================
+-- STEP 4: TRANSITION RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.transition_request_status(
+  p_request_id uuid,
+  p_status request_status,
+  p_reason text DEFAULT NULL
+)
+RETURNS void
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('reque.status_reason', COALESCE(p_reason, ''), true);
+
+  UPDATE requests
+  SET status = p_status
+  WHERE id = p_request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found or not editable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  PERFORM set_config('reque.status_reason', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.transition_request_status(uuid, request_status, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.transition_request_status(uuid, request_status, text) TO authenticated;
+
+-- ============================================
+-- STEP 5: LOG REASONS WITH STATUS CHANGES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.log_request_status_change()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value, note)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'status_changed',
+      OLD.status::text,
+      NEW.status::text,
+      NULLIF(btrim(current_setting('reque.status_reason', true)), '')
+    );
+  END IF;
+
+  IF OLD.priority IS DISTINCT FROM NEW.priority THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignment_changed', OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+
+  IF OLD.due_date IS DISTINCT FROM NEW.due_date THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'due_date_changed', OLD.due_date::text, NEW.due_date::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
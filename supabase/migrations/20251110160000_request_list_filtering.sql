@@ -0,0 +1,62 @@
+/*
+  # Request List Filtering
+
+  ## Overview
+  Request lists are now filtered, sorted and paginated in the database
+  (status, priority, assignee, creator, due-date range and free text).
+
+  ## Changes
+
+  ### 1. `current_user_role()`
+  - SECURITY DEFINER helper returning the caller's `profiles.role`
+  - Lets policies on `profiles` check the caller's role without querying
+    `profiles` through its own RLS policies
+
+  ### 2. Staff can read all profiles
+  - Admins and team members already see every request; they now also see the
+    profiles of the people who created them, which the creator filter and the
+    request detail page need
+
+  ### 3. Indexes
+  - Restore `idx_requests_due_date` for due-date range filters and sorting
+  - Add `idx_requests_priority_created_at` for priority filters sorted by date
+
+  ## Security Notes
+  - Users and guests still only read their own profile and staff profiles
+*/
+
+-- ============================================
+-- STEP 1: ROLE HELPER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS user_role
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+REVOKE ALL ON FUNCTION public.current_user_role() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.current_user_role() TO authenticated;
+
+-- ============================================
+-- STEP 2: STAFF CAN READ ALL PROFILES
+-- ============================================
+
+DROP POLICY IF EXISTS "Staff can read all profiles" ON profiles;
+
+CREATE POLICY "Staff can read all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING ((select public.current_user_role()) IN ('admin', 'team_member'));
+
+-- ============================================
+-- STEP 3: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_requests_due_date ON requests(due_date);
+CREATE INDEX IF NOT EXISTS idx_requests_priority_created_at ON requests(priority, created_at DESC);
@@ -0,0 +1,128 @@
+/*
+  # Full-Text Search for Requests and Comments
+
+  ## Overview
+  Adds Postgres full-text search over request titles, descriptions and comment
+  text, used by the global Cmd+K search palette.
+
+  ## Changes
+
+  ### 1. Expression indexes
+  - `idx_requests_search` - GIN index over title (weight A) and description (weight B)
+  - `idx_comments_search` - GIN index over comment_text
+  - Expression indexes rather than stored columns, so `select('*')` payloads
+    are unchanged. The expressions in `search_requests()` must match exactly.
+
+  ### 2. `search_requests(p_query, p_limit)`
+  - Parses the query with `websearch_to_tsquery` (supports quotes, OR, -word)
+  - Returns one row per matching request, ranked by the best of its own match
+    and its best matching comment
+  - `snippet` is produced by `ts_headline` with matches wrapped in `[[[` / `]]]`;
+    the client splits on these markers instead of rendering HTML
+
+  ## Security Notes
+  - SECURITY INVOKER: the function reads `requests` and `request_comments`
+    through the caller's RLS policies, so results only contain rows the
+    caller could already read
+*/
+
+-- ============================================
+-- STEP 1: SEARCH INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_requests_search ON requests USING GIN ((
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+));
+
+CREATE INDEX IF NOT EXISTS idx_comments_search ON request_comments USING GIN ((
+  to_tsvector('english', comment_text)
+));
+
+-- ============================================
+-- STEP 2: SEARCH FUNCTION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.search_requests(p_query text, p_limit integer DEFAULT 20)
+RETURNS TABLE (
+  request_id uuid,
+  title text,
+  status request_status,
+  priority request_priority,
+  match_source text,
+  comment_id uuid,
+  rank real,
+  snippet text
+)
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  request_matches AS (
+    SELECT
+      r.id AS request_id,
+      'request'::text AS match_source,
+      NULL::uuid AS comment_id,
+      ts_rank(
+        setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(r.description, '')), 'B'),
+        q.query
+      ) AS rank,
+      ts_headline(
+        'english',
+        coalesce(r.title, '') || ' — ' || coalesce(r.description, ''),
+        q.query,
+        'StartSel=[[[, StopSel=]]], MaxWords=30, MinWords=10, MaxFragments=2'
+      ) AS snippet
+    FROM requests r, q
+    WHERE (
+      setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(r.description, '')), 'B')
+    ) @@ q.query
+  ),
+  comment_matches AS (
+    SELECT DISTINCT ON (c.request_id)
+      c.request_id,
+      'comment'::text AS match_source,
+      c.id AS comment_id,
+      ts_rank(to_tsvector('english', c.comment_text), q.query) AS rank,
+      ts_headline(
+        'english',
+        c.comment_text,
+        q.query,
+        'StartSel=[[[, StopSel=]]], MaxWords=30, MinWords=10, MaxFragments=2'
+      ) AS snippet
+    FROM request_comments c, q
+    WHERE to_tsvector('english', c.comment_text) @@ q.query
+    ORDER BY c.request_id, ts_rank(to_tsvector('english', c.comment_text), q.query) DESC
+  ),
+  best AS (
+    SELECT DISTINCT ON (m.request_id) m.*
+    FROM (
+      SELECT * FROM request_matches
+      UNION ALL
+      SELECT * FROM comment_matches
+    ) m
+    ORDER BY m.request_id, m.rank DESC
+  )
+  SELECT
+    b.request_id,
+    r.title,
+    r.status,
+    r.priority,
+    b.match_source,
+    b.comment_id,
+    b.rank,
+    b.snippet
+  FROM best b
+  JOIN requests r ON r.id = b.request_id
+  ORDER BY b.rank DESC, r.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+REVOKE ALL ON FUNCTION public.search_requests(text, integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.search_requests(text, integer) TO authenticated;
@@ -0,0 +1,36 @@
+/*
+  # Enable Realtime for Request Tables
+
+  ## Overview
+  The request detail page and request lists now subscribe to Postgres changes
+  through Supabase Realtime, so comments, activity, status/priority changes
+  and attachments appear without a reload.
+
+  ## Changes
+  - Add `requests`, `request_comments`, `request_activity` and
+    `request_attachments` to the `supabase_realtime` publication
+  - REPLICA IDENTITY FULL on `requests` so UPDATE and DELETE events carry the
+    whole old row (lists use it to patch or drop rows in place)
+
+  ## Security Notes
+  - Realtime checks each subscriber's SELECT policies before delivering a
+    change, so clients only receive rows they could already read
+  - "Who is viewing" presence uses a broadcast channel and stores nothing
+*/
+
+DO $$
+DECLARE
+  tbl text;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['requests', 'request_comments', 'request_activity', 'request_attachments']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = tbl
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', tbl);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE requests REPLICA IDENTITY FULL;
@@ -0,0 +1,203 @@
+/*
+  # In-App Notifications
+
+  ## Overview
+  Adds a `notifications` table that is filled by triggers from the same
+  events that already produce `request_activity` rows (status and assignment
+  changes) and from new comments. The sidebar bell reads it.
+
+  ## New Tables
+
+  ### `notifications`
+  - `id` (uuid, primary key) - Unique notification identifier
+  - `user_id` (uuid, not null) - Recipient, references profiles.id
+  - `request_id` (uuid) - Related request, references requests.id
+  - `actor_id` (uuid) - Who caused the event, references profiles.id
+  - `type` (text, not null) - comment_added, status_changed, assigned
+  - `message` (text, not null) - Human readable summary
+  - `read_at` (timestamptz) - When the recipient read it, null if unread
+  - `created_at` (timestamptz) - Creation timestamp
+
+  ## Who Gets Notified
+  - Status changed: request creator and assignee
+  - Assigned: the new assignee
+  - Comment added: request creator and assignee
+  - The person who caused the event is never notified about it
+
+  ## Security
+  - Recipients can read, mark read and delete their own notifications
+  - No INSERT policy: rows are only created by the SECURITY DEFINER triggers
+  - Added to the `supabase_realtime` publication for live unread counts
+*/
+
+-- ============================================
+-- TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  request_id uuid REFERENCES requests(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  type text NOT NULL,
+  message text NOT NULL,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- POLICIES
+-- ============================================
+
+CREATE POLICY "Users can read own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+-- ============================================
+-- HELPERS
+-- ============================================
+
+-- Inserts one notification per distinct recipient, skipping nulls and the actor.
+CREATE OR REPLACE FUNCTION public.create_notifications(
+  p_recipients uuid[],
+  p_request_id uuid,
+  p_actor_id uuid,
+  p_type text,
+  p_message text
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  INSERT INTO notifications (user_id, request_id, actor_id, type, message)
+  SELECT DISTINCT recipient, p_request_id, p_actor_id, p_type, p_message
+  FROM unnest(p_recipients) AS recipient
+  WHERE recipient IS NOT NULL
+  AND recipient IS DISTINCT FROM p_actor_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_notifications(uuid[], uuid, uuid, text, text) FROM public, anon, authenticated;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.notify_on_request_activity()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req requests%ROWTYPE;
+BEGIN
+  IF NEW.activity_type NOT IN ('status_changed', 'assignment_changed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.activity_type = 'status_changed' THEN
+    PERFORM public.create_notifications(
+      ARRAY[req.created_by, req.assigned_to],
+      req.id,
+      NEW.user_id,
+      'status_changed',
+      format('"%s" moved from %s to %s',
+        req.title,
+        replace(NEW.old_value, '_', ' '),
+        replace(NEW.new_value, '_', ' '))
+    );
+  ELSIF NEW.activity_type = 'assignment_changed' AND NEW.new_value IS NOT NULL THEN
+    PERFORM public.create_notifications(
+      ARRAY[NEW.new_value::uuid],
+      req.id,
+      NEW.user_id,
+      'assigned',
+      format('"%s" was assigned to you', req.title)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_activity_notify ON request_activity;
+CREATE TRIGGER on_request_activity_notify
+  AFTER INSERT ON request_activity
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_request_activity();
+
+CREATE OR REPLACE FUNCTION public.notify_on_comment()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req requests%ROWTYPE;
+BEGIN
+  SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notifications(
+    ARRAY[req.created_by, req.assigned_to],
+    req.id,
+    NEW.user_id,
+    'comment_added',
+    format('New comment on "%s"', req.title)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_notify ON request_comments;
+CREATE TRIGGER on_comment_notify
+  AFTER INSERT ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_on_comment();
+
+-- ============================================
+-- REALTIME
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created_at ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_request_id ON notifications(request_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_actor_id ON notifications(actor_id);
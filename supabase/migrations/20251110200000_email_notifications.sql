@@ -0,0 +1,250 @@
+/*
+  # Email Notifications
+
+  ## Overview
+  Adds the storage behind email delivery: who watches which request, each
+  user's email preferences, and an outbox the dispatcher fills from
+  `request_activity` events. Sending happens in the app
+  (`lib/notifications/dispatcher.ts`) through a pluggable transport.
+
+  ## New Tables
+
+  ### `request_watchers`
+  - `request_id` (uuid) - References requests.id
+  - `user_id` (uuid) - References profiles.id
+  - `created_at` (timestamptz)
+  - Creators, assignees and commenters are added automatically
+
+  ### `notification_preferences`
+  - `user_id` (uuid) - References profiles.id
+  - `event_type` (text) - assigned, status_changed, comment_added, due_reminder
+  - `email_enabled` (boolean) - Whether to email this event type at all
+  - `delivery` (text) - instant or daily (digest)
+  - `updated_at` (timestamptz)
+  - A missing row means: enabled, instant
+
+  ### `email_deliveries`
+  - One row per (recipient, activity) so dispatching is idempotent
+  - `status` - pending, sent, failed or skipped
+  - Daily deliveries stay pending until the digest run picks them up
+
+  ### `email_dispatch_state`
+  - Single row holding the `created_at` of the last activity dispatched
+
+  ## Activity Changes
+  - New comments now log a `comment_added` activity (new_value = comment id),
+    so every email-worthy event comes from `request_activity`
+
+  ## Security
+  - Watchers: users manage their own watch rows on requests they can view
+  - Preferences: users manage only their own rows
+  - Deliveries and dispatch state: no policies, service role only
+*/
+
+-- ============================================
+-- STEP 1: REQUEST WATCHERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS request_watchers (
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (request_id, user_id)
+);
+
+ALTER TABLE request_watchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read watchers for viewable requests"
+  ON request_watchers
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_watchers.request_id
+      AND (
+        r.created_by = (select auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM profiles p
+          WHERE p.id = (select auth.uid()) AND p.role IN ('admin', 'team_member')
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can watch viewable requests"
+  ON request_watchers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_watchers.request_id
+      AND (
+        r.created_by = (select auth.uid())
+        OR EXISTS (
+          SELECT 1 FROM profiles p
+          WHERE p.id = (select auth.uid()) AND p.role IN ('admin', 'team_member')
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Users can unwatch requests"
+  ON request_watchers
+  FOR DELETE
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.add_request_watcher(p_request_id uuid, p_user_id uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  INSERT INTO request_watchers (request_id, user_id)
+  SELECT p_request_id, p_user_id
+  WHERE p_user_id IS NOT NULL
+  ON CONFLICT DO NOTHING;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_request_watcher(uuid, uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.auto_watch_request()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'requests' THEN
+    IF TG_OP = 'INSERT' THEN
+      PERFORM public.add_request_watcher(NEW.id, NEW.created_by);
+    END IF;
+    IF NEW.assigned_to IS NOT NULL THEN
+      PERFORM public.add_request_watcher(NEW.id, NEW.assigned_to);
+    END IF;
+  ELSIF TG_TABLE_NAME = 'request_comments' THEN
+    PERFORM public.add_request_watcher(NEW.request_id, NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_auto_watch ON requests;
+CREATE TRIGGER on_request_auto_watch
+  AFTER INSERT OR UPDATE OF assigned_to ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.auto_watch_request();
+
+DROP TRIGGER IF EXISTS on_comment_auto_watch ON request_comments;
+CREATE TRIGGER on_comment_auto_watch
+  AFTER INSERT ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.auto_watch_request();
+
+-- Existing requests: watch as creator and assignee
+INSERT INTO request_watchers (request_id, user_id)
+SELECT id, created_by FROM requests
+UNION
+SELECT id, assigned_to FROM requests WHERE assigned_to IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- ============================================
+-- STEP 2: LOG COMMENTS AS ACTIVITY
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.log_comment_added()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO request_activity (request_id, user_id, activity_type, new_value)
+  VALUES (NEW.request_id, NEW.user_id, 'comment_added', NEW.id::text);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_added ON request_comments;
+CREATE TRIGGER on_comment_added
+  AFTER INSERT ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.log_comment_added();
+
+-- ============================================
+-- STEP 3: NOTIFICATION PREFERENCES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('assigned', 'status_changed', 'comment_added', 'due_reminder')),
+  email_enabled boolean NOT NULL DEFAULT true,
+  delivery text NOT NULL DEFAULT 'instant' CHECK (delivery IN ('instant', 'daily')),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, event_type)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+DROP TRIGGER IF EXISTS on_notification_preferences_updated ON notification_preferences;
+CREATE TRIGGER on_notification_preferences_updated
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- STEP 4: DELIVERY OUTBOX
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  activity_id uuid NOT NULL REFERENCES request_activity(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  delivery text NOT NULL CHECK (delivery IN ('instant', 'daily')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  UNIQUE (user_id, activity_id)
+);
+
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS email_dispatch_state (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  last_activity_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE email_dispatch_state ENABLE ROW LEVEL SECURITY;
+
+-- Start from now so existing history is not emailed
+INSERT INTO email_dispatch_state (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- STEP 5: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_watchers_user_id ON request_watchers(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_pending ON email_deliveries(delivery, user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_activity_id ON email_deliveries(activity_id);
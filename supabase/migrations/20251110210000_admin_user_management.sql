@@ -0,0 +1,275 @@
+/*
+  # Admin User Management
+
+  ## Overview
+  Backs the `/admin/users` console: account deactivation, invitations with a
+  preset role, and an audit trail of every role and account change.
+
+  ## Changes
+
+  ### 1. Profile deactivation
+  - `profiles.deactivated_at` (timestamptz) - Set while the account is disabled
+  - `profiles.deactivated_by` (uuid) - Admin who disabled it
+  - The `/api/admin/users/[id]/status` route also bans the auth user so they
+    cannot sign in; this column is what the app reads
+
+  ### 2. `user_invitations`
+  - `email` (text) - Invited address (stored lower-case)
+  - `role` (user_role) - Role the account gets on first sign-up
+  - `invited_by` (uuid) - Admin who sent the invite
+  - `accepted_at` (timestamptz) - Set when the auth user is created, which
+    for admin-API invites happens as soon as the invite email is sent
+
+  ### 3. `handle_new_user()`
+  - The new profile's role now comes from a pending invitation for that email,
+    or 'user' when there is none
+  - Previously the role was read from `raw_user_meta_data`, which the client
+    controls on sign-up, so anyone could register as an admin
+
+  ### 4. `profile_audit_log`
+  - `profile_id` (uuid) - Affected profile, null for invitations
+  - `actor_id` (uuid) - Admin who made the change
+  - `action` (text) - role_changed, deactivated, reactivated, invited
+  - `old_value` / `new_value` (text) - Role names or the invited email/role
+  - Written by triggers, so direct REST updates are audited too
+
+  ### 5. Guard rails (`guard_profile_admin_changes()`)
+  - Only admins may change `role` or `deactivated_at`
+  - Admins cannot change their own role or deactivate themselves
+
+  ### 6. `set_user_active(p_user_id, p_active)`
+  - Admin-only RPC that sets or clears the deactivation columns
+
+  ## Security Notes
+  - Invitations and the audit log are readable by admins only
+  - Invitations can only be created by admins
+*/
+
+-- ============================================
+-- STEP 1: PROFILE DEACTIVATION
+-- ============================================
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS deactivated_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- ============================================
+-- STEP 2: INVITATIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL CHECK (email = lower(email)),
+  role user_role NOT NULL DEFAULT 'user',
+  invited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  accepted_at timestamptz
+);
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_pending_email
+  ON user_invitations(email) WHERE accepted_at IS NULL;
+
+CREATE POLICY "Admins can read invitations"
+  ON user_invitations
+  FOR SELECT
+  TO authenticated
+  USING ((select public.current_user_role()) = 'admin');
+
+CREATE POLICY "Admins can create invitations"
+  ON user_invitations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (select public.current_user_role()) = 'admin'
+    AND invited_by = (select auth.uid())
+  );
+
+CREATE POLICY "Admins can delete pending invitations"
+  ON user_invitations
+  FOR DELETE
+  TO authenticated
+  USING ((select public.current_user_role()) = 'admin' AND accepted_at IS NULL);
+
+-- ============================================
+-- STEP 3: ROLE COMES FROM INVITATIONS ONLY
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  invited_role user_role;
+BEGIN
+  UPDATE public.user_invitations
+  SET accepted_at = now()
+  WHERE email = lower(new.email) AND accepted_at IS NULL
+  RETURNING role INTO invited_role;
+
+  INSERT INTO public.profiles (id, email, full_name, role)
+  VALUES (
+    new.id,
+    new.email,
+    COALESCE(new.raw_user_meta_data->>'full_name', ''),
+    COALESCE(invited_role, 'user')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN new;
+EXCEPTION
+  WHEN others THEN
+    -- Log the error but don't fail the user creation
+    RAISE WARNING 'Error creating profile for user %: %', new.id, SQLERRM;
+    RETURN new;
+END;
+$$;
+
+-- ============================================
+-- STEP 4: AUDIT LOG
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS profile_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('role_changed', 'deactivated', 'reactivated', 'invited')),
+  old_value text,
+  new_value text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profile_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read profile audit log"
+  ON profile_audit_log
+  FOR SELECT
+  TO authenticated
+  USING ((select public.current_user_role()) = 'admin');
+
+CREATE OR REPLACE FUNCTION public.log_profile_changes()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.role IS DISTINCT FROM NEW.role THEN
+    INSERT INTO profile_audit_log (profile_id, actor_id, action, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'role_changed', OLD.role::text, NEW.role::text);
+  END IF;
+
+  IF OLD.deactivated_at IS NULL AND NEW.deactivated_at IS NOT NULL THEN
+    INSERT INTO profile_audit_log (profile_id, actor_id, action)
+    VALUES (NEW.id, auth.uid(), 'deactivated');
+  ELSIF OLD.deactivated_at IS NOT NULL AND NEW.deactivated_at IS NULL THEN
+    INSERT INTO profile_audit_log (profile_id, actor_id, action)
+    VALUES (NEW.id, auth.uid(), 'reactivated');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_audit ON profiles;
+CREATE TRIGGER on_profile_audit
+  AFTER UPDATE OF role, deactivated_at ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.log_profile_changes();
+
+CREATE OR REPLACE FUNCTION public.log_user_invitation()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO profile_audit_log (actor_id, action, new_value)
+  VALUES (NEW.invited_by, 'invited', format('%s as %s', NEW.email, NEW.role));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_user_invitation_created ON user_invitations;
+CREATE TRIGGER on_user_invitation_created
+  AFTER INSERT ON user_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.log_user_invitation();
+
+-- ============================================
+-- STEP 5: GUARD RAILS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.guard_profile_admin_changes()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+BEGIN
+  -- Service role and maintenance scripts are not checked
+  IF caller_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.role IS NOT DISTINCT FROM NEW.role
+    AND OLD.deactivated_at IS NOT DISTINCT FROM NEW.deactivated_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change roles or deactivate accounts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.id = caller_id THEN
+    RAISE EXCEPTION 'You cannot change your own role or deactivate your own account'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_profile_admin_change ON profiles;
+CREATE TRIGGER on_profile_admin_change
+  BEFORE UPDATE OF role, deactivated_at ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_admin_changes();
+
+-- ============================================
+-- STEP 6: ACTIVATION RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.set_user_active(p_user_id uuid, p_active boolean)
+RETURNS void
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE profiles
+  SET
+    deactivated_at = CASE WHEN p_active THEN NULL ELSE COALESCE(deactivated_at, now()) END,
+    deactivated_by = CASE WHEN p_active THEN NULL ELSE COALESCE(deactivated_by, auth.uid()) END
+  WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found or not editable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_user_active(uuid, boolean) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.set_user_active(uuid, boolean) TO authenticated;
+
+-- ============================================
+-- STEP 7: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_profile_audit_log_created_at ON profile_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_profile_audit_log_profile_id ON profile_audit_log(profile_id);
+CREATE INDEX IF NOT EXISTS idx_profile_audit_log_actor_id ON profile_audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_user_invitations_invited_by ON user_invitations(invited_by);
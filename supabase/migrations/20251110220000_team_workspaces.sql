@@ -0,0 +1,776 @@
+/*
+  # Team Workspaces
+
+  ## Overview
+  Requests now belong to a team, and what someone may do with a request is
+  decided by their role in that team instead of the global `profiles.role`.
+  Every RLS policy and trigger that looked at `profiles.role` for request
+  access is rewritten around team membership.
+
+  ## New Tables
+
+  ### `teams`
+  - `id` (uuid, primary key)
+  - `name` (text) - Display name shown in the team switcher
+  - `is_default` (boolean) - New sign-ups without an invitation join this team
+  - `created_by` (uuid) - References profiles.id
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### `team_memberships`
+  - `team_id` (uuid) - References teams.id
+  - `user_id` (uuid) - References profiles.id
+  - `role` (user_role) - admin, team_member, user or guest within this team
+  - `created_at` (timestamptz)
+
+  ## Changes
+  - `requests.team_id` (uuid, not null) - Owning team
+  - `user_invitations.team_id` (uuid) - Team the invited user joins
+  - Existing data moves into one default team, keeping everyone's current role
+  - `handle_new_user()` adds new users to their invitation's team (or the
+    default team) with the invited role
+
+  ## Role Model
+  - `team_role_of(team, user)` returns the user's role in a team, or NULL
+    while their account is deactivated, so deactivated users lose access to
+    every team without their memberships being removed
+  - Platform admins (`profiles.role = 'admin'`, managed in `/admin/users`) act
+    as admins in every team
+  - Within a team the old global rules apply unchanged: admins and team
+    members see every request, users see their own, guests are read-only
+
+  ## Security Notes
+  - Members can read their teams, their teammates' memberships and profiles
+  - Team admins manage memberships but cannot change their own
+  - Only platform admins create or delete teams
+  - Requests cannot be moved to another team by non-admins
+*/
+
+-- ============================================
+-- STEP 1: TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  is_default boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_single_default ON teams(is_default) WHERE is_default;
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_teams_updated ON teams;
+CREATE TRIGGER on_teams_updated
+  BEFORE UPDATE ON teams
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TABLE IF NOT EXISTS team_memberships (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role user_role NOT NULL DEFAULT 'user',
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, user_id)
+);
+
+ALTER TABLE team_memberships ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- STEP 2: MOVE EXISTING DATA INTO A DEFAULT TEAM
+-- ============================================
+
+INSERT INTO teams (name, is_default)
+SELECT 'ReQue', true
+WHERE NOT EXISTS (SELECT 1 FROM teams WHERE is_default);
+
+INSERT INTO team_memberships (team_id, user_id, role)
+SELECT t.id, p.id, p.role
+FROM profiles p
+CROSS JOIN teams t
+WHERE t.is_default
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE RESTRICT;
+
+UPDATE requests
+SET team_id = (SELECT id FROM teams WHERE is_default)
+WHERE team_id IS NULL;
+
+ALTER TABLE requests ALTER COLUMN team_id SET NOT NULL;
+
+ALTER TABLE user_invitations ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+
+-- ============================================
+-- STEP 3: ROLE HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.team_role_of(p_team_id uuid, p_user_id uuid)
+RETURNS user_role
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p.deactivated_at IS NOT NULL THEN NULL
+    WHEN p.role = 'admin' THEN 'admin'::user_role
+    ELSE (
+      SELECT m.role FROM team_memberships m
+      WHERE m.team_id = p_team_id AND m.user_id = p_user_id
+    )
+  END
+  FROM profiles p
+  WHERE p.id = p_user_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.team_role_of(uuid, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.team_role_of(uuid, uuid) TO authenticated;
+
+-- True when the caller can open the request: team staff see everything in
+-- their team, everyone else only what they created.
+CREATE OR REPLACE FUNCTION public.can_view_request(p_request_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM requests r
+    CROSS JOIN LATERAL (SELECT public.team_role_of(r.team_id, auth.uid()) AS role) t
+    WHERE r.id = p_request_id
+    AND (
+      t.role IN ('admin', 'team_member')
+      OR (t.role IS NOT NULL AND r.created_by = auth.uid())
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_view_request(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_request(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.shares_team_with(p_user_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_memberships mine
+    JOIN team_memberships theirs ON theirs.team_id = mine.team_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.shares_team_with(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.shares_team_with(uuid) TO authenticated;
+
+-- ============================================
+-- STEP 4: NEW USERS JOIN A TEAM
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  invitation user_invitations%ROWTYPE;
+BEGIN
+  UPDATE public.user_invitations
+  SET accepted_at = now()
+  WHERE email = lower(new.email) AND accepted_at IS NULL
+  RETURNING * INTO invitation;
+
+  INSERT INTO public.profiles (id, email, full_name, role)
+  VALUES (
+    new.id,
+    new.email,
+    COALESCE(new.raw_user_meta_data->>'full_name', ''),
+    COALESCE(invitation.role, 'user')
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO public.team_memberships (team_id, user_id, role)
+  SELECT target.team_id, new.id, COALESCE(invitation.role, 'user')
+  FROM (
+    SELECT COALESCE(invitation.team_id, (SELECT id FROM public.teams WHERE is_default)) AS team_id
+  ) target
+  WHERE target.team_id IS NOT NULL
+  ON CONFLICT DO NOTHING;
+
+  RETURN new;
+EXCEPTION
+  WHEN others THEN
+    -- Log the error but don't fail the user creation
+    RAISE WARNING 'Error creating profile for user %: %', new.id, SQLERRM;
+    RETURN new;
+END;
+$$;
+
+-- ============================================
+-- STEP 5: TEAM POLICIES
+-- ============================================
+
+CREATE POLICY "Members can read their teams"
+  ON teams
+  FOR SELECT
+  TO authenticated
+  USING ((select public.team_role_of(id, (select auth.uid()))) IS NOT NULL);
+
+CREATE POLICY "Team admins can rename teams"
+  ON teams
+  FOR UPDATE
+  TO authenticated
+  USING ((select public.team_role_of(id, (select auth.uid()))) = 'admin')
+  WITH CHECK ((select public.team_role_of(id, (select auth.uid()))) = 'admin');
+
+CREATE POLICY "Platform admins can delete teams"
+  ON teams
+  FOR DELETE
+  TO authenticated
+  USING ((select public.current_user_role()) = 'admin' AND NOT is_default);
+
+CREATE POLICY "Members can read team memberships"
+  ON team_memberships
+  FOR SELECT
+  TO authenticated
+  USING ((select public.team_role_of(team_id, (select auth.uid()))) IS NOT NULL);
+
+CREATE POLICY "Team admins can add members"
+  ON team_memberships
+  FOR INSERT
+  TO authenticated
+  WITH CHECK ((select public.team_role_of(team_id, (select auth.uid()))) = 'admin');
+
+CREATE POLICY "Team admins can change member roles"
+  ON team_memberships
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    AND user_id <> (select auth.uid())
+  )
+  WITH CHECK (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    AND user_id <> (select auth.uid())
+  );
+
+CREATE POLICY "Team admins can remove members"
+  ON team_memberships
+  FOR DELETE
+  TO authenticated
+  USING (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    AND user_id <> (select auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION public.create_team(p_name text)
+RETURNS uuid
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_team_id uuid;
+BEGIN
+  IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can create teams'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO teams (name, created_by)
+  VALUES (btrim(p_name), auth.uid())
+  RETURNING id INTO new_team_id;
+
+  INSERT INTO team_memberships (team_id, user_id, role)
+  VALUES (new_team_id, auth.uid(), 'admin');
+
+  RETURN new_team_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_team(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.create_team(text) TO authenticated;
+
+-- ============================================
+-- STEP 6: PROFILES ARE VISIBLE TO TEAMMATES
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can read staff profiles" ON profiles;
+DROP POLICY IF EXISTS "Staff can read all profiles" ON profiles;
+
+CREATE POLICY "Users can read teammate profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING ((select public.shares_team_with(id)));
+
+-- ============================================
+-- STEP 7: REQUEST POLICIES
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can read accessible requests" ON requests;
+DROP POLICY IF EXISTS "Authenticated users can create requests" ON requests;
+DROP POLICY IF EXISTS "Users can update accessible requests" ON requests;
+DROP POLICY IF EXISTS "Users can delete accessible requests" ON requests;
+
+CREATE POLICY "Users can read accessible requests"
+  ON requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    (select public.team_role_of(team_id, (select auth.uid()))) IN ('admin', 'team_member')
+    OR (
+      created_by = (select auth.uid())
+      AND (select public.team_role_of(team_id, (select auth.uid()))) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Team members can create requests"
+  ON requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = (select auth.uid())
+    AND (select public.team_role_of(team_id, (select auth.uid()))) IN ('admin', 'team_member', 'user')
+  );
+
+CREATE POLICY "Users can update accessible requests"
+  ON requests
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    OR (
+      assigned_to = (select auth.uid())
+      AND (select public.team_role_of(team_id, (select auth.uid()))) = 'team_member'
+    )
+    OR (
+      created_by = (select auth.uid())
+      AND (select public.team_role_of(team_id, (select auth.uid()))) IS NOT NULL
+    )
+  )
+  WITH CHECK (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    OR (
+      assigned_to = (select auth.uid())
+      AND (select public.team_role_of(team_id, (select auth.uid()))) = 'team_member'
+    )
+    OR (
+      created_by = (select auth.uid())
+      AND (select public.team_role_of(team_id, (select auth.uid()))) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Users can delete accessible requests"
+  ON requests
+  FOR DELETE
+  TO authenticated
+  USING (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    OR (
+      created_by = (select auth.uid())
+      AND (select public.team_role_of(team_id, (select auth.uid()))) IS NOT NULL
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.prevent_request_team_change()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.team_id IS DISTINCT FROM NEW.team_id
+    AND auth.uid() IS NOT NULL
+    AND public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Requests cannot be moved to another team'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_team_change ON requests;
+CREATE TRIGGER on_request_team_change
+  BEFORE UPDATE OF team_id ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_request_team_change();
+
+-- ============================================
+-- STEP 8: CHILD TABLE POLICIES
+-- ============================================
+
+-- Attachments
+DROP POLICY IF EXISTS "Users can read attachments for viewable requests" ON request_attachments;
+DROP POLICY IF EXISTS "Users can insert attachments for editable requests" ON request_attachments;
+DROP POLICY IF EXISTS "Users can delete accessible attachments" ON request_attachments;
+
+CREATE POLICY "Users can read attachments for viewable requests"
+  ON request_attachments
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+CREATE POLICY "Users can insert attachments for editable requests"
+  ON request_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = (select auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_attachments.request_id
+      AND (
+        r.created_by = (select auth.uid())
+        OR r.assigned_to = (select auth.uid())
+        OR public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete accessible attachments"
+  ON request_attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    uploaded_by = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_attachments.request_id
+      AND public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+    )
+  );
+
+-- Comments
+DROP POLICY IF EXISTS "Users can read comments for viewable requests" ON request_comments;
+DROP POLICY IF EXISTS "Users can insert comments on viewable requests" ON request_comments;
+DROP POLICY IF EXISTS "Users can delete accessible comments" ON request_comments;
+
+CREATE POLICY "Users can read comments for viewable requests"
+  ON request_comments
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+CREATE POLICY "Users can insert comments on viewable requests"
+  ON request_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (select public.can_view_request(request_id))
+    AND EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_comments.request_id
+      AND public.team_role_of(r.team_id, (select auth.uid())) <> 'guest'
+    )
+  );
+
+CREATE POLICY "Users can delete accessible comments"
+  ON request_comments
+  FOR DELETE
+  TO authenticated
+  USING (
+    user_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_comments.request_id
+      AND public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+    )
+  );
+
+-- Activity
+DROP POLICY IF EXISTS "Users can read activity for viewable requests" ON request_activity;
+
+CREATE POLICY "Users can read activity for viewable requests"
+  ON request_activity
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+-- Watchers
+DROP POLICY IF EXISTS "Users can read watchers for viewable requests" ON request_watchers;
+DROP POLICY IF EXISTS "Users can watch viewable requests" ON request_watchers;
+
+CREATE POLICY "Users can read watchers for viewable requests"
+  ON request_watchers
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+CREATE POLICY "Users can watch viewable requests"
+  ON request_watchers
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (select public.can_view_request(request_id))
+  );
+
+-- Attachment files
+DROP POLICY IF EXISTS "Users can read attachment files for viewable requests" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload attachment files for editable requests" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete accessible attachment files" ON storage.objects;
+
+CREATE POLICY "Users can read attachment files for viewable requests"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id::text = (storage.foldername(name))[1]
+      AND public.can_view_request(r.id)
+    )
+  );
+
+CREATE POLICY "Users can upload attachment files for editable requests"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'request-attachments'
+    AND EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id::text = (storage.foldername(name))[1]
+      AND (
+        r.created_by = (select auth.uid())
+        OR r.assigned_to = (select auth.uid())
+        OR public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete accessible attachment files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'request-attachments'
+    AND (
+      owner = (select auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM requests r
+        WHERE r.id::text = (storage.foldername(name))[1]
+        AND public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+      )
+    )
+  );
+
+-- ============================================
+-- STEP 9: TEAM-AWARE TRIGGERS AND RPCS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.validate_request_assignment()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  caller_role user_role;
+  old_assignee uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_assignee := OLD.assigned_to;
+    IF OLD.assigned_to IS NOT DISTINCT FROM NEW.assigned_to THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.assigned_to IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND COALESCE(public.team_role_of(NEW.team_id, NEW.assigned_to)::text, 'none') NOT IN ('admin', 'team_member') THEN
+    RAISE EXCEPTION 'Requests can only be assigned to admins or team members of the request''s team'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF caller_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  caller_role := public.team_role_of(NEW.team_id, caller_id);
+
+  IF caller_role = 'admin' THEN
+    RETURN NEW;
+  END IF;
+
+  IF caller_role = 'team_member' AND (
+    (old_assignee IS NULL AND NEW.assigned_to = caller_id)
+    OR old_assignee = caller_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'You do not have permission to change the assignee of this request'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_request(p_request_id uuid, p_assignee uuid)
+RETURNS void
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM requests r
+    WHERE r.id = p_request_id
+    AND public.team_role_of(r.team_id, (select auth.uid())) IN ('admin', 'team_member')
+  ) THEN
+    RAISE EXCEPTION 'Only admins and team members can assign requests'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE requests
+  SET assigned_to = p_assignee
+  WHERE id = p_request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_request_status_transition()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  caller_is_admin boolean;
+  reason text := NULLIF(btrim(current_setting('reque.status_reason', true)), '');
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  caller_is_admin := caller_id IS NULL OR public.team_role_of(NEW.team_id, caller_id) = 'admin';
+
+  IF NOT public.is_valid_status_transition(OLD.status, NEW.status, caller_is_admin) THEN
+    RAISE EXCEPTION 'Invalid status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (NEW.status = 'rejected' OR OLD.status IN ('completed', 'rejected')) AND reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to move a request from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Search gains an optional team filter; RLS still decides visibility
+DROP FUNCTION IF EXISTS public.search_requests(text, integer);
+
+CREATE OR REPLACE FUNCTION public.search_requests(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_team_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  request_id uuid,
+  title text,
+  status request_status,
+  priority request_priority,
+  match_source text,
+  comment_id uuid,
+  rank real,
+  snippet text
+)
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  request_matches AS (
+    SELECT
+      r.id AS request_id,
+      'request'::text AS match_source,
+      NULL::uuid AS comment_id,
+      ts_rank(
+        setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(r.description, '')), 'B'),
+        q.query
+      ) AS rank,
+      ts_headline(
+        'english',
+        coalesce(r.title, '') || ' — ' || coalesce(r.description, ''),
+        q.query,
+        'StartSel=[[[, StopSel=]]], MaxWords=30, MinWords=10, MaxFragments=2'
+      ) AS snippet
+    FROM requests r, q
+    WHERE (
+      setweight(to_tsvector('english', coalesce(r.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(r.description, '')), 'B')
+    ) @@ q.query
+    AND (p_team_id IS NULL OR r.team_id = p_team_id)
+  ),
+  comment_matches AS (
+    SELECT DISTINCT ON (c.request_id)
+      c.request_id,
+      'comment'::text AS match_source,
+      c.id AS comment_id,
+      ts_rank(to_tsvector('english', c.comment_text), q.query) AS rank,
+      ts_headline(
+        'english',
+        c.comment_text,
+        q.query,
+        'StartSel=[[[, StopSel=]]], MaxWords=30, MinWords=10, MaxFragments=2'
+      ) AS snippet
+    FROM request_comments c, q
+    WHERE to_tsvector('english', c.comment_text) @@ q.query
+    ORDER BY c.request_id, ts_rank(to_tsvector('english', c.comment_text), q.query) DESC
+  ),
+  best AS (
+    SELECT DISTINCT ON (m.request_id) m.*
+    FROM (
+      SELECT * FROM request_matches
+      UNION ALL
+      SELECT * FROM comment_matches
+    ) m
+    ORDER BY m.request_id, m.rank DESC
+  )
+  SELECT
+    b.request_id,
+    r.title,
+    r.status,
+    r.priority,
+    b.match_source,
+    b.comment_id,
+    b.rank,
+    b.snippet
+  FROM best b
+  JOIN requests r ON r.id = b.request_id
+  WHERE p_team_id IS NULL OR r.team_id = p_team_id
+  ORDER BY b.rank DESC, r.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+$$;
+
+REVOKE ALL ON FUNCTION public.search_requests(text, integer, uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.search_requests(text, integer, uuid) TO authenticated;
+
+-- ============================================
+-- STEP 10: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_requests_team_created_at ON requests(team_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_team_memberships_user_id ON team_memberships(user_id);
+CREATE INDEX IF NOT EXISTS idx_teams_created_by ON teams(created_by);
+CREATE INDEX IF NOT EXISTS idx_user_invitations_team_id ON user_invitations(team_id);
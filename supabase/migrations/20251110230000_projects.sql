@@ -0,0 +1,121 @@
+/*
+  # Projects
+
+  ## Overview
+  Projects group a team's requests (for example "Website Redesign" or
+  "Office Move"). A request belongs to at most one project, and the project
+  must belong to the request's team. Projects replace the placeholder entries
+  in the sidebar.
+
+  ## New Tables
+
+  ### `projects`
+  - `id` (uuid, primary key)
+  - `team_id` (uuid) - References teams.id; projects are deleted with their team
+  - `name` (text) - Unique per team, case-insensitive
+  - `description` (text, nullable)
+  - `created_by` (uuid) - References profiles.id
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## Changes
+  - `requests.project_id` (uuid, nullable) - References projects.id; cleared
+    when the project is deleted so its requests stay in the team
+
+  ## Security Notes
+  - Team members can read their team's projects
+  - Only team admins (and platform admins) create, edit or delete projects
+  - A request can only be filed under a project of its own team
+*/
+
+-- ============================================
+-- STEP 1: TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  description text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_team_name ON projects(team_id, lower(name));
+
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_projects_updated ON projects;
+CREATE TRIGGER on_projects_updated
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES projects(id) ON DELETE SET NULL;
+
+-- ============================================
+-- STEP 2: PROJECT POLICIES
+-- ============================================
+
+CREATE POLICY "Members can read team projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING ((select public.team_role_of(team_id, (select auth.uid()))) IS NOT NULL);
+
+CREATE POLICY "Team admins can create projects"
+  ON projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (select public.team_role_of(team_id, (select auth.uid()))) = 'admin'
+    AND created_by = (select auth.uid())
+  );
+
+CREATE POLICY "Team admins can update projects"
+  ON projects
+  FOR UPDATE
+  TO authenticated
+  USING ((select public.team_role_of(team_id, (select auth.uid()))) = 'admin')
+  WITH CHECK ((select public.team_role_of(team_id, (select auth.uid()))) = 'admin');
+
+CREATE POLICY "Team admins can delete projects"
+  ON projects
+  FOR DELETE
+  TO authenticated
+  USING ((select public.team_role_of(team_id, (select auth.uid()))) = 'admin');
+
+-- ============================================
+-- STEP 3: REQUEST PROJECT VALIDATION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.validate_request_project()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = NEW.project_id AND team_id = NEW.team_id
+  ) THEN
+    RAISE EXCEPTION 'Project does not belong to the request''s team'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_project_change ON requests;
+CREATE TRIGGER on_request_project_change
+  BEFORE INSERT OR UPDATE OF project_id, team_id ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.validate_request_project();
+
+-- ============================================
+-- STEP 4: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_projects_team_id ON projects(team_id);
+CREATE INDEX IF NOT EXISTS idx_projects_created_by ON projects(created_by);
+CREATE INDEX IF NOT EXISTS idx_requests_project_id ON requests(project_id);
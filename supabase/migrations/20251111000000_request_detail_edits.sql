@@ -0,0 +1,131 @@
+/*
+  # Editable Request Details
+
+  ## Overview
+  Title, description and due date can now be changed after a request is
+  submitted. Edits use optimistic concurrency: the client sends the
+  `updated_at` it started editing from, and the update is refused if the
+  request changed in the meantime, so two people editing at once cannot
+  silently overwrite each other.
+
+  ## Changes
+
+  ### 1. `update_request_details(p_request_id, p_title, p_description, p_due_date, p_expected_updated_at)`
+  - SECURITY INVOKER RPC, so the normal `requests` UPDATE policy still applies
+  - Raises `serialization_failure` (40001) when `updated_at` no longer matches
+  - Raises `no_data_found` when the request is missing or not editable
+  - Returns the updated row, including the new `updated_at`
+
+  ### 2. `log_request_status_change()`
+  - Also records `title_changed` and `description_changed` with the old and
+    new text, so the timeline can show what was edited
+
+  ## Security Notes
+  - No new privileges: the RPC runs as the caller
+*/
+
+-- ============================================
+-- STEP 1: EDIT RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.update_request_details(
+  p_request_id uuid,
+  p_title text,
+  p_description text,
+  p_due_date timestamptz,
+  p_expected_updated_at timestamptz
+)
+RETURNS requests
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated requests%ROWTYPE;
+  current_updated_at timestamptz;
+BEGIN
+  IF p_title IS NULL OR length(btrim(p_title)) = 0 THEN
+    RAISE EXCEPTION 'Title is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE requests
+  SET title = btrim(p_title),
+      description = NULLIF(btrim(p_description), ''),
+      due_date = p_due_date
+  WHERE id = p_request_id
+    AND updated_at = p_expected_updated_at
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    SELECT updated_at INTO current_updated_at
+    FROM requests
+    WHERE id = p_request_id;
+
+    IF FOUND AND current_updated_at IS DISTINCT FROM p_expected_updated_at THEN
+      RAISE EXCEPTION 'Request was changed by someone else'
+        USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    RAISE EXCEPTION 'Request not found or not editable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_request_details(uuid, text, text, timestamptz, timestamptz) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.update_request_details(uuid, text, text, timestamptz, timestamptz) TO authenticated;
+
+-- ============================================
+-- STEP 2: LOG TITLE AND DESCRIPTION EDITS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.log_request_status_change()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value, note)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'status_changed',
+      OLD.status::text,
+      NEW.status::text,
+      NULLIF(btrim(current_setting('reque.status_reason', true)), '')
+    );
+  END IF;
+
+  IF OLD.priority IS DISTINCT FROM NEW.priority THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignment_changed', OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+
+  IF OLD.due_date IS DISTINCT FROM NEW.due_date THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'due_date_changed', OLD.due_date::text, NEW.due_date::text);
+  END IF;
+
+  IF OLD.title IS DISTINCT FROM NEW.title THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'title_changed', OLD.title, NEW.title);
+  END IF;
+
+  IF OLD.description IS DISTINCT FROM NEW.description THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'description_changed', OLD.description, NEW.description);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,133 @@
+/*
+  # @Mentions
+
+  ## Overview
+  Descriptions and comments are Markdown, and people can be mentioned with
+  the token `@[Full Name](user:<profile id>)` inserted by the editor's
+  autocomplete. Each new mention notifies the mentioned person and makes them
+  a watcher of the request, so they also hear about what happens next.
+
+  ## Changes
+
+  ### 1. `extract_mentions(p_text)`
+  - Returns the distinct profile ids mentioned in a piece of text
+
+  ### 2. `can_user_view_request(p_request_id, p_user_id)`
+  - Same rule as `can_view_request()`, for someone other than the caller
+
+  ### 3. `notify_mentions()` trigger
+  - AFTER INSERT OR UPDATE on `request_comments.comment_text` and
+    `requests.description`
+  - Only mentions that are new in this write count, so editing a comment
+    does not notify everyone again
+  - Mentions of people who cannot open the request are ignored
+
+  ## Security Notes
+  - Notifications and watchers are written by SECURITY DEFINER functions;
+    clients still have no INSERT policy on `notifications`
+*/
+
+-- ============================================
+-- STEP 1: HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.extract_mentions(p_text text)
+RETURNS uuid[]
+SET search_path = public
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT m[1]::uuid), '{}')
+  FROM regexp_matches(
+    COALESCE(p_text, ''),
+    '@\[[^\]\n]+\]\(user:([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)',
+    'g'
+  ) AS m;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_user_view_request(p_request_id uuid, p_user_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM requests r
+    CROSS JOIN LATERAL (SELECT public.team_role_of(r.team_id, p_user_id) AS role) t
+    WHERE r.id = p_request_id
+    AND (
+      t.role IN ('admin', 'team_member')
+      OR (t.role IS NOT NULL AND r.created_by = p_user_id)
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_user_view_request(uuid, uuid) FROM public, anon, authenticated;
+
+-- ============================================
+-- STEP 2: MENTION TRIGGER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.notify_mentions()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req requests%ROWTYPE;
+  actor uuid;
+  mentioned uuid[];
+  previous uuid[] := '{}';
+  where_text text;
+  recipient uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'requests' THEN
+    req := NEW;
+    actor := COALESCE(auth.uid(), NEW.created_by);
+    mentioned := public.extract_mentions(NEW.description);
+    IF TG_OP = 'UPDATE' THEN
+      previous := public.extract_mentions(OLD.description);
+    END IF;
+    where_text := 'the description of';
+  ELSE
+    SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+    IF NOT FOUND THEN
+      RETURN NEW;
+    END IF;
+    actor := NEW.user_id;
+    mentioned := public.extract_mentions(NEW.comment_text);
+    IF TG_OP = 'UPDATE' THEN
+      previous := public.extract_mentions(OLD.comment_text);
+    END IF;
+    where_text := 'a comment on';
+  END IF;
+
+  FOREACH recipient IN ARRAY mentioned LOOP
+    CONTINUE WHEN recipient = ANY(previous) OR recipient = actor;
+    CONTINUE WHEN NOT public.can_user_view_request(req.id, recipient);
+
+    PERFORM public.add_request_watcher(req.id, recipient);
+    PERFORM public.create_notifications(
+      ARRAY[recipient],
+      req.id,
+      actor,
+      'mentioned',
+      format('You were mentioned in %s "%s"', where_text, req.title)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_mentions ON requests;
+CREATE TRIGGER on_request_mentions
+  AFTER INSERT OR UPDATE OF description ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.notify_mentions();
+
+DROP TRIGGER IF EXISTS on_comment_mentions ON request_comments;
+CREATE TRIGGER on_comment_mentions
+  AFTER INSERT OR UPDATE OF comment_text ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_mentions();
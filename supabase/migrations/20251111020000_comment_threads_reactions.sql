@@ -0,0 +1,300 @@
+/*
+  # Comment Editing, Threads and Reactions
+
+  ## Overview
+  Comments were append-only. Authors can now edit their comments (every
+  previous version is kept) and delete them. Deletion is soft: the comment
+  stays in place as "deleted" so replies keep their context. Team admins can
+  delete any comment to moderate. Comments can be answered with one level of
+  replies and reacted to with a small set of emoji.
+
+  ## Changes
+
+  ### `request_comments`
+  - `parent_id` (uuid, nullable) - The comment this one replies to. Replies
+    cannot themselves be replied to, and must be on the same request
+  - `edited_at` (timestamptz) - Set when the text changes
+  - `deleted_at` / `deleted_by` - Set on soft delete; the text is moved into
+    the revision history and blanked
+  - UPDATE policy for authors and team admins; hard DELETE is no longer allowed
+
+  ## New Tables
+
+  ### `request_comment_revisions`
+  - `id` (uuid, primary key)
+  - `comment_id` (uuid) - References request_comments.id
+  - `comment_text` (text) - The text as it was before the edit or delete
+  - `edited_by` (uuid) - Who made the change
+  - `created_at` (timestamptz)
+
+  ### `request_comment_reactions`
+  - `comment_id` (uuid) - References request_comments.id
+  - `request_id` (uuid) - Copied from the comment so realtime can filter on it
+  - `user_id` (uuid) - References profiles.id
+  - `emoji` (text) - One of the supported reactions
+  - `created_at` (timestamptz)
+
+  ## Security Notes
+  - Only the author can change a comment's text; authors and team admins
+    can delete. Enforced by `guard_comment_changes()`, not only RLS
+  - Revision history is visible to the author and team admins only, since it
+    can contain text that was deleted
+  - Guests can read reactions but not react
+*/
+
+-- ============================================
+-- STEP 1: COMMENT COLUMNS
+-- ============================================
+
+ALTER TABLE request_comments
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES request_comments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+-- ============================================
+-- STEP 2: REVISIONS AND REACTIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS request_comment_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid NOT NULL REFERENCES request_comments(id) ON DELETE CASCADE,
+  comment_text text NOT NULL,
+  edited_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE request_comment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS request_comment_reactions (
+  comment_id uuid NOT NULL REFERENCES request_comments(id) ON DELETE CASCADE,
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (emoji IN ('👍', '👎', '🎉', '❤️', '👀', '🚀')),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (comment_id, user_id, emoji)
+);
+
+ALTER TABLE request_comment_reactions ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- STEP 3: THREAD AND EDIT RULES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.validate_comment_parent()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM request_comments
+    WHERE id = NEW.parent_id
+    AND request_id = NEW.request_id
+    AND parent_id IS NULL
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Replies must answer a top-level comment on the same request'
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_parent_check ON request_comments;
+CREATE TRIGGER on_comment_parent_check
+  BEFORE INSERT ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_comment_parent();
+
+CREATE OR REPLACE FUNCTION public.guard_comment_changes()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.request_id IS DISTINCT FROM OLD.request_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Comments cannot be moved'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    -- Soft delete: keep the text in the history, blank it on the comment
+    INSERT INTO request_comment_revisions (comment_id, comment_text, edited_by)
+    VALUES (OLD.id, OLD.comment_text, auth.uid());
+
+    NEW.comment_text := '';
+    NEW.deleted_at := now();
+    NEW.deleted_by := auth.uid();
+    NEW.edited_at := OLD.edited_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.deleted_by := OLD.deleted_by;
+
+  IF NEW.comment_text IS DISTINCT FROM OLD.comment_text THEN
+    IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.user_id THEN
+      RAISE EXCEPTION 'Only the author can edit a comment'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF length(btrim(NEW.comment_text)) = 0 THEN
+      RAISE EXCEPTION 'Comment text is required'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO request_comment_revisions (comment_id, comment_text, edited_by)
+    VALUES (OLD.id, OLD.comment_text, auth.uid());
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_guard ON request_comments;
+CREATE TRIGGER on_comment_guard
+  BEFORE UPDATE ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_comment_changes();
+
+-- Replies also notify the author of the comment being answered
+CREATE OR REPLACE FUNCTION public.notify_on_comment()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req requests%ROWTYPE;
+  parent_author uuid;
+BEGIN
+  SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author FROM request_comments WHERE id = NEW.parent_id;
+  END IF;
+
+  PERFORM public.create_notifications(
+    ARRAY[req.created_by, req.assigned_to, parent_author],
+    req.id,
+    NEW.user_id,
+    'comment_added',
+    CASE
+      WHEN NEW.parent_id IS NOT NULL THEN format('New reply on "%s"', req.title)
+      ELSE format('New comment on "%s"', req.title)
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- STEP 4: POLICIES
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can delete accessible comments" ON request_comments;
+-- Replaced by the policy below; policies are OR'ed, so leaving it would keep
+-- letting authors update comments on requests they can no longer view
+DROP POLICY IF EXISTS "Users can update own comments" ON request_comments;
+
+CREATE POLICY "Authors and team admins can update comments"
+  ON request_comments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (select public.can_view_request(request_id))
+    AND (
+      user_id = (select auth.uid())
+      OR EXISTS (
+        SELECT 1 FROM requests r
+        WHERE r.id = request_comments.request_id
+        AND public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+      )
+    )
+  )
+  WITH CHECK ((select public.can_view_request(request_id)));
+
+CREATE POLICY "Authors and team admins can read comment history"
+  ON request_comment_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM request_comments c
+      JOIN requests r ON r.id = c.request_id
+      WHERE c.id = request_comment_revisions.comment_id
+      AND (
+        c.user_id = (select auth.uid())
+        OR public.team_role_of(r.team_id, (select auth.uid())) = 'admin'
+      )
+    )
+  );
+
+CREATE POLICY "Users can read reactions for viewable requests"
+  ON request_comment_reactions
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+CREATE POLICY "Users can react to comments on viewable requests"
+  ON request_comment_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (select public.can_view_request(request_id))
+    AND EXISTS (
+      SELECT 1 FROM request_comments c
+      JOIN requests r ON r.id = c.request_id
+      WHERE c.id = request_comment_reactions.comment_id
+      AND c.request_id = request_comment_reactions.request_id
+      AND c.deleted_at IS NULL
+      AND public.team_role_of(r.team_id, (select auth.uid())) <> 'guest'
+    )
+  );
+
+CREATE POLICY "Users can remove own reactions"
+  ON request_comment_reactions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+-- ============================================
+-- STEP 5: REALTIME
+-- ============================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'request_comment_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.request_comment_reactions;
+  END IF;
+END $$;
+
+-- ============================================
+-- STEP 6: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_request_comments_parent_id ON request_comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_request_comments_deleted_by ON request_comments(deleted_by);
+CREATE INDEX IF NOT EXISTS idx_request_comment_revisions_comment_id ON request_comment_revisions(comment_id);
+CREATE INDEX IF NOT EXISTS idx_request_comment_revisions_edited_by ON request_comment_revisions(edited_by);
+CREATE INDEX IF NOT EXISTS idx_request_comment_reactions_request_id ON request_comment_reactions(request_id);
+CREATE INDEX IF NOT EXISTS idx_request_comment_reactions_user_id ON request_comment_reactions(user_id);
@@ -0,0 +1,322 @@
+/*
+  # Internal Notes
+
+  ## Overview
+  Staff (team admins and team members) can leave internal notes on a
+  request: comments the requester never sees. Visibility is chosen when the
+  comment is posted and cannot be changed afterwards, so a note can never be
+  published by accident.
+
+  ## Changes
+
+  ### `request_comments.visibility`
+  - `public` (default) or `internal`
+  - Replies take the visibility of the comment they answer
+
+  ### Helpers
+  - `can_view_internal_notes(p_request_id)` - true when the caller is staff
+    in the request's team
+  - `can_user_view_internal_notes(p_request_id, p_user_id)` - the same check
+    for someone else, used by notification triggers
+
+  ### Activity
+  - Internal notes log a `note_added` activity instead of `comment_added`
+
+  ## Security Notes
+  - Enforced by RLS on `request_comments`, `request_comment_reactions` and
+    `request_activity`, so internal notes never reach requesters through the
+    API, realtime or `search_requests()`
+  - Only staff can post internal notes
+  - Comment, reply and @mention notifications for internal notes only go to
+    staff
+*/
+
+-- ============================================
+-- STEP 1: VISIBILITY COLUMN
+-- ============================================
+
+ALTER TABLE request_comments
+  ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'internal'));
+
+-- ============================================
+-- STEP 2: HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.can_user_view_internal_notes(p_request_id uuid, p_user_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM requests r
+    WHERE r.id = p_request_id
+    AND public.team_role_of(r.team_id, p_user_id) IN ('admin', 'team_member')
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_user_view_internal_notes(uuid, uuid) FROM public, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.can_view_internal_notes(p_request_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT public.can_user_view_internal_notes(p_request_id, auth.uid());
+$$;
+
+REVOKE ALL ON FUNCTION public.can_view_internal_notes(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_internal_notes(uuid) TO authenticated;
+
+-- ============================================
+-- STEP 3: POLICIES
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can read comments for viewable requests" ON request_comments;
+DROP POLICY IF EXISTS "Users can insert comments on viewable requests" ON request_comments;
+
+CREATE POLICY "Users can read comments for viewable requests"
+  ON request_comments
+  FOR SELECT
+  TO authenticated
+  USING (
+    (select public.can_view_request(request_id))
+    AND (visibility = 'public' OR (select public.can_view_internal_notes(request_id)))
+  );
+
+CREATE POLICY "Users can insert comments on viewable requests"
+  ON request_comments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (select public.can_view_request(request_id))
+    AND (visibility = 'public' OR (select public.can_view_internal_notes(request_id)))
+    AND EXISTS (
+      SELECT 1 FROM requests r
+      WHERE r.id = request_comments.request_id
+      AND public.team_role_of(r.team_id, (select auth.uid())) <> 'guest'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read reactions for viewable requests" ON request_comment_reactions;
+DROP POLICY IF EXISTS "Users can react to comments on viewable requests" ON request_comment_reactions;
+
+CREATE POLICY "Users can read reactions for viewable requests"
+  ON request_comment_reactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    (select public.can_view_request(request_id))
+    AND EXISTS (
+      SELECT 1 FROM request_comments c
+      WHERE c.id = request_comment_reactions.comment_id
+      AND (c.visibility = 'public' OR (select public.can_view_internal_notes(c.request_id)))
+    )
+  );
+
+CREATE POLICY "Users can react to comments on viewable requests"
+  ON request_comment_reactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (select public.can_view_request(request_id))
+    AND EXISTS (
+      SELECT 1 FROM request_comments c
+      JOIN requests r ON r.id = c.request_id
+      WHERE c.id = request_comment_reactions.comment_id
+      AND c.request_id = request_comment_reactions.request_id
+      AND c.deleted_at IS NULL
+      AND (c.visibility = 'public' OR (select public.can_view_internal_notes(c.request_id)))
+      AND public.team_role_of(r.team_id, (select auth.uid())) <> 'guest'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read activity for viewable requests" ON request_activity;
+
+CREATE POLICY "Users can read activity for viewable requests"
+  ON request_activity
+  FOR SELECT
+  TO authenticated
+  USING (
+    (select public.can_view_request(request_id))
+    AND (activity_type <> 'note_added' OR (select public.can_view_internal_notes(request_id)))
+  );
+
+-- ============================================
+-- STEP 4: TRIGGERS
+-- ============================================
+
+-- Replies inherit the visibility of the comment they answer, so a public
+-- reply can never hang off a note the requester cannot see
+CREATE OR REPLACE FUNCTION public.validate_comment_parent()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  parent request_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM request_comments
+  WHERE id = NEW.parent_id
+  AND request_id = NEW.request_id
+  AND parent_id IS NULL
+  AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Replies must answer a top-level comment on the same request'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.visibility := parent.visibility;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_comment_visibility()
+RETURNS trigger
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.visibility IS DISTINCT FROM OLD.visibility THEN
+    RAISE EXCEPTION 'Comment visibility cannot be changed'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_visibility_guard ON request_comments;
+CREATE TRIGGER on_comment_visibility_guard
+  BEFORE UPDATE ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.guard_comment_visibility();
+
+CREATE OR REPLACE FUNCTION public.log_comment_added()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO request_activity (request_id, user_id, activity_type, new_value)
+  VALUES (
+    NEW.request_id,
+    NEW.user_id,
+    CASE WHEN NEW.visibility = 'internal' THEN 'note_added' ELSE 'comment_added' END,
+    NEW.id::text
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_on_comment()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req requests%ROWTYPE;
+  parent_author uuid;
+  recipients uuid[];
+BEGIN
+  SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author FROM request_comments WHERE id = NEW.parent_id;
+  END IF;
+
+  recipients := ARRAY[req.created_by, req.assigned_to, parent_author];
+
+  IF NEW.visibility = 'internal' THEN
+    SELECT COALESCE(array_agg(recipient), '{}') INTO recipients
+    FROM unnest(recipients) AS recipient
+    WHERE public.can_user_view_internal_notes(req.id, recipient);
+  END IF;
+
+  PERFORM public.create_notifications(
+    recipients,
+    req.id,
+    NEW.user_id,
+    'comment_added',
+    CASE
+      WHEN NEW.visibility = 'internal' THEN format('New internal note on "%s"', req.title)
+      WHEN NEW.parent_id IS NOT NULL THEN format('New reply on "%s"', req.title)
+      ELSE format('New comment on "%s"', req.title)
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_mentions()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req requests%ROWTYPE;
+  actor uuid;
+  mentioned uuid[];
+  previous uuid[] := '{}';
+  where_text text;
+  internal boolean := false;
+  recipient uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'requests' THEN
+    req := NEW;
+    actor := COALESCE(auth.uid(), NEW.created_by);
+    mentioned := public.extract_mentions(NEW.description);
+    IF TG_OP = 'UPDATE' THEN
+      previous := public.extract_mentions(OLD.description);
+    END IF;
+    where_text := 'the description of';
+  ELSE
+    SELECT * INTO req FROM requests WHERE id = NEW.request_id;
+    IF NOT FOUND THEN
+      RETURN NEW;
+    END IF;
+    actor := NEW.user_id;
+    mentioned := public.extract_mentions(NEW.comment_text);
+    IF TG_OP = 'UPDATE' THEN
+      previous := public.extract_mentions(OLD.comment_text);
+    END IF;
+    internal := NEW.visibility = 'internal';
+    where_text := CASE WHEN internal THEN 'an internal note on' ELSE 'a comment on' END;
+  END IF;
+
+  FOREACH recipient IN ARRAY mentioned LOOP
+    CONTINUE WHEN recipient = ANY(previous) OR recipient = actor;
+    CONTINUE WHEN NOT public.can_user_view_request(req.id, recipient);
+    CONTINUE WHEN internal AND NOT public.can_user_view_internal_notes(req.id, recipient);
+
+    PERFORM public.add_request_watcher(req.id, recipient);
+    PERFORM public.create_notifications(
+      ARRAY[recipient],
+      req.id,
+      actor,
+      'mentioned',
+      format('You were mentioned in %s "%s"', where_text, req.title)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
@@ -0,0 +1,490 @@
+/*
+  # Service-Level Agreements
+
+  ## Overview
+  Teams can set a first-response and a resolution target for each request
+  priority, measured either around the clock or in business hours (working
+  days, opening hours, time zone and holidays). The resolution clock pauses
+  while a request is `under_review`, since it is waiting on someone else.
+  Breaches are logged to `request_activity` so they can be reported on.
+
+  ## New Tables
+
+  ### `sla_policies`
+  - `team_id` (uuid) - References teams.id
+  - `priority` (request_priority)
+  - `first_response_minutes` (integer) - Time allowed until staff first respond
+  - `resolution_minutes` (integer) - Time allowed until the request is closed
+  - Primary key (team_id, priority); a missing row means no SLA
+
+  ### `sla_settings`
+  - One row per team. Without a row, SLAs run around the clock
+  - `business_hours_only` (boolean) - Count only working time
+  - `timezone` (text) - IANA time zone the working hours are in
+  - `business_days` (integer[]) - ISO weekdays, 1 = Monday ... 7 = Sunday
+  - `day_start` / `day_end` (time) - Opening hours on business days
+  - `at_risk_percent` (integer) - Share of the target after which a request
+    is shown as at risk
+
+  ### `sla_holidays`
+  - `team_id` (uuid), `holiday_date` (date), `name` (text)
+  - Holidays are skipped when counting business hours
+
+  ### `request_sla_clocks`
+  - One row per request, maintained by triggers
+  - `first_responded_at` - First status change or first public comment by
+    staff other than the requester (status changes count from anyone until
+    20251111180000_sla_staff_first_response)
+  - `paused_at` / `paused_minutes` - Current pause and total paused time
+  - `resolved_at` - When the request was completed or rejected; cleared when
+    it is reopened
+
+  ## Functions
+  - `business_minutes_between(team, from, to)` - Elapsed SLA time for a team
+  - `request_sla_status(request_ids)` - Target, elapsed time and state
+    (none, on_track, at_risk, paused, met, breached) of both clocks.
+    Closing a request stops both clocks, so one closed without a response
+    keeps the first-response time it had when it closed.
+    SECURITY INVOKER, so callers only see requests RLS lets them read
+  - `record_sla_breaches()` - Logs an `sla_breached` activity
+    (new_value = first_response or resolution, old_value = priority) the
+    first time each clock of a request breaches. Called by the
+    `sla-breaches` job (`/api/jobs/sla-breaches`) with the service role
+
+  ## Activity Changes
+  - `request_activity.user_id` is now nullable: breaches are logged by the
+    system, not by a person
+
+  ## Security Notes
+  - Team members can read their team's policies, settings and holidays;
+    only team admins can change them
+  - Clocks are written only by triggers and readable where the request is
+*/
+
+-- ============================================
+-- STEP 1: TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  priority request_priority NOT NULL,
+  first_response_minutes integer NOT NULL CHECK (first_response_minutes > 0),
+  resolution_minutes integer NOT NULL CHECK (resolution_minutes > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, priority)
+);
+
+ALTER TABLE sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS sla_settings (
+  team_id uuid PRIMARY KEY REFERENCES teams(id) ON DELETE CASCADE,
+  business_hours_only boolean NOT NULL DEFAULT false,
+  timezone text NOT NULL DEFAULT 'UTC',
+  business_days integer[] NOT NULL DEFAULT '{1,2,3,4,5}'
+    CHECK (cardinality(business_days) > 0 AND business_days <@ '{1,2,3,4,5,6,7}'::integer[]),
+  day_start time NOT NULL DEFAULT '09:00',
+  day_end time NOT NULL DEFAULT '17:00',
+  at_risk_percent integer NOT NULL DEFAULT 75 CHECK (at_risk_percent BETWEEN 1 AND 99),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (day_end > day_start)
+);
+
+ALTER TABLE sla_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS sla_holidays (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  holiday_date date NOT NULL,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, holiday_date)
+);
+
+ALTER TABLE sla_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS request_sla_clocks (
+  request_id uuid PRIMARY KEY REFERENCES requests(id) ON DELETE CASCADE,
+  first_responded_at timestamptz,
+  paused_at timestamptz,
+  paused_minutes integer NOT NULL DEFAULT 0,
+  resolved_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE request_sla_clocks ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE request_activity ALTER COLUMN user_id DROP NOT NULL;
+
+DROP TRIGGER IF EXISTS on_sla_policies_updated ON sla_policies;
+CREATE TRIGGER on_sla_policies_updated
+  BEFORE UPDATE ON sla_policies
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS on_sla_settings_updated ON sla_settings;
+CREATE TRIGGER on_sla_settings_updated
+  BEFORE UPDATE ON sla_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE OR REPLACE FUNCTION public.validate_sla_settings()
+RETURNS trigger
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone
+      USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_sla_settings_validate ON sla_settings;
+CREATE TRIGGER on_sla_settings_validate
+  BEFORE INSERT OR UPDATE ON sla_settings
+  FOR EACH ROW EXECUTE FUNCTION public.validate_sla_settings();
+
+-- ============================================
+-- STEP 2: POLICIES
+-- ============================================
+
+CREATE POLICY "Team members can read SLA policies"
+  ON sla_policies
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage SLA policies"
+  ON sla_policies
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
+
+CREATE POLICY "Team members can read SLA settings"
+  ON sla_settings
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage SLA settings"
+  ON sla_settings
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
+
+CREATE POLICY "Team members can read SLA holidays"
+  ON sla_holidays
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage SLA holidays"
+  ON sla_holidays
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
+
+CREATE POLICY "Users can read SLA clocks for viewable requests"
+  ON request_sla_clocks
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+-- ============================================
+-- STEP 3: BUSINESS TIME
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.business_minutes_between(p_team_id uuid, p_from timestamptz, p_to timestamptz)
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  settings sla_settings%ROWTYPE;
+  total_seconds numeric;
+BEGIN
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO settings FROM sla_settings WHERE team_id = p_team_id;
+
+  IF NOT FOUND OR NOT settings.business_hours_only THEN
+    RETURN floor(extract(epoch FROM p_to - p_from) / 60)::integer;
+  END IF;
+
+  -- Overlap of [from, to] with each business day's opening hours, in the
+  -- team's time zone so DST changes are handled
+  SELECT COALESCE(sum(extract(epoch FROM LEAST(p_to, w.opens_until) - GREATEST(p_from, w.opens_at))), 0)
+  INTO total_seconds
+  FROM generate_series(
+    (p_from AT TIME ZONE settings.timezone)::date::timestamp,
+    (p_to AT TIME ZONE settings.timezone)::date::timestamp,
+    interval '1 day'
+  ) AS d(day)
+  CROSS JOIN LATERAL (
+    SELECT
+      (d.day::date + settings.day_start) AT TIME ZONE settings.timezone AS opens_at,
+      (d.day::date + settings.day_end) AT TIME ZONE settings.timezone AS opens_until
+  ) w
+  WHERE extract(isodow FROM d.day)::integer = ANY (settings.business_days)
+  AND NOT EXISTS (
+    SELECT 1 FROM sla_holidays h
+    WHERE h.team_id = p_team_id AND h.holiday_date = d.day::date
+  )
+  AND LEAST(p_to, w.opens_until) > GREATEST(p_from, w.opens_at);
+
+  RETURN floor(total_seconds / 60)::integer;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.business_minutes_between(uuid, timestamptz, timestamptz) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.business_minutes_between(uuid, timestamptz, timestamptz) TO authenticated;
+
+-- ============================================
+-- STEP 4: CLOCK TRIGGERS
+-- ============================================
+
+-- Any status change counts as a response. Entering under_review pauses the
+-- clock; leaving it adds the paused business time to paused_minutes.
+CREATE OR REPLACE FUNCTION public.track_request_sla()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO request_sla_clocks (request_id) VALUES (NEW.id)
+    ON CONFLICT (request_id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE request_sla_clocks c
+  SET
+    first_responded_at = COALESCE(c.first_responded_at, now()),
+    paused_minutes = c.paused_minutes + CASE
+      WHEN c.paused_at IS NOT NULL THEN public.business_minutes_between(NEW.team_id, c.paused_at, now())
+      ELSE 0
+    END,
+    paused_at = CASE WHEN NEW.status = 'under_review' THEN now() ELSE NULL END,
+    resolved_at = CASE WHEN NEW.status IN ('completed', 'rejected') THEN now() ELSE NULL END,
+    updated_at = now()
+  WHERE c.request_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_sla_insert ON requests;
+CREATE TRIGGER on_request_sla_insert
+  AFTER INSERT ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.track_request_sla();
+
+DROP TRIGGER IF EXISTS on_request_sla_status ON requests;
+CREATE TRIGGER on_request_sla_status
+  AFTER UPDATE OF status ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.track_request_sla();
+
+CREATE OR REPLACE FUNCTION public.track_comment_first_response()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.visibility <> 'public' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE request_sla_clocks c
+  SET first_responded_at = now(), updated_at = now()
+  FROM requests r
+  WHERE c.request_id = NEW.request_id
+  AND r.id = NEW.request_id
+  AND c.first_responded_at IS NULL
+  AND r.created_by <> NEW.user_id
+  AND public.can_user_view_internal_notes(r.id, NEW.user_id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_comment_first_response ON request_comments;
+CREATE TRIGGER on_comment_first_response
+  AFTER INSERT ON request_comments
+  FOR EACH ROW EXECUTE FUNCTION public.track_comment_first_response();
+
+-- Backfill clocks for existing requests from their history
+INSERT INTO request_sla_clocks (request_id, first_responded_at, paused_at, resolved_at)
+SELECT
+  r.id,
+  (
+    SELECT min(t) FROM (
+      SELECT min(a.created_at) AS t FROM request_activity a
+      WHERE a.request_id = r.id AND a.activity_type = 'status_changed'
+      UNION ALL
+      SELECT min(c.created_at) FROM request_comments c
+      WHERE c.request_id = r.id
+      AND c.visibility = 'public'
+      AND c.user_id <> r.created_by
+      AND public.can_user_view_internal_notes(r.id, c.user_id)
+    ) responses
+  ),
+  CASE WHEN r.status = 'under_review' THEN COALESCE(
+    (SELECT max(a.created_at) FROM request_activity a
+     WHERE a.request_id = r.id AND a.activity_type = 'status_changed' AND a.new_value = 'under_review'),
+    r.updated_at
+  ) END,
+  CASE WHEN r.status IN ('completed', 'rejected') THEN COALESCE(
+    (SELECT max(a.created_at) FROM request_activity a
+     WHERE a.request_id = r.id AND a.activity_type = 'status_changed' AND a.new_value = r.status::text),
+    r.updated_at
+  ) END
+FROM requests r
+ON CONFLICT (request_id) DO NOTHING;
+
+-- ============================================
+-- STEP 5: SLA STATUS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.sla_state(
+  p_target integer,
+  p_elapsed integer,
+  p_done boolean,
+  p_paused boolean,
+  p_at_risk_percent integer
+)
+RETURNS text
+SET search_path = public
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_target IS NULL THEN 'none'
+    WHEN p_elapsed > p_target THEN 'breached'
+    WHEN p_done THEN 'met'
+    WHEN p_paused THEN 'paused'
+    WHEN p_elapsed * 100 >= p_target * p_at_risk_percent THEN 'at_risk'
+    ELSE 'on_track'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_sla_status(p_request_ids uuid[])
+RETURNS TABLE (
+  request_id uuid,
+  first_response_target integer,
+  first_response_elapsed integer,
+  first_response_state text,
+  resolution_target integer,
+  resolution_elapsed integer,
+  resolution_state text,
+  paused boolean
+)
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.id,
+    p.first_response_minutes,
+    fr.elapsed,
+    public.sla_state(
+      p.first_response_minutes, fr.elapsed,
+      c.first_responded_at IS NOT NULL OR c.resolved_at IS NOT NULL, false, COALESCE(s.at_risk_percent, 75)
+    ),
+    p.resolution_minutes,
+    res.elapsed,
+    public.sla_state(p.resolution_minutes, res.elapsed, c.resolved_at IS NOT NULL, c.paused_at IS NOT NULL, COALESCE(s.at_risk_percent, 75)),
+    COALESCE(c.paused_at IS NOT NULL, false)
+  FROM requests r
+  LEFT JOIN request_sla_clocks c ON c.request_id = r.id
+  LEFT JOIN sla_policies p ON p.team_id = r.team_id AND p.priority = r.priority
+  LEFT JOIN sla_settings s ON s.team_id = r.team_id
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN p.team_id IS NOT NULL THEN
+      public.business_minutes_between(r.team_id, r.created_at, COALESCE(c.first_responded_at, c.resolved_at, now()))
+    END AS elapsed
+  ) fr
+  CROSS JOIN LATERAL (
+    SELECT CASE WHEN p.team_id IS NOT NULL THEN GREATEST(0,
+      public.business_minutes_between(r.team_id, r.created_at, COALESCE(c.resolved_at, now()))
+      - COALESCE(c.paused_minutes, 0)
+      - public.business_minutes_between(r.team_id, c.paused_at, COALESCE(c.resolved_at, now()))
+    ) END AS elapsed
+  ) res
+  WHERE r.id = ANY (p_request_ids);
+$$;
+
+REVOKE ALL ON FUNCTION public.request_sla_status(uuid[]) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.request_sla_status(uuid[]) TO authenticated;
+
+-- ============================================
+-- STEP 6: BREACH LOGGING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.record_sla_breaches()
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  recorded integer;
+BEGIN
+  -- Open requests, plus recently closed ones in case they breached between runs
+  WITH candidates AS (
+    SELECT r.id
+    FROM requests r
+    JOIN sla_policies p ON p.team_id = r.team_id AND p.priority = r.priority
+    LEFT JOIN request_sla_clocks c ON c.request_id = r.id
+    WHERE c.resolved_at IS NULL OR c.resolved_at > now() - interval '1 day'
+  ),
+  statuses AS (
+    SELECT * FROM public.request_sla_status(ARRAY(SELECT id FROM candidates))
+  ),
+  breaches AS (
+    SELECT s.request_id, 'first_response' AS metric FROM statuses s WHERE s.first_response_state = 'breached'
+    UNION ALL
+    SELECT s.request_id, 'resolution' FROM statuses s WHERE s.resolution_state = 'breached'
+  ),
+  inserted AS (
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    SELECT b.request_id, NULL, 'sla_breached', r.priority::text, b.metric
+    FROM breaches b
+    JOIN requests r ON r.id = b.request_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM request_activity a
+      WHERE a.request_id = b.request_id
+      AND a.activity_type = 'sla_breached'
+      AND a.new_value = b.metric
+    )
+    RETURNING 1
+  )
+  SELECT count(*) INTO recorded FROM inserted;
+
+  RETURN recorded;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_sla_breaches() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_sla_breaches() TO service_role;
+
+-- ============================================
+-- STEP 7: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_request_activity_sla_breaches
+  ON request_activity(request_id, new_value)
+  WHERE activity_type = 'sla_breached';
+CREATE INDEX IF NOT EXISTS idx_request_sla_clocks_resolved_at ON request_sla_clocks(resolved_at);
@@ -0,0 +1,360 @@
+/*
+  # Due-Date Automation
+
+  ## Overview
+  Scheduled jobs that keep an eye on due dates. Open requests get a reminder
+  a configurable number of days before they are due, are marked overdue once
+  the due date passes, and can have their priority raised automatically
+  (normal -> high -> urgent) by per-team escalation rules. Every automated
+  change is written to `request_activity` with a NULL `user_id`, i.e. by the
+  system rather than a person.
+
+  ## New Tables
+
+  ### `due_date_settings`
+  - One row per team. Without a row, reminders are sent 1 day before due
+  - `reminders_enabled` (boolean) - Send due-soon reminders at all
+  - `reminder_days` (integer) - How many days before the due date to remind
+
+  ### `priority_escalation_rules`
+  - `team_id` (uuid) - References teams.id
+  - `from_priority` / `to_priority` (request_priority) - to must be higher
+  - `condition` (text) - `due_within` (the due date is less than `hours`
+    away) or `overdue_for` (the due date passed more than `hours` ago)
+  - `hours` (integer)
+
+  ### `request_due_date_alerts`
+  - One row per request, maintained by the jobs
+  - `due_date` - The due date the alerts below were raised for. When the
+    request's due date changes the alerts no longer apply and are raised
+    again for the new date
+  - `reminded_at` / `overdue_at` - When the reminder was sent and when the
+    request was marked overdue
+
+  ## Functions
+  All three are called by the `due-dates` job with the service role and are
+  safe to run repeatedly.
+  - `send_due_date_reminders()` - Logs a `due_date_reminder` activity
+    (new_value = due_soon) and notifies the assignee, or the creator when
+    unassigned
+  - `mark_overdue_requests()` - The same with new_value = overdue
+  - `escalate_request_priorities()` - Applies matching escalation rules.
+    The priority change is logged by `log_request_status_change()` with the
+    rule as the note. Each step is applied at most once per request, so a
+    manual downgrade afterwards sticks
+
+  ## Activity Changes
+  - `log_request_status_change()` records `reque.priority_reason` as the note
+    of `priority_changed` activity, like `reque.status_reason` for status
+    changes
+
+  ## Security Notes
+  - Team members can read their team's settings and rules; only team admins
+    can change them
+  - Alerts are written only by the jobs and readable where the request is
+*/
+
+-- ============================================
+-- STEP 1: TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS due_date_settings (
+  team_id uuid PRIMARY KEY REFERENCES teams(id) ON DELETE CASCADE,
+  reminders_enabled boolean NOT NULL DEFAULT true,
+  reminder_days integer NOT NULL DEFAULT 1 CHECK (reminder_days BETWEEN 1 AND 30),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE due_date_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS priority_escalation_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  from_priority request_priority NOT NULL,
+  to_priority request_priority NOT NULL,
+  condition text NOT NULL CHECK (condition IN ('due_within', 'overdue_for')),
+  hours integer NOT NULL CHECK (hours BETWEEN 0 AND 2160),
+  created_at timestamptz DEFAULT now(),
+  CHECK (to_priority > from_priority),
+  UNIQUE (team_id, from_priority, condition, hours)
+);
+
+ALTER TABLE priority_escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS request_due_date_alerts (
+  request_id uuid PRIMARY KEY REFERENCES requests(id) ON DELETE CASCADE,
+  due_date timestamptz NOT NULL,
+  reminded_at timestamptz,
+  overdue_at timestamptz
+);
+
+ALTER TABLE request_due_date_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_due_date_settings_updated ON due_date_settings;
+CREATE TRIGGER on_due_date_settings_updated
+  BEFORE UPDATE ON due_date_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- STEP 2: POLICIES
+-- ============================================
+
+CREATE POLICY "Team members can read due date settings"
+  ON due_date_settings
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage due date settings"
+  ON due_date_settings
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
+
+CREATE POLICY "Team members can read escalation rules"
+  ON priority_escalation_rules
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage escalation rules"
+  ON priority_escalation_rules
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
+
+CREATE POLICY "Users can read due date alerts for viewable requests"
+  ON request_due_date_alerts
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+-- ============================================
+-- STEP 3: ACTIVITY NOTES FOR PRIORITY CHANGES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.log_request_status_change()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value, note)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'status_changed',
+      OLD.status::text,
+      NEW.status::text,
+      NULLIF(btrim(current_setting('reque.status_reason', true)), '')
+    );
+  END IF;
+
+  IF OLD.priority IS DISTINCT FROM NEW.priority THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value, note)
+    VALUES (
+      NEW.id,
+      auth.uid(),
+      'priority_changed',
+      OLD.priority::text,
+      NEW.priority::text,
+      NULLIF(btrim(current_setting('reque.priority_reason', true)), '')
+    );
+  END IF;
+
+  IF OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignment_changed', OLD.assigned_to::text, NEW.assigned_to::text);
+  END IF;
+
+  IF OLD.due_date IS DISTINCT FROM NEW.due_date THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'due_date_changed', OLD.due_date::text, NEW.due_date::text);
+  END IF;
+
+  IF OLD.title IS DISTINCT FROM NEW.title THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'title_changed', OLD.title, NEW.title);
+  END IF;
+
+  IF OLD.description IS DISTINCT FROM NEW.description THEN
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'description_changed', OLD.description, NEW.description);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================
+-- STEP 4: JOBS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.send_due_date_reminders()
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req record;
+  sent integer := 0;
+BEGIN
+  FOR req IN
+    SELECT r.id, r.title, r.due_date, COALESCE(r.assigned_to, r.created_by) AS owner
+    FROM requests r
+    LEFT JOIN due_date_settings s ON s.team_id = r.team_id
+    LEFT JOIN request_due_date_alerts a ON a.request_id = r.id AND a.due_date = r.due_date
+    WHERE r.status NOT IN ('completed', 'rejected')
+    AND r.due_date > now()
+    AND r.due_date <= now() + make_interval(days => COALESCE(s.reminder_days, 1))
+    AND COALESCE(s.reminders_enabled, true)
+    AND a.reminded_at IS NULL
+  LOOP
+    INSERT INTO request_due_date_alerts (request_id, due_date, reminded_at)
+    VALUES (req.id, req.due_date, now())
+    ON CONFLICT (request_id) DO UPDATE
+      SET due_date = EXCLUDED.due_date, reminded_at = EXCLUDED.reminded_at, overdue_at = NULL;
+
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (req.id, NULL, 'due_date_reminder', req.due_date::text, 'due_soon');
+
+    PERFORM public.create_notifications(
+      ARRAY[req.owner],
+      req.id,
+      NULL,
+      'due_reminder',
+      format('"%s" is due soon', req.title)
+    );
+
+    sent := sent + 1;
+  END LOOP;
+
+  RETURN sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.send_due_date_reminders() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.send_due_date_reminders() TO service_role;
+
+CREATE OR REPLACE FUNCTION public.mark_overdue_requests()
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  req record;
+  marked integer := 0;
+BEGIN
+  FOR req IN
+    SELECT r.id, r.title, r.due_date, COALESCE(r.assigned_to, r.created_by) AS owner
+    FROM requests r
+    LEFT JOIN request_due_date_alerts a ON a.request_id = r.id AND a.due_date = r.due_date
+    WHERE r.status NOT IN ('completed', 'rejected')
+    AND r.due_date <= now()
+    AND a.overdue_at IS NULL
+  LOOP
+    INSERT INTO request_due_date_alerts (request_id, due_date, overdue_at)
+    VALUES (req.id, req.due_date, now())
+    ON CONFLICT (request_id) DO UPDATE
+      SET overdue_at = EXCLUDED.overdue_at,
+          reminded_at = CASE
+            WHEN request_due_date_alerts.due_date = EXCLUDED.due_date THEN request_due_date_alerts.reminded_at
+          END,
+          due_date = EXCLUDED.due_date;
+
+    INSERT INTO request_activity (request_id, user_id, activity_type, old_value, new_value)
+    VALUES (req.id, NULL, 'due_date_reminder', req.due_date::text, 'overdue');
+
+    PERFORM public.create_notifications(
+      ARRAY[req.owner],
+      req.id,
+      NULL,
+      'due_reminder',
+      format('"%s" is overdue', req.title)
+    );
+
+    marked := marked + 1;
+  END LOOP;
+
+  RETURN marked;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_overdue_requests() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_overdue_requests() TO service_role;
+
+CREATE OR REPLACE FUNCTION public.escalate_request_priorities()
+RETURNS integer
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  step request_priority;
+  req record;
+  escalated integer := 0;
+BEGIN
+  -- Lowest priority first, so a request can climb several steps in one run
+  -- when more than one rule already applies
+  FOREACH step IN ARRAY enum_range(NULL::request_priority) LOOP
+    FOR req IN
+      SELECT DISTINCT ON (r.id) r.id, e.to_priority, e.condition, e.hours
+      FROM requests r
+      JOIN priority_escalation_rules e ON e.team_id = r.team_id AND e.from_priority = r.priority
+      WHERE r.priority = step
+      AND r.status NOT IN ('completed', 'rejected')
+      AND r.due_date IS NOT NULL
+      AND now() >= CASE e.condition
+        WHEN 'due_within' THEN r.due_date - make_interval(hours => e.hours)
+        ELSE r.due_date + make_interval(hours => e.hours)
+      END
+      AND NOT EXISTS (
+        SELECT 1 FROM request_activity a
+        WHERE a.request_id = r.id
+        AND a.activity_type = 'priority_changed'
+        AND a.user_id IS NULL
+        AND a.old_value = r.priority::text
+        AND a.new_value = e.to_priority::text
+      )
+      ORDER BY r.id, e.to_priority DESC
+    LOOP
+      PERFORM set_config(
+        'reque.priority_reason',
+        CASE req.condition
+          WHEN 'due_within' THEN format('Escalated: due within %s hours', req.hours)
+          WHEN 'overdue_for' THEN
+            CASE WHEN req.hours = 0 THEN 'Escalated: overdue' ELSE format('Escalated: overdue for %s hours', req.hours) END
+        END,
+        true
+      );
+
+      UPDATE requests SET priority = req.to_priority WHERE id = req.id;
+      escalated := escalated + 1;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('reque.priority_reason', '', true);
+  RETURN escalated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.escalate_request_priorities() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_request_priorities() TO service_role;
+
+-- ============================================
+-- STEP 5: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_requests_open_due_date
+  ON requests(due_date)
+  WHERE due_date IS NOT NULL AND status NOT IN ('completed', 'rejected');
+CREATE INDEX IF NOT EXISTS idx_priority_escalation_rules_team_id ON priority_escalation_rules(team_id);
+CREATE INDEX IF NOT EXISTS idx_request_activity_system_priority
+  ON request_activity(request_id)
+  WHERE activity_type = 'priority_changed' AND user_id IS NULL;
@@ -0,0 +1,57 @@
+/*
+  # Board WIP Limits
+
+  ## Overview
+  The request board shows one column per status. Teams can set a
+  work-in-progress limit per column; the board warns when a column holds
+  more requests than its limit. Limits are advisory and never block a
+  status change.
+
+  ## New Tables
+
+  ### `board_wip_limits`
+  - `team_id` (uuid) - References teams.id
+  - `status` (request_status)
+  - `wip_limit` (integer) - Maximum number of requests in the column
+  - Primary key (team_id, status); a missing row means no limit
+
+  ## Security Notes
+  - Team members can read their team's limits; only team admins can change
+    them
+*/
+
+-- ============================================
+-- STEP 1: TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS board_wip_limits (
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  status request_status NOT NULL,
+  wip_limit integer NOT NULL CHECK (wip_limit BETWEEN 1 AND 1000),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (team_id, status)
+);
+
+ALTER TABLE board_wip_limits ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_board_wip_limits_updated ON board_wip_limits;
+CREATE TRIGGER on_board_wip_limits_updated
+  BEFORE UPDATE ON board_wip_limits
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- STEP 2: POLICIES
+-- ============================================
+
+CREATE POLICY "Team members can read WIP limits"
+  ON board_wip_limits
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage WIP limits"
+  ON board_wip_limits
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
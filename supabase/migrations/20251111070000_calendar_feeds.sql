@@ -0,0 +1,121 @@
+/*
+  # Calendar Feeds
+
+  ## Overview
+  Every user can subscribe to their deadlines from an external calendar app
+  (Google Calendar, Outlook, Apple Calendar) through a private ICS feed URL.
+  The URL contains a secret token instead of a session, since calendar apps
+  cannot sign in. Resetting the token invalidates the old URL.
+
+  ## New Tables
+
+  ### `calendar_feed_tokens`
+  - `user_id` (uuid, primary key) - References profiles.id
+  - `token` (text, unique) - Secret part of the feed URL
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `reset_calendar_feed_token()` - Creates or replaces the caller's token
+    and returns it
+  - `calendar_feed_requests(p_token)` - Requests with a due date that the
+    token's owner created, is assigned to or watches, and can still see.
+    Called by `/api/calendar/<token>` with the service role
+
+  ## Security Notes
+  - Users can only read and delete their own token
+  - Tokens of deactivated users return no requests
+  - Feeds include requests due from 90 days ago onwards, so they stay small
+*/
+
+-- ============================================
+-- STEP 1: TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- STEP 2: POLICIES
+-- ============================================
+
+CREATE POLICY "Users can read own calendar feed token"
+  ON calendar_feed_tokens
+  FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete own calendar feed token"
+  ON calendar_feed_tokens
+  FOR DELETE
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+-- ============================================
+-- STEP 3: FUNCTIONS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.reset_calendar_feed_token()
+RETURNS text
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_token text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Two random UUIDs give 244 random bits
+  new_token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+  INSERT INTO calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token, created_at = now();
+
+  RETURN new_token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reset_calendar_feed_token() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.reset_calendar_feed_token() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.calendar_feed_requests(p_token text)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  description text,
+  status request_status,
+  priority request_priority,
+  due_date timestamptz,
+  updated_at timestamptz
+)
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r.id, r.title, r.description, r.status, r.priority, r.due_date, r.updated_at
+  FROM calendar_feed_tokens t
+  JOIN profiles p ON p.id = t.user_id AND p.deactivated_at IS NULL
+  JOIN requests r ON (
+    r.created_by = t.user_id
+    OR r.assigned_to = t.user_id
+    OR EXISTS (SELECT 1 FROM request_watchers w WHERE w.request_id = r.id AND w.user_id = t.user_id)
+  )
+  WHERE t.token = p_token
+  AND r.due_date >= now() - interval '90 days'
+  AND public.can_user_view_request(r.id, t.user_id)
+  ORDER BY r.due_date;
+$$;
+
+REVOKE ALL ON FUNCTION public.calendar_feed_requests(text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calendar_feed_requests(text) TO service_role;
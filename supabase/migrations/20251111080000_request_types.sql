@@ -0,0 +1,426 @@
+/*
+  # Request Types and Custom Intake Fields
+
+  ## Overview
+  Team admins define request types (e.g. "Access request", "Bug report",
+  "Purchase"). Each type carries its own intake fields plus a default
+  priority and an optional default assignee. The New Request form renders
+  the chosen type's fields; answers are stored per field in typed columns so
+  numbers and dates stay comparable.
+
+  ## New Tables
+
+  ### `request_types`
+  - `id` (uuid, primary key)
+  - `team_id` (uuid) - References teams.id
+  - `name` (text) - Unique per team, case-insensitive
+  - `description` (text, nullable) - Shown under the type picker
+  - `default_priority` (request_priority) - Preselected on the form
+  - `default_assignee` (uuid, nullable) - References profiles.id
+  - `is_active` (boolean) - Inactive types are hidden from the form but keep
+    their requests and answers
+  - `position` (integer) - Order in the type picker
+
+  ### `request_type_fields`
+  - `id` (uuid, primary key)
+  - `request_type_id` (uuid) - References request_types.id
+  - `label` (text)
+  - `field_type` (text) - text, number, select, date or checkbox
+  - `required` (boolean) - A required checkbox must be ticked
+  - `options` (text[]) - Choices for select fields
+  - `help_text` (text, nullable)
+  - `position` (integer) - Order on the form
+
+  ### `request_field_values`
+  - `request_id` (uuid) - References requests.id
+  - `field_id` (uuid) - References request_type_fields.id
+  - `value_text` / `value_number` / `value_date` / `value_boolean` - Exactly
+    one is set, matching the field's type
+  - Primary key (request_id, field_id)
+
+  ## Modified Tables
+  - `requests.request_type_id` (uuid, nullable) - References
+    request_types.id; cleared if the type is deleted
+
+  ## Functions
+  - `can_edit_request(request_id)` - Mirrors the requests UPDATE policy
+  - `set_request_field_values(request_id, values)` - Saves a request's
+    answers from a `{ field_id: value }` object and enforces required fields
+  - `create_request(...)` - Inserts a request and its answers in one
+    transaction, so a rejected answer never leaves a half-created request
+
+  ## Security Notes
+  - Team members can read their team's types and fields; only team admins
+    can change them
+  - Answers are readable by anyone who can see the request and writable by
+    anyone who can edit it. A trigger checks every answer against its field:
+    the field must belong to the request's type, the value must match the
+    field type and select values must be one of the options
+  - The default assignee is applied by a SECURITY DEFINER trigger that runs
+    after `validate_request_assignment()` (triggers fire in name order), so
+    requesters who cannot assign anyone still get routed. It only applies
+    while the default assignee is still admin or team_member in the team
+*/
+
+-- ============================================
+-- STEP 1: TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS request_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  description text,
+  default_priority request_priority NOT NULL DEFAULT 'normal',
+  default_assignee uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_request_types_team_name
+  ON request_types(team_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS request_type_fields (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_type_id uuid NOT NULL REFERENCES request_types(id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (length(btrim(label)) BETWEEN 1 AND 100),
+  field_type text NOT NULL CHECK (field_type IN ('text', 'number', 'select', 'date', 'checkbox')),
+  required boolean NOT NULL DEFAULT false,
+  options text[] NOT NULL DEFAULT '{}',
+  help_text text,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK (field_type <> 'select' OR cardinality(options) > 0)
+);
+
+ALTER TABLE requests
+  ADD COLUMN IF NOT EXISTS request_type_id uuid REFERENCES request_types(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS request_field_values (
+  request_id uuid NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  field_id uuid NOT NULL REFERENCES request_type_fields(id) ON DELETE CASCADE,
+  value_text text,
+  value_number numeric,
+  value_date date,
+  value_boolean boolean,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (request_id, field_id),
+  CHECK (num_nonnulls(value_text, value_number, value_date, value_boolean) = 1)
+);
+
+ALTER TABLE request_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE request_type_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE request_field_values ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_request_types_updated ON request_types;
+CREATE TRIGGER on_request_types_updated
+  BEFORE UPDATE ON request_types
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+DROP TRIGGER IF EXISTS on_request_field_values_updated ON request_field_values;
+CREATE TRIGGER on_request_field_values_updated
+  BEFORE UPDATE ON request_field_values
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- STEP 2: HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.can_edit_request(p_request_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM requests r
+    CROSS JOIN LATERAL (SELECT public.team_role_of(r.team_id, auth.uid()) AS role) t
+    WHERE r.id = p_request_id
+    AND (
+      t.role = 'admin'
+      OR (t.role = 'team_member' AND r.assigned_to = auth.uid())
+      OR (t.role IS NOT NULL AND r.created_by = auth.uid())
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_edit_request(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.can_edit_request(uuid) TO authenticated;
+
+-- ============================================
+-- STEP 3: POLICIES
+-- ============================================
+
+CREATE POLICY "Team members can read request types"
+  ON request_types
+  FOR SELECT
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) IS NOT NULL);
+
+CREATE POLICY "Team admins can manage request types"
+  ON request_types
+  FOR ALL
+  TO authenticated
+  USING (public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  WITH CHECK (public.team_role_of(team_id, (select auth.uid())) = 'admin');
+
+CREATE POLICY "Team members can read request type fields"
+  ON request_type_fields
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM request_types t
+      WHERE t.id = request_type_fields.request_type_id
+      AND public.team_role_of(t.team_id, (select auth.uid())) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Team admins can manage request type fields"
+  ON request_type_fields
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM request_types t
+      WHERE t.id = request_type_fields.request_type_id
+      AND public.team_role_of(t.team_id, (select auth.uid())) = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM request_types t
+      WHERE t.id = request_type_fields.request_type_id
+      AND public.team_role_of(t.team_id, (select auth.uid())) = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can read field values of accessible requests"
+  ON request_field_values
+  FOR SELECT
+  TO authenticated
+  USING ((select public.can_view_request(request_id)));
+
+CREATE POLICY "Users can insert field values of editable requests"
+  ON request_field_values
+  FOR INSERT
+  TO authenticated
+  WITH CHECK ((select public.can_edit_request(request_id)));
+
+CREATE POLICY "Users can update field values of editable requests"
+  ON request_field_values
+  FOR UPDATE
+  TO authenticated
+  USING ((select public.can_edit_request(request_id)))
+  WITH CHECK ((select public.can_edit_request(request_id)));
+
+CREATE POLICY "Users can delete field values of editable requests"
+  ON request_field_values
+  FOR DELETE
+  TO authenticated
+  USING ((select public.can_edit_request(request_id)));
+
+-- ============================================
+-- STEP 4: VALIDATION AND DEFAULTS
+-- ============================================
+
+-- Type must belong to the request's team and be active when first chosen;
+-- the default assignee fills an empty assignee on new requests
+CREATE OR REPLACE FUNCTION public.apply_request_type_defaults()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_type request_types%ROWTYPE;
+BEGIN
+  IF NEW.request_type_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_type FROM request_types WHERE id = NEW.request_type_id;
+
+  IF NOT FOUND OR v_type.team_id <> NEW.team_id THEN
+    RAISE EXCEPTION 'Request type does not belong to the request''s team'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR OLD.request_type_id IS DISTINCT FROM NEW.request_type_id THEN
+    IF NOT v_type.is_active THEN
+      RAISE EXCEPTION 'Request type "%" is no longer available', v_type.name
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    AND NEW.assigned_to IS NULL
+    AND v_type.default_assignee IS NOT NULL
+    AND public.team_role_of(NEW.team_id, v_type.default_assignee) IN ('admin', 'team_member') THEN
+    NEW.assigned_to := v_type.default_assignee;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_type_defaults ON requests;
+CREATE TRIGGER on_request_type_defaults
+  BEFORE INSERT OR UPDATE OF request_type_id, team_id ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.apply_request_type_defaults();
+
+CREATE OR REPLACE FUNCTION public.validate_request_field_value()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_field request_type_fields%ROWTYPE;
+BEGIN
+  SELECT f.* INTO v_field
+  FROM request_type_fields f
+  JOIN requests r ON r.request_type_id = f.request_type_id
+  WHERE f.id = NEW.field_id AND r.id = NEW.request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Field does not belong to the request''s type'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (v_field.field_type IN ('text', 'select') AND NEW.value_text IS NULL)
+    OR (v_field.field_type = 'number' AND NEW.value_number IS NULL)
+    OR (v_field.field_type = 'date' AND NEW.value_date IS NULL)
+    OR (v_field.field_type = 'checkbox' AND NEW.value_boolean IS NULL) THEN
+    RAISE EXCEPTION 'Value does not match the type of field "%"', v_field.label
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_field.field_type = 'select' AND NOT (NEW.value_text = ANY (v_field.options)) THEN
+    RAISE EXCEPTION '"%" is not an option for field "%"', NEW.value_text, v_field.label
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_field_value_change ON request_field_values;
+CREATE TRIGGER on_request_field_value_change
+  BEFORE INSERT OR UPDATE ON request_field_values
+  FOR EACH ROW EXECUTE FUNCTION public.validate_request_field_value();
+
+-- ============================================
+-- STEP 5: SAVING ANSWERS
+-- ============================================
+
+-- p_values maps field ids to JSON values: strings for text, select and
+-- date (YYYY-MM-DD), numbers and booleans as-is. Missing or blank answers
+-- clear the field; checkboxes are always stored
+CREATE OR REPLACE FUNCTION public.set_request_field_values(p_request_id uuid, p_values jsonb)
+RETURNS void
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_field request_type_fields%ROWTYPE;
+  v_value jsonb;
+  v_text text;
+BEGIN
+  IF NOT public.can_edit_request(p_request_id) THEN
+    RAISE EXCEPTION 'You cannot edit this request'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_field IN
+    SELECT f.* FROM request_type_fields f
+    JOIN requests r ON r.request_type_id = f.request_type_id
+    WHERE r.id = p_request_id
+    ORDER BY f.position
+  LOOP
+    v_value := COALESCE(p_values, '{}'::jsonb) -> v_field.id::text;
+    v_text := NULLIF(btrim(v_value #>> '{}'), '');
+
+    IF v_field.field_type = 'checkbox' THEN
+      v_text := COALESCE(v_text, 'false');
+      IF v_field.required AND NOT v_text::boolean THEN
+        RAISE EXCEPTION '% must be checked', v_field.label
+          USING ERRCODE = 'check_violation';
+      END IF;
+    ELSIF v_text IS NULL THEN
+      IF v_field.required THEN
+        RAISE EXCEPTION '% is required', v_field.label
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      DELETE FROM request_field_values
+      WHERE request_id = p_request_id AND field_id = v_field.id;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO request_field_values (request_id, field_id, value_text, value_number, value_date, value_boolean)
+    VALUES (
+      p_request_id,
+      v_field.id,
+      CASE WHEN v_field.field_type IN ('text', 'select') THEN v_text END,
+      CASE WHEN v_field.field_type = 'number' THEN v_text::numeric END,
+      CASE WHEN v_field.field_type = 'date' THEN v_text::date END,
+      CASE WHEN v_field.field_type = 'checkbox' THEN v_text::boolean END
+    )
+    ON CONFLICT (request_id, field_id) DO UPDATE SET
+      value_text = EXCLUDED.value_text,
+      value_number = EXCLUDED.value_number,
+      value_date = EXCLUDED.value_date,
+      value_boolean = EXCLUDED.value_boolean;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_request_field_values(uuid, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.set_request_field_values(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_request(
+  p_team_id uuid,
+  p_title text,
+  p_description text,
+  p_priority request_priority,
+  p_due_date timestamptz,
+  p_project_id uuid,
+  p_request_type_id uuid,
+  p_field_values jsonb
+)
+RETURNS requests
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_request requests%ROWTYPE;
+BEGIN
+  INSERT INTO requests (team_id, title, description, priority, status, due_date, created_by, project_id, request_type_id)
+  VALUES (p_team_id, p_title, p_description, p_priority, 'new', p_due_date, auth.uid(), p_project_id, p_request_type_id)
+  RETURNING * INTO v_request;
+
+  IF p_request_type_id IS NOT NULL THEN
+    PERFORM public.set_request_field_values(v_request.id, p_field_values);
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_request(uuid, text, text, request_priority, timestamptz, uuid, uuid, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.create_request(uuid, text, text, request_priority, timestamptz, uuid, uuid, jsonb) TO authenticated;
+
+-- ============================================
+-- STEP 6: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_request_types_default_assignee ON request_types(default_assignee);
+CREATE INDEX IF NOT EXISTS idx_request_type_fields_type ON request_type_fields(request_type_id, position);
+CREATE INDEX IF NOT EXISTS idx_request_field_values_field ON request_field_values(field_id);
+CREATE INDEX IF NOT EXISTS idx_requests_request_type_id ON requests(request_type_id);
@@ -0,0 +1,147 @@
+/*
+  # Custom Field Filters and List Layouts
+
+  ## Overview
+  Request lists can filter on the answers to request type fields and show
+  them as columns. Each user picks the columns of their lists per team; the
+  choice is saved so it follows them across devices.
+
+  ## New Tables
+
+  ### `request_list_layouts`
+  - `user_id` (uuid) - References profiles.id
+  - `team_id` (uuid) - References teams.id
+  - `columns` (text[]) - Visible optional columns in order: built-in keys
+    (status, priority, due_date, sla, created_at) or `field:<field id>`
+  - Primary key (user_id, team_id)
+
+  ## Functions
+  - `request_field_matches(request_id, request_type_id, filter)` - Whether a
+    request satisfies one field filter: `{ field, op, value, from, to }`
+    where op is eq, contains, range or empty
+  - `filter_requests_by_fields(team_id, filters)` - The team's requests
+    matching every filter in a JSON array. Returns `SETOF requests`, so the
+    list's usual filters, sorting, paging and counts apply on top of it
+
+  ## Security Notes
+  - Layouts are private to their owner
+  - Both functions are SECURITY INVOKER: the requests and answers they read
+    are limited by the caller's RLS policies
+*/
+
+-- ============================================
+-- STEP 1: LIST LAYOUTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS request_list_layouts (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  columns text[] NOT NULL DEFAULT '{}' CHECK (cardinality(columns) <= 50),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, team_id)
+);
+
+ALTER TABLE request_list_layouts ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_request_list_layouts_updated ON request_list_layouts;
+CREATE TRIGGER on_request_list_layouts_updated
+  BEFORE UPDATE ON request_list_layouts
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE POLICY "Users can manage own list layouts"
+  ON request_list_layouts
+  FOR ALL
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND public.team_role_of(team_id, (select auth.uid())) IS NOT NULL
+  );
+
+-- ============================================
+-- STEP 2: FIELD FILTERS
+-- ============================================
+
+-- "empty" only matches requests whose type has the field, so filtering on
+-- a Purchase field does not pull in every Bug report
+CREATE OR REPLACE FUNCTION public.request_field_matches(
+  p_request_id uuid,
+  p_request_type_id uuid,
+  p_filter jsonb
+)
+RETURNS boolean
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_filter->>'op'
+    WHEN 'empty' THEN
+      EXISTS (
+        SELECT 1 FROM request_type_fields d
+        WHERE d.id = (p_filter->>'field')::uuid AND d.request_type_id = p_request_type_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM request_field_values v
+        WHERE v.request_id = p_request_id AND v.field_id = (p_filter->>'field')::uuid
+      )
+    ELSE EXISTS (
+      SELECT 1 FROM request_field_values v
+      JOIN request_type_fields d ON d.id = v.field_id
+      WHERE v.request_id = p_request_id
+      AND v.field_id = (p_filter->>'field')::uuid
+      AND CASE p_filter->>'op'
+        WHEN 'eq' THEN
+          CASE d.field_type
+            WHEN 'number' THEN v.value_number = (p_filter->>'value')::numeric
+            WHEN 'date' THEN v.value_date = (p_filter->>'value')::date
+            WHEN 'checkbox' THEN v.value_boolean = (p_filter->>'value')::boolean
+            ELSE lower(v.value_text) = lower(p_filter->>'value')
+          END
+        WHEN 'contains' THEN
+          v.value_text ILIKE '%' || replace(replace(replace(p_filter->>'value', '\', '\\'), '%', '\%'), '_', '\_') || '%'
+        WHEN 'range' THEN
+          CASE d.field_type
+            WHEN 'number' THEN
+              (p_filter->>'from' IS NULL OR v.value_number >= (p_filter->>'from')::numeric)
+              AND (p_filter->>'to' IS NULL OR v.value_number <= (p_filter->>'to')::numeric)
+            WHEN 'date' THEN
+              (p_filter->>'from' IS NULL OR v.value_date >= (p_filter->>'from')::date)
+              AND (p_filter->>'to' IS NULL OR v.value_date <= (p_filter->>'to')::date)
+            ELSE false
+          END
+        ELSE false
+      END
+    )
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_field_matches(uuid, uuid, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.request_field_matches(uuid, uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.filter_requests_by_fields(p_team_id uuid, p_filters jsonb)
+RETURNS SETOF requests
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r.* FROM requests r
+  WHERE r.team_id = p_team_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_filters, '[]'::jsonb)) f
+    WHERE NOT public.request_field_matches(r.id, r.request_type_id, f)
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.filter_requests_by_fields(uuid, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.filter_requests_by_fields(uuid, jsonb) TO authenticated;
+
+-- ============================================
+-- STEP 3: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_request_list_layouts_team_id ON request_list_layouts(team_id);
+CREATE INDEX IF NOT EXISTS idx_request_field_values_field_text ON request_field_values(field_id, lower(value_text));
+CREATE INDEX IF NOT EXISTS idx_request_field_values_field_number ON request_field_values(field_id, value_number);
+CREATE INDEX IF NOT EXISTS idx_request_field_values_field_date ON request_field_values(field_id, value_date);
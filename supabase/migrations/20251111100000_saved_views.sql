@@ -0,0 +1,199 @@
+/*
+  # Saved Views
+
+  ## Overview
+  Named request list views ("Urgent unassigned", "My overdue", ...). A view
+  stores the list's filters and sort as the same query string request lists
+  use in their URL, plus an optional column layout. Views are personal or
+  shared with the team. Each user can pin views into the sidebar and pick
+  one as the page they land on after signing in.
+
+  ## New Tables
+
+  ### `saved_views`
+  - `id` (uuid, primary key)
+  - `team_id` (uuid) - References teams.id
+  - `owner_id` (uuid) - References profiles.id
+  - `name` (text) - Unique per owner and team, case-insensitive
+  - `visibility` (text) - personal or shared
+  - `query` (text) - Filter and sort query string, e.g.
+    `priority=urgent&assignee=unassigned&sort=due_date&dir=asc`
+  - `columns` (text[], nullable) - Column layout; NULL uses the viewer's own
+
+  ### `saved_view_preferences`
+  - `user_id` (uuid) - References profiles.id
+  - `view_id` (uuid) - References saved_views.id
+  - `pinned` (boolean) - Shown in the sidebar's ReQue section
+  - `is_default` (boolean) - Landing page after sign-in; at most one per user
+  - `position` (integer) - Order among pinned views
+
+  ## Security Notes
+  - Personal views are only visible to their owner; shared views to the
+    whole team. Anyone in the team can share a view; only its owner or a team
+    admin can change or delete a shared view
+  - Preferences are private and can only point at views the user can see
+  - Both tables are added to the `supabase_realtime` publication so the
+    sidebar follows pins and renames made on other pages
+*/
+
+-- ============================================
+-- STEP 1: TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 80),
+  visibility text NOT NULL DEFAULT 'personal' CHECK (visibility IN ('personal', 'shared')),
+  query text NOT NULL DEFAULT '' CHECK (length(query) <= 4000),
+  columns text[] CHECK (columns IS NULL OR cardinality(columns) <= 50),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_views_owner_name
+  ON saved_views(team_id, owner_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS saved_view_preferences (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  view_id uuid NOT NULL REFERENCES saved_views(id) ON DELETE CASCADE,
+  pinned boolean NOT NULL DEFAULT false,
+  is_default boolean NOT NULL DEFAULT false,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, view_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_view_preferences_default
+  ON saved_view_preferences(user_id) WHERE is_default;
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_view_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS on_saved_views_updated ON saved_views;
+CREATE TRIGGER on_saved_views_updated
+  BEFORE UPDATE ON saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ============================================
+-- STEP 2: HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.can_view_saved_view(p_view_id uuid)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM saved_views v
+    WHERE v.id = p_view_id
+    AND public.team_role_of(v.team_id, auth.uid()) IS NOT NULL
+    AND (v.owner_id = auth.uid() OR v.visibility = 'shared')
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.can_view_saved_view(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_saved_view(uuid) TO authenticated;
+
+-- ============================================
+-- STEP 3: POLICIES
+-- ============================================
+
+CREATE POLICY "Users can read own and shared views"
+  ON saved_views
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.team_role_of(team_id, (select auth.uid())) IS NOT NULL
+    AND (owner_id = (select auth.uid()) OR visibility = 'shared')
+  );
+
+CREATE POLICY "Team members can create views"
+  ON saved_views
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = (select auth.uid())
+    AND public.team_role_of(team_id, (select auth.uid())) IS NOT NULL
+  );
+
+CREATE POLICY "Owners and team admins can update views"
+  ON saved_views
+  FOR UPDATE
+  TO authenticated
+  USING (
+    (owner_id = (select auth.uid()) AND public.team_role_of(team_id, (select auth.uid())) IS NOT NULL)
+    OR (visibility = 'shared' AND public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  )
+  WITH CHECK (
+    (owner_id = (select auth.uid()) AND public.team_role_of(team_id, (select auth.uid())) IS NOT NULL)
+    OR (visibility = 'shared' AND public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  );
+
+CREATE POLICY "Owners and team admins can delete views"
+  ON saved_views
+  FOR DELETE
+  TO authenticated
+  USING (
+    owner_id = (select auth.uid())
+    OR (visibility = 'shared' AND public.team_role_of(team_id, (select auth.uid())) = 'admin')
+  );
+
+CREATE POLICY "Users can manage own view preferences"
+  ON saved_view_preferences
+  FOR ALL
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND (select public.can_view_saved_view(view_id))
+  );
+
+-- A view made personal again drops out of other users' sidebars
+CREATE OR REPLACE FUNCTION public.clear_unshared_view_preferences()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.visibility = 'shared' AND NEW.visibility = 'personal' THEN
+    DELETE FROM saved_view_preferences
+    WHERE view_id = NEW.id AND user_id <> NEW.owner_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_saved_view_visibility_change ON saved_views;
+CREATE TRIGGER on_saved_view_visibility_change
+  AFTER UPDATE OF visibility ON saved_views
+  FOR EACH ROW EXECUTE FUNCTION public.clear_unshared_view_preferences();
+
+-- ============================================
+-- STEP 4: REALTIME
+-- ============================================
+
+DO $$
+DECLARE
+  tbl text;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['saved_views', 'saved_view_preferences'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = tbl
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', tbl);
+    END IF;
+  END LOOP;
+END $$;
+
+-- ============================================
+-- STEP 5: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_owner_id ON saved_views(owner_id);
+CREATE INDEX IF NOT EXISTS idx_saved_view_preferences_view_id ON saved_view_preferences(view_id);
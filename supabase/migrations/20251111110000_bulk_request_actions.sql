@@ -0,0 +1,149 @@
+/*
+  # Bulk Request Actions
+
+  ## Overview
+  Request lists can now select many requests and change their status,
+  priority, assignee or due date, or delete them, in one go. Every request is
+  handled on its own: a request the caller may not edit, or whose change is
+  rejected by a trigger (invalid status transition, assignee outside the
+  team, ...), fails without stopping the others.
+
+  ## New Functions
+
+  ### `bulk_update_requests(p_request_ids, p_action, p_value, p_reason)`
+  - `p_action` is one of:
+    - `status`    - `p_value` is the new status; `p_reason` is passed to the
+                    status state machine for rejections and reopens
+    - `priority`  - `p_value` is the new priority
+    - `assign`    - `p_value` is the new assignee, NULL to unassign
+    - `shift_due` - `p_value` is a number of days, negative to move earlier;
+                    requests without a due date are left alone
+    - `delete`
+  - Returns one row per request: `outcome` is `updated`, `unchanged` or
+    `failed`, with the error in `message` for failures
+  - Each request runs in its own subtransaction, so a failure rolls back only
+    that request
+  - At most 1000 requests per call
+
+  ## Activity
+  Changes go through plain UPDATEs on `requests` (`assign_request()` for
+  reassignments), so the existing `log_request_status_change()` trigger
+  writes exactly one `request_activity` entry per updated request, the same
+  entry a single edit would. Requests left unchanged get no entry. Deleted
+  requests take their activity with them.
+
+  ## Security Notes
+  - SECURITY INVOKER: the `requests` UPDATE and DELETE policies, the
+    `assign_request()` role check and every existing trigger apply per
+    request, exactly as for single edits
+  - Rows hidden from or not editable by the caller are reported as failed
+*/
+
+-- ============================================
+-- STEP 1: BULK UPDATE RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.bulk_update_requests(
+  p_request_ids uuid[],
+  p_action text,
+  p_value text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS TABLE (request_id uuid, outcome text, message text)
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  rid uuid;
+  target requests%ROWTYPE;
+  new_status request_status;
+  new_priority request_priority;
+  new_assignee uuid;
+  shift_days integer;
+BEGIN
+  IF p_action NOT IN ('status', 'priority', 'assign', 'shift_due', 'delete') THEN
+    RAISE EXCEPTION 'Unknown bulk action %', p_action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF cardinality(p_request_ids) > 1000 THEN
+    RAISE EXCEPTION 'At most 1000 requests can be changed at once'
+      USING ERRCODE = 'program_limit_exceeded';
+  END IF;
+
+  -- Parse the value once so a bad one fails the call, not every row
+  IF p_action = 'status' THEN
+    new_status := p_value::request_status;
+  ELSIF p_action = 'priority' THEN
+    new_priority := p_value::request_priority;
+  ELSIF p_action = 'assign' THEN
+    new_assignee := NULLIF(p_value, '')::uuid;
+  ELSIF p_action = 'shift_due' THEN
+    shift_days := p_value::integer;
+  END IF;
+
+  PERFORM set_config('reque.status_reason', COALESCE(p_reason, ''), true);
+
+  FOREACH rid IN ARRAY p_request_ids LOOP
+    request_id := rid;
+    outcome := 'updated';
+    message := NULL;
+
+    BEGIN
+      SELECT * INTO target FROM requests r WHERE r.id = rid;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Request not found'
+          USING ERRCODE = 'no_data_found';
+      END IF;
+
+      IF p_action = 'status' THEN
+        IF target.status = new_status THEN
+          outcome := 'unchanged';
+        ELSE
+          UPDATE requests r SET status = new_status WHERE r.id = rid;
+        END IF;
+      ELSIF p_action = 'priority' THEN
+        IF target.priority = new_priority THEN
+          outcome := 'unchanged';
+        ELSE
+          UPDATE requests r SET priority = new_priority WHERE r.id = rid;
+        END IF;
+      ELSIF p_action = 'assign' THEN
+        IF target.assigned_to IS NOT DISTINCT FROM new_assignee THEN
+          outcome := 'unchanged';
+        ELSE
+          PERFORM public.assign_request(rid, new_assignee);
+        END IF;
+      ELSIF p_action = 'shift_due' THEN
+        IF target.due_date IS NULL OR shift_days = 0 THEN
+          outcome := 'unchanged';
+        ELSE
+          UPDATE requests r
+          SET due_date = r.due_date + make_interval(days => shift_days)
+          WHERE r.id = rid;
+        END IF;
+      ELSE
+        DELETE FROM requests r WHERE r.id = rid;
+      END IF;
+
+      -- RLS filters rows silently; an update that touched nothing was denied
+      IF outcome = 'updated' AND NOT FOUND THEN
+        RAISE EXCEPTION 'You do not have permission to change this request'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      outcome := 'failed';
+      message := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+
+  PERFORM set_config('reque.status_reason', '', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.bulk_update_requests(uuid[], text, text, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.bulk_update_requests(uuid[], text, text, text) TO authenticated;
@@ -0,0 +1,128 @@
+/*
+  # Request Import
+
+  ## Overview
+  Team admins can import requests from a CSV or XLSX export of another
+  tracker. The file is parsed, mapped and validated in the browser; this
+  migration adds the RPC that inserts the validated rows in batches.
+
+  ## New Functions
+
+  ### `import_requests(p_team_id, p_source, p_rows)`
+  - `p_source` (text) - Where the rows came from, usually the file name
+  - `p_rows` (jsonb) - Array of at most 500 objects:
+    `{ row, title, description, status, priority, due_date, assigned_to, created_by }`
+    where `row` is the row number in the file and `assigned_to` and
+    `created_by` are profile ids the client matched by email
+  - Returns one row per input row with the new request id, or the error
+    that kept it out
+  - Each row is inserted in its own subtransaction, so one bad row does not
+    fail the batch
+  - Imported requests keep their status as given; the status state machine
+    only governs later changes
+  - Completed and rejected requests were already handled in the old tracker,
+    so both of their SLA clocks are stopped at the time of the import
+
+  ## Activity
+  Besides the usual `request_created` entry, every imported request gets a
+  `request_imported` entry by the importing admin, with the source and row
+  number in `new_value`, e.g. `tracker.xlsx, row 12`.
+
+  ## Security Notes
+  - SECURITY DEFINER so requests can be created on behalf of their original
+    creators. Only admins of `p_team_id` may call it, and creators must be
+    members of that team
+  - Assignees go through the existing assignment validation trigger
+*/
+
+-- ============================================
+-- STEP 1: IMPORT RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.import_requests(
+  p_team_id uuid,
+  p_source text,
+  p_rows jsonb
+)
+RETURNS TABLE (row_number integer, request_id uuid, error text)
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  caller_id uuid := auth.uid();
+  source text := NULLIF(btrim(p_source), '');
+  item jsonb;
+  creator_id uuid;
+  imported_status request_status;
+BEGIN
+  IF public.team_role_of(p_team_id, caller_id) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only team admins can import requests'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF source IS NULL OR length(source) > 255 THEN
+    RAISE EXCEPTION 'An import source of at most 255 characters is required'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF jsonb_typeof(p_rows) IS DISTINCT FROM 'array' OR jsonb_array_length(p_rows) > 500 THEN
+    RAISE EXCEPTION 'Rows must be an array of at most 500 items'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    row_number := NULL;
+    request_id := NULL;
+    error := NULL;
+
+    BEGIN
+      row_number := (item->>'row')::integer;
+      creator_id := COALESCE(NULLIF(item->>'created_by', '')::uuid, caller_id);
+
+      IF public.team_role_of(p_team_id, creator_id) IS NULL THEN
+        RAISE EXCEPTION 'The creator is not a member of this team'
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      IF NULLIF(btrim(item->>'title'), '') IS NULL THEN
+        RAISE EXCEPTION 'A title is required'
+          USING ERRCODE = 'not_null_violation';
+      END IF;
+
+      INSERT INTO requests (team_id, title, description, status, priority, due_date, assigned_to, created_by)
+      VALUES (
+        p_team_id,
+        btrim(item->>'title'),
+        NULLIF(btrim(item->>'description'), ''),
+        COALESCE(NULLIF(item->>'status', '')::request_status, 'new'),
+        COALESCE(NULLIF(item->>'priority', '')::request_priority, 'normal'),
+        NULLIF(item->>'due_date', '')::timestamptz,
+        NULLIF(item->>'assigned_to', '')::uuid,
+        creator_id
+      )
+      RETURNING id, status INTO request_id, imported_status;
+
+      IF imported_status IN ('completed', 'rejected') THEN
+        UPDATE request_sla_clocks c
+        SET
+          first_responded_at = COALESCE(c.first_responded_at, now()),
+          resolved_at = now(),
+          updated_at = now()
+        WHERE c.request_id = import_requests.request_id;
+      END IF;
+
+      INSERT INTO request_activity (request_id, user_id, activity_type, new_value)
+      VALUES (request_id, caller_id, 'request_imported', format('%s, row %s', source, row_number));
+    EXCEPTION WHEN OTHERS THEN
+      request_id := NULL;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.import_requests(uuid, text, jsonb) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.import_requests(uuid, text, jsonb) TO authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Email Dispatch Cursor
+
+  ## Overview
+  The dispatcher read `request_activity` from `last_activity_at` onwards, 200
+  rows at a time, and moved the cursor to the last row's `created_at`. Every
+  row written in one transaction shares the same `now()`, so a bulk action or
+  an import batch could write more than 200 rows with one timestamp and the
+  cursor would never move past them.
+
+  ## Changes
+  - `email_dispatch_state.last_activity_id` (uuid) - Id of the last activity
+    dispatched. The dispatcher now pages on `(created_at, id)`
+  - `idx_activity_created_at_id` so that order is served by an index
+
+  ## Security Notes
+  - No policy changes. Dispatch state stays service role only
+*/
+
+ALTER TABLE email_dispatch_state ADD COLUMN IF NOT EXISTS last_activity_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_activity_created_at_id ON request_activity(created_at, id);
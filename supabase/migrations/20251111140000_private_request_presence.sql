@@ -0,0 +1,67 @@
+/*
+  # Private Request Presence
+
+  ## Overview
+  "Who is viewing" presence used one public channel for the whole app, so
+  every signed-in user received every viewer's name, avatar and request id,
+  including for requests they cannot open. Presence now runs on one private
+  channel per request, `request:<id>`, and Realtime Authorization only lets
+  users who can view that request join it.
+
+  ## Changes
+  - `can_view_request_topic(topic)` - True when the topic is `request:<uuid>`
+    and the caller can view that request
+  - Policies on `realtime.messages` letting such users read and send presence
+    on the request's topic
+
+  ## Security Notes
+  - Topics that are not a well-formed request topic are always denied
+  - Only presence is allowed; broadcast on these topics stays closed
+*/
+
+-- ============================================
+-- STEP 1: TOPIC CHECK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.can_view_request_topic(p_topic text)
+RETURNS boolean
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF p_topic IS NULL OR p_topic !~ '^request:[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$' THEN
+    RETURN false;
+  END IF;
+
+  RETURN public.can_view_request(substring(p_topic FROM 9)::uuid);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_view_request_topic(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.can_view_request_topic(text) TO authenticated;
+
+-- ============================================
+-- STEP 2: REALTIME AUTHORIZATION
+-- ============================================
+
+DROP POLICY IF EXISTS "Request viewers can read presence" ON realtime.messages;
+CREATE POLICY "Request viewers can read presence"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND public.can_view_request_topic((SELECT realtime.topic()))
+  );
+
+DROP POLICY IF EXISTS "Request viewers can track presence" ON realtime.messages;
+CREATE POLICY "Request viewers can track presence"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND public.can_view_request_topic((SELECT realtime.topic()))
+  );
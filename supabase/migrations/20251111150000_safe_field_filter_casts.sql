@@ -0,0 +1,129 @@
+/*
+  # Safe Field Filter Casts
+
+  ## Overview
+  Field filters come from the URL (`cf=<field id>:<op>:<value>`), so a shared
+  or hand-edited link can carry a value that does not fit the field, such as
+  `abc` for a number field. `request_field_matches()` cast those values
+  directly, and one bad value failed the whole request list.
+
+  ## Changes
+  - `filter_numeric(text)`, `filter_date(text)`, `filter_boolean(text)` -
+    Parse a filter value, returning NULL instead of raising when it does not
+    fit the type. The casts happen in plpgsql so the planner cannot fold them
+    early, which it may do inside a CASE
+  - `request_field_matches()` uses them; a filter value that does not parse
+    simply matches nothing, and a missing range bound stays open
+
+  ## Security Notes
+  - No policy changes. `request_field_matches()` stays SECURITY INVOKER
+*/
+
+-- ============================================
+-- STEP 1: TOLERANT PARSERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.filter_numeric(p_value text)
+RETURNS numeric
+SET search_path = public
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN p_value::numeric;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.filter_date(p_value text)
+RETURNS date
+SET search_path = public
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_value !~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN p_value::date;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.filter_boolean(p_value text)
+RETURNS boolean
+SET search_path = public
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN p_value::boolean;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.filter_numeric(text) FROM public, anon;
+REVOKE ALL ON FUNCTION public.filter_date(text) FROM public, anon;
+REVOKE ALL ON FUNCTION public.filter_boolean(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.filter_numeric(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.filter_date(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.filter_boolean(text) TO authenticated;
+
+-- ============================================
+-- STEP 2: FIELD MATCHING
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.request_field_matches(
+  p_request_id uuid,
+  p_request_type_id uuid,
+  p_filter jsonb
+)
+RETURNS boolean
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE p_filter->>'op'
+    WHEN 'empty' THEN
+      EXISTS (
+        SELECT 1 FROM request_type_fields d
+        WHERE d.id = (p_filter->>'field')::uuid AND d.request_type_id = p_request_type_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM request_field_values v
+        WHERE v.request_id = p_request_id AND v.field_id = (p_filter->>'field')::uuid
+      )
+    ELSE EXISTS (
+      SELECT 1 FROM request_field_values v
+      JOIN request_type_fields d ON d.id = v.field_id
+      WHERE v.request_id = p_request_id
+      AND v.field_id = (p_filter->>'field')::uuid
+      AND CASE p_filter->>'op'
+        WHEN 'eq' THEN
+          CASE d.field_type
+            WHEN 'number' THEN v.value_number = public.filter_numeric(p_filter->>'value')
+            WHEN 'date' THEN v.value_date = public.filter_date(p_filter->>'value')
+            WHEN 'checkbox' THEN v.value_boolean = public.filter_boolean(p_filter->>'value')
+            ELSE lower(v.value_text) = lower(p_filter->>'value')
+          END
+        WHEN 'contains' THEN
+          v.value_text ILIKE '%' || replace(replace(replace(p_filter->>'value', '\', '\\'), '%', '\%'), '_', '\_') || '%'
+        WHEN 'range' THEN
+          CASE d.field_type
+            WHEN 'number' THEN
+              (p_filter->>'from' IS NULL OR v.value_number >= public.filter_numeric(p_filter->>'from'))
+              AND (p_filter->>'to' IS NULL OR v.value_number <= public.filter_numeric(p_filter->>'to'))
+            WHEN 'date' THEN
+              (p_filter->>'from' IS NULL OR v.value_date >= public.filter_date(p_filter->>'from'))
+              AND (p_filter->>'to' IS NULL OR v.value_date <= public.filter_date(p_filter->>'to'))
+            ELSE false
+          END
+        ELSE false
+      END
+    )
+  END;
+$$;
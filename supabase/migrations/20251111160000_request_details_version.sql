@@ -0,0 +1,106 @@
+/*
+  # Request Details Version
+
+  ## Overview
+  `update_request_details()` detected conflicting edits by comparing
+  `requests.updated_at`, which every write moves: status changes, priority
+  escalations, assignments. Editors got "changed by someone else" conflicts
+  for changes that had nothing to do with what they were editing.
+
+  ## Changes
+  - `requests.details_version` (integer) - Bumped by a trigger whenever the
+    title, description or due date changes, and only then. Clients cannot
+    set it directly
+  - `update_request_details(p_request_id, p_title, p_description, p_due_date,
+    p_expected_version)` replaces the `p_expected_updated_at` version and
+    raises `serialization_failure` (40001) when `details_version` moved
+
+  ## Security Notes
+  - No new privileges: the RPC is still SECURITY INVOKER
+*/
+
+-- ============================================
+-- STEP 1: VERSION COLUMN
+-- ============================================
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS details_version integer NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_request_details_version()
+RETURNS trigger
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.title IS DISTINCT FROM NEW.title
+    OR OLD.description IS DISTINCT FROM NEW.description
+    OR OLD.due_date IS DISTINCT FROM NEW.due_date
+  THEN
+    NEW.details_version := OLD.details_version + 1;
+  ELSE
+    NEW.details_version := OLD.details_version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_details_version ON requests;
+CREATE TRIGGER on_request_details_version
+  BEFORE UPDATE ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.bump_request_details_version();
+
+-- ============================================
+-- STEP 2: EDIT RPC
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.update_request_details(uuid, text, text, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.update_request_details(
+  p_request_id uuid,
+  p_title text,
+  p_description text,
+  p_due_date timestamptz,
+  p_expected_version integer
+)
+RETURNS requests
+SECURITY INVOKER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  updated requests%ROWTYPE;
+  current_version integer;
+BEGIN
+  IF p_title IS NULL OR length(btrim(p_title)) = 0 THEN
+    RAISE EXCEPTION 'Title is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE requests
+  SET title = btrim(p_title),
+      description = NULLIF(btrim(p_description), ''),
+      due_date = p_due_date
+  WHERE id = p_request_id
+    AND details_version = p_expected_version
+  RETURNING * INTO updated;
+
+  IF NOT FOUND THEN
+    SELECT details_version INTO current_version
+    FROM requests
+    WHERE id = p_request_id;
+
+    IF FOUND AND current_version IS DISTINCT FROM p_expected_version THEN
+      RAISE EXCEPTION 'Request was changed by someone else'
+        USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    RAISE EXCEPTION 'Request not found or not editable'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.update_request_details(uuid, text, text, timestamptz, integer) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.update_request_details(uuid, text, text, timestamptz, integer) TO authenticated;
@@ -0,0 +1,19 @@
+/*
+  # Notification Read-Only Updates
+
+  ## Overview
+  "Users can update own notifications" let users rewrite any column of their
+  own notifications, including `message`, `type` and `request_id`. The app
+  only ever marks notifications read, so that is all users may now change.
+
+  ## Changes
+  - Table-wide UPDATE on `notifications` is revoked from `authenticated` and
+    `anon`; `authenticated` gets UPDATE on `read_at` only. The row policy
+    still limits updates to the user's own notifications
+
+  ## Security Notes
+  - Notifications are still created only by `create_notifications()`
+*/
+
+REVOKE UPDATE ON notifications FROM authenticated, anon;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
@@ -0,0 +1,65 @@
+/*
+  # SLA First Response by Staff Only
+
+  ## Overview
+  `track_request_sla()` stopped the first-response clock on any status
+  change, including one the requester made themselves, such as rejecting
+  (cancelling) their own request. A first response now has to come from
+  staff, matching the rule comments already follow.
+
+  ## Changes
+  - `track_request_sla()` only sets `first_responded_at` when the status is
+    changed by an admin or team member of the request's team who is not its
+    creator. Pausing and resolution tracking are unchanged
+  - Status changes made without a user (jobs running with the service role)
+    do not count as a response either
+
+  ## Notes
+  - Existing clocks are left as they are, so SLA history and breaches
+    already logged do not change
+*/
+
+-- Entering under_review pauses the clock; leaving it adds the paused
+-- business time to paused_minutes.
+CREATE OR REPLACE FUNCTION public.track_request_sla()
+RETURNS trigger
+SECURITY DEFINER
+SET search_path = public, auth
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  actor_id uuid := auth.uid();
+  staff_response boolean;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO request_sla_clocks (request_id) VALUES (NEW.id)
+    ON CONFLICT (request_id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  staff_response := actor_id IS NOT NULL
+    AND actor_id <> NEW.created_by
+    AND public.team_role_of(NEW.team_id, actor_id) IN ('admin', 'team_member');
+
+  UPDATE request_sla_clocks c
+  SET
+    first_responded_at = CASE
+      WHEN c.first_responded_at IS NULL AND staff_response THEN now()
+      ELSE c.first_responded_at
+    END,
+    paused_minutes = c.paused_minutes + CASE
+      WHEN c.paused_at IS NOT NULL THEN public.business_minutes_between(NEW.team_id, c.paused_at, now())
+      ELSE 0
+    END,
+    paused_at = CASE WHEN NEW.status = 'under_review' THEN now() ELSE NULL END,
+    resolved_at = CASE WHEN NEW.status IN ('completed', 'rejected') THEN now() ELSE NULL END,
+    updated_at = now()
+  WHERE c.request_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
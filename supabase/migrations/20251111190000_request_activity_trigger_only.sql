@@ -0,0 +1,26 @@
+/*
+  # Request Activity Written By Triggers Only
+
+  ## Overview
+  "System can insert activity" let any signed-in user insert request_activity
+  rows for any request as long as `user_id` was their own. Those rows feed
+  `notify_on_request_activity()` and the email dispatcher, so a user could
+  send notifications and emails about requests they cannot even open.
+
+  Every legitimate activity row is written by a SECURITY DEFINER trigger or
+  function (`log_request_created()`, `log_request_status_change()`,
+  `log_file_upload()`, `log_comment_added()`, the due date jobs,
+  `record_sla_breaches()` and `import_requests()`), none of which need the
+  policy.
+
+  ## Changes
+  - Dropped the "System can insert activity" INSERT policy
+  - INSERT on `request_activity` is revoked from `authenticated` and `anon`
+
+  ## Security Notes
+  - Activity can still be read by anyone who can view the request
+*/
+
+DROP POLICY IF EXISTS "System can insert activity" ON request_activity;
+
+REVOKE INSERT ON request_activity FROM authenticated, anon;
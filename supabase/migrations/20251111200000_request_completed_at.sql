@@ -0,0 +1,76 @@
+/*
+  # Request Completion Time
+
+  ## Overview
+  The dashboard's "Completed this month" count used `updated_at`, which later
+  edits and jobs also move, and then an inner join on
+  `request_sla_clocks.resolved_at`, which leaves out requests without a clock
+  row. Requests now record when they were completed.
+
+  ## Changes
+  - `requests.completed_at` (timestamptz) - Set by a trigger when the status
+    becomes `completed`, cleared when the request is reopened. Clients cannot
+    set it directly
+  - Existing completed requests take the time of their last change to
+    `completed` from `request_activity`, or `updated_at` when there is none
+
+  ## Security Notes
+  - No new privileges; the trigger overrides any value a client sends
+*/
+
+-- ============================================
+-- STEP 1: COLUMN AND BACKFILL
+-- ============================================
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+-- The backfill must not move updated_at or log activity
+ALTER TABLE requests DISABLE TRIGGER USER;
+
+UPDATE requests r
+SET completed_at = COALESCE(
+  (
+    SELECT max(a.created_at) FROM request_activity a
+    WHERE a.request_id = r.id
+    AND a.activity_type = 'status_changed'
+    AND a.new_value = 'completed'
+  ),
+  r.updated_at
+)
+WHERE r.status = 'completed' AND r.completed_at IS NULL;
+
+ALTER TABLE requests ENABLE TRIGGER USER;
+
+-- ============================================
+-- STEP 2: TRIGGER
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.set_request_completed_at()
+RETURNS trigger
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status <> 'completed' THEN
+    NEW.completed_at := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.status <> 'completed' THEN
+    NEW.completed_at := now();
+  ELSE
+    NEW.completed_at := OLD.completed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_request_completed_at ON requests;
+CREATE TRIGGER on_request_completed_at
+  BEFORE INSERT OR UPDATE ON requests
+  FOR EACH ROW EXECUTE FUNCTION public.set_request_completed_at();
+
+-- ============================================
+-- STEP 3: INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_requests_completed_at ON requests(team_id, completed_at)
+  WHERE completed_at IS NOT NULL;